@@ -0,0 +1,106 @@
+import type { AdapterPlugin } from "./plugin.js";
+import { ADAPTER_PLUGIN_API_VERSION, defaultIsBossIdentity } from "./plugin.js";
+import { TelegramAdapter } from "./telegram.adapter.js";
+import { DiscordAdapter } from "./discord.adapter.js";
+import { SlackAdapter } from "./slack.adapter.js";
+import { WebAdapter } from "./web.adapter.js";
+import { EmailAdapter } from "./email.adapter.js";
+import { isValidTelegramBotToken, TELEGRAM_MAX_TEXT_CHARS } from "./telegram/shared.js";
+import { DISCORD_MAX_TEXT_CHARS, isDiscordSnowflake, isValidDiscordBotToken } from "./discord/shared.js";
+import { isValidSlackAdapterToken, SLACK_MAX_TEXT_CHARS } from "./slack/shared.js";
+import { generateWebAdapterToken, isValidWebAdapterToken, WEB_MAX_TEXT_CHARS } from "./web/shared.js";
+import { EMAIL_MAX_TEXT_CHARS, isValidEmailAdapterToken, normalizeEmailAddress } from "./email/shared.js";
+
+export const telegramAdapterPlugin: AdapterPlugin = {
+  apiVersion: ADAPTER_PLUGIN_API_VERSION,
+  platform: "telegram",
+  capabilities: {
+    reactions: true,
+    commands: true,
+    parseModes: ["plain", "markdownv2", "html"],
+    maxTextLength: TELEGRAM_MAX_TEXT_CHARS,
+  },
+  tokenFormat: "<bot-id>:<secret>",
+  validateToken: isValidTelegramBotToken,
+  createAdapter: (token) => new TelegramAdapter(token),
+};
+
+export const discordAdapterPlugin: AdapterPlugin = {
+  apiVersion: ADAPTER_PLUGIN_API_VERSION,
+  platform: "discord",
+  capabilities: {
+    reactions: true,
+    commands: true,
+    parseModes: ["plain"],
+    maxTextLength: DISCORD_MAX_TEXT_CHARS,
+  },
+  tokenFormat: "a Discord bot token",
+  validateToken: isValidDiscordBotToken,
+  // A user id matches the author id only: users can rename themselves to any digit string.
+  isBoss: (author, bossId) => {
+    const boss = bossId.trim();
+    return isDiscordSnowflake(boss) ? author.id === boss : defaultIsBossIdentity(author, boss);
+  },
+  createAdapter: (token, context) => new DiscordAdapter(token, { mediaDir: context.mediaDir }),
+};
+
+export const slackAdapterPlugin: AdapterPlugin = {
+  apiVersion: ADAPTER_PLUGIN_API_VERSION,
+  platform: "slack",
+  capabilities: {
+    reactions: true,
+    commands: true,
+    parseModes: ["plain"],
+    maxTextLength: SLACK_MAX_TEXT_CHARS,
+  },
+  tokenFormat: "<xoxb-bot-token>:<xapp-app-token>",
+  validateToken: isValidSlackAdapterToken,
+  // The boss id is a Slack user ID; display names are chosen by their users.
+  isBoss: (author, bossId) => bossId.length > 0 && author.id === bossId,
+  createAdapter: (token, context) => new SlackAdapter(token, { mediaDir: context.mediaDir }),
+};
+
+export const webAdapterPlugin: AdapterPlugin = {
+  apiVersion: ADAPTER_PLUGIN_API_VERSION,
+  platform: "web",
+  capabilities: {
+    reactions: true,
+    commands: true,
+    parseModes: ["plain"],
+    maxTextLength: WEB_MAX_TEXT_CHARS,
+  },
+  tokenFormat: "<port>:<secret>",
+  validateToken: isValidWebAdapterToken,
+  generateToken: () => generateWebAdapterToken(),
+  // The access secret is the only identity; whoever holds it is the boss.
+  requiresBossId: false,
+  isBoss: () => true,
+  createAdapter: (token, context) => new WebAdapter(token, { mediaDir: context.mediaDir }),
+};
+
+export const emailAdapterPlugin: AdapterPlugin = {
+  apiVersion: ADAPTER_PLUGIN_API_VERSION,
+  platform: "email",
+  capabilities: {
+    reactions: false,
+    commands: true,
+    parseModes: ["plain"],
+    maxTextLength: EMAIL_MAX_TEXT_CHARS,
+  },
+  tokenFormat: "<imap-url>|<smtp-url>",
+  validateToken: isValidEmailAdapterToken,
+  // Match the author id only: it is the sender address when verified, `unverified:<address>` otherwise.
+  isBoss: (author, bossId) => {
+    const boss = normalizeEmailAddress(bossId);
+    return boss.length > 0 && author.id === boss;
+  },
+  createAdapter: (token, context) => new EmailAdapter(token, { mediaDir: context.mediaDir }),
+};
+
+export const BUILTIN_ADAPTER_PLUGINS: readonly AdapterPlugin[] = [
+  telegramAdapterPlugin,
+  discordAdapterPlugin,
+  slackAdapterPlugin,
+  webAdapterPlugin,
+  emailAdapterPlugin,
+];
@@ -0,0 +1,231 @@
+import assert from "assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import test from "node:test";
+import { WebSocketServer, type WebSocket } from "ws";
+import { DiscordAdapter } from "./discord.adapter.js";
+import type { ChannelMessage } from "./types.js";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+/**
+ * Local stand-in for Discord: REST routes over HTTP plus a gateway WebSocket on the same port.
+ */
+async function startFakeDiscord(): Promise<{
+  apiBaseUrl: string;
+  gatewayUrl: string;
+  requests: RecordedRequest[];
+  nextSocket: () => Promise<{ socket: WebSocket; identify: Record<string, unknown> }>;
+  waitForRequest: (predicate: (req: RecordedRequest) => boolean) => Promise<RecordedRequest>;
+  close: () => Promise<void>;
+}> {
+  const requests: RecordedRequest[] = [];
+  const requestWaiters: Array<{ predicate: (req: RecordedRequest) => boolean; resolve: (req: RecordedRequest) => void }> = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const recorded = { method: req.method ?? "", url: req.url ?? "", body: Buffer.concat(chunks).toString("utf8") };
+      requests.push(recorded);
+      for (const waiter of [...requestWaiters]) {
+        if (waiter.predicate(recorded)) {
+          requestWaiters.splice(requestWaiters.indexOf(waiter), 1);
+          waiter.resolve(recorded);
+        }
+      }
+
+      if (req.method === "GET" && req.url?.startsWith("/channels/")) {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ id: "c1", name: "general", type: 0 }));
+        return;
+      }
+      if (req.method === "POST" && /^\/channels\/[^/]+\/messages$/.test(req.url ?? "")) {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ id: String(requests.length) }));
+        return;
+      }
+      res.writeHead(204);
+      res.end();
+    });
+  });
+
+  const wss = new WebSocketServer({ server });
+  const socketWaiters: Array<(value: { socket: WebSocket; identify: Record<string, unknown> }) => void> = [];
+  wss.on("connection", (socket) => {
+    socket.once("message", (raw) => {
+      const payload = JSON.parse(raw.toString()) as { op: number; d: Record<string, unknown> };
+      assert.equal(payload.op, 2);
+      socketWaiters.shift()?.({ socket, identify: payload.d });
+    });
+    socket.send(JSON.stringify({ op: 10, d: { heartbeat_interval: 45_000 } }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as { port: number }).port;
+
+  return {
+    apiBaseUrl: `http://127.0.0.1:${port}`,
+    gatewayUrl: `ws://127.0.0.1:${port}`,
+    requests,
+    nextSocket: () => new Promise((resolve) => socketWaiters.push(resolve)),
+    waitForRequest: (predicate) => {
+      const existing = requests.find(predicate);
+      if (existing) return Promise.resolve(existing);
+      return new Promise((resolve) => requestWaiters.push({ predicate, resolve }));
+    },
+    close: async () => {
+      for (const client of wss.clients) client.terminate();
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+function dispatch(socket: WebSocket, seq: number, event: string, data: unknown): void {
+  socket.send(JSON.stringify({ op: 0, s: seq, t: event, d: data }));
+}
+
+test("Discord adapter routes gateway messages, commands, replies and reactions", async () => {
+  const fake = await startFakeDiscord();
+  const mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-discord-"));
+  const adapter = new DiscordAdapter("test-token", {
+    apiBaseUrl: fake.apiBaseUrl,
+    gatewayUrl: fake.gatewayUrl,
+    mediaDir,
+  });
+
+  const received: ChannelMessage[] = [];
+  let resolveMessage!: () => void;
+  const messageArrived = new Promise<void>((resolve) => {
+    resolveMessage = resolve;
+  });
+  adapter.onMessage((message) => {
+    received.push(message);
+    resolveMessage();
+  });
+  const commands: string[] = [];
+  adapter.onCommand((command) => {
+    commands.push(`${command.command}:${command.authorUsername}`);
+    return command.authorUsername === "boss" ? { text: "status: idle" } : undefined;
+  });
+
+  try {
+    const connected = fake.nextSocket();
+    await adapter.start();
+    const { socket, identify } = await connected;
+    assert.equal(identify.token, "test-token");
+    assert.equal(typeof identify.intents, "number");
+
+    dispatch(socket, 1, "READY", { session_id: "s1", application: { id: "app1" }, user: { id: "bot1" } });
+    const registration = await fake.waitForRequest((r) => r.url === "/applications/app1/commands");
+    assert.deepEqual(
+      (JSON.parse(registration.body) as Array<{ name: string }>).map((c) => c.name),
+      ["new", "status", "abort"]
+    );
+
+    // Bot messages (including our own) are ignored.
+    dispatch(socket, 2, "MESSAGE_CREATE", {
+      id: "m0",
+      channel_id: "c1",
+      type: 0,
+      author: { id: "bot1", username: "hiboss-bot", bot: true },
+      content: "echo",
+    });
+    dispatch(socket, 3, "MESSAGE_CREATE", {
+      id: "m1",
+      channel_id: "c1",
+      guild_id: "g1",
+      type: 19,
+      author: { id: "u1", username: "boss", global_name: "Boss" },
+      content: "hello agent",
+      referenced_message: { id: "m0", author: { id: "bot1", username: "hiboss-bot" }, content: "echo" },
+    });
+    await messageArrived;
+
+    assert.equal(received.length, 1);
+    const msg = received[0]!;
+    assert.equal(msg.platform, "discord");
+    assert.equal(msg.id, "m1");
+    assert.equal(msg.chat.id, "c1");
+    assert.equal(msg.chat.name, "#general");
+    assert.deepEqual(msg.author, { id: "u1", username: "boss", displayName: "Boss" });
+    assert.equal(msg.content.text, "hello agent");
+    assert.equal(msg.inReplyTo?.channelMessageId, "m0");
+    assert.equal(msg.inReplyTo?.text, "echo");
+
+    // Plain-text command from the boss is answered in the channel.
+    dispatch(socket, 4, "MESSAGE_CREATE", {
+      id: "m2",
+      channel_id: "c1",
+      type: 0,
+      author: { id: "u1", username: "boss" },
+      content: "/status",
+    });
+    const commandReply = await fake.waitForRequest(
+      (r) => r.method === "POST" && r.url === "/channels/c1/messages" && r.body.includes("status: idle")
+    );
+    assert.equal(JSON.parse(commandReply.body).content, "status: idle");
+
+    // Slash command from a non-boss user gets a private refusal.
+    dispatch(socket, 5, "INTERACTION_CREATE", {
+      id: "i1",
+      token: "itoken",
+      type: 2,
+      application_id: "app1",
+      channel_id: "c1",
+      data: { name: "abort" },
+      member: { user: { id: "u2", username: "someone" } },
+    });
+    const interactionReply = await fake.waitForRequest((r) => r.url === "/interactions/i1/itoken/callback");
+    const interactionBody = JSON.parse(interactionReply.body) as { type: number; data: { flags?: number } };
+    assert.equal(interactionBody.type, 4);
+    assert.equal(interactionBody.data.flags, 64);
+    assert.deepEqual(commands, ["status:boss", "abort:someone"]);
+
+    await adapter.sendMessage("c1", { text: "reply text" }, { replyToMessageId: "m1" });
+    const sent = fake.requests.filter((r) => r.method === "POST" && r.url === "/channels/c1/messages").at(-1)!;
+    assert.deepEqual(JSON.parse(sent.body), {
+      content: "reply text",
+      message_reference: { message_id: "m1", fail_if_not_exists: false },
+    });
+
+    await adapter.setReaction("c1", "m1", "👍");
+    assert.ok(
+      fake.requests.some(
+        (r) => r.method === "PUT" && r.url === `/channels/c1/messages/m1/reactions/${encodeURIComponent("👍")}/@me`
+      )
+    );
+  } finally {
+    await adapter.stop();
+    await fake.close();
+    fs.rmSync(mediaDir, { recursive: true, force: true });
+  }
+});
+
+test("Discord outgoing uploads local attachments with the text as content", async () => {
+  const fake = await startFakeDiscord();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-discord-"));
+  const filePath = path.join(dir, "report.txt");
+  fs.writeFileSync(filePath, "hello", "utf8");
+  const adapter = new DiscordAdapter("test-token", { apiBaseUrl: fake.apiBaseUrl, gatewayUrl: fake.gatewayUrl });
+
+  try {
+    await adapter.sendMessage("c9", { text: "see file", attachments: [{ source: filePath }] });
+    const upload = fake.requests.find((r) => r.url === "/channels/c9/messages");
+    assert.ok(upload);
+    assert.ok(upload.body.includes('name="payload_json"'));
+    assert.ok(upload.body.includes('"content":"see file"'));
+    assert.ok(upload.body.includes('filename="report.txt"'));
+    assert.equal(fake.requests.filter((r) => r.url === "/channels/c9/messages").length, 1);
+  } finally {
+    await fake.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
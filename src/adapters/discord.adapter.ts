@@ -0,0 +1,265 @@
+import type {
+  ChatAdapter,
+  ChannelMessageHandler,
+  MessageContent,
+  ChannelCommandHandler,
+  ChannelCommand,
+  SendMessageOptions,
+} from "./types.js";
+import { splitTextIntoChunks } from "./types.js";
+import { getHiBossPaths } from "../shared/hiboss-paths.js";
+import { DiscordGateway } from "./discord/gateway.js";
+import { DiscordRestClient } from "./discord/rest.js";
+import {
+  buildDiscordChannelMessage,
+  isUserContentMessage,
+  type DiscordMessage,
+  type DiscordUser,
+} from "./discord/incoming.js";
+import { sendDiscordMessage } from "./discord/outgoing.js";
+import {
+  DISCORD_EPHEMERAL_FLAG,
+  DISCORD_GATEWAY_INTENTS,
+  DISCORD_MAX_TEXT_CHARS,
+} from "./discord/shared.js";
+
+const COMMANDS = [
+  { name: "new", description: "Start a fresh session for the bound agent" },
+  { name: "status", description: "Show the bound agent's status" },
+  { name: "abort", description: "Cancel the current run and clear due pending messages" },
+] as const;
+
+const COMMAND_NAMES: ReadonlySet<string> = new Set(COMMANDS.map((c) => c.name));
+
+// Interaction types / callback types (Discord API).
+const INTERACTION_APPLICATION_COMMAND = 2;
+const CALLBACK_CHANNEL_MESSAGE = 4;
+
+interface DiscordInteraction {
+  id: string;
+  token: string;
+  type: number;
+  application_id: string;
+  channel_id?: string;
+  data?: { name?: string };
+  member?: { user?: DiscordUser };
+  user?: DiscordUser;
+}
+
+export interface DiscordAdapterOptions {
+  /** REST base URL (default: Discord API v10). */
+  apiBaseUrl?: string;
+  /** Gateway URL override; skips `GET /gateway/bot`. */
+  gatewayUrl?: string;
+  mediaDir?: string;
+}
+
+/**
+ * Discord adapter for the chat bot (gateway for inbound, REST for outbound).
+ *
+ * Boss-only commands are available both as registered slash commands and as
+ * plain `/new`, `/status`, `/abort` messages.
+ */
+export class DiscordAdapter implements ChatAdapter {
+  readonly platform = "discord";
+  private rest: DiscordRestClient;
+  private gateway: DiscordGateway;
+  private handlers: ChannelMessageHandler[] = [];
+  private commandHandlers: ChannelCommandHandler[] = [];
+  private channelNames: Map<string, string | undefined> = new Map();
+  private mediaDir: string;
+  private commandsRegistered = false;
+  private started = false;
+
+  constructor(token: string, options: DiscordAdapterOptions = {}) {
+    this.rest = new DiscordRestClient(token, options.apiBaseUrl);
+    this.mediaDir = options.mediaDir ?? getHiBossPaths().mediaDir;
+    this.gateway = new DiscordGateway({
+      token,
+      intents: DISCORD_GATEWAY_INTENTS,
+      resolveUrl: async () => options.gatewayUrl ?? (await this.rest.getGatewayUrl()),
+      onDispatch: (event, data) => this.handleDispatch(event, data),
+      logPrefix: `[${this.platform}]`,
+    });
+  }
+
+  private static parseTextCommand(text: string): { command: string; args: string } | null {
+    const match = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i.exec(text.trim());
+    if (!match) return null;
+    const command = match[1].toLowerCase();
+    if (!COMMAND_NAMES.has(command)) return null;
+    return { command, args: (match[2] ?? "").trim() };
+  }
+
+  private handleDispatch(event: string, data: unknown): void {
+    switch (event) {
+      case "READY":
+        void this.registerCommands(data as { application?: { id?: string } });
+        return;
+      case "MESSAGE_CREATE":
+        void this.handleMessage(data as DiscordMessage).catch((err) => {
+          console.error(`[${this.platform}] message handler error:`, err);
+        });
+        return;
+      case "INTERACTION_CREATE":
+        void this.handleInteraction(data as DiscordInteraction).catch((err) => {
+          console.error(`[${this.platform}] interaction handler error:`, err);
+        });
+        return;
+    }
+  }
+
+  private async registerCommands(ready: { application?: { id?: string } }): Promise<void> {
+    const applicationId = ready.application?.id;
+    if (!applicationId || this.commandsRegistered) return;
+    try {
+      await this.rest.overwriteGlobalCommands(
+        applicationId,
+        COMMANDS.map((c) => ({ name: c.name, description: c.description, type: 1 }))
+      );
+      this.commandsRegistered = true;
+    } catch (err) {
+      // Text commands still work without registered slash commands.
+      console.error(`[${this.platform}] slash command registration failed:`, err);
+    }
+  }
+
+  private async collectCommandResponse(command: ChannelCommand): Promise<MessageContent | undefined> {
+    for (const handler of this.commandHandlers) {
+      try {
+        const result = await handler(command);
+        if (result && (typeof result.text === "string" || (result.attachments?.length ?? 0) > 0)) {
+          return result;
+        }
+      } catch (err) {
+        console.error(`[${this.platform}] command handler error:`, err);
+      }
+    }
+    return undefined;
+  }
+
+  private async resolveChannelName(msg: DiscordMessage): Promise<string | undefined> {
+    // DMs have no guild and no channel name.
+    if (!msg.guild_id) return undefined;
+    if (this.channelNames.has(msg.channel_id)) {
+      return this.channelNames.get(msg.channel_id);
+    }
+    let name: string | undefined;
+    try {
+      const channel = await this.rest.getChannel(msg.channel_id);
+      name = typeof channel.name === "string" && channel.name ? `#${channel.name}` : undefined;
+    } catch {
+      // Best-effort: the chat name is display-only.
+    }
+    this.channelNames.set(msg.channel_id, name);
+    return name;
+  }
+
+  private async handleMessage(msg: DiscordMessage): Promise<void> {
+    if (!isUserContentMessage(msg)) return;
+
+    const parsed = msg.content ? DiscordAdapter.parseTextCommand(msg.content) : null;
+    if (parsed) {
+      const response = await this.collectCommandResponse({
+        command: parsed.command,
+        args: parsed.args,
+        chatId: msg.channel_id,
+        authorId: msg.author.id,
+        authorUsername: msg.author.username,
+      });
+      if (!response?.text) {
+        // Boss-only commands: non-boss users get no reply.
+        return;
+      }
+      for (const chunk of splitTextIntoChunks(response.text, DISCORD_MAX_TEXT_CHARS)) {
+        await this.rest.createMessage(msg.channel_id, { content: chunk });
+      }
+      return;
+    }
+
+    if (!msg.content && !(msg.attachments?.length)) return;
+
+    const message = await buildDiscordChannelMessage({
+      platform: this.platform,
+      message: msg,
+      mediaDir: this.mediaDir,
+      chatName: await this.resolveChannelName(msg),
+    });
+
+    for (const handler of this.handlers) {
+      await handler(message);
+    }
+  }
+
+  private async handleInteraction(interaction: DiscordInteraction): Promise<void> {
+    if (interaction.type !== INTERACTION_APPLICATION_COMMAND) return;
+    const name = interaction.data?.name ?? "";
+    const user = interaction.member?.user ?? interaction.user;
+    if (!COMMAND_NAMES.has(name) || !interaction.channel_id) return;
+
+    const response = await this.collectCommandResponse({
+      command: name,
+      args: "",
+      chatId: interaction.channel_id,
+      authorId: user?.id,
+      authorUsername: user?.username,
+    });
+
+    if (!response?.text) {
+      // Discord requires an answer to every interaction; keep it private for non-boss users.
+      await this.rest.createInteractionResponse(interaction.id, interaction.token, {
+        type: CALLBACK_CHANNEL_MESSAGE,
+        data: { content: "access-denied: boss-only command", flags: DISCORD_EPHEMERAL_FLAG },
+      });
+      return;
+    }
+
+    const [first, ...rest] = splitTextIntoChunks(response.text, DISCORD_MAX_TEXT_CHARS);
+    await this.rest.createInteractionResponse(interaction.id, interaction.token, {
+      type: CALLBACK_CHANNEL_MESSAGE,
+      data: { content: first },
+    });
+    for (const chunk of rest) {
+      await this.rest.createFollowupMessage(interaction.application_id, interaction.token, { content: chunk });
+    }
+  }
+
+  async sendMessage(chatId: string, content: MessageContent, options: SendMessageOptions = {}): Promise<void> {
+    await sendDiscordMessage(this.rest, chatId, content, options);
+  }
+
+  onMessage(handler: ChannelMessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  onCommand(handler: ChannelCommandHandler): void {
+    this.commandHandlers.push(handler);
+  }
+
+  async setReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    const trimmed = emoji.trim();
+    if (!trimmed) {
+      throw new Error("Reaction emoji is required");
+    }
+    await this.rest.createReaction(chatId, messageId.trim(), trimmed);
+  }
+
+  async setTyping(chatId: string): Promise<void> {
+    await this.rest.triggerTyping(chatId);
+  }
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return; // Already started, ignore duplicate calls
+    }
+    this.started = true;
+    console.log(`[${this.platform}] Bot starting...`);
+    this.gateway.start();
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+    this.gateway.stop();
+    console.log(`[${this.platform}] Bot stopped`);
+  }
+}
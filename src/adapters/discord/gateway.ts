@@ -0,0 +1,230 @@
+import WebSocket from "ws";
+import { computeReconnectBackoff, DISCORD_GATEWAY_VERSION, sleep } from "./shared.js";
+
+const OP_DISPATCH = 0;
+const OP_HEARTBEAT = 1;
+const OP_IDENTIFY = 2;
+const OP_RESUME = 6;
+const OP_RECONNECT = 7;
+const OP_INVALID_SESSION = 9;
+const OP_HELLO = 10;
+const OP_HEARTBEAT_ACK = 11;
+
+// Close codes after which reconnecting cannot help (bad token, intents, version, sharding).
+const FATAL_CLOSE_CODES = new Set([4004, 4010, 4011, 4012, 4013, 4014]);
+// Close codes after which the session cannot be resumed.
+const NON_RESUMABLE_CLOSE_CODES = new Set([4007, 4009]);
+
+interface GatewayPayload {
+  op: number;
+  d?: unknown;
+  s?: number | null;
+  t?: string | null;
+}
+
+export interface DiscordGatewayOptions {
+  token: string;
+  intents: number;
+  /** Resolve the gateway URL for fresh (non-resume) connections. */
+  resolveUrl: () => Promise<string>;
+  onDispatch: (event: string, data: unknown) => void;
+  logPrefix?: string;
+}
+
+/**
+ * Discord gateway connection (heartbeat, identify/resume, reconnect).
+ *
+ * Dispatch events (`MESSAGE_CREATE`, `INTERACTION_CREATE`, ...) are forwarded
+ * to `onDispatch`; everything else is handled internally.
+ */
+export class DiscordGateway {
+  private ws: WebSocket | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private heartbeatAcked = true;
+  private seq: number | null = null;
+  private sessionId: string | null = null;
+  private resumeUrl: string | null = null;
+  private stopped = true;
+  private reconnectAttempt = 0;
+  private readonly logPrefix: string;
+
+  constructor(private readonly options: DiscordGatewayOptions) {
+    this.logPrefix = options.logPrefix ?? "[discord]";
+  }
+
+  /**
+   * Connect in the background; reconnects until `stop()` or a fatal close code.
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    void this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clearHeartbeat();
+    const ws = this.ws;
+    this.ws = null;
+    if (ws && ws.readyState !== WebSocket.CLOSED) {
+      ws.close(1000);
+    }
+  }
+
+  private async connect(): Promise<void> {
+    let url: string;
+    try {
+      url = this.canResume() && this.resumeUrl ? this.resumeUrl : await this.options.resolveUrl();
+    } catch (err) {
+      console.error(`${this.logPrefix} Failed to resolve gateway URL:`, err);
+      this.scheduleReconnect();
+      return;
+    }
+    if (this.stopped) return;
+
+    const separator = url.includes("?") ? "&" : "?";
+    const ws = new WebSocket(`${url}${separator}v=${DISCORD_GATEWAY_VERSION}&encoding=json`);
+    this.ws = ws;
+
+    ws.on("message", (raw) => {
+      let payload: GatewayPayload;
+      try {
+        payload = JSON.parse(raw.toString()) as GatewayPayload;
+      } catch {
+        return;
+      }
+      this.handlePayload(ws, payload);
+    });
+
+    ws.on("error", (err) => {
+      console.error(`${this.logPrefix} Gateway error:`, err.message);
+    });
+
+    ws.on("close", (code) => {
+      if (this.ws === ws) this.ws = null;
+      this.clearHeartbeat();
+      if (this.stopped) return;
+
+      if (FATAL_CLOSE_CODES.has(code)) {
+        console.error(`${this.logPrefix} Gateway closed with fatal code ${code}; not reconnecting`);
+        this.stopped = true;
+        return;
+      }
+      if (NON_RESUMABLE_CLOSE_CODES.has(code)) {
+        this.resetSession();
+      }
+      this.scheduleReconnect();
+    });
+  }
+
+  private handlePayload(ws: WebSocket, payload: GatewayPayload): void {
+    if (typeof payload.s === "number") {
+      this.seq = payload.s;
+    }
+
+    switch (payload.op) {
+      case OP_HELLO: {
+        const interval = (payload.d as { heartbeat_interval?: unknown } | undefined)?.heartbeat_interval;
+        this.startHeartbeat(ws, typeof interval === "number" && interval > 0 ? interval : 41_250);
+        if (this.canResume()) {
+          this.send(ws, {
+            op: OP_RESUME,
+            d: { token: this.options.token, session_id: this.sessionId, seq: this.seq },
+          });
+        } else {
+          this.send(ws, {
+            op: OP_IDENTIFY,
+            d: {
+              token: this.options.token,
+              intents: this.options.intents,
+              properties: { os: process.platform, browser: "hiboss", device: "hiboss" },
+            },
+          });
+        }
+        return;
+      }
+      case OP_HEARTBEAT:
+        this.send(ws, { op: OP_HEARTBEAT, d: this.seq });
+        return;
+      case OP_HEARTBEAT_ACK:
+        this.heartbeatAcked = true;
+        return;
+      case OP_RECONNECT:
+        ws.close(4000);
+        return;
+      case OP_INVALID_SESSION:
+        if (payload.d !== true) {
+          this.resetSession();
+        }
+        ws.close(4000);
+        return;
+      case OP_DISPATCH:
+        this.handleDispatch(payload.t ?? "", payload.d);
+        return;
+    }
+  }
+
+  private handleDispatch(event: string, data: unknown): void {
+    if (event === "READY") {
+      const ready = data as { session_id?: unknown; resume_gateway_url?: unknown };
+      this.sessionId = typeof ready.session_id === "string" ? ready.session_id : null;
+      this.resumeUrl = typeof ready.resume_gateway_url === "string" ? ready.resume_gateway_url : null;
+      this.reconnectAttempt = 0;
+    } else if (event === "RESUMED") {
+      this.reconnectAttempt = 0;
+    }
+
+    try {
+      this.options.onDispatch(event, data);
+    } catch (err) {
+      console.error(`${this.logPrefix} Dispatch handler error (${event}):`, err);
+    }
+  }
+
+  private startHeartbeat(ws: WebSocket, intervalMs: number): void {
+    this.clearHeartbeat();
+    this.heartbeatAcked = true;
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.heartbeatAcked) {
+        // Zombied connection: no ACK since the last heartbeat.
+        ws.terminate();
+        return;
+      }
+      this.heartbeatAcked = false;
+      this.send(ws, { op: OP_HEARTBEAT, d: this.seq });
+    }, intervalMs);
+    this.heartbeatTimer.unref?.();
+  }
+
+  private clearHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private canResume(): boolean {
+    return this.sessionId !== null && this.seq !== null;
+  }
+
+  private resetSession(): void {
+    this.sessionId = null;
+    this.resumeUrl = null;
+    this.seq = null;
+  }
+
+  private scheduleReconnect(): void {
+    const delayMs = computeReconnectBackoff(this.reconnectAttempt);
+    this.reconnectAttempt++;
+    console.log(`${this.logPrefix} Gateway disconnected, reconnecting in ${delayMs}ms`);
+    void sleep(delayMs).then(() => {
+      if (!this.stopped) void this.connect();
+    });
+  }
+
+  private send(ws: WebSocket, payload: GatewayPayload): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(payload));
+    }
+  }
+}
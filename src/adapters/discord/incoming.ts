@@ -0,0 +1,145 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { Attachment, ChannelMessage } from "../types.js";
+import { truncateText } from "./shared.js";
+
+export interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  bot?: boolean;
+}
+
+export interface DiscordAttachment {
+  id: string;
+  filename: string;
+  url: string;
+}
+
+/**
+ * Subset of the gateway `MESSAGE_CREATE` payload used by the adapter.
+ */
+export interface DiscordMessage {
+  id: string;
+  channel_id: string;
+  guild_id?: string;
+  type?: number;
+  author: DiscordUser;
+  member?: { nick?: string | null };
+  content?: string;
+  attachments?: DiscordAttachment[];
+  referenced_message?: {
+    id: string;
+    author?: DiscordUser;
+    member?: { nick?: string | null };
+    content?: string;
+  } | null;
+}
+
+// Message types that carry user content: DEFAULT and REPLY.
+const USER_MESSAGE_TYPES = new Set([0, 19]);
+
+export function isUserContentMessage(msg: DiscordMessage): boolean {
+  if (msg.author?.bot) return false;
+  return msg.type === undefined || USER_MESSAGE_TYPES.has(msg.type);
+}
+
+export function getDiscordDisplayName(user: DiscordUser, member?: { nick?: string | null }): string {
+  return member?.nick || user.global_name || user.username;
+}
+
+function extractInReplyTo(msg: DiscordMessage): ChannelMessage["inReplyTo"] | undefined {
+  const reply = msg.referenced_message;
+  if (!reply || typeof reply.id !== "string") return undefined;
+
+  const author = reply.author
+    ? {
+        id: reply.author.id,
+        username: reply.author.username,
+        displayName: getDiscordDisplayName(reply.author, reply.member),
+      }
+    : undefined;
+
+  return {
+    channelMessageId: reply.id,
+    author,
+    text: reply.content ? truncateText(reply.content, 1200) : undefined,
+  };
+}
+
+/**
+ * Get a unique file path in the given directory, adding incremental suffix for duplicates.
+ */
+function getUniqueFilePath(dir: string, filename: string): string {
+  const ext = path.extname(filename);
+  const base = path.basename(filename, ext);
+  let candidate = path.join(dir, filename);
+  let counter = 1;
+
+  while (fs.existsSync(candidate)) {
+    candidate = path.join(dir, `${base}_${counter}${ext}`);
+    counter++;
+  }
+  return candidate;
+}
+
+/**
+ * Download a Discord attachment (CDN URL) into the media directory.
+ */
+async function getDiscordAttachment(mediaDir: string, attachment: DiscordAttachment): Promise<Attachment> {
+  const response = await fetch(attachment.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download Discord attachment: ${response.status}`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+
+  if (!fs.existsSync(mediaDir)) {
+    fs.mkdirSync(mediaDir, { recursive: true });
+  }
+
+  const filename = path.basename(attachment.filename || "") || `file_${crypto.randomUUID()}.bin`;
+  const localPath = getUniqueFilePath(mediaDir, filename);
+  fs.writeFileSync(localPath, buffer);
+
+  return {
+    source: localPath,
+    filename,
+  };
+}
+
+export async function buildDiscordChannelMessage(params: {
+  platform: string;
+  message: DiscordMessage;
+  mediaDir: string;
+  chatName?: string;
+}): Promise<ChannelMessage> {
+  const msg = params.message;
+
+  const attachments: Attachment[] = [];
+  for (const attachment of msg.attachments ?? []) {
+    attachments.push(await getDiscordAttachment(params.mediaDir, attachment));
+  }
+
+  const text = msg.content ? msg.content : undefined;
+
+  return {
+    id: msg.id,
+    platform: params.platform,
+    author: {
+      id: msg.author.id,
+      username: msg.author.username,
+      displayName: getDiscordDisplayName(msg.author, msg.member),
+    },
+    inReplyTo: extractInReplyTo(msg),
+    chat: {
+      id: msg.channel_id,
+      name: params.chatName,
+    },
+    content: {
+      text,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    },
+    raw: msg,
+  };
+}
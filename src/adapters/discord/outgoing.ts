@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Attachment, MessageContent, SendMessageOptions } from "../types.js";
+import { splitTextIntoChunks } from "../types.js";
+import type { DiscordMessagePayload, DiscordUploadFile } from "./rest.js";
+import { DISCORD_MAX_FILES_PER_MESSAGE, DISCORD_MAX_TEXT_CHARS } from "./shared.js";
+
+type DiscordOutgoingApi = {
+  createMessage: (channelId: string, payload: DiscordMessagePayload, files?: DiscordUploadFile[]) => Promise<unknown>;
+};
+
+function resolveUploadFilename(candidate: string | undefined, fallback: string): string {
+  const trimmed = candidate?.trim();
+  if (trimmed) return path.basename(trimmed);
+  return path.basename(fallback) || "file.bin";
+}
+
+/**
+ * Load attachment bytes for upload (Discord has no "send by URL/file id" for bots).
+ */
+async function loadUploadFile(attachment: Attachment): Promise<DiscordUploadFile> {
+  const source = attachment.source;
+
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Discord attachment source: ${response.status}`);
+    }
+    const urlPath = new URL(source).pathname;
+    return {
+      filename: resolveUploadFilename(attachment.filename, urlPath),
+      data: Buffer.from(await response.arrayBuffer()),
+    };
+  }
+
+  const resolvedPath = path.resolve(source);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Discord attachment source file not found: ${resolvedPath}`);
+  }
+  return {
+    filename: resolveUploadFilename(attachment.filename, resolvedPath),
+    data: await fs.promises.readFile(resolvedPath),
+  };
+}
+
+/**
+ * Send an outgoing message to a Discord channel.
+ *
+ * Discord always renders markdown, so `parseMode` is ignored. `replyToMessageId`
+ * applies to the first message sent; a missing target does not fail the send.
+ */
+export async function sendDiscordMessage(
+  api: DiscordOutgoingApi,
+  channelId: string,
+  content: MessageContent,
+  options: SendMessageOptions = {}
+): Promise<void> {
+  const text = typeof content.text === "string" && content.text.trim() ? content.text : undefined;
+  const attachments = content.attachments ?? [];
+  const replyTo = options.replyToMessageId?.trim();
+
+  let replied = false;
+  const nextReference = (): DiscordMessagePayload["message_reference"] => {
+    if (!replyTo || replied) return undefined;
+    replied = true;
+    return { message_id: replyTo, fail_if_not_exists: false };
+  };
+
+  const textChunks = text ? splitTextIntoChunks(text, DISCORD_MAX_TEXT_CHARS) : [];
+
+  // Short text rides along with the first batch of files; long text is sent first on its own.
+  const textWithFiles = attachments.length > 0 && textChunks.length === 1 ? textChunks.pop() : undefined;
+  for (const chunk of textChunks) {
+    await api.createMessage(channelId, { content: chunk, message_reference: nextReference() });
+  }
+
+  for (let i = 0; i < attachments.length; i += DISCORD_MAX_FILES_PER_MESSAGE) {
+    const batch = attachments.slice(i, i + DISCORD_MAX_FILES_PER_MESSAGE);
+    const files: DiscordUploadFile[] = [];
+    for (const attachment of batch) {
+      files.push(await loadUploadFile(attachment));
+    }
+    await api.createMessage(
+      channelId,
+      {
+        ...(i === 0 && textWithFiles ? { content: textWithFiles } : {}),
+        message_reference: nextReference(),
+      },
+      files
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { DISCORD_API_BASE_URL, DiscordApiError, sleep } from "./shared.js";
+
+export interface DiscordUploadFile {
+  filename: string;
+  data: Buffer;
+}
+
+export interface DiscordMessagePayload {
+  content?: string;
+  flags?: number;
+  message_reference?: {
+    message_id: string;
+    fail_if_not_exists?: boolean;
+  };
+}
+
+export interface DiscordApplicationCommand {
+  name: string;
+  description: string;
+  type?: number;
+}
+
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/**
+ * Minimal Discord REST client (only the endpoints the adapter uses).
+ *
+ * `baseUrl` is overridable so tests can point the adapter at a local stub.
+ */
+export class DiscordRestClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly token: string,
+    baseUrl: string = DISCORD_API_BASE_URL
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async getGatewayUrl(): Promise<string> {
+    const result = await this.request<{ url?: unknown }>("GET", "/gateway/bot");
+    if (typeof result.url !== "string" || !result.url) {
+      throw new Error("Discord gateway URL missing from /gateway/bot response");
+    }
+    return result.url;
+  }
+
+  async getChannel(channelId: string): Promise<{ id: string; name?: string; type?: number }> {
+    return await this.request("GET", `/channels/${encodeURIComponent(channelId)}`);
+  }
+
+  async createMessage(
+    channelId: string,
+    payload: DiscordMessagePayload,
+    files: DiscordUploadFile[] = []
+  ): Promise<{ id: string }> {
+    return await this.request("POST", `/channels/${encodeURIComponent(channelId)}/messages`, payload, files);
+  }
+
+  async createReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    await this.request(
+      "PUT",
+      `/channels/${encodeURIComponent(channelId)}/messages/${encodeURIComponent(messageId)}/reactions/${encodeURIComponent(emoji)}/@me`
+    );
+  }
+
+  async triggerTyping(channelId: string): Promise<void> {
+    await this.request("POST", `/channels/${encodeURIComponent(channelId)}/typing`);
+  }
+
+  async overwriteGlobalCommands(applicationId: string, commands: DiscordApplicationCommand[]): Promise<void> {
+    await this.request("PUT", `/applications/${encodeURIComponent(applicationId)}/commands`, commands);
+  }
+
+  async createInteractionResponse(
+    interactionId: string,
+    interactionToken: string,
+    body: { type: number; data?: DiscordMessagePayload }
+  ): Promise<void> {
+    await this.request(
+      "POST",
+      `/interactions/${encodeURIComponent(interactionId)}/${encodeURIComponent(interactionToken)}/callback`,
+      body
+    );
+  }
+
+  async createFollowupMessage(
+    applicationId: string,
+    interactionToken: string,
+    payload: DiscordMessagePayload
+  ): Promise<void> {
+    await this.request(
+      "POST",
+      `/webhooks/${encodeURIComponent(applicationId)}/${encodeURIComponent(interactionToken)}`,
+      payload
+    );
+  }
+
+  private async request<T>(
+    method: string,
+    route: string,
+    body?: unknown,
+    files: DiscordUploadFile[] = []
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const headers: Record<string, string> = { Authorization: `Bot ${this.token}` };
+      let requestBody: string | FormData | undefined;
+
+      if (files.length > 0) {
+        const form = new FormData();
+        form.append("payload_json", JSON.stringify(body ?? {}));
+        files.forEach((file, index) => {
+          form.append(`files[${index}]`, new Blob([new Uint8Array(file.data)]), file.filename);
+        });
+        requestBody = form;
+      } else if (body !== undefined) {
+        headers["Content-Type"] = "application/json";
+        requestBody = JSON.stringify(body);
+      }
+
+      const response = await fetch(`${this.baseUrl}${route}`, { method, headers, body: requestBody });
+
+      if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const data = (await response.json().catch(() => ({}))) as { retry_after?: unknown };
+        const retryAfterSec = typeof data.retry_after === "number" ? data.retry_after : 1;
+        await sleep(Math.ceil(retryAfterSec * 1000));
+        continue;
+      }
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { message?: unknown; code?: unknown };
+        const description = typeof data.message === "string" ? data.message : response.statusText;
+        throw new DiscordApiError(
+          `Discord API error ${response.status}: ${description}`.trim(),
+          response.status,
+          typeof data.code === "number" ? data.code : undefined
+        );
+      }
+
+      if (response.status === 204) {
+        return undefined as T;
+      }
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+export const DISCORD_API_BASE_URL = "https://discord.com/api/v10";
+export const DISCORD_GATEWAY_VERSION = 10;
+
+// Discord limits (official API constraints):
+// - Message content: 2000 characters
+// - Files per message: 10
+export const DISCORD_MAX_TEXT_CHARS = 2000;
+export const DISCORD_MAX_FILES_PER_MESSAGE = 10;
+
+// Gateway intents: GUILDS | GUILD_MESSAGES | DIRECT_MESSAGES | MESSAGE_CONTENT (privileged).
+export const DISCORD_GATEWAY_INTENTS = (1 << 0) | (1 << 9) | (1 << 12) | (1 << 15);
+
+// Interaction callback flag: only the invoking user sees the response.
+export const DISCORD_EPHEMERAL_FLAG = 1 << 6;
+
+// Bot tokens are three dot-separated base64url segments (user id, timestamp, HMAC).
+const DISCORD_BOT_TOKEN_REGEX = /^[A-Za-z0-9_-]{18,}\.[A-Za-z0-9_-]{4,}\.[A-Za-z0-9_-]{20,}$/;
+
+export function isValidDiscordBotToken(token: string): boolean {
+  return DISCORD_BOT_TOKEN_REGEX.test(token.trim());
+}
+
+// User ids are snowflakes: 64-bit integers serialized as decimal strings.
+const DISCORD_SNOWFLAKE_REGEX = /^\d{17,20}$/;
+
+export function isDiscordSnowflake(value: string): boolean {
+  return DISCORD_SNOWFLAKE_REGEX.test(value);
+}
+
+/**
+ * Error thrown for non-2xx Discord REST responses.
+ *
+ * `code` is Discord's JSON error code (e.g. 50013 "Missing Permissions"), when present.
+ */
+export class DiscordApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: number
+  ) {
+    super(message);
+    this.name = "DiscordApiError";
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function computeReconnectBackoff(attempt: number): number {
+  const initialMs = 1000;
+  const maxMs = 60_000;
+  const base = Math.min(initialMs * Math.pow(2, attempt), maxMs);
+  const variance = base * 0.25 * (Math.random() * 2 - 1);
+  return Math.round(base + variance);
+}
+
+export function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return text.slice(0, maxChars) + "\n\n[...truncated...]\n";
+}
@@ -0,0 +1,224 @@
+import type {
+  ChatAdapter,
+  ChannelMessageHandler,
+  MessageContent,
+  ChannelCommandHandler,
+  SendMessageOptions,
+} from "./types.js";
+import { getHiBossPaths } from "../shared/hiboss-paths.js";
+import { ImapSession } from "./email/imap.js";
+import { sendSmtpMail } from "./email/smtp.js";
+import { getMailHeader, htmlToText, parseMail, stripQuotedReply, type ParsedMail } from "./email/mime.js";
+import {
+  buildEmailChannelMessage,
+  getEmailThreadInfo,
+  isVerifiedSender,
+  EMAIL_UNVERIFIED_AUTHOR_PREFIX,
+  type EmailThreadEntry,
+} from "./email/incoming.js";
+import { buildEmailMessage } from "./email/outgoing.js";
+import { EMAIL_MAX_MESSAGE_BYTES, parseEmailAdapterToken, type EmailAdapterConfig } from "./email/shared.js";
+
+const COMMAND_NAMES: ReadonlySet<string> = new Set(["new", "status", "abort"]);
+
+// Message ids remembered for reply threading and `inReplyTo` (oldest evicted first).
+const EMAIL_THREAD_CACHE_LIMIT = 1000;
+
+export interface EmailAdapterOptions {
+  mediaDir?: string;
+}
+
+/**
+ * Email adapter: polls an IMAP mailbox for unseen mail and sends over SMTP.
+ *
+ * The binding token is `<imap-url>|<smtp-url>` (see `parseEmailAdapterToken`). Chat ids are
+ * the counterpart's address; replies carry `In-Reply-To`/`References` so mail clients
+ * keep the thread.
+ */
+export class EmailAdapter implements ChatAdapter {
+  readonly platform = "email";
+  private config: EmailAdapterConfig | null;
+  private mediaDir: string;
+  private handlers: ChannelMessageHandler[] = [];
+  private commandHandlers: ChannelCommandHandler[] = [];
+  private threads: Map<string, EmailThreadEntry> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling: Promise<void> | null = null;
+  private started = false;
+
+  constructor(token: string, options: EmailAdapterOptions = {}) {
+    this.config = parseEmailAdapterToken(token);
+    this.mediaDir = options.mediaDir ?? getHiBossPaths().mediaDir;
+  }
+
+  private static parseTextCommand(text: string): { command: string; args: string } | null {
+    const match = /^\/([a-z]+)(?:[ \t]+(.*))?$/i.exec(text.trim().split("\n")[0]!.trim());
+    if (!match) return null;
+    const command = match[1]!.toLowerCase();
+    if (!COMMAND_NAMES.has(command)) return null;
+    return { command, args: (match[2] ?? "").trim() };
+  }
+
+  private rememberThread(messageId: string, entry: EmailThreadEntry): void {
+    this.threads.delete(messageId);
+    this.threads.set(messageId, entry);
+    if (this.threads.size > EMAIL_THREAD_CACHE_LIMIT) {
+      const oldest = this.threads.keys().next().value;
+      if (oldest !== undefined) this.threads.delete(oldest);
+    }
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.started) return;
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.polling = this.poll()
+        .catch((err) => {
+          console.error(`[${this.platform}] poll failed:`, err instanceof Error ? err.message : err);
+        })
+        .finally(() => {
+          this.polling = null;
+          this.schedulePoll(this.config!.imap.pollIntervalMs);
+        });
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    const config = this.config!;
+    const session = await ImapSession.open(config.imap);
+    try {
+      await session.select(config.imap.mailbox);
+      const uids = await session.searchUnseenUids();
+      const sizes = await session.fetchSizes(uids);
+      for (const uid of uids) {
+        if (!this.started) break;
+        const size = sizes.get(uid) ?? 0;
+        if (size > EMAIL_MAX_MESSAGE_BYTES) {
+          console.error(`[${this.platform}] skipping message uid=${uid} (${size} bytes exceeds limit)`);
+          await session.markSeen(uid);
+          continue;
+        }
+        const raw = await session.fetchMessage(uid);
+        if (raw) {
+          try {
+            await this.handleMail(parseMail(raw), uid);
+          } catch (err) {
+            console.error(`[${this.platform}] message handler error:`, err);
+          }
+        }
+        await session.markSeen(uid);
+      }
+    } finally {
+      await session.logout();
+    }
+  }
+
+  private async handleMail(mail: ParsedMail, uid: number): Promise<void> {
+    const config = this.config!;
+    const info = getEmailThreadInfo(mail);
+    if (!info) return;
+    const address = info.entry.from.address;
+    // Ignore our own mail (e.g. Bcc to self) and auto-replies, which would otherwise loop.
+    if (address === config.address) return;
+    const autoSubmitted = getMailHeader(mail, "auto-submitted")?.toLowerCase();
+    if (autoSubmitted && autoSubmitted !== "no") return;
+
+    const messageId = info.messageId ?? `uid-${uid}.${Date.now()}@${config.address.split("@")[1]}`;
+    const verified = !config.imap.verifySender || isVerifiedSender(mail, address, config.imap.authservId);
+    const body = stripQuotedReply(mail.text ?? (mail.html ? htmlToText(mail.html) : ""));
+    this.rememberThread(messageId, { ...info.entry, text: body || undefined });
+
+    const parsed = EmailAdapter.parseTextCommand(body || info.entry.subject);
+    if (parsed && mail.attachments.length === 0) {
+      await this.handleCommand(parsed, address, verified, messageId);
+      return;
+    }
+
+    const message = await buildEmailChannelMessage({
+      platform: this.platform,
+      mail,
+      messageId,
+      thread: info.entry,
+      verified,
+      mediaDir: this.mediaDir,
+      lookupThread: (id) => this.threads.get(id),
+    });
+    for (const handler of this.handlers) {
+      await handler(message);
+    }
+  }
+
+  private async handleCommand(
+    parsed: { command: string; args: string },
+    address: string,
+    verified: boolean,
+    messageId: string
+  ): Promise<void> {
+    for (const handler of this.commandHandlers) {
+      try {
+        const result = await handler({
+          command: parsed.command,
+          args: parsed.args,
+          chatId: address,
+          authorId: verified ? address : `${EMAIL_UNVERIFIED_AUTHOR_PREFIX}${address}`,
+          authorUsername: address,
+        });
+        if (result?.text) {
+          await this.sendMessage(address, { text: result.text }, { replyToMessageId: messageId });
+          return;
+        }
+      } catch (err) {
+        console.error(`[${this.platform}] command handler error:`, err);
+      }
+    }
+  }
+
+  async sendMessage(chatId: string, content: MessageContent, options: SendMessageOptions = {}): Promise<void> {
+    const config = this.config;
+    if (!config) {
+      throw new Error("Email adapter token is invalid");
+    }
+    const built = await buildEmailMessage({
+      from: config.address,
+      chatId,
+      content,
+      options,
+      lookupThread: (id) => this.threads.get(id),
+    });
+    await sendSmtpMail(config.smtp, { from: config.address, to: [built.to], message: built.message });
+    this.rememberThread(built.messageId, built.thread);
+  }
+
+  onMessage(handler: ChannelMessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  onCommand(handler: ChannelCommandHandler): void {
+    this.commandHandlers.push(handler);
+  }
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return; // Already started, ignore duplicate calls
+    }
+    if (!this.config) {
+      console.error(`[${this.platform}] Invalid adapter token (expected "<imap-url>|<smtp-url>")`);
+      return;
+    }
+    this.started = true;
+    this.schedulePoll(0);
+    console.log(
+      `[${this.platform}] Polling ${this.config.imap.host}/${this.config.imap.mailbox} as ${this.config.address}`
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    await this.polling;
+    console.log(`[${this.platform}] Bot stopped`);
+  }
+}
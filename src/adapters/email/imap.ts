@@ -0,0 +1,250 @@
+/**
+ * Minimal IMAP4rev1 client: just enough to poll one mailbox for unseen messages.
+ *
+ * Commands run one at a time; each poll opens its own session (no IDLE).
+ */
+import * as net from "net";
+import * as tls from "tls";
+import type { EmailServerConfig } from "./shared.js";
+
+// Abort a session that stops responding (a slow FETCH of a large message still makes progress).
+const IMAP_IDLE_TIMEOUT_MS = 120_000;
+
+interface ImapResponse {
+  /** Response text with literal markers (`{n}`) kept in place. */
+  text: string;
+  literals: Buffer[];
+}
+
+export class ImapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImapError";
+  }
+}
+
+function quoteImapString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+export class ImapSession {
+  private socket: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private current: ImapResponse | null = null;
+  private pendingLiteral: number | null = null;
+  private untagged: ImapResponse[] = [];
+  private waiter: {
+    tag: string | null;
+    resolve: (value: ImapResponse[]) => void;
+    reject: (err: Error) => void;
+  } | null = null;
+  private tagCounter = 0;
+  private closedError: Error | null = null;
+  private capabilities: Set<string> = new Set();
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  /**
+   * Connect, upgrade with STARTTLS, and log in.
+   *
+   * A plain connection without STARTTLS is refused before LOGIN unless `allowPlaintext` is set.
+   */
+  static async open(config: EmailServerConfig): Promise<ImapSession> {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    const session = new ImapSession(socket);
+    try {
+      await session.wait(null);
+      await session.refreshCapabilities();
+      if (!config.secure && session.capabilities.has("STARTTLS")) {
+        await session.command("STARTTLS");
+        await session.upgradeTls(config.host);
+        await session.refreshCapabilities();
+      } else if (!config.secure && !config.allowPlaintext) {
+        throw new ImapError(
+          `IMAP server ${config.host} offers no STARTTLS; refusing to send the password in plaintext ` +
+            "(use imaps:// or add starttls=optional)"
+        );
+      }
+      await session.command(`LOGIN ${quoteImapString(config.user)} ${quoteImapString(config.password)}`, "LOGIN");
+      return session;
+    } catch (err) {
+      session.close();
+      throw err;
+    }
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(IMAP_IDLE_TIMEOUT_MS, () => socket.destroy(new ImapError("IMAP connection timed out")));
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+    socket.on("error", (err) => this.fail(err));
+    socket.on("close", () => this.fail(new ImapError("IMAP connection closed")));
+  }
+
+  private async upgradeTls(host: string): Promise<void> {
+    const raw = this.socket;
+    raw.removeAllListeners("data");
+    raw.removeAllListeners("close");
+    raw.removeAllListeners("error");
+    raw.setTimeout(0);
+    const secured = tls.connect({ socket: raw, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", resolve);
+      secured.once("error", reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  private fail(err: Error): void {
+    this.closedError ??= err;
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.reject(err);
+  }
+
+  private drain(): void {
+    for (;;) {
+      if (this.pendingLiteral !== null) {
+        if (this.buffer.length < this.pendingLiteral) return;
+        this.current!.literals.push(this.buffer.subarray(0, this.pendingLiteral));
+        this.buffer = this.buffer.subarray(this.pendingLiteral);
+        this.pendingLiteral = null;
+        continue;
+      }
+      const idx = this.buffer.indexOf("\r\n");
+      if (idx < 0) return;
+      const line = this.buffer.subarray(0, idx).toString("latin1");
+      this.buffer = this.buffer.subarray(idx + 2);
+
+      const response = this.current ?? { text: "", literals: [] };
+      response.text += line;
+      const literal = /\{(\d+)\}$/.exec(line);
+      if (literal) {
+        this.current = response;
+        this.pendingLiteral = Number(literal[1]);
+        continue;
+      }
+      this.current = null;
+      this.handleResponse(response);
+    }
+  }
+
+  private handleResponse(response: ImapResponse): void {
+    const waiter = this.waiter;
+    if (waiter?.tag === null && response.text.startsWith("* ")) {
+      // Server greeting.
+      this.waiter = null;
+      if (/^\* (OK|PREAUTH)\b/i.test(response.text)) waiter.resolve([response]);
+      else waiter.reject(new ImapError(`IMAP server rejected connection: ${response.text}`));
+      return;
+    }
+    if (response.text.startsWith("* ") || response.text.startsWith("+")) {
+      this.untagged.push(response);
+      return;
+    }
+    if (!waiter || !waiter.tag || !response.text.startsWith(`${waiter.tag} `)) return;
+
+    this.waiter = null;
+    const untagged = this.untagged;
+    this.untagged = [];
+    const status = response.text.slice(waiter.tag.length + 1);
+    if (/^OK\b/i.test(status)) waiter.resolve(untagged);
+    else waiter.reject(new ImapError(status));
+  }
+
+  private wait(tag: string | null): Promise<ImapResponse[]> {
+    if (this.closedError) return Promise.reject(this.closedError);
+    return new Promise((resolve, reject) => {
+      this.waiter = { tag, resolve, reject };
+    });
+  }
+
+  /**
+   * Run a command and return its untagged responses.
+   *
+   * @param label Used in error messages instead of the command text (e.g. to hide credentials).
+   */
+  async command(command: string, label?: string): Promise<ImapResponse[]> {
+    this.tagCounter++;
+    const tag = `A${this.tagCounter}`;
+    const done = this.wait(tag);
+    this.socket.write(`${tag} ${command}\r\n`);
+    try {
+      return await done;
+    } catch (err) {
+      if (err instanceof ImapError && !this.closedError) {
+        throw new ImapError(`IMAP ${label ?? command.split(" ")[0]} failed: ${err.message}`);
+      }
+      throw err;
+    }
+  }
+
+  private async refreshCapabilities(): Promise<void> {
+    const responses = await this.command("CAPABILITY");
+    const line = responses.find((r) => /^\* CAPABILITY /i.test(r.text))?.text ?? "";
+    this.capabilities = new Set(line.slice("* CAPABILITY ".length).toUpperCase().split(/\s+/).filter(Boolean));
+  }
+
+  async select(mailbox: string): Promise<void> {
+    await this.command(`SELECT ${quoteImapString(mailbox)}`);
+  }
+
+  async searchUnseenUids(): Promise<number[]> {
+    const responses = await this.command("UID SEARCH UNSEEN");
+    const uids: number[] = [];
+    for (const response of responses) {
+      const match = /^\* SEARCH\b(.*)$/i.exec(response.text);
+      if (!match) continue;
+      for (const value of match[1]!.trim().split(/\s+/)) {
+        if (/^\d+$/.test(value)) uids.push(Number(value));
+      }
+    }
+    return uids.sort((a, b) => a - b);
+  }
+
+  async fetchSizes(uids: number[]): Promise<Map<number, number>> {
+    const sizes = new Map<number, number>();
+    if (uids.length === 0) return sizes;
+    const responses = await this.command(`UID FETCH ${uids.join(",")} (UID RFC822.SIZE)`);
+    for (const response of responses) {
+      const uid = /\bUID (\d+)/i.exec(response.text);
+      const size = /\bRFC822\.SIZE (\d+)/i.exec(response.text);
+      if (uid && size) sizes.set(Number(uid[1]), Number(size[1]));
+    }
+    return sizes;
+  }
+
+  /**
+   * Fetch the full raw message without setting `\Seen`.
+   */
+  async fetchMessage(uid: number): Promise<Buffer | null> {
+    const responses = await this.command(`UID FETCH ${uid} (UID BODY.PEEK[])`);
+    const response = responses.find((r) => /\bFETCH\b/i.test(r.text) && r.literals.length > 0);
+    return response?.literals[0] ?? null;
+  }
+
+  async markSeen(uid: number): Promise<void> {
+    await this.command(`UID STORE ${uid} +FLAGS.SILENT (\\Seen)`);
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.command("LOGOUT");
+    } catch {
+      // Servers may close the connection right after BYE.
+    }
+    this.close();
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
@@ -0,0 +1,187 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { Attachment, ChannelMessage } from "../types.js";
+import {
+  decodeMimeWords,
+  getMailHeader,
+  htmlToText,
+  parseAddressList,
+  parseMessageIds,
+  stripQuotedReply,
+  type ParsedMail,
+} from "./mime.js";
+import { baseSubject, EMAIL_MAX_TEXT_CHARS } from "./shared.js";
+
+// Author id prefix for senders whose address could not be verified (never matches the boss id).
+export const EMAIL_UNVERIFIED_AUTHOR_PREFIX = "unverified:";
+
+/**
+ * What the adapter remembers about a message for threading and `inReplyTo`.
+ */
+export interface EmailThreadEntry {
+  subject: string;
+  references: string[];
+  from: { address: string; name?: string };
+  text?: string;
+}
+
+/**
+ * Get a unique file path in the given directory, adding incremental suffix for duplicates.
+ */
+function getUniqueFilePath(dir: string, filename: string): string {
+  const ext = path.extname(filename);
+  const base = path.basename(filename, ext);
+  let candidate = path.join(dir, filename);
+  let counter = 1;
+
+  while (fs.existsSync(candidate)) {
+    candidate = path.join(dir, `${base}_${counter}${ext}`);
+    counter++;
+  }
+  return candidate;
+}
+
+function domainOf(address: string): string {
+  return address.slice(address.lastIndexOf("@") + 1).toLowerCase();
+}
+
+function domainAligned(candidate: string | undefined, senderDomain: string): boolean {
+  if (!candidate) return false;
+  const domain = (candidate.includes("@") ? domainOf(candidate) : candidate).toLowerCase();
+  return senderDomain === domain || senderDomain.endsWith(`.${domain}`);
+}
+
+/**
+ * Whether the receiving server authenticated `address` (RFC 8601 `Authentication-Results`).
+ *
+ * Only the topmost header (added by our own server) is trusted, or the one whose
+ * authserv-id equals `authservId`. A pass counts when DMARC passed, or DKIM/SPF passed for
+ * the sender's domain.
+ */
+export function isVerifiedSender(mail: ParsedMail, address: string, authservId?: string): boolean {
+  const headers = mail.headers.get("authentication-results") ?? [];
+  const header = authservId
+    ? headers.find((value) => value.split(";")[0]!.trim().split(/\s+/)[0]!.toLowerCase() === authservId.toLowerCase())
+    : headers[0];
+  if (!header) return false;
+
+  const senderDomain = domainOf(address);
+  for (const clause of header.split(";").slice(1)) {
+    const result = /^\s*(dmarc|dkim|spf)\s*=\s*(\w+)/i.exec(clause);
+    if (!result || result[2]!.toLowerCase() !== "pass") continue;
+    const props = Object.fromEntries(
+      [...clause.matchAll(/([\w.]+)=("[^"]*"|[^\s;]+)/g)].map((m) => [m[1]!.toLowerCase(), m[2]!.replace(/"/g, "")])
+    );
+    switch (result[1]!.toLowerCase()) {
+      case "dmarc":
+        if (!props["header.from"] || domainAligned(props["header.from"], senderDomain)) return true;
+        break;
+      case "dkim":
+        if (domainAligned(props["header.d"] ?? props["header.i"], senderDomain)) return true;
+        break;
+      case "spf":
+        if (domainAligned(props["smtp.mailfrom"], senderDomain)) return true;
+        break;
+    }
+  }
+  return false;
+}
+
+/**
+ * Thread metadata of a parsed message (used for replies and the adapter's thread cache).
+ */
+export function getEmailThreadInfo(mail: ParsedMail): { messageId?: string; entry: EmailThreadEntry } | null {
+  const from = parseAddressList(getMailHeader(mail, "from"))[0];
+  if (!from) return null;
+  const messageId = parseMessageIds(getMailHeader(mail, "message-id"))[0];
+  const references = parseMessageIds(getMailHeader(mail, "references"));
+  const inReplyTo = parseMessageIds(getMailHeader(mail, "in-reply-to"))[0];
+  if (inReplyTo && !references.includes(inReplyTo)) references.push(inReplyTo);
+  return {
+    messageId,
+    entry: {
+      subject: decodeMimeWords(getMailHeader(mail, "subject") ?? "").trim(),
+      references,
+      from,
+    },
+  };
+}
+
+async function saveEmailAttachments(mail: ParsedMail, mediaDir: string): Promise<Attachment[]> {
+  if (mail.attachments.length === 0) return [];
+  if (!fs.existsSync(mediaDir)) {
+    fs.mkdirSync(mediaDir, { recursive: true });
+  }
+
+  const attachments: Attachment[] = [];
+  for (const part of mail.attachments) {
+    const filename = path.basename(part.filename) || `file_${crypto.randomUUID()}.bin`;
+    const localPath = getUniqueFilePath(mediaDir, filename);
+    await fs.promises.writeFile(localPath, part.content);
+    attachments.push({ source: localPath, filename });
+  }
+  return attachments;
+}
+
+/**
+ * Build a `ChannelMessage` from a fetched mail.
+ *
+ * The chat id is the sender's address. The quoted previous message is stripped from
+ * replies; new threads start with a `Subject:` line.
+ */
+export async function buildEmailChannelMessage(params: {
+  platform: string;
+  mail: ParsedMail;
+  messageId: string;
+  thread: EmailThreadEntry;
+  verified: boolean;
+  mediaDir: string;
+  lookupThread: (messageId: string) => EmailThreadEntry | undefined;
+}): Promise<ChannelMessage> {
+  const { mail, thread } = params;
+  const inReplyToId = parseMessageIds(getMailHeader(mail, "in-reply-to"))[0];
+  const repliedTo = inReplyToId ? params.lookupThread(inReplyToId) : undefined;
+
+  const body = mail.text ?? (mail.html ? htmlToText(mail.html) : "");
+  let text = stripQuotedReply(body);
+  const subject = baseSubject(thread.subject);
+  if (!inReplyToId && subject) {
+    text = text ? `Subject: ${subject}\n\n${text}` : `Subject: ${subject}`;
+  }
+  if (text.length > EMAIL_MAX_TEXT_CHARS) {
+    text = `${text.slice(0, EMAIL_MAX_TEXT_CHARS)}\n…(truncated)`;
+  }
+
+  const attachments = await saveEmailAttachments(mail, params.mediaDir);
+  const address = thread.from.address;
+
+  return {
+    id: params.messageId,
+    platform: params.platform,
+    author: {
+      id: params.verified ? address : `${EMAIL_UNVERIFIED_AUTHOR_PREFIX}${address}`,
+      username: address,
+      displayName: thread.from.name ?? address,
+    },
+    inReplyTo: inReplyToId
+      ? {
+          channelMessageId: inReplyToId,
+          author: repliedTo
+            ? {
+                id: repliedTo.from.address,
+                username: repliedTo.from.address,
+                displayName: repliedTo.from.name ?? repliedTo.from.address,
+              }
+            : undefined,
+          text: repliedTo?.text,
+        }
+      : undefined,
+    chat: { id: address },
+    content: {
+      text: text || undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    },
+    raw: { messageId: params.messageId, subject: thread.subject, references: thread.references },
+  };
+}
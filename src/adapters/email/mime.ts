@@ -0,0 +1,332 @@
+/**
+ * Minimal RFC 5322 / MIME parsing and building for the email adapter.
+ *
+ * Parsing works on latin1 strings so string offsets equal byte offsets; decoded text is
+ * converted with the part's charset.
+ */
+import * as crypto from "crypto";
+
+export interface ParsedMailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedMail {
+  /** Top-level header values (unfolded; encoded words kept) by lower-case name, in message order. */
+  headers: Map<string, string[]>;
+  text?: string;
+  html?: string;
+  attachments: ParsedMailAttachment[];
+}
+
+export interface MailAddress {
+  name?: string;
+  address: string;
+}
+
+function splitHeaderBlock(raw: string): { header: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { header: raw, body: "" };
+  return { header: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+function parseHeaderLines(header: string): Array<[string, string]> {
+  const unfolded = header.replace(/\r?\n[ \t]/g, " ");
+  const result: Array<[string, string]> = [];
+  for (const line of unfolded.split(/\r?\n/)) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    // Raw 8-bit header bytes are UTF-8 (RFC 6532).
+    const value = Buffer.from(line.slice(idx + 1), "latin1").toString("utf8").trim();
+    result.push([line.slice(0, idx).trim().toLowerCase(), value]);
+  }
+  return result;
+}
+
+function decodeCharset(data: Buffer, charset: string | undefined): string {
+  const label = (charset ?? "utf-8").trim().toLowerCase() || "utf-8";
+  try {
+    return new TextDecoder(label).decode(data);
+  } catch {
+    return data.toString("utf8");
+  }
+}
+
+function percentDecode(input: string): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === "%" && /^[0-9A-Fa-f]{2}$/.test(input.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(input.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeQuotedPrintable(input: string): Buffer {
+  const bytes: number[] = [];
+  const text = input.replace(/=\r?\n/g, "");
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (ch === "=" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeTransferEncoding(body: string, encoding: string | undefined): Buffer {
+  switch ((encoding ?? "").trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, "latin1");
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?utf-8?B?...?=`, `=?iso-8859-1?Q?...?=`).
+ */
+export function decodeMimeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, "$1")
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, kind: string, text: string) => {
+      const data =
+        kind.toUpperCase() === "B"
+          ? Buffer.from(text, "base64")
+          : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(data, charset);
+    });
+}
+
+/**
+ * Split a structured header (`Content-Type`, `Content-Disposition`) into value and parameters.
+ */
+export function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const parts = value.match(/(?:[^;"]+|"(?:\\.|[^"\\])*")+/g) ?? [];
+  const params: Record<string, string> = {};
+  const continuations: Record<string, string[]> = {};
+  for (const part of parts.slice(1)) {
+    const idx = part.indexOf("=");
+    if (idx <= 0) continue;
+    let name = part.slice(0, idx).trim().toLowerCase();
+    let paramValue = part.slice(idx + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, "$1");
+    }
+    // RFC 2231: name*=charset''percent-encoded, name*0*=..., name*1*=...
+    const extended = /^([^*]+)\*(\d+)?\*?$/.exec(name);
+    if (extended) {
+      name = extended[1]!;
+      (continuations[name] ??= [])[Number(extended[2] ?? 0)] = paramValue;
+      continue;
+    }
+    params[name] = decodeMimeWords(paramValue);
+  }
+  for (const [name, pieces] of Object.entries(continuations)) {
+    const joined = pieces.join("");
+    const match = /^([^']*)'[^']*'(.*)$/.exec(joined);
+    if (!match) {
+      params[name] = joined;
+      continue;
+    }
+    params[name] = decodeCharset(percentDecode(match[2]!), match[1] || "utf-8");
+  }
+  return { value: (parts[0] ?? "").trim().toLowerCase(), params };
+}
+
+function walkPart(raw: string, mail: ParsedMail, isRoot: boolean): void {
+  const { header, body } = splitHeaderBlock(raw);
+  const headers = parseHeaderLines(header);
+  const get = (name: string) => headers.find(([key]) => key === name)?.[1];
+  if (isRoot) {
+    for (const [name, value] of headers) {
+      const values = mail.headers.get(name) ?? [];
+      values.push(value);
+      mail.headers.set(name, values);
+    }
+  }
+
+  const contentType = parseHeaderParams(get("content-type") ?? "text/plain; charset=us-ascii");
+  const disposition = parseHeaderParams(get("content-disposition") ?? "");
+  const encoding = get("content-transfer-encoding");
+
+  if (contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+    const boundary = `--${contentType.params.boundary}`;
+    const sections = body.split(new RegExp(`(?:^|\\r?\\n)${boundary.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+    for (const section of sections.slice(1)) {
+      if (section.startsWith("--")) break;
+      walkPart(section.replace(/^[ \t]*\r?\n/, ""), mail, false);
+    }
+    return;
+  }
+
+  const filename = disposition.params.filename ?? contentType.params.name;
+  const isAttachment = disposition.value === "attachment" || Boolean(filename);
+  const data = decodeTransferEncoding(body, encoding);
+
+  if (!isAttachment && contentType.value === "text/plain" && mail.text === undefined) {
+    mail.text = decodeCharset(data, contentType.params.charset);
+    return;
+  }
+  if (!isAttachment && contentType.value === "text/html" && mail.html === undefined) {
+    mail.html = decodeCharset(data, contentType.params.charset);
+    return;
+  }
+  if (!isAttachment && contentType.value.startsWith("text/")) return;
+
+  mail.attachments.push({
+    filename: filename?.trim() || `attachment_${mail.attachments.length + 1}${contentType.value === "message/rfc822" ? ".eml" : ".bin"}`,
+    contentType: contentType.value,
+    content: data,
+  });
+}
+
+/**
+ * Parse a raw RFC 5322 message (as fetched with `BODY[]`).
+ */
+export function parseMail(raw: Buffer): ParsedMail {
+  const mail: ParsedMail = { headers: new Map(), attachments: [] };
+  walkPart(raw.toString("latin1"), mail, true);
+  return mail;
+}
+
+export function getMailHeader(mail: ParsedMail, name: string): string | undefined {
+  return mail.headers.get(name.toLowerCase())?.[0];
+}
+
+/**
+ * Parse an address list header (`"Name" <a@b>, c@d`).
+ */
+export function parseAddressList(value: string | undefined): MailAddress[] {
+  if (!value) return [];
+  const result: MailAddress[] = [];
+  const entries = value.match(/(?:[^,"]+|"(?:\\.|[^"\\])*")+/g) ?? [];
+  for (const entry of entries) {
+    const angle = /^(.*)<([^>]+)>\s*$/.exec(entry.trim());
+    const address = (angle ? angle[2]! : entry).trim().toLowerCase();
+    if (!address.includes("@")) continue;
+    const name = angle ? decodeMimeWords(angle[1]!.trim().replace(/^"|"$/g, "")).trim() : undefined;
+    result.push(name ? { name, address } : { address });
+  }
+  return result;
+}
+
+/**
+ * Message ids from `Message-ID`, `In-Reply-To`, or `References` (without angle brackets).
+ */
+export function parseMessageIds(value: string | undefined): string[] {
+  if (!value) return [];
+  return [...value.matchAll(/<([^<>\s]+)>/g)].map((match) => match[1]!);
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Drop the quoted previous message from a reply (`On … wrote:` followed by `>` lines).
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let end = lines.length;
+  while (end > 0 && (lines[end - 1]!.trim() === "" || lines[end - 1]!.startsWith(">"))) end--;
+  if (end === lines.length) return text.trim();
+  if (end > 0 && /^on\b.*wrote:\s*$/i.test(lines[end - 1]!.trim())) end--;
+  const stripped = lines.slice(0, end).join("\n").trim();
+  return stripped || text.trim();
+}
+
+function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function wrapBase64(data: Buffer): string {
+  return (data.toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+}
+
+export function generateMessageId(address: string): string {
+  const domain = address.split("@")[1] || "hiboss.local";
+  return `${crypto.randomUUID()}@${domain}`;
+}
+
+/**
+ * Build an outgoing message (UTF-8 text, optional attachments as multipart/mixed).
+ */
+export function buildMail(params: {
+  from: string;
+  to: string;
+  subject: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+  text: string;
+  attachments?: Array<{ filename: string; content: Buffer; contentType: string }>;
+  date?: Date;
+}): Buffer {
+  const headers = [
+    `From: ${params.from}`,
+    `To: ${params.to}`,
+    `Subject: ${encodeHeaderValue(params.subject)}`,
+    `Date: ${(params.date ?? new Date()).toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: <${params.messageId}>`,
+  ];
+  if (params.inReplyTo) headers.push(`In-Reply-To: <${params.inReplyTo}>`);
+  if (params.references && params.references.length > 0) {
+    headers.push(`References: ${params.references.map((id) => `<${id}>`).join(" ")}`);
+  }
+  headers.push("MIME-Version: 1.0");
+
+  const textPart = [
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(Buffer.from(params.text, "utf8")),
+  ].join("\r\n");
+
+  const attachments = params.attachments ?? [];
+  if (attachments.length === 0) {
+    return Buffer.from([...headers, textPart].join("\r\n") + "\r\n", "utf8");
+  }
+
+  const boundary = `hiboss-${crypto.randomUUID()}`;
+  const parts = [textPart];
+  for (const attachment of attachments) {
+    const filename = attachment.filename.replace(/["\r\n]/g, "_");
+    parts.push(
+      [
+        `Content-Type: ${attachment.contentType}; name="${encodeHeaderValue(filename)}"`,
+        `Content-Disposition: attachment; filename="${encodeHeaderValue(filename)}"`,
+        "Content-Transfer-Encoding: base64",
+        "",
+        wrapBase64(attachment.content),
+      ].join("\r\n")
+    );
+  }
+  const body = parts.map((part) => `--${boundary}\r\n${part}\r\n`).join("") + `--${boundary}--\r\n`;
+  return Buffer.from(
+    [...headers, `Content-Type: multipart/mixed; boundary="${boundary}"`, "", body].join("\r\n"),
+    "utf8"
+  );
+}
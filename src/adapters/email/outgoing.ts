@@ -0,0 +1,117 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Attachment, MessageContent, SendMessageOptions } from "../types.js";
+import { buildMail, generateMessageId } from "./mime.js";
+import type { EmailThreadEntry } from "./incoming.js";
+import { baseSubject, isValidEmailAddress, normalizeEmailAddress } from "./shared.js";
+
+// Keep References bounded on long threads (first message + most recent ones).
+const MAX_REFERENCES = 20;
+const MAX_SUBJECT_CHARS = 78;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain; charset=utf-8",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+};
+
+function contentTypeFor(filename: string): string {
+  return CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? "application/octet-stream";
+}
+
+async function loadAttachment(attachment: Attachment): Promise<{ filename: string; content: Buffer; contentType: string }> {
+  const source = attachment.source;
+  let filename: string;
+  let content: Buffer;
+
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch email attachment source: ${response.status}`);
+    }
+    filename = attachment.filename?.trim() || path.basename(new URL(source).pathname) || "file.bin";
+    content = Buffer.from(await response.arrayBuffer());
+  } else {
+    const resolvedPath = path.resolve(source);
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Email attachment source file not found: ${resolvedPath}`);
+    }
+    filename = attachment.filename?.trim() || path.basename(resolvedPath);
+    content = await fs.promises.readFile(resolvedPath);
+  }
+
+  filename = path.basename(filename);
+  return { filename, content, contentType: contentTypeFor(filename) };
+}
+
+function subjectFromText(text: string): string {
+  const firstLine = text.split("\n").find((line) => line.trim())?.trim() ?? "";
+  if (!firstLine) return "(no subject)";
+  return firstLine.length > MAX_SUBJECT_CHARS ? `${firstLine.slice(0, MAX_SUBJECT_CHARS - 1)}…` : firstLine;
+}
+
+/**
+ * Build an outgoing mail to `chatId` (the recipient address).
+ *
+ * With `replyToMessageId`, the mail continues that thread (`In-Reply-To`, `References`,
+ * `Re:` subject); otherwise the first text line becomes the subject.
+ */
+export async function buildEmailMessage(params: {
+  from: string;
+  chatId: string;
+  content: MessageContent;
+  options: SendMessageOptions;
+  lookupThread: (messageId: string) => EmailThreadEntry | undefined;
+}): Promise<{ to: string; messageId: string; message: Buffer; thread: EmailThreadEntry }> {
+  const to = normalizeEmailAddress(params.chatId);
+  if (!isValidEmailAddress(to)) {
+    throw new Error(`Invalid email chat id (expected an address): ${params.chatId}`);
+  }
+
+  const text = params.content.text ?? "";
+  const attachments = await Promise.all((params.content.attachments ?? []).map(loadAttachment));
+  if (!text.trim() && attachments.length === 0) {
+    throw new Error("Email message has no text or attachments");
+  }
+
+  const replyTo = params.options.replyToMessageId?.trim().replace(/^<|>$/g, "");
+  const parent = replyTo ? params.lookupThread(replyTo) : undefined;
+  let subject: string;
+  let references: string[] = [];
+  if (replyTo) {
+    subject = `Re: ${baseSubject(parent?.subject ?? "") || subjectFromText(text)}`;
+    references = [...(parent?.references ?? []), replyTo];
+    if (references.length > MAX_REFERENCES) {
+      references = [references[0]!, ...references.slice(-(MAX_REFERENCES - 1))];
+    }
+  } else {
+    subject = subjectFromText(text);
+  }
+
+  const messageId = generateMessageId(params.from);
+  const message = buildMail({
+    from: params.from,
+    to,
+    subject,
+    messageId,
+    inReplyTo: replyTo || undefined,
+    references,
+    text,
+    attachments,
+  });
+
+  return {
+    to,
+    messageId,
+    message,
+    thread: { subject, references, from: { address: params.from }, text: text || undefined },
+  };
+}
@@ -0,0 +1,139 @@
+// Plain-text mail has no hard limit; keep bodies readable and bounded.
+export const EMAIL_MAX_TEXT_CHARS = 100_000;
+// Larger messages are skipped (marked seen) instead of downloaded.
+export const EMAIL_MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+export const EMAIL_DEFAULT_POLL_INTERVAL_MS = 30_000;
+const EMAIL_MIN_POLL_INTERVAL_MS = 5_000;
+
+const EMAIL_ADDRESS_REGEX = /^[^\s@<>()",;:]+@[^\s@<>()",;:]+$/;
+
+export interface EmailServerConfig {
+  /** Implicit TLS (`imaps://`, `smtps://`); plain URLs must upgrade with STARTTLS. */
+  secure: boolean;
+  /**
+   * A plain URL may stay unencrypted when the server offers no STARTTLS: loopback hosts
+   * (local test servers) or an explicit `starttls=optional`.
+   */
+  allowPlaintext: boolean;
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+}
+
+export interface EmailImapConfig extends EmailServerConfig {
+  mailbox: string;
+  pollIntervalMs: number;
+  /**
+   * Trust the sender address only when the receiving server's `Authentication-Results`
+   * header shows DMARC/DKIM/SPF passing for the sender's domain (default: true).
+   */
+  verifySender: boolean;
+  /** Only trust `Authentication-Results` headers from this authserv-id (default: the topmost header). */
+  authservId?: string;
+}
+
+export interface EmailAdapterConfig {
+  imap: EmailImapConfig;
+  smtp: EmailServerConfig;
+  /** The adapter's own address (`From:` of outgoing mail). */
+  address: string;
+}
+
+export function isValidEmailAddress(value: string): boolean {
+  return EMAIL_ADDRESS_REGEX.test(value);
+}
+
+export function normalizeEmailAddress(value: string): string {
+  return value.trim().replace(/^<|>$/g, "").toLowerCase();
+}
+
+function isLoopbackHost(host: string): boolean {
+  const bare = host.replace(/^\[|\]$/g, "").toLowerCase();
+  return bare === "localhost" || bare === "::1" || /^127(\.\d{1,3}){3}$/.test(bare);
+}
+
+function parseServerUrl(raw: string, schemes: { plain: string; secure: string }, defaultPorts: [number, number]): {
+  server: EmailServerConfig;
+  url: URL;
+} | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  const scheme = url.protocol.replace(/:$/, "");
+  if (scheme !== schemes.plain && scheme !== schemes.secure) return null;
+  if (!url.hostname || !url.username) return null;
+  const secure = scheme === schemes.secure;
+  const starttls = url.searchParams.get("starttls");
+  if (starttls !== null && starttls !== "required" && starttls !== "optional") return null;
+  const port = url.port ? Number(url.port) : secure ? defaultPorts[1] : defaultPorts[0];
+  return {
+    server: {
+      secure,
+      allowPlaintext: !secure && (starttls === "optional" || isLoopbackHost(url.hostname)),
+      host: url.hostname,
+      port,
+      user: decodeURIComponent(url.username),
+      password: decodeURIComponent(url.password),
+    },
+    url,
+  };
+}
+
+/**
+ * Parse the binding token: `<imap-url>|<smtp-url>`.
+ *
+ * - IMAP: `imap[s]://<user>:<password>@<host>[:<port>][/<mailbox>][?poll=<seconds>&verify=none&authserv-id=<id>]`
+ * - SMTP: `smtp[s]://<user>:<password>@<host>[:<port>][?from=<address>]`
+ * - Either plain URL: `starttls=optional` allows plaintext when the server offers no STARTTLS.
+ *
+ * The adapter's address is SMTP `from`, else the SMTP user, else the IMAP user (must be an address).
+ */
+export function parseEmailAdapterToken(token: string): EmailAdapterConfig | null {
+  const parts = token.trim().split("|");
+  if (parts.length !== 2) return null;
+
+  const imap = parseServerUrl(parts[0]!, { plain: "imap", secure: "imaps" }, [143, 993]);
+  const smtp = parseServerUrl(parts[1]!, { plain: "smtp", secure: "smtps" }, [587, 465]);
+  if (!imap || !smtp) return null;
+
+  const pollParam = imap.url.searchParams.get("poll");
+  const pollSeconds = pollParam === null ? null : Number(pollParam);
+  if (pollSeconds !== null && (!Number.isFinite(pollSeconds) || pollSeconds * 1000 < EMAIL_MIN_POLL_INTERVAL_MS)) {
+    return null;
+  }
+  const verify = imap.url.searchParams.get("verify");
+  if (verify !== null && verify !== "none" && verify !== "auth-results") return null;
+
+  const address = [smtp.url.searchParams.get("from"), smtp.server.user, imap.server.user]
+    .map((candidate) => candidate?.trim() ?? "")
+    .find((candidate) => isValidEmailAddress(candidate));
+  if (!address) return null;
+
+  const mailbox = decodeURIComponent(imap.url.pathname.replace(/^\//, "")) || "INBOX";
+  return {
+    imap: {
+      ...imap.server,
+      mailbox,
+      pollIntervalMs: pollSeconds === null ? EMAIL_DEFAULT_POLL_INTERVAL_MS : Math.round(pollSeconds * 1000),
+      verifySender: verify !== "none",
+      authservId: imap.url.searchParams.get("authserv-id")?.trim() || undefined,
+    },
+    smtp: smtp.server,
+    address: normalizeEmailAddress(address),
+  };
+}
+
+export function isValidEmailAdapterToken(token: string): boolean {
+  return parseEmailAdapterToken(token) !== null;
+}
+
+/**
+ * Strip a leading `Re:`/`Fwd:` chain for thread subjects.
+ */
+export function baseSubject(subject: string): string {
+  return subject.replace(/^(\s*(re|fwd?|aw|sv)(\[\d+\])?\s*:\s*)+/i, "").trim();
+}
@@ -0,0 +1,187 @@
+/**
+ * Minimal SMTP submission client (RFC 5321 + STARTTLS + AUTH PLAIN/LOGIN).
+ *
+ * Each message uses its own connection.
+ */
+import * as net from "net";
+import * as os from "os";
+import * as tls from "tls";
+import type { EmailServerConfig } from "./shared.js";
+
+const SMTP_TIMEOUT_MS = 60_000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(
+    readonly command: string,
+    readonly code: number,
+    message: string
+  ) {
+    super(`SMTP ${command} failed: ${code} ${message}`);
+    this.name = "SmtpError";
+  }
+}
+
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private closedError: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString("utf8");
+      this.drain();
+    });
+    socket.on("error", (err) => this.fail(err));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private fail(err: Error): void {
+    this.closedError ??= err;
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.reject(err);
+  }
+
+  private drain(): void {
+    let idx: number;
+    while ((idx = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, idx).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(idx + 1);
+      this.lines.push(line);
+      // Multi-line replies use "250-..." for all but the last line ("250 ...").
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines.map((l) => l.slice(4)) };
+        this.lines = [];
+        const waiter = this.waiter;
+        this.waiter = null;
+        waiter?.resolve(reply);
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.closedError) return Promise.reject(this.closedError);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async expect(command: string, label: string, codes: number[]): Promise<SmtpReply> {
+    const reply = this.read();
+    if (command) this.socket.write(`${command}\r\n`);
+    const result = await reply;
+    if (!codes.includes(result.code)) {
+      throw new SmtpError(label, result.code, result.lines.join(" "));
+    }
+    return result;
+  }
+
+  async upgradeTls(host: string): Promise<void> {
+    const raw = this.socket;
+    raw.removeAllListeners("data");
+    raw.removeAllListeners("close");
+    raw.removeAllListeners("error");
+    raw.setTimeout(0);
+    const secured = tls.connect({ socket: raw, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", resolve);
+      secured.once("error", reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  writeData(data: Buffer): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Dot-stuff a message body and normalize line endings to CRLF.
+ */
+function encodeDataSection(message: Buffer): Buffer {
+  const text = message.toString("latin1").replace(/\r?\n/g, "\r\n");
+  const stuffed = text.replace(/^\./gm, "..");
+  return Buffer.from(stuffed.endsWith("\r\n") ? stuffed : `${stuffed}\r\n`, "latin1");
+}
+
+function parseExtensions(reply: SmtpReply): Set<string> {
+  return new Set(reply.lines.slice(1).map((line) => line.toUpperCase()));
+}
+
+/**
+ * Send one message. `message` is the full RFC 5322 message (headers + body).
+ */
+export async function sendSmtpMail(
+  config: EmailServerConfig,
+  envelope: { from: string; to: string[]; message: Buffer }
+): Promise<void> {
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  const connection = new SmtpConnection(socket);
+  const heloName = os.hostname() || "localhost";
+
+  try {
+    await connection.expect("", "greeting", [220]);
+    let extensions = parseExtensions(await connection.expect(`EHLO ${heloName}`, "EHLO", [250]));
+
+    if (!config.secure && extensions.has("STARTTLS")) {
+      await connection.expect("STARTTLS", "STARTTLS", [220]);
+      await connection.upgradeTls(config.host);
+      extensions = parseExtensions(await connection.expect(`EHLO ${heloName}`, "EHLO", [250]));
+    } else if (!config.secure && !config.allowPlaintext) {
+      throw new Error(
+        `SMTP server ${config.host} offers no STARTTLS; refusing to send credentials and mail in plaintext ` +
+          "(use smtps:// or add starttls=optional)"
+      );
+    }
+
+    // Servers that advertise no AUTH (e.g. a local relay) accept mail without login.
+    const auth = [...extensions].find((ext) => ext.startsWith("AUTH")) ?? "";
+    if (config.user && auth) {
+      if (/\bPLAIN\b/.test(auth)) {
+        const credentials = Buffer.from(`\0${config.user}\0${config.password}`, "utf8").toString("base64");
+        await connection.expect(`AUTH PLAIN ${credentials}`, "AUTH", [235]);
+      } else if (/\bLOGIN\b/.test(auth)) {
+        await connection.expect("AUTH LOGIN", "AUTH", [334]);
+        await connection.expect(Buffer.from(config.user, "utf8").toString("base64"), "AUTH", [334]);
+        await connection.expect(Buffer.from(config.password, "utf8").toString("base64"), "AUTH", [235]);
+      } else {
+        throw new Error(`SMTP server offers no supported AUTH mechanism (${auth})`);
+      }
+    }
+
+    await connection.expect(`MAIL FROM:<${envelope.from}>`, "MAIL FROM", [250]);
+    for (const recipient of envelope.to) {
+      await connection.expect(`RCPT TO:<${recipient}>`, "RCPT TO", [250, 251]);
+    }
+    await connection.expect("DATA", "DATA", [354]);
+    const accepted = connection.read();
+    connection.writeData(Buffer.concat([encodeDataSection(envelope.message), Buffer.from(".\r\n", "latin1")]));
+    const reply = await accepted;
+    if (reply.code !== 250) {
+      throw new SmtpError("DATA", reply.code, reply.lines.join(" "));
+    }
+    await connection.expect("QUIT", "QUIT", [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Adapter plugin API.
+ *
+ * A plugin module (a `*.js` file in `{{HIBOSS_DIR}}/adapters/` or an npm package listed in
+ * setup `adapter-plugins`) default-exports one `AdapterPlugin` or an array of them.
+ * See `docs/spec/adapters/plugins.md`.
+ */
+import type { ChatAdapter, OutgoingParseMode } from "./types.js";
+
+export const ADAPTER_PLUGIN_API_VERSION = 1;
+
+export interface AdapterCapabilities {
+  /** Adapter implements `setReaction` (`hiboss reaction set`). */
+  reactions: boolean;
+  /** Adapter emits boss commands (`/new`, `/status`, `/abort`) via `onCommand`. */
+  commands: boolean;
+  /** Parse modes the adapter renders; other modes are dropped before `sendMessage`. */
+  parseModes: readonly OutgoingParseMode[];
+  /** Platform text limit per message (informational; adapters split long text themselves). */
+  maxTextLength: number;
+}
+
+/**
+ * Author fields the daemon compares against the configured boss id.
+ */
+export interface AdapterAuthorIdentity {
+  id?: string;
+  username?: string;
+}
+
+export interface AdapterPluginContext {
+  /** Hi-Boss root directory (`HIBOSS_DIR`). */
+  dataDir: string;
+  /** Directory for downloaded incoming attachments. */
+  mediaDir: string;
+}
+
+export interface AdapterPlugin {
+  apiVersion: typeof ADAPTER_PLUGIN_API_VERSION;
+  /** Adapter type: `--bind-adapter-type`, `channel:<platform>:...`, and `ChatAdapter.platform`. */
+  platform: string;
+  capabilities: AdapterCapabilities;
+  /** Human-readable token format, used in validation errors (e.g. `<bot-id>:<secret>`). */
+  tokenFormat?: string;
+  /** Cheap, offline shape check of a binding token. */
+  validateToken(token: string): boolean;
+  /** Generate a fresh binding token, for adapters whose token is a local secret rather than a platform credential. */
+  generateToken?(): string;
+  /** Whether setup requires `<platform>.adapter-boss-id` when the adapter is bound (default: true). */
+  requiresBossId?: boolean;
+  /**
+   * Decide whether a message/command author is the boss, given the stored
+   * `adapter_boss_id_<platform>` (empty when unset). Default: `defaultIsBossIdentity`.
+   */
+  isBoss?(author: AdapterAuthorIdentity, bossId: string): boolean;
+  createAdapter(token: string, context: AdapterPluginContext): ChatAdapter;
+}
+
+/**
+ * Case-insensitive match of the boss id against the author's username (leading `@` ignored).
+ *
+ * Ids are not compared: plugins whose boss id is a platform user id match it in their own `isBoss`.
+ */
+export function defaultIsBossIdentity(author: AdapterAuthorIdentity, bossId: string): boolean {
+  const normalizedBoss = bossId.replace(/^@/, "").toLowerCase();
+  if (!normalizedBoss || !author.username) return false;
+  return author.username.replace(/^@/, "").toLowerCase() === normalizedBoss;
+}
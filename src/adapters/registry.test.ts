@@ -0,0 +1,114 @@
+import assert from "assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import test from "node:test";
+import {
+  getAdapterBindingError,
+  getAdapterPlugin,
+  isAdapterType,
+  isBossIdentity,
+  listAdapterTypes,
+  loadAdapterPlugins,
+} from "./registry.js";
+import { defaultIsBossIdentity } from "./plugin.js";
+
+const PLUGIN_SOURCE = `
+export default {
+  apiVersion: 1,
+  platform: "fakechat",
+  capabilities: { reactions: false, commands: true, parseModes: ["plain"], maxTextLength: 500 },
+  tokenFormat: "fc-<secret>",
+  validateToken: (token) => /^fc-\\w+$/.test(token),
+  isBoss: (author, bossId) => author.id === "id:" + bossId,
+  createAdapter: (token) => ({ platform: "fakechat", token }),
+};
+`;
+
+test("built-in adapters are registered", () => {
+  assert.deepEqual(listAdapterTypes().slice(0, 3), ["telegram", "discord", "slack"]);
+  assert.equal(getAdapterBindingError("telegram", "123:abc"), null);
+  assert.match(getAdapterBindingError("telegram", "nope") ?? "", /expected <bot-id>:<secret>/);
+  assert.match(getAdapterBindingError("matrix", "x") ?? "", /^Unknown adapter type: matrix/);
+  assert.equal(isBossIdentity("telegram", { username: "Boss" }, "@boss"), true);
+  assert.equal(isBossIdentity("slack", { id: "U1", username: "alice" }, "U1"), true);
+  assert.equal(isBossIdentity("slack", { id: "U2", username: "U1" }, "U1"), false);
+});
+
+test("a Discord boss given by user id is not matched by a username spelling that id", () => {
+  const bossId = "123456789012345678";
+  assert.equal(isBossIdentity("discord", { id: bossId, username: "boss" }, bossId), true);
+  assert.equal(isBossIdentity("discord", { id: "876543210987654321", username: bossId }, bossId), false);
+  assert.equal(isBossIdentity("discord", { id: "876543210987654321", username: "Boss" }, "boss"), true);
+});
+
+test("loadAdapterPlugins registers plugins from the adapters directory once", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-adapters-"));
+  try {
+    fs.writeFileSync(path.join(dir, "fakechat.mjs"), PLUGIN_SOURCE, "utf8");
+    fs.writeFileSync(path.join(dir, "broken.mjs"), "export default { apiVersion: 1 };", "utf8");
+    fs.writeFileSync(path.join(dir, "README.md"), "not a plugin", "utf8");
+
+    const result = await loadAdapterPlugins({ adaptersDir: dir });
+    assert.deepEqual(result.loaded, [{ platform: "fakechat", source: path.join(dir, "fakechat.mjs") }]);
+    assert.equal(result.failed.length, 1);
+    assert.match(result.failed[0]!.error, /platform must match/);
+
+    assert.equal(isAdapterType("fakechat"), true);
+    assert.equal(getAdapterPlugin("fakechat")?.capabilities.reactions, false);
+    assert.equal(getAdapterBindingError("fakechat", "fc-123"), null);
+    assert.equal(getAdapterBindingError("fakechat", "123"), "Invalid fakechat adapter token (expected fc-<secret>)");
+    assert.equal(isBossIdentity("fakechat", { id: "id:boss", username: "boss" }, "boss"), true);
+    assert.equal(isBossIdentity("fakechat", { username: "boss" }, "boss"), false);
+    // Without a plugin `isBoss`, only the username is compared.
+    assert.equal(defaultIsBossIdentity({ id: "boss", username: "mallory" }, "boss"), false);
+    assert.equal(defaultIsBossIdentity({ id: "u-1", username: "@Boss" }, "boss"), true);
+
+    const again = await loadAdapterPlugins({ adaptersDir: dir });
+    assert.deepEqual(again, { loaded: [], failed: [] });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("loadAdapterPlugins rejects plugins that reuse a registered platform", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-adapters-"));
+  try {
+    // CommonJS plugin: `module.exports` becomes the default export.
+    fs.writeFileSync(
+      path.join(dir, "telegram.js"),
+      PLUGIN_SOURCE.replace(/fakechat/g, "telegram").replace("export default", "module.exports ="),
+      "utf8"
+    );
+    const result = await loadAdapterPlugins({ adaptersDir: dir, packages: ["hiboss-adapter-does-not-exist"] });
+    assert.equal(result.loaded.length, 0);
+    assert.deepEqual(
+      result.failed.map((f) => f.source),
+      [path.join(dir, "telegram.js"), "hiboss-adapter-does-not-exist"]
+    );
+    assert.match(result.failed[0]!.error, /already registered \(builtin\)/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("loadAdapterPlugins reports broken symlinks and registers nothing from a partly invalid array", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-adapters-"));
+  try {
+    fs.symlinkSync(path.join(dir, "missing.mjs"), path.join(dir, "dangling.mjs"));
+    const single = PLUGIN_SOURCE.replace(/fakechat/g, "pairchat").replace("export default", "const good =");
+    fs.writeFileSync(path.join(dir, "pair.mjs"), `${single}\nexport default [good, { apiVersion: 1 }];\n`, "utf8");
+
+    const result = await loadAdapterPlugins({ adaptersDir: dir });
+    assert.deepEqual(result.loaded, []);
+    assert.deepEqual(
+      result.failed.map((f) => f.source),
+      [path.join(dir, "dangling.mjs"), path.join(dir, "pair.mjs")]
+    );
+    assert.match(result.failed[0]!.error, /ENOENT/);
+    assert.match(result.failed[1]!.error, /platform must match/);
+    assert.equal(isAdapterType("pairchat"), false);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
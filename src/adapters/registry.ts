@@ -0,0 +1,228 @@
+/**
+ * Adapter registry: built-in adapters plus plugins loaded at runtime.
+ *
+ * The daemon, `agent.register`/`agent.set`, and `hiboss setup --config-file` all resolve
+ * adapter types through this registry.
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createRequire } from "node:module";
+import { pathToFileURL } from "node:url";
+import type { AdapterAuthorIdentity, AdapterPlugin } from "./plugin.js";
+import { ADAPTER_PLUGIN_API_VERSION, defaultIsBossIdentity } from "./plugin.js";
+import { isValidAdapterTypeName } from "./types.js";
+import { BUILTIN_ADAPTER_PLUGINS } from "./builtin-plugins.js";
+
+const PARSE_MODES = new Set(["plain", "markdownv2", "html"]);
+const PLUGIN_FILE_EXTENSIONS = new Set([".js", ".mjs"]);
+
+const plugins = new Map<string, { plugin: AdapterPlugin; source: string }>();
+const loadedSources = new Set<string>();
+
+for (const plugin of BUILTIN_ADAPTER_PLUGINS) {
+  plugins.set(plugin.platform, { plugin, source: "builtin" });
+}
+
+export interface AdapterPluginLoadResult {
+  loaded: Array<{ platform: string; source: string }>;
+  failed: Array<{ source: string; error: string }>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function assertAdapterPlugin(value: unknown, source: string): AdapterPlugin {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid adapter plugin (${source}): ${reason}`);
+  };
+
+  if (!isPlainObject(value)) fail("expected an object");
+  const candidate = value as Record<string, unknown>;
+  if (candidate.apiVersion !== ADAPTER_PLUGIN_API_VERSION) {
+    fail(`unsupported apiVersion (expected ${ADAPTER_PLUGIN_API_VERSION})`);
+  }
+  if (typeof candidate.platform !== "string" || !isValidAdapterTypeName(candidate.platform)) {
+    fail("platform must match [a-z][a-z0-9-]*");
+  }
+  if (typeof candidate.validateToken !== "function") fail("validateToken must be a function");
+  if (typeof candidate.createAdapter !== "function") fail("createAdapter must be a function");
+  if (candidate.isBoss !== undefined && typeof candidate.isBoss !== "function") {
+    fail("isBoss must be a function");
+  }
+  if (candidate.generateToken !== undefined && typeof candidate.generateToken !== "function") {
+    fail("generateToken must be a function");
+  }
+  if (candidate.requiresBossId !== undefined && typeof candidate.requiresBossId !== "boolean") {
+    fail("requiresBossId must be a boolean");
+  }
+  if (candidate.tokenFormat !== undefined && typeof candidate.tokenFormat !== "string") {
+    fail("tokenFormat must be a string");
+  }
+
+  const capabilities = candidate.capabilities;
+  if (!isPlainObject(capabilities)) fail("capabilities is required");
+  const caps = capabilities as Record<string, unknown>;
+  if (typeof caps.reactions !== "boolean" || typeof caps.commands !== "boolean") {
+    fail("capabilities.reactions and capabilities.commands must be booleans");
+  }
+  if (
+    !Array.isArray(caps.parseModes) ||
+    caps.parseModes.length === 0 ||
+    !caps.parseModes.every((mode) => typeof mode === "string" && PARSE_MODES.has(mode))
+  ) {
+    fail("capabilities.parseModes must list plain, markdownv2, and/or html");
+  }
+  if (typeof caps.maxTextLength !== "number" || !Number.isInteger(caps.maxTextLength) || caps.maxTextLength <= 0) {
+    fail("capabilities.maxTextLength must be a positive integer");
+  }
+
+  return candidate as unknown as AdapterPlugin;
+}
+
+/**
+ * Register an adapter plugin. Throws when the plugin is malformed or its platform is taken.
+ */
+export function registerAdapterPlugin(value: unknown, source: string): AdapterPlugin {
+  const plugin = assertAdapterPlugin(value, source);
+  const existing = plugins.get(plugin.platform);
+  if (existing) {
+    throw new Error(`Adapter type '${plugin.platform}' is already registered (${existing.source})`);
+  }
+  plugins.set(plugin.platform, { plugin, source });
+  return plugin;
+}
+
+export function getAdapterPlugin(adapterType: string): AdapterPlugin | undefined {
+  return plugins.get(adapterType)?.plugin;
+}
+
+/**
+ * Registered adapter types (built-ins first, then plugins in load order).
+ */
+export function listAdapterTypes(): string[] {
+  return [...plugins.keys()];
+}
+
+export function isAdapterType(value: unknown): value is string {
+  return typeof value === "string" && plugins.has(value);
+}
+
+/**
+ * Validate a binding's adapter type and token shape.
+ *
+ * @returns An error message, or null when the binding is acceptable.
+ */
+export function getAdapterBindingError(adapterType: string, adapterToken: string): string | null {
+  const plugin = getAdapterPlugin(adapterType);
+  if (!plugin) {
+    return `Unknown adapter type: ${adapterType} (registered: ${listAdapterTypes().join(", ")})`;
+  }
+  if (!plugin.validateToken(adapterToken)) {
+    return plugin.tokenFormat
+      ? `Invalid ${adapterType} adapter token (expected ${plugin.tokenFormat})`
+      : `Invalid ${adapterType} adapter token`;
+  }
+  return null;
+}
+
+/**
+ * Whether `author` is the boss on `adapterType`, using the plugin's resolver when it has one.
+ */
+export function isBossIdentity(adapterType: string, author: AdapterAuthorIdentity, bossId: string): boolean {
+  const plugin = getAdapterPlugin(adapterType);
+  if (plugin?.isBoss) {
+    try {
+      return plugin.isBoss(author, bossId);
+    } catch {
+      return false;
+    }
+  }
+  return defaultIsBossIdentity(author, bossId);
+}
+
+function resolvePackageUrl(adaptersDir: string, packageName: string): string {
+  // Prefer packages installed under the adapters directory (`npm install --prefix <adapters-dir>`).
+  try {
+    const require = createRequire(path.join(adaptersDir, "noop.js"));
+    return pathToFileURL(require.resolve(packageName)).href;
+  } catch {
+    return packageName;
+  }
+}
+
+async function importPluginModule(specifier: string, source: string): Promise<AdapterPlugin[]> {
+  const mod = (await import(specifier)) as { default?: unknown };
+  const exported = mod.default;
+  if (exported === undefined) {
+    throw new Error(`Invalid adapter plugin (${source}): missing default export`);
+  }
+  const values = Array.isArray(exported) ? exported : [exported];
+  // Validate every entry first so a bad entry does not leave earlier ones half-registered.
+  const candidates = values.map((value) => assertAdapterPlugin(value, source));
+  const seen = new Set<string>();
+  for (const plugin of candidates) {
+    const existing = plugins.get(plugin.platform);
+    if (existing) {
+      throw new Error(`Adapter type '${plugin.platform}' is already registered (${existing.source})`);
+    }
+    if (seen.has(plugin.platform)) {
+      throw new Error(`Invalid adapter plugin (${source}): platform '${plugin.platform}' is exported twice`);
+    }
+    seen.add(plugin.platform);
+  }
+  return candidates.map((plugin) => registerAdapterPlugin(plugin, source));
+}
+
+/**
+ * Load adapter plugins from `adaptersDir/*.js` and from npm packages.
+ *
+ * Each source is loaded at most once per process; failures are collected, not thrown.
+ */
+export async function loadAdapterPlugins(params: {
+  adaptersDir: string;
+  packages?: readonly string[];
+}): Promise<AdapterPluginLoadResult> {
+  const result: AdapterPluginLoadResult = { loaded: [], failed: [] };
+  const sources: Array<{ source: string; specifier: () => string }> = [];
+
+  let entries: string[] = [];
+  try {
+    entries = fs.readdirSync(params.adaptersDir).sort((a, b) => a.localeCompare(b));
+  } catch {
+    // No adapters directory: nothing to load.
+  }
+  for (const entry of entries) {
+    const filePath = path.join(params.adaptersDir, entry);
+    if (!PLUGIN_FILE_EXTENSIONS.has(path.extname(entry))) continue;
+    try {
+      if (!fs.statSync(filePath).isFile()) continue;
+    } catch (err) {
+      // e.g. a broken symlink: report it and keep loading the rest.
+      if (loadedSources.has(filePath)) continue;
+      loadedSources.add(filePath);
+      result.failed.push({ source: filePath, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    sources.push({ source: filePath, specifier: () => pathToFileURL(filePath).href });
+  }
+  for (const raw of params.packages ?? []) {
+    const packageName = raw.trim();
+    if (!packageName) continue;
+    sources.push({ source: packageName, specifier: () => resolvePackageUrl(params.adaptersDir, packageName) });
+  }
+
+  for (const { source, specifier } of sources) {
+    if (loadedSources.has(source)) continue;
+    loadedSources.add(source);
+    try {
+      for (const plugin of await importPluginModule(specifier(), source)) {
+        result.loaded.push({ platform: plugin.platform, source });
+      }
+    } catch (err) {
+      result.failed.push({ source, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,207 @@
+import assert from "assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import test from "node:test";
+import { WebSocketServer, type WebSocket } from "ws";
+import { SlackAdapter } from "./slack.adapter.js";
+import { toSlackEmojiName } from "./slack/shared.js";
+import type { ChannelMessage } from "./types.js";
+
+interface RecordedCall {
+  method: string;
+  params: URLSearchParams;
+  authorization?: string;
+}
+
+/**
+ * Local stand-in for Slack: Web API methods under /api plus a Socket Mode WebSocket.
+ */
+async function startFakeSlack(): Promise<{
+  apiBaseUrl: string;
+  calls: RecordedCall[];
+  nextSocket: () => Promise<WebSocket>;
+  sendEnvelope: (socket: WebSocket, envelope: Record<string, unknown>) => Promise<Record<string, unknown>>;
+  close: () => Promise<void>;
+}> {
+  const calls: RecordedCall[] = [];
+  let port = 0;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const url = req.url ?? "";
+      if (url.startsWith("/upload/")) {
+        res.writeHead(200);
+        res.end("OK");
+        return;
+      }
+
+      const method = url.replace(/^\/api\//, "");
+      calls.push({
+        method,
+        params: new URLSearchParams(Buffer.concat(chunks).toString("utf8")),
+        authorization: req.headers.authorization,
+      });
+
+      const results: Record<string, unknown> = {
+        "apps.connections.open": { url: `ws://127.0.0.1:${port}/socket` },
+        "users.info": { user: { name: "alice", profile: { display_name: "Alice" } } },
+        "conversations.info": { channel: { name: "eng" } },
+        "chat.postMessage": { ts: "999.000" },
+        "files.getUploadURLExternal": { upload_url: `http://127.0.0.1:${port}/upload/F1`, file_id: "F1" },
+      };
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ok: true, ...((results[method] as object | undefined) ?? {}) }));
+    });
+  });
+
+  const wss = new WebSocketServer({ server });
+  const socketWaiters: Array<(socket: WebSocket) => void> = [];
+  wss.on("connection", (socket) => {
+    socket.send(JSON.stringify({ type: "hello" }));
+    socketWaiters.shift()?.(socket);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  port = (server.address() as { port: number }).port;
+
+  return {
+    apiBaseUrl: `http://127.0.0.1:${port}/api`,
+    calls,
+    nextSocket: () => new Promise((resolve) => socketWaiters.push(resolve)),
+    sendEnvelope: (socket, envelope) =>
+      new Promise((resolve) => {
+        const onMessage = (raw: Buffer) => {
+          const ack = JSON.parse(raw.toString()) as Record<string, unknown>;
+          if (ack.envelope_id !== envelope.envelope_id) return;
+          socket.off("message", onMessage);
+          resolve(ack);
+        };
+        socket.on("message", onMessage);
+        socket.send(JSON.stringify(envelope));
+      }),
+    close: async () => {
+      for (const client of wss.clients) client.terminate();
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+test("Slack adapter maps thread messages, slash commands, thread replies and reactions", async () => {
+  const fake = await startFakeSlack();
+  const mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-slack-"));
+  const adapter = new SlackAdapter("xoxb-1-bot:xapp-1-app", { apiBaseUrl: fake.apiBaseUrl, mediaDir });
+
+  let resolveMessage!: (message: ChannelMessage) => void;
+  const messageArrived = new Promise<ChannelMessage>((resolve) => {
+    resolveMessage = resolve;
+  });
+  adapter.onMessage((message) => resolveMessage(message));
+  adapter.onCommand((command) =>
+    command.authorId === "UBOSS" ? { text: `${command.command}: ok` } : undefined
+  );
+
+  try {
+    const connected = fake.nextSocket();
+    await adapter.start();
+    const socket = await connected;
+    assert.equal(fake.calls[0]?.method, "apps.connections.open");
+    assert.equal(fake.calls[0]?.authorization, "Bearer xapp-1-app");
+
+    const ack = await fake.sendEnvelope(socket, {
+      type: "events_api",
+      envelope_id: "e1",
+      payload: {
+        event: {
+          type: "message",
+          channel: "C1",
+          channel_type: "channel",
+          user: "UBOSS",
+          text: "deploy &lt;now&gt;",
+          ts: "222.000",
+          thread_ts: "111.000",
+        },
+      },
+    });
+    assert.deepEqual(ack, { envelope_id: "e1" });
+
+    const message = await messageArrived;
+    assert.equal(message.platform, "slack");
+    assert.equal(message.id, "222.000");
+    assert.equal(message.chat.id, "C1:111.000");
+    assert.equal(message.chat.name, "#eng");
+    assert.deepEqual(message.author, { id: "UBOSS", username: "alice", displayName: "Alice" });
+    assert.equal(message.content.text, "deploy <now>");
+    assert.equal(message.inReplyTo?.channelMessageId, "111.000");
+
+    const bossAck = await fake.sendEnvelope(socket, {
+      type: "slash_commands",
+      envelope_id: "e2",
+      payload: { command: "/status", text: "", channel_id: "C1", user_id: "UBOSS", user_name: "alice" },
+    });
+    assert.deepEqual(bossAck.payload, { response_type: "in_channel", text: "status: ok" });
+
+    const otherAck = await fake.sendEnvelope(socket, {
+      type: "slash_commands",
+      envelope_id: "e3",
+      payload: { command: "/abort", text: "", channel_id: "C1", user_id: "UOTHER", user_name: "bob" },
+    });
+    assert.deepEqual(otherAck, { envelope_id: "e3" });
+
+    await adapter.sendMessage("C1:111.000", { text: "done" });
+    const post = fake.calls.find((c) => c.method === "chat.postMessage");
+    assert.equal(post?.params.get("channel"), "C1");
+    assert.equal(post?.params.get("thread_ts"), "111.000");
+    assert.equal(post?.params.get("text"), "done");
+    assert.equal(post?.authorization, "Bearer xoxb-1-bot");
+
+    await adapter.setReaction("C1:111.000", "222.000", "👍");
+    const reaction = fake.calls.find((c) => c.method === "reactions.add");
+    assert.equal(reaction?.params.get("channel"), "C1");
+    assert.equal(reaction?.params.get("timestamp"), "222.000");
+    assert.equal(reaction?.params.get("name"), "thumbsup");
+  } finally {
+    await adapter.stop();
+    await fake.close();
+    fs.rmSync(mediaDir, { recursive: true, force: true });
+  }
+});
+
+test("Slack outgoing uploads files with the text as initial comment and reply-to as thread", async () => {
+  const fake = await startFakeSlack();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-slack-"));
+  const filePath = path.join(dir, "chart.png");
+  fs.writeFileSync(filePath, "png", "utf8");
+  const adapter = new SlackAdapter("xoxb-1-bot:xapp-1-app", { apiBaseUrl: fake.apiBaseUrl });
+
+  try {
+    await adapter.sendMessage(
+      "C2",
+      { text: "chart", attachments: [{ source: filePath }] },
+      { replyToMessageId: "333.000" }
+    );
+    assert.deepEqual(
+      fake.calls.map((c) => c.method),
+      ["files.getUploadURLExternal", "files.completeUploadExternal"]
+    );
+    const complete = fake.calls[1]!.params;
+    assert.deepEqual(JSON.parse(complete.get("files")!), [{ id: "F1", title: "chart.png" }]);
+    assert.equal(complete.get("channel_id"), "C2");
+    assert.equal(complete.get("thread_ts"), "333.000");
+    assert.equal(complete.get("initial_comment"), "chart");
+  } finally {
+    await fake.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("toSlackEmojiName accepts Slack names and common Unicode emoji", () => {
+  assert.equal(toSlackEmojiName("👀"), "eyes");
+  assert.equal(toSlackEmojiName(":white_check_mark:"), "white_check_mark");
+  assert.equal(toSlackEmojiName("+1"), "+1");
+  assert.throws(() => toSlackEmojiName("🦜"), /Unsupported emoji/);
+});
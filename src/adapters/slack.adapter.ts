@@ -0,0 +1,189 @@
+import type {
+  ChatAdapter,
+  ChannelMessageHandler,
+  MessageContent,
+  ChannelCommandHandler,
+  SendMessageOptions,
+} from "./types.js";
+import { splitTextIntoChunks } from "./types.js";
+import { getHiBossPaths } from "../shared/hiboss-paths.js";
+import { SlackWebClient } from "./slack/web-api.js";
+import { SlackSocketModeClient, type SocketModeAckPayload } from "./slack/socket-mode.js";
+import { buildSlackChannelMessage, isUserContentMessage, type SlackMessageEvent } from "./slack/incoming.js";
+import { sendSlackMessage } from "./slack/outgoing.js";
+import {
+  parseSlackAdapterToken,
+  parseSlackChatId,
+  SLACK_MAX_TEXT_CHARS,
+  toSlackEmojiName,
+} from "./slack/shared.js";
+
+const COMMAND_NAMES: ReadonlySet<string> = new Set(["new", "status", "abort"]);
+
+interface SlackSlashCommandPayload {
+  command?: string;
+  text?: string;
+  channel_id?: string;
+  user_id?: string;
+  user_name?: string;
+}
+
+export interface SlackAdapterOptions {
+  /** Web API base URL (default: https://slack.com/api). */
+  apiBaseUrl?: string;
+  mediaDir?: string;
+}
+
+/**
+ * Slack adapter for the chat bot (Socket Mode for inbound, Web API for outbound).
+ *
+ * The binding token is `<xoxb-bot-token>:<xapp-app-token>`. Chat ids are
+ * `<channel>` or `<channel>:<thread_ts>`, so thread replies stay in their thread.
+ */
+export class SlackAdapter implements ChatAdapter {
+  readonly platform = "slack";
+  private web: SlackWebClient;
+  private socket: SlackSocketModeClient;
+  private handlers: ChannelMessageHandler[] = [];
+  private commandHandlers: ChannelCommandHandler[] = [];
+  private users: Map<string, { username?: string; displayName?: string }> = new Map();
+  private channelNames: Map<string, string | undefined> = new Map();
+  private mediaDir: string;
+  private tokenValid: boolean;
+  private started = false;
+
+  constructor(token: string, options: SlackAdapterOptions = {}) {
+    const tokens = parseSlackAdapterToken(token);
+    this.tokenValid = tokens !== null;
+    this.web = new SlackWebClient(tokens?.botToken ?? "", tokens?.appToken ?? "", options.apiBaseUrl);
+    this.mediaDir = options.mediaDir ?? getHiBossPaths().mediaDir;
+    this.socket = new SlackSocketModeClient({
+      openConnection: () => this.web.openSocketModeConnection(),
+      onEventsApi: (payload) => this.handleEventsApi(payload),
+      onSlashCommand: (payload) => this.handleSlashCommand(payload as SlackSlashCommandPayload),
+      logPrefix: `[${this.platform}]`,
+    });
+  }
+
+  private handleEventsApi(payload: unknown): void {
+    const event = (payload as { event?: SlackMessageEvent } | undefined)?.event;
+    if (!event || !isUserContentMessage(event)) return;
+    void this.handleMessage(event).catch((err) => {
+      console.error(`[${this.platform}] message handler error:`, err);
+    });
+  }
+
+  private async resolveUser(userId: string): Promise<{ username?: string; displayName?: string }> {
+    const cached = this.users.get(userId);
+    if (cached) return cached;
+    let resolved: { username?: string; displayName?: string } = {};
+    try {
+      const user = await this.web.getUser(userId);
+      resolved = { username: user.name, displayName: user.displayName };
+    } catch {
+      // Best-effort: fall back to the user id for display.
+    }
+    this.users.set(userId, resolved);
+    return resolved;
+  }
+
+  private async resolveChannelName(event: SlackMessageEvent): Promise<string | undefined> {
+    // Direct messages have no channel name.
+    if (event.channel_type === "im") return undefined;
+    if (this.channelNames.has(event.channel)) {
+      return this.channelNames.get(event.channel);
+    }
+    let name: string | undefined;
+    try {
+      const channelName = await this.web.getChannelName(event.channel);
+      name = channelName ? `#${channelName}` : undefined;
+    } catch {
+      // Best-effort: the chat name is display-only.
+    }
+    this.channelNames.set(event.channel, name);
+    return name;
+  }
+
+  private async handleMessage(event: SlackMessageEvent): Promise<void> {
+    const message = await buildSlackChannelMessage({
+      platform: this.platform,
+      event,
+      mediaDir: this.mediaDir,
+      download: (url) => this.web.downloadFile(url),
+      author: await this.resolveUser(event.user!),
+      chatName: await this.resolveChannelName(event),
+    });
+
+    if (!message.content.text && !message.content.attachments?.length) return;
+
+    for (const handler of this.handlers) {
+      await handler(message);
+    }
+  }
+
+  private async handleSlashCommand(payload: SlackSlashCommandPayload): Promise<SocketModeAckPayload> {
+    // Accept `/new` as well as a prefixed `/hiboss-new` (Slack command names are workspace-global).
+    const name = (payload.command ?? "").replace(/^\//, "").replace(/^hiboss-/, "").toLowerCase();
+    if (!COMMAND_NAMES.has(name) || !payload.channel_id) return undefined;
+
+    for (const handler of this.commandHandlers) {
+      try {
+        const result = await handler({
+          command: name,
+          args: (payload.text ?? "").trim(),
+          chatId: payload.channel_id,
+          authorId: payload.user_id,
+          authorUsername: payload.user_name,
+        });
+        if (result?.text) {
+          const [first] = splitTextIntoChunks(result.text, SLACK_MAX_TEXT_CHARS);
+          return { response_type: "in_channel", text: first };
+        }
+      } catch (err) {
+        console.error(`[${this.platform}] command handler error:`, err);
+      }
+    }
+
+    // Boss-only commands: non-boss users get no reply.
+    return undefined;
+  }
+
+  async sendMessage(chatId: string, content: MessageContent, options: SendMessageOptions = {}): Promise<void> {
+    await sendSlackMessage(this.web, chatId, content, options);
+  }
+
+  onMessage(handler: ChannelMessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  onCommand(handler: ChannelCommandHandler): void {
+    this.commandHandlers.push(handler);
+  }
+
+  async setReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    if (!emoji.trim()) {
+      throw new Error("Reaction emoji is required");
+    }
+    const { channel } = parseSlackChatId(chatId);
+    await this.web.addReaction({ channel, timestamp: messageId.trim(), name: toSlackEmojiName(emoji) });
+  }
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return; // Already started, ignore duplicate calls
+    }
+    if (!this.tokenValid) {
+      console.error(`[${this.platform}] Invalid adapter token (expected "<xoxb-bot-token>:<xapp-app-token>")`);
+      return;
+    }
+    this.started = true;
+    console.log(`[${this.platform}] Bot starting...`);
+    this.socket.start();
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+    this.socket.stop();
+    console.log(`[${this.platform}] Bot stopped`);
+  }
+}
@@ -0,0 +1,116 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { Attachment, ChannelMessage } from "../types.js";
+import { decodeSlackText, formatSlackChatId } from "./shared.js";
+
+export interface SlackFile {
+  id: string;
+  name?: string;
+  url_private_download?: string;
+}
+
+/**
+ * Subset of the Events API `message` event used by the adapter.
+ */
+export interface SlackMessageEvent {
+  type: string;
+  subtype?: string;
+  channel: string;
+  channel_type?: string;
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+  files?: SlackFile[];
+}
+
+// Subtypes that still carry user-authored content.
+const USER_CONTENT_SUBTYPES = new Set(["file_share", "thread_broadcast"]);
+
+export function isUserContentMessage(event: SlackMessageEvent): boolean {
+  if (event.type !== "message" || !event.user || event.bot_id) return false;
+  return event.subtype === undefined || USER_CONTENT_SUBTYPES.has(event.subtype);
+}
+
+/**
+ * Get a unique file path in the given directory, adding incremental suffix for duplicates.
+ */
+function getUniqueFilePath(dir: string, filename: string): string {
+  const ext = path.extname(filename);
+  const base = path.basename(filename, ext);
+  let candidate = path.join(dir, filename);
+  let counter = 1;
+
+  while (fs.existsSync(candidate)) {
+    candidate = path.join(dir, `${base}_${counter}${ext}`);
+    counter++;
+  }
+  return candidate;
+}
+
+async function getSlackAttachment(params: {
+  file: SlackFile;
+  mediaDir: string;
+  download: (url: string) => Promise<Buffer>;
+}): Promise<Attachment | undefined> {
+  const url = params.file.url_private_download;
+  if (!url) return undefined;
+
+  const buffer = await params.download(url);
+  if (!fs.existsSync(params.mediaDir)) {
+    fs.mkdirSync(params.mediaDir, { recursive: true });
+  }
+
+  const filename = path.basename(params.file.name || "") || `file_${crypto.randomUUID()}.bin`;
+  const localPath = getUniqueFilePath(params.mediaDir, filename);
+  fs.writeFileSync(localPath, buffer);
+
+  return { source: localPath, filename };
+}
+
+/**
+ * Build a `ChannelMessage` from a Slack message event.
+ *
+ * Thread messages get chat id `<channel>:<thread_ts>` so replies land in the same thread.
+ */
+export async function buildSlackChannelMessage(params: {
+  platform: string;
+  event: SlackMessageEvent;
+  mediaDir: string;
+  download: (url: string) => Promise<Buffer>;
+  author: { username?: string; displayName?: string };
+  chatName?: string;
+}): Promise<ChannelMessage> {
+  const event = params.event;
+
+  const attachments: Attachment[] = [];
+  for (const file of event.files ?? []) {
+    const attachment = await getSlackAttachment({ file, mediaDir: params.mediaDir, download: params.download });
+    if (attachment) attachments.push(attachment);
+  }
+
+  const threadTs = event.thread_ts;
+  const isThreadReply = Boolean(threadTs && threadTs !== event.ts);
+
+  return {
+    id: event.ts,
+    platform: params.platform,
+    author: {
+      id: event.user!,
+      username: params.author.username,
+      displayName: params.author.displayName || params.author.username || event.user!,
+    },
+    inReplyTo: isThreadReply ? { channelMessageId: threadTs! } : undefined,
+    chat: {
+      id: formatSlackChatId(event.channel, isThreadReply ? threadTs : undefined),
+      name: params.chatName,
+    },
+    content: {
+      text: event.text ? decodeSlackText(event.text) : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    },
+    raw: event,
+  };
+}
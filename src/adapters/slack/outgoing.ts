@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Attachment, MessageContent, SendMessageOptions } from "../types.js";
+import { splitTextIntoChunks } from "../types.js";
+import { parseSlackChatId, SLACK_MAX_TEXT_CHARS } from "./shared.js";
+
+type SlackOutgoingApi = {
+  postMessage: (args: { channel: string; text: string; threadTs?: string }) => Promise<unknown>;
+  uploadFiles: (args: {
+    channel: string;
+    threadTs?: string;
+    initialComment?: string;
+    files: Array<{ filename: string; data: Buffer }>;
+  }) => Promise<unknown>;
+};
+
+function resolveUploadFilename(candidate: string | undefined, fallback: string): string {
+  const trimmed = candidate?.trim();
+  if (trimmed) return path.basename(trimmed);
+  return path.basename(fallback) || "file.bin";
+}
+
+async function loadUploadFile(attachment: Attachment): Promise<{ filename: string; data: Buffer }> {
+  const source = attachment.source;
+
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Slack attachment source: ${response.status}`);
+    }
+    return {
+      filename: resolveUploadFilename(attachment.filename, new URL(source).pathname),
+      data: Buffer.from(await response.arrayBuffer()),
+    };
+  }
+
+  const resolvedPath = path.resolve(source);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Slack attachment source file not found: ${resolvedPath}`);
+  }
+  return {
+    filename: resolveUploadFilename(attachment.filename, resolvedPath),
+    data: await fs.promises.readFile(resolvedPath),
+  };
+}
+
+/**
+ * Send an outgoing message to a Slack channel or thread.
+ *
+ * `chatId` may carry a thread (`<channel>:<thread_ts>`). Slack has no quoted replies,
+ * so `replyToMessageId` on a top-level chat starts a thread under that message.
+ * `parseMode` is ignored (Slack renders mrkdwn).
+ */
+export async function sendSlackMessage(
+  api: SlackOutgoingApi,
+  chatId: string,
+  content: MessageContent,
+  options: SendMessageOptions = {}
+): Promise<void> {
+  const { channel, threadTs: chatThreadTs } = parseSlackChatId(chatId);
+  const threadTs = chatThreadTs ?? (options.replyToMessageId?.trim() || undefined);
+
+  const text = typeof content.text === "string" && content.text.trim() ? content.text : undefined;
+  const attachments = content.attachments ?? [];
+  const textChunks = text ? splitTextIntoChunks(text, SLACK_MAX_TEXT_CHARS) : [];
+
+  // Short text becomes the upload's initial comment; long text is posted first on its own.
+  const initialComment = attachments.length > 0 && textChunks.length === 1 ? textChunks.pop() : undefined;
+  for (const chunk of textChunks) {
+    await api.postMessage({ channel, text: chunk, threadTs });
+  }
+
+  if (attachments.length > 0) {
+    const files: Array<{ filename: string; data: Buffer }> = [];
+    for (const attachment of attachments) {
+      files.push(await loadUploadFile(attachment));
+    }
+    await api.uploadFiles({ channel, threadTs, initialComment, files });
+  }
+}
@@ -0,0 +1,105 @@
+export const SLACK_API_BASE_URL = "https://slack.com/api";
+
+// Slack truncates message text beyond 40k chars and recommends staying under 4000.
+export const SLACK_MAX_TEXT_CHARS = 4000;
+
+// Binding token: "<bot-token>:<app-token>" (xoxb for the Web API, xapp for Socket Mode).
+const SLACK_ADAPTER_TOKEN_REGEX = /^(xoxb-[A-Za-z0-9-]+):(xapp-[A-Za-z0-9-]+)$/;
+
+export function parseSlackAdapterToken(token: string): { botToken: string; appToken: string } | null {
+  const match = SLACK_ADAPTER_TOKEN_REGEX.exec(token.trim());
+  if (!match) return null;
+  return { botToken: match[1]!, appToken: match[2]! };
+}
+
+export function isValidSlackAdapterToken(token: string): boolean {
+  return parseSlackAdapterToken(token) !== null;
+}
+
+/**
+ * Slack chat ids are `<channel-id>` or `<channel-id>:<thread-ts>` (thread replies).
+ */
+export function parseSlackChatId(chatId: string): { channel: string; threadTs?: string } {
+  const [channel, threadTs] = chatId.split(":", 2);
+  if (!channel) {
+    throw new Error(`Invalid Slack chat id: ${chatId}`);
+  }
+  return threadTs ? { channel, threadTs } : { channel };
+}
+
+export function formatSlackChatId(channel: string, threadTs?: string): string {
+  return threadTs ? `${channel}:${threadTs}` : channel;
+}
+
+/**
+ * Error for Slack Web API responses with `ok: false` (or non-2xx HTTP status).
+ *
+ * `error` is Slack's error string (e.g. `channel_not_found`, `not_in_channel`).
+ */
+export class SlackApiError extends Error {
+  constructor(
+    readonly method: string,
+    readonly error: string
+  ) {
+    super(`Slack ${method} failed: ${error}`);
+    this.name = "SlackApiError";
+  }
+}
+
+const UNICODE_TO_SLACK_EMOJI: Record<string, string> = {
+  "👍": "thumbsup",
+  "👎": "thumbsdown",
+  "❤️": "heart",
+  "❤": "heart",
+  "😂": "joy",
+  "😄": "smile",
+  "🎉": "tada",
+  "👀": "eyes",
+  "✅": "white_check_mark",
+  "❌": "x",
+  "🔥": "fire",
+  "🙏": "pray",
+  "🤔": "thinking_face",
+  "💯": "100",
+  "🚀": "rocket",
+  "👌": "ok_hand",
+  "👏": "clap",
+  "😢": "cry",
+  "⚠️": "warning",
+  "⏳": "hourglass_flowing_sand",
+};
+
+/**
+ * Map a reaction to a Slack emoji name.
+ *
+ * Accepts Slack names (`thumbsup`, `:thumbsup:`, `+1`) and common Unicode emoji.
+ */
+export function toSlackEmojiName(emoji: string): string {
+  const trimmed = emoji.trim();
+  const mapped = UNICODE_TO_SLACK_EMOJI[trimmed];
+  if (mapped) return mapped;
+
+  const name = trimmed.replace(/^:/, "").replace(/:$/, "");
+  if (/^[a-z0-9_+'-]+$/i.test(name)) return name.toLowerCase();
+
+  throw new Error(`Unsupported emoji for Slack: ${trimmed} (use an emoji name like thumbsup)`);
+}
+
+/**
+ * Decode the three HTML entities Slack escapes in message text.
+ */
+export function decodeSlackText(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function computeReconnectBackoff(attempt: number): number {
+  const initialMs = 1000;
+  const maxMs = 60_000;
+  const base = Math.min(initialMs * Math.pow(2, attempt), maxMs);
+  const variance = base * 0.25 * (Math.random() * 2 - 1);
+  return Math.round(base + variance);
+}
@@ -0,0 +1,140 @@
+import WebSocket from "ws";
+import { computeReconnectBackoff, sleep } from "./shared.js";
+
+/**
+ * Socket Mode envelope (https://api.slack.com/apis/socket-mode).
+ */
+interface SocketModeEnvelope {
+  type: string;
+  envelope_id?: string;
+  payload?: unknown;
+  reason?: string;
+}
+
+/**
+ * Handler result for envelopes that accept a response payload (slash commands).
+ */
+export type SocketModeAckPayload = Record<string, unknown> | undefined;
+
+export interface SlackSocketModeOptions {
+  openConnection: () => Promise<string>;
+  onEventsApi: (payload: unknown) => void;
+  onSlashCommand: (payload: unknown) => Promise<SocketModeAckPayload>;
+  logPrefix?: string;
+}
+
+/**
+ * Slack Socket Mode connection: acks envelopes and reconnects on `disconnect`/close.
+ */
+export class SlackSocketModeClient {
+  private ws: WebSocket | null = null;
+  private stopped = true;
+  private reconnectAttempt = 0;
+  private readonly logPrefix: string;
+
+  constructor(private readonly options: SlackSocketModeOptions) {
+    this.logPrefix = options.logPrefix ?? "[slack]";
+  }
+
+  /**
+   * Connect in the background; reconnects until `stop()`.
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    void this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    const ws = this.ws;
+    this.ws = null;
+    if (ws && ws.readyState !== WebSocket.CLOSED) {
+      ws.close(1000);
+    }
+  }
+
+  private async connect(): Promise<void> {
+    let url: string;
+    try {
+      url = await this.options.openConnection();
+    } catch (err) {
+      console.error(`${this.logPrefix} Failed to open Socket Mode connection:`, err);
+      this.scheduleReconnect();
+      return;
+    }
+    if (this.stopped) return;
+
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.on("message", (raw) => {
+      let envelope: SocketModeEnvelope;
+      try {
+        envelope = JSON.parse(raw.toString()) as SocketModeEnvelope;
+      } catch {
+        return;
+      }
+      void this.handleEnvelope(ws, envelope);
+    });
+
+    ws.on("error", (err) => {
+      console.error(`${this.logPrefix} Socket Mode error:`, err.message);
+    });
+
+    ws.on("close", () => {
+      if (this.ws === ws) this.ws = null;
+      if (this.stopped) return;
+      this.scheduleReconnect();
+    });
+  }
+
+  private async handleEnvelope(ws: WebSocket, envelope: SocketModeEnvelope): Promise<void> {
+    switch (envelope.type) {
+      case "hello":
+        this.reconnectAttempt = 0;
+        return;
+      case "disconnect":
+        // Slack rotates connections periodically; close and open a fresh one.
+        ws.close(1000);
+        return;
+      case "events_api":
+        // Ack first: Slack retries envelopes not acked within 3 seconds.
+        this.ack(ws, envelope.envelope_id);
+        try {
+          this.options.onEventsApi(envelope.payload);
+        } catch (err) {
+          console.error(`${this.logPrefix} event handler error:`, err);
+        }
+        return;
+      case "slash_commands": {
+        let response: SocketModeAckPayload;
+        try {
+          response = await this.options.onSlashCommand(envelope.payload);
+        } catch (err) {
+          console.error(`${this.logPrefix} command handler error:`, err);
+        }
+        this.ack(ws, envelope.envelope_id, response);
+        return;
+      }
+      default:
+        this.ack(ws, envelope.envelope_id);
+    }
+  }
+
+  private ack(ws: WebSocket, envelopeId: string | undefined, payload?: SocketModeAckPayload): void {
+    if (!envelopeId || ws.readyState !== WebSocket.OPEN) return;
+    ws.send(JSON.stringify(payload ? { envelope_id: envelopeId, payload } : { envelope_id: envelopeId }));
+  }
+
+  private scheduleReconnect(): void {
+    const delayMs = this.reconnectAttempt === 0 ? 0 : computeReconnectBackoff(this.reconnectAttempt - 1);
+    this.reconnectAttempt++;
+    if (delayMs > 0) {
+      console.log(`${this.logPrefix} Socket Mode disconnected, reconnecting in ${delayMs}ms`);
+    }
+    void sleep(delayMs).then(() => {
+      if (!this.stopped) void this.connect();
+    });
+  }
+}
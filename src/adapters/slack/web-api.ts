@@ -0,0 +1,140 @@
+import { SLACK_API_BASE_URL, SlackApiError, sleep } from "./shared.js";
+
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+type SlackArgs = Record<string, string | number | boolean | undefined | unknown[]>;
+
+/**
+ * Minimal Slack Web API client (form-encoded calls; only the methods the adapter uses).
+ *
+ * `baseUrl` is overridable so tests can point the adapter at a local stub.
+ */
+export class SlackWebClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly botToken: string,
+    private readonly appToken: string,
+    baseUrl: string = SLACK_API_BASE_URL
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * Open a Socket Mode connection (uses the app-level token).
+   */
+  async openSocketModeConnection(): Promise<string> {
+    const result = await this.call<{ url?: unknown }>("apps.connections.open", {}, this.appToken);
+    if (typeof result.url !== "string" || !result.url) {
+      throw new SlackApiError("apps.connections.open", "missing_url");
+    }
+    return result.url;
+  }
+
+  async postMessage(args: { channel: string; text: string; threadTs?: string }): Promise<{ ts?: string }> {
+    return await this.call("chat.postMessage", {
+      channel: args.channel,
+      text: args.text,
+      thread_ts: args.threadTs,
+    });
+  }
+
+  async addReaction(args: { channel: string; timestamp: string; name: string }): Promise<void> {
+    await this.call("reactions.add", args);
+  }
+
+  async getChannelName(channel: string): Promise<string | undefined> {
+    const result = await this.call<{ channel?: { name?: unknown } }>("conversations.info", { channel });
+    return typeof result.channel?.name === "string" ? result.channel.name : undefined;
+  }
+
+  async getUser(user: string): Promise<{ name?: string; displayName?: string }> {
+    const result = await this.call<{
+      user?: { name?: unknown; real_name?: unknown; profile?: { display_name?: unknown; real_name?: unknown } };
+    }>("users.info", { user });
+    const u = result.user;
+    const pick = (...values: unknown[]) => values.find((v): v is string => typeof v === "string" && v.length > 0);
+    return {
+      name: pick(u?.name),
+      displayName: pick(u?.profile?.display_name, u?.profile?.real_name, u?.real_name),
+    };
+  }
+
+  /**
+   * Upload files to a channel/thread (external upload flow).
+   */
+  async uploadFiles(args: {
+    channel: string;
+    threadTs?: string;
+    initialComment?: string;
+    files: Array<{ filename: string; data: Buffer }>;
+  }): Promise<void> {
+    const uploaded: Array<{ id: string; title: string }> = [];
+    for (const file of args.files) {
+      const target = await this.call<{ upload_url?: unknown; file_id?: unknown }>("files.getUploadURLExternal", {
+        filename: file.filename,
+        length: file.data.length,
+      });
+      if (typeof target.upload_url !== "string" || typeof target.file_id !== "string") {
+        throw new SlackApiError("files.getUploadURLExternal", "missing_upload_url");
+      }
+      const response = await fetch(target.upload_url, { method: "POST", body: new Uint8Array(file.data) });
+      if (!response.ok) {
+        throw new SlackApiError("files.upload", `http_${response.status}`);
+      }
+      uploaded.push({ id: target.file_id, title: file.filename });
+    }
+
+    await this.call("files.completeUploadExternal", {
+      files: uploaded,
+      channel_id: args.channel,
+      thread_ts: args.threadTs,
+      initial_comment: args.initialComment,
+    });
+  }
+
+  /**
+   * Download a private file URL (`url_private_download`) with the bot token.
+   */
+  async downloadFile(url: string): Promise<Buffer> {
+    const response = await fetch(url, { headers: { Authorization: `Bearer ${this.botToken}` } });
+    if (!response.ok) {
+      throw new Error(`Failed to download Slack file: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private async call<T>(method: string, args: SlackArgs, token: string = this.botToken): Promise<T> {
+    const form = new URLSearchParams();
+    for (const [key, value] of Object.entries(args)) {
+      if (value === undefined) continue;
+      form.set(key, Array.isArray(value) ? JSON.stringify(value) : String(value));
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${this.baseUrl}/${method}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: form.toString(),
+      });
+
+      if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const retryAfterSec = Number(response.headers.get("retry-after") ?? "1");
+        await sleep(Math.max(1, Number.isFinite(retryAfterSec) ? retryAfterSec : 1) * 1000);
+        continue;
+      }
+      if (!response.ok) {
+        throw new SlackApiError(method, `http_${response.status}`);
+      }
+
+      const data = (await response.json()) as { ok?: boolean; error?: unknown };
+      if (!data.ok) {
+        throw new SlackApiError(method, typeof data.error === "string" ? data.error : "unknown_error");
+      }
+      return data as T;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Telegraf } from "telegraf";
 import type {
   ChatAdapter,
+  ChannelMessage,
   ChannelMessageHandler,
   MessageContent,
   ChannelCommandHandler,
@@ -8,30 +9,36 @@ import type {
   SendMessageOptions,
 } from "./types.js";
 import { getHiBossPaths } from "../shared/hiboss-paths.js";
-import { parseTelegramMessageId } from "../shared/telegram-message-id.js";
+import { formatTelegramMessageIdCompact, parseTelegramMessageId } from "../shared/telegram-message-id.js";
 import { buildTelegramChannelMessage, type MessageContext } from "./telegram/incoming.js";
 import { sendTelegramMessage } from "./telegram/outgoing.js";
+import { getTelegramMediaGroupId, TelegramMediaGroupBuffer } from "./telegram/media-group.js";
 import {
   computeBackoff,
   isGetUpdatesConflict,
+  isMessageNotModified,
   sleep,
   splitTextForTelegram,
   TELEGRAM_MAX_TEXT_CHARS,
 } from "./telegram/shared.js";
 
+// Editable status messages keep their tail, where the newest progress is.
+function truncateForTelegramEdit(text: string): string {
+  return text.length <= TELEGRAM_MAX_TEXT_CHARS ? text : `…${text.slice(-(TELEGRAM_MAX_TEXT_CHARS - 1))}`;
+}
+
 /**
  * Telegram adapter for the chat bot.
  *
- * Limitations:
- * - Media groups (albums): When users send multiple images/videos together,
- *   Telegram delivers each as a separate message. Only the first message
- *   contains the caption. These messages share a `media_group_id` in the raw
- *   payload but are currently emitted as independent messages.
+ * Media groups (albums): Telegram delivers each item as a separate message sharing a
+ * `media_group_id`, with the caption only on the first. Items are buffered briefly and
+ * emitted as one message carrying all attachments (see `telegram/media-group.ts`).
  */
 export class TelegramAdapter implements ChatAdapter {
   readonly platform = "telegram";
   private bot: Telegraf;
   private handlers: ChannelMessageHandler[] = [];
+  private mediaGroups = new TelegramMediaGroupBuffer((message) => this.emitMessage(message));
   private commandHandlers: ChannelCommandHandler[] = [];
   private mediaDir: string;
   private stopped = false;
@@ -59,6 +66,7 @@ export class TelegramAdapter implements ChatAdapter {
       command: commandName,
       args: TelegramAdapter.extractCommandArgs(rawText, commandName),
       chatId,
+      authorId: ctx.from?.id !== undefined ? String(ctx.from.id) : undefined,
       authorUsername: username,
     };
 
@@ -109,13 +117,23 @@ export class TelegramAdapter implements ChatAdapter {
   }
 
   private async handleMessage(ctx: MessageContext): Promise<void> {
-    const message = await buildTelegramChannelMessage({
+    const build = buildTelegramChannelMessage({
       platform: this.platform,
       telegram: this.bot.telegram as any,
       ctx,
       mediaDir: this.mediaDir,
     });
 
+    const mediaGroupId = getTelegramMediaGroupId(ctx.message);
+    if (mediaGroupId) {
+      this.mediaGroups.add(`${ctx.chat?.id ?? ""}:${mediaGroupId}`, build);
+      return;
+    }
+
+    await this.emitMessage(await build);
+  }
+
+  private async emitMessage(message: ChannelMessage): Promise<void> {
     for (const handler of this.handlers) {
       await handler(message);
     }
@@ -148,6 +166,25 @@ export class TelegramAdapter implements ChatAdapter {
     });
   }
 
+  async setTyping(chatId: string): Promise<void> {
+    await this.bot.telegram.sendChatAction(chatId, "typing");
+  }
+
+  async sendEditableMessage(chatId: string, text: string): Promise<string> {
+    const sent = await this.bot.telegram.sendMessage(chatId, truncateForTelegramEdit(text));
+    return formatTelegramMessageIdCompact(String(sent.message_id));
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    const mid = parseTelegramMessageId(messageId, "channel-message-id");
+    try {
+      await this.bot.telegram.editMessageText(chatId, mid, undefined, truncateForTelegramEdit(text));
+    } catch (err) {
+      // Editing to identical text is a 400 from Telegram; nothing to do.
+      if (!isMessageNotModified(err)) throw err;
+    }
+  }
+
   async start(): Promise<void> {
     if (this.started) {
       return; // Already started, ignore duplicate calls
@@ -189,6 +226,7 @@ export class TelegramAdapter implements ChatAdapter {
   async stop(): Promise<void> {
     this.stopped = true;
     this.started = false;
+    await this.mediaGroups.flushAll();
     this.bot.stop();
     console.log(`[${this.platform}] Bot stopped`);
   }
@@ -0,0 +1,59 @@
+import assert from "assert/strict";
+import test from "node:test";
+import type { ChannelMessage } from "../types.js";
+import { TelegramMediaGroupBuffer, getTelegramMediaGroupId } from "./media-group.js";
+
+function makeItem(id: number, options: { caption?: string; file: string }): ChannelMessage {
+  return {
+    id: String(id),
+    platform: "telegram",
+    author: { id: "1", displayName: "Boss" },
+    chat: { id: "100" },
+    content: { text: options.caption, attachments: [{ source: `/tmp/${options.file}` }] },
+    raw: { message_id: id, media_group_id: "album-1" },
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+test("Telegram media group buffer emits one message with every album attachment", async () => {
+  const emitted: ChannelMessage[] = [];
+  const buffer = new TelegramMediaGroupBuffer(async (message) => {
+    emitted.push(message);
+  }, 20);
+
+  // The captioned first item finishes downloading last.
+  buffer.add("100:album-1", sleep(40).then(() => makeItem(10, { caption: "trip photos", file: "a.jpg" })));
+  buffer.add("100:album-1", Promise.resolve(makeItem(11, { file: "b.jpg" })));
+  buffer.add("100:album-2", Promise.resolve(makeItem(20, { file: "c.jpg" })));
+  buffer.add("100:album-1", Promise.resolve(makeItem(12, { file: "d.jpg" })));
+  buffer.add("100:album-1", Promise.reject(new Error("download failed")));
+
+  await sleep(80);
+
+  assert.equal(emitted.length, 2);
+  const album = emitted.find((m) => m.id === "10");
+  assert.ok(album);
+  assert.equal(album.content.text, "trip photos");
+  assert.deepEqual(
+    album.content.attachments?.map((a) => a.source),
+    ["/tmp/a.jpg", "/tmp/b.jpg", "/tmp/d.jpg"]
+  );
+  assert.equal(emitted.find((m) => m.id === "20")?.content.text, undefined);
+});
+
+test("Telegram media group buffer flushes pending albums on demand", async () => {
+  const emitted: ChannelMessage[] = [];
+  const buffer = new TelegramMediaGroupBuffer(async (message) => {
+    emitted.push(message);
+  }, 60_000);
+
+  buffer.add("100:album-1", Promise.resolve(makeItem(10, { file: "a.jpg" })));
+  await buffer.flushAll();
+
+  assert.equal(emitted.length, 1);
+  assert.equal(getTelegramMediaGroupId({ media_group_id: "album-1" }), "album-1");
+  assert.equal(getTelegramMediaGroupId({ message_id: 1 }), undefined);
+});
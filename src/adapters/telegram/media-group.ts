@@ -0,0 +1,107 @@
+import type { ChannelMessage } from "../types.js";
+
+// Telegram sends album items as separate updates within a fraction of a second.
+export const TELEGRAM_MEDIA_GROUP_WINDOW_MS = 1000;
+
+export function getTelegramMediaGroupId(message: unknown): string | undefined {
+  if (!message || typeof message !== "object") return undefined;
+  const raw = (message as { media_group_id?: unknown }).media_group_id;
+  return typeof raw === "string" && raw ? raw : undefined;
+}
+
+/**
+ * Merge album items into one message.
+ *
+ * Items are ordered by Telegram message id; the first item provides the id (so replies quote
+ * the album), author, chat, and raw payload. Captions (usually only on the first item) are joined.
+ */
+export function mergeTelegramMediaGroup(messages: ChannelMessage[]): ChannelMessage {
+  if (messages.length === 0) {
+    throw new Error("Cannot merge an empty media group");
+  }
+  const sorted = [...messages].sort((a, b) => Number(a.id) - Number(b.id));
+  const first = sorted[0]!;
+  const captions = sorted.map((m) => m.content.text?.trim()).filter((t): t is string => !!t);
+  const attachments = sorted.flatMap((m) => m.content.attachments ?? []);
+
+  return {
+    ...first,
+    inReplyTo: sorted.find((m) => m.inReplyTo)?.inReplyTo,
+    content: {
+      text: captions.length > 0 ? captions.join("\n\n") : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    },
+  };
+}
+
+interface PendingMediaGroup {
+  items: Promise<ChannelMessage>[];
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Buffers album items by group key and emits one merged message once no new item
+ * has arrived for `windowMs`.
+ *
+ * Items are added as promises so slow media downloads cannot split an album: the window
+ * runs from the last update received, and the flush waits for every item.
+ */
+export class TelegramMediaGroupBuffer {
+  private groups: Map<string, PendingMediaGroup> = new Map();
+
+  constructor(
+    private readonly emit: (message: ChannelMessage) => Promise<void>,
+    private readonly windowMs: number = TELEGRAM_MEDIA_GROUP_WINDOW_MS
+  ) {}
+
+  add(key: string, item: Promise<ChannelMessage>): void {
+    // Failures are reported at flush time; avoid an unhandled rejection in the meantime.
+    item.catch(() => undefined);
+
+    const group = this.groups.get(key);
+    if (group) {
+      clearTimeout(group.timer);
+      group.items.push(item);
+      group.timer = this.scheduleFlush(key);
+      return;
+    }
+    this.groups.set(key, { items: [item], timer: this.scheduleFlush(key) });
+  }
+
+  /**
+   * Emit every pending group now (used on adapter stop).
+   */
+  async flushAll(): Promise<void> {
+    await Promise.all([...this.groups.keys()].map((key) => this.flush(key)));
+  }
+
+  private scheduleFlush(key: string): ReturnType<typeof setTimeout> {
+    return setTimeout(() => {
+      void this.flush(key);
+    }, this.windowMs);
+  }
+
+  private async flush(key: string): Promise<void> {
+    const group = this.groups.get(key);
+    if (!group) return;
+    this.groups.delete(key);
+    clearTimeout(group.timer);
+
+    const results = await Promise.allSettled(group.items);
+    const messages: ChannelMessage[] = [];
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        messages.push(result.value);
+      } else {
+        console.error("[telegram] media group item failed:", result.reason);
+      }
+    }
+    if (messages.length === 0) return;
+
+    try {
+      await this.emit(mergeTelegramMediaGroup(messages));
+    } catch (err) {
+      console.error("[telegram] media group handler error:", err);
+    }
+  }
+}
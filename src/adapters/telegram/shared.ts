@@ -1,9 +1,17 @@
 import type { OutgoingParseMode } from "../types.js";
+import { splitTextIntoChunks } from "../types.js";
 
 export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// Bot tokens are `<bot-id>:<secret>` (as issued by @BotFather).
+const TELEGRAM_BOT_TOKEN_REGEX = /^\d+:[A-Za-z0-9_-]+$/;
+
+export function isValidTelegramBotToken(token: string): boolean {
+  return TELEGRAM_BOT_TOKEN_REGEX.test(token.trim());
+}
+
 export function isGetUpdatesConflict(err: unknown): boolean {
   if (!err || typeof err !== "object") return false;
   const typed = err as { response?: { error_code?: number; description?: string } };
@@ -18,6 +26,13 @@ export function isReplyToMessageNotFound(err: unknown): boolean {
   return typed.response?.description?.toLowerCase().includes("message to be replied") ?? false;
 }
 
+export function isMessageNotModified(err: unknown): boolean {
+  if (!err || typeof err !== "object") return false;
+  const typed = err as { response?: { error_code?: number; description?: string } };
+  if (typed.response?.error_code !== 400) return false;
+  return typed.response?.description?.toLowerCase().includes("message is not modified") ?? false;
+}
+
 export function computeBackoff(attempt: number): number {
   const initialMs = 2000;
   const maxMs = 30000;
@@ -53,36 +68,5 @@ export const TELEGRAM_MAX_TEXT_CHARS = 4096;
 export const TELEGRAM_MAX_CAPTION_CHARS = 1024;
 
 export function splitTextForTelegram(text: string, maxChars: number): string[] {
-  const normalized = text.replace(/\r\n/g, "\n");
-  if (normalized.length <= maxChars) return [normalized];
-
-  const chunks: string[] = [];
-  let remaining = normalized;
-
-  while (remaining.length > maxChars) {
-    // Prefer splitting near the end on a natural boundary.
-    let cut = maxChars;
-    const windowStart = Math.max(0, maxChars - 600);
-    const window = remaining.slice(windowStart, maxChars);
-
-    const boundaryIdx = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(" "));
-    if (boundaryIdx > 0) {
-      cut = windowStart + boundaryIdx;
-    }
-
-    const part = remaining.slice(0, cut).trimEnd();
-    if (!part) {
-      // Hard cut fallback to avoid infinite loops.
-      chunks.push(remaining.slice(0, maxChars));
-      remaining = remaining.slice(maxChars);
-      continue;
-    }
-
-    chunks.push(part);
-    remaining = remaining.slice(cut).trimStart();
-  }
-
-  if (remaining) chunks.push(remaining);
-  return chunks;
+  return splitTextIntoChunks(text, maxChars);
 }
-
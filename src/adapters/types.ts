@@ -8,6 +8,13 @@ const ADAPTER_TYPE_REGEX = /^[a-z][a-z0-9-]*$/;
 
 export type Address = string;
 
+/**
+ * Check the shape of an adapter type name (the `<adapter>` in `channel:<adapter>:<chat-id>`).
+ */
+export function isValidAdapterTypeName(value: string): boolean {
+  return ADAPTER_TYPE_REGEX.test(value);
+}
+
 /**
  * Parse an address string into its components.
  */
@@ -129,6 +136,7 @@ export interface ChannelCommand {
   command: string;           // Command name without slash (e.g., "new")
   args: string;              // Arguments after command
   chatId: string;            // Chat ID where command was issued
+  authorId?: string;         // Platform user ID of command issuer
   authorUsername?: string;   // Username of command issuer
 }
 
@@ -158,6 +166,18 @@ export interface ChatAdapter {
   onMessage(handler: ChannelMessageHandler): void;
   onCommand?(handler: ChannelCommandHandler): void;
   setReaction?(chatId: string, messageId: string, emoji: string): Promise<void>;
+  /**
+   * Optional: show a short-lived "typing…" indicator in the chat (callers refresh it).
+   */
+  setTyping?(chatId: string): Promise<void>;
+  /**
+   * Optional: post a plain-text message and return its platform message id for `editMessage`.
+   */
+  sendEditableMessage?(chatId: string, text: string): Promise<string>;
+  /**
+   * Optional: replace the text of a message previously posted with `sendEditableMessage`.
+   */
+  editMessage?(chatId: string, messageId: string, text: string): Promise<void>;
   start(): Promise<void>;
   stop(): Promise<void>;
 }
@@ -188,3 +208,40 @@ export function formatForAgent(msg: ChannelMessage): string {
 
   return result;
 }
+
+/**
+ * Split text into chunks of at most `maxChars`, preferring newline/space boundaries.
+ */
+export function splitTextIntoChunks(text: string, maxChars: number): string[] {
+  const normalized = text.replace(/\r\n/g, "\n");
+  if (normalized.length <= maxChars) return [normalized];
+
+  const chunks: string[] = [];
+  let remaining = normalized;
+
+  while (remaining.length > maxChars) {
+    // Prefer splitting near the end on a natural boundary.
+    let cut = maxChars;
+    const windowStart = Math.max(0, maxChars - 600);
+    const window = remaining.slice(windowStart, maxChars);
+
+    const boundaryIdx = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(" "));
+    if (boundaryIdx > 0) {
+      cut = windowStart + boundaryIdx;
+    }
+
+    const part = remaining.slice(0, cut).trimEnd();
+    if (!part) {
+      // Hard cut fallback to avoid infinite loops.
+      chunks.push(remaining.slice(0, maxChars));
+      remaining = remaining.slice(maxChars);
+      continue;
+    }
+
+    chunks.push(part);
+    remaining = remaining.slice(cut).trimStart();
+  }
+
+  if (remaining) chunks.push(remaining);
+  return chunks;
+}
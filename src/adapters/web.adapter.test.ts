@@ -0,0 +1,144 @@
+import assert from "assert/strict";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import test from "node:test";
+import { WebSocket } from "ws";
+import { WebAdapter } from "./web.adapter.js";
+import { generateWebAdapterToken, isValidWebAdapterToken, parseWebAdapterToken } from "./web/shared.js";
+import type { ChannelMessage } from "./types.js";
+
+async function getFreePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as net.AddressInfo).port;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+/**
+ * Open a page socket and queue its frames so none are missed between awaits.
+ */
+async function connect(url: string): Promise<{
+  socket: WebSocket;
+  next: () => Promise<Record<string, unknown>>;
+  closed: Promise<number>;
+}> {
+  const socket = new WebSocket(url);
+  const queue: Array<Record<string, unknown>> = [];
+  const waiters: Array<(frame: Record<string, unknown>) => void> = [];
+  socket.on("message", (raw) => {
+    const frame = JSON.parse(raw.toString()) as Record<string, unknown>;
+    const waiter = waiters.shift();
+    if (waiter) waiter(frame);
+    else queue.push(frame);
+  });
+  const closed = new Promise<number>((resolve) => socket.on("close", (code) => resolve(code)));
+  await new Promise<void>((resolve, reject) => {
+    socket.once("open", () => resolve());
+    socket.once("error", reject);
+  });
+  return {
+    socket,
+    next: () => {
+      const queued = queue.shift();
+      if (queued) return Promise.resolve(queued);
+      return new Promise((resolve) => waiters.push(resolve));
+    },
+    closed,
+  };
+}
+
+test("web adapter tokens are <port>:<secret>", () => {
+  const token = generateWebAdapterToken(9000);
+  assert.equal(isValidWebAdapterToken(token), true);
+  assert.equal(parseWebAdapterToken(token)?.port, 9000);
+  assert.equal(isValidWebAdapterToken("9000:short"), false);
+  assert.equal(isValidWebAdapterToken(`70000:${"a".repeat(24)}`), false);
+});
+
+test("web adapter serves the page, authenticates sockets, and relays messages, uploads, commands and reactions", async () => {
+  const mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-web-"));
+  const port = await getFreePort();
+  const token = generateWebAdapterToken(port);
+  const secret = parseWebAdapterToken(token)!.secret;
+  const base = `http://127.0.0.1:${port}`;
+  const adapter = new WebAdapter(token, { mediaDir });
+  const received: ChannelMessage[] = [];
+  adapter.onMessage((message) => {
+    received.push(message);
+  });
+  adapter.onCommand((command) => ({ text: `status for ${command.chatId}` }));
+  await adapter.start();
+
+  try {
+    const page = await fetch(`${base}/`);
+    assert.equal(page.status, 200);
+    assert.match(await page.text(), /<title>Hi-Boss<\/title>/);
+
+    const rejected = await connect(`ws://127.0.0.1:${port}/ws?chat=main&token=wrong`);
+    assert.equal(await rejected.closed, 4001);
+
+    const unauthorizedUpload = await fetch(`${base}/upload?name=a.txt`, { method: "POST", body: "x" });
+    assert.equal(unauthorizedUpload.status, 401);
+
+    const page1 = await connect(`ws://127.0.0.1:${port}/ws?chat=main&token=${secret}`);
+    assert.deepEqual(await page1.next(), { type: "hello", chatId: "main", history: [] });
+
+    const upload = await fetch(`${base}/upload?name=notes.txt`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}` },
+      body: "hello file",
+    });
+    assert.equal(upload.status, 200);
+    const { id: uploadId } = (await upload.json()) as { id: string };
+
+    page1.socket.send(JSON.stringify({ type: "message", text: "hi agent", attachments: [uploadId] }));
+    const echoed = (await page1.next()).message as { id: string; from: string; attachments: Array<{ url: string }> };
+    assert.equal(echoed.from, "boss");
+    assert.equal(received.length, 1);
+    assert.equal(received[0]!.platform, "web");
+    assert.equal(received[0]!.chat.id, "main");
+    assert.equal(received[0]!.author.id, "boss");
+    assert.equal(received[0]!.content.text, "hi agent");
+    const savedPath = received[0]!.content.attachments![0]!.source;
+    assert.equal(path.dirname(savedPath), mediaDir);
+    assert.equal(fs.readFileSync(savedPath, "utf8"), "hello file");
+
+    const file = await fetch(`${base}${echoed.attachments[0]!.url}?token=${secret}`);
+    assert.equal(await file.text(), "hello file");
+    assert.equal((await fetch(`${base}${echoed.attachments[0]!.url}?token=wrong`)).status, 404);
+
+    page1.socket.send(JSON.stringify({ type: "message", text: "/status" }));
+    assert.equal(((await page1.next()).message as { text: string }).text, "/status");
+    const reply = (await page1.next()).message as { from: string; text: string };
+    assert.deepEqual([reply.from, reply.text], ["system", "status for main"]);
+    assert.equal(received.length, 1);
+
+    await adapter.sendMessage("main", { text: "hello boss" }, { replyToMessageId: echoed.id });
+    const outgoing = (await page1.next()).message as { id: string; from: string; replyTo: string };
+    assert.deepEqual([outgoing.from, outgoing.replyTo], ["agent", echoed.id]);
+
+    page1.socket.send(JSON.stringify({ type: "message", text: "thanks", replyTo: outgoing.id }));
+    await page1.next();
+    assert.equal(received[1]!.inReplyTo?.channelMessageId, outgoing.id);
+    assert.equal(received[1]!.inReplyTo?.text, "hello boss");
+
+    await adapter.setReaction("main", echoed.id, "👍");
+    assert.deepEqual(await page1.next(), { type: "reaction", messageId: echoed.id, reactions: ["👍"] });
+    await assert.rejects(adapter.setReaction("main", "missing", "👍"), /not found/);
+
+    // A second page on the same chat gets the history, including the reaction.
+    const page2 = await connect(`ws://127.0.0.1:${port}/ws?chat=main&token=${secret}`);
+    const hello = (await page2.next()) as { history: Array<{ id: string; reactions?: string[] }> };
+    assert.equal(hello.history.length, 5);
+    assert.deepEqual(hello.history.find((entry) => entry.id === echoed.id)?.reactions, ["👍"]);
+
+    page1.socket.close();
+    page2.socket.close();
+  } finally {
+    await adapter.stop();
+    fs.rmSync(mediaDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,396 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import type { Duplex } from "stream";
+import { WebSocketServer, type WebSocket } from "ws";
+import type {
+  ChatAdapter,
+  ChannelMessageHandler,
+  MessageContent,
+  ChannelCommandHandler,
+  SendMessageOptions,
+  Attachment,
+} from "./types.js";
+import { getHiBossPaths } from "../shared/hiboss-paths.js";
+import { renderWebChatPage } from "./web/page.js";
+import { buildWebChannelMessage, saveWebUpload, WEB_BOSS_AUTHOR, WebUploadTooLargeError } from "./web/incoming.js";
+import {
+  contentTypeForFile,
+  isValidWebChatId,
+  parseWebAdapterToken,
+  secretsMatch,
+  WEB_HISTORY_LIMIT,
+  WEB_HOST,
+  WEB_MAX_TEXT_CHARS,
+  type WebChatEntry,
+} from "./web/shared.js";
+
+const COMMAND_NAMES: ReadonlySet<string> = new Set(["new", "status", "abort"]);
+
+// WebSocket close code for a rejected access secret (application range 4000-4999).
+const CLOSE_UNAUTHORIZED = 4001;
+
+interface ClientMessageFrame {
+  type: "message";
+  text?: unknown;
+  attachments?: unknown;
+  replyTo?: unknown;
+}
+
+export interface WebAdapterOptions {
+  mediaDir?: string;
+  /** Bind address (default: 127.0.0.1). */
+  host?: string;
+}
+
+/**
+ * Local web chat adapter: serves a chat page over HTTP and talks to it over a WebSocket.
+ *
+ * The binding token is `<port>:<secret>`; the secret authenticates the browser (page
+ * fragment `#token=<secret>`), and anyone holding it is treated as the boss. Chat ids are
+ * chosen by the page (`#chat=<id>`, default `main`).
+ */
+export class WebAdapter implements ChatAdapter {
+  readonly platform = "web";
+  private port: number;
+  private secret: string;
+  private host: string;
+  private mediaDir: string;
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private sockets: Map<WebSocket, string> = new Map();
+  private history: Map<string, WebChatEntry[]> = new Map();
+  private uploads: Map<string, Attachment> = new Map();
+  private files: Map<string, { path: string; filename: string }> = new Map();
+  private handlers: ChannelMessageHandler[] = [];
+  private commandHandlers: ChannelCommandHandler[] = [];
+  private sequence = 0;
+  private started = false;
+
+  constructor(token: string, options: WebAdapterOptions = {}) {
+    const parsed = parseWebAdapterToken(token);
+    this.port = parsed?.port ?? 0;
+    this.secret = parsed?.secret ?? "";
+    this.host = options.host ?? WEB_HOST;
+    this.mediaDir = options.mediaDir ?? getHiBossPaths().mediaDir;
+  }
+
+  private static parseTextCommand(text: string): { command: string; args: string } | null {
+    const match = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i.exec(text.trim());
+    if (!match) return null;
+    const command = match[1].toLowerCase();
+    if (!COMMAND_NAMES.has(command)) return null;
+    return { command, args: (match[2] ?? "").trim() };
+  }
+
+  private nextId(): string {
+    this.sequence++;
+    return `${Date.now().toString(36)}${this.sequence.toString(36)}`;
+  }
+
+  private isAuthorized(secret: string | null | undefined): boolean {
+    return typeof secret === "string" && secret.length > 0 && secretsMatch(secret, this.secret);
+  }
+
+  private findEntry(chatId: string, messageId: string): WebChatEntry | undefined {
+    return this.history.get(chatId)?.find((entry) => entry.id === messageId);
+  }
+
+  private record(entry: WebChatEntry): void {
+    const entries = this.history.get(entry.chatId) ?? [];
+    entries.push(entry);
+    if (entries.length > WEB_HISTORY_LIMIT) {
+      entries.splice(0, entries.length - WEB_HISTORY_LIMIT);
+    }
+    this.history.set(entry.chatId, entries);
+    this.broadcast(entry.chatId, { type: "message", message: entry });
+  }
+
+  private broadcast(chatId: string, frame: Record<string, unknown>): void {
+    const payload = JSON.stringify(frame);
+    for (const [socket, socketChatId] of this.sockets) {
+      if (socketChatId === chatId && socket.readyState === socket.OPEN) {
+        socket.send(payload);
+      }
+    }
+  }
+
+  private sendFrame(socket: WebSocket, frame: Record<string, unknown>): void {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  }
+
+  private serveFile(url: URL, res: http.ServerResponse): void {
+    const file = this.files.get(url.pathname.slice("/files/".length));
+    if (!this.isAuthorized(url.searchParams.get("token")) || !file || !fs.existsSync(file.path)) {
+      res.writeHead(404).end("not found");
+      return;
+    }
+    res.writeHead(200, {
+      "Content-Type": contentTypeForFile(file.filename),
+      "Content-Disposition": `inline; filename="${encodeURIComponent(file.filename)}"`,
+      "X-Content-Type-Options": "nosniff",
+    });
+    fs.createReadStream(file.path).pipe(res);
+  }
+
+  private async handleUpload(req: http.IncomingMessage, url: URL, res: http.ServerResponse): Promise<void> {
+    const auth = req.headers.authorization ?? "";
+    if (!this.isAuthorized(auth.startsWith("Bearer ") ? auth.slice(7) : null)) {
+      res.writeHead(401).end("unauthorized");
+      return;
+    }
+    try {
+      const attachment = await saveWebUpload({ req, mediaDir: this.mediaDir, filename: url.searchParams.get("name") });
+      const id = crypto.randomUUID();
+      this.uploads.set(id, attachment);
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ id }));
+    } catch (err) {
+      if (err instanceof WebUploadTooLargeError) {
+        res.writeHead(413, { Connection: "close" }).end(err.message);
+        req.destroy();
+        return;
+      }
+      console.error(`[${this.platform}] upload failed:`, err);
+      res.writeHead(500).end("upload failed");
+    }
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method === "GET" && (url.pathname === "/" || url.pathname === "/index.html")) {
+      res.writeHead(200, {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        "Content-Security-Policy":
+          "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src 'self'; media-src 'self'",
+      });
+      res.end(renderWebChatPage());
+      return;
+    }
+    if (req.method === "GET" && url.pathname.startsWith("/files/")) {
+      this.serveFile(url, res);
+      return;
+    }
+    if (req.method === "POST" && url.pathname === "/upload") {
+      void this.handleUpload(req, url, res);
+      return;
+    }
+    res.writeHead(404).end("not found");
+  }
+
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const chatId = url.searchParams.get("chat") || "main";
+    if (url.pathname !== "/ws" || !isValidWebChatId(chatId) || !this.wss) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+
+    const authorized = this.isAuthorized(url.searchParams.get("token"));
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      if (!authorized) {
+        // Close after the handshake so the page can tell a bad secret from a network error.
+        ws.close(CLOSE_UNAUTHORIZED, "unauthorized");
+        return;
+      }
+      this.sockets.set(ws, chatId);
+      ws.on("message", (raw) => {
+        void this.handleFrame(ws, chatId, raw.toString()).catch((err) => {
+          console.error(`[${this.platform}] message handler error:`, err);
+        });
+      });
+      ws.on("close", () => this.sockets.delete(ws));
+      this.sendFrame(ws, { type: "hello", chatId, history: this.history.get(chatId) ?? [] });
+    });
+  }
+
+  private async handleFrame(socket: WebSocket, chatId: string, raw: string): Promise<void> {
+    let frame: ClientMessageFrame;
+    try {
+      frame = JSON.parse(raw) as ClientMessageFrame;
+    } catch {
+      this.sendFrame(socket, { type: "error", error: "invalid frame" });
+      return;
+    }
+    if (frame?.type !== "message") return;
+
+    const text = typeof frame.text === "string" && frame.text.trim() ? frame.text.slice(0, WEB_MAX_TEXT_CHARS) : undefined;
+    const uploadIds = Array.isArray(frame.attachments)
+      ? frame.attachments.filter((id): id is string => typeof id === "string")
+      : [];
+    const attachments: Attachment[] = [];
+    for (const id of uploadIds) {
+      const attachment = this.uploads.get(id);
+      if (!attachment) {
+        this.sendFrame(socket, { type: "error", error: "unknown attachment (upload again)" });
+        return;
+      }
+      attachments.push(attachment);
+    }
+    if (!text && attachments.length === 0) return;
+    for (const id of uploadIds) this.uploads.delete(id);
+
+    const parsed = text && attachments.length === 0 ? WebAdapter.parseTextCommand(text) : null;
+    if (parsed) {
+      await this.handleCommand(chatId, text!, parsed);
+      return;
+    }
+
+    const replyToEntry =
+      typeof frame.replyTo === "string" ? this.findEntry(chatId, frame.replyTo) : undefined;
+    const entry: WebChatEntry = {
+      id: this.nextId(),
+      chatId,
+      from: "boss",
+      text,
+      attachments: attachments.length > 0 ? attachments.map((a) => this.publishFile(a.source, a.filename)) : undefined,
+      replyTo: replyToEntry?.id,
+      createdAt: Date.now(),
+    };
+    this.record(entry);
+
+    const message = buildWebChannelMessage({ platform: this.platform, entry, attachments, replyToEntry });
+    for (const handler of this.handlers) {
+      await handler(message);
+    }
+  }
+
+  private async handleCommand(chatId: string, text: string, parsed: { command: string; args: string }): Promise<void> {
+    this.record({ id: this.nextId(), chatId, from: "boss", text, createdAt: Date.now() });
+
+    for (const handler of this.commandHandlers) {
+      try {
+        const result = await handler({
+          command: parsed.command,
+          args: parsed.args,
+          chatId,
+          authorId: WEB_BOSS_AUTHOR.id,
+        });
+        if (result?.text) {
+          this.record({ id: this.nextId(), chatId, from: "system", text: result.text, createdAt: Date.now() });
+          return;
+        }
+      } catch (err) {
+        console.error(`[${this.platform}] command handler error:`, err);
+      }
+    }
+  }
+
+  /**
+   * Make a local file downloadable by the page (URL requires the access secret).
+   */
+  private publishFile(filePath: string, filename?: string): { filename: string; url: string } {
+    const id = crypto.randomUUID();
+    const name = filename?.trim() ? path.basename(filename) : path.basename(filePath);
+    this.files.set(id, { path: filePath, filename: name });
+    return { filename: name, url: `/files/${id}` };
+  }
+
+  async sendMessage(chatId: string, content: MessageContent, options: SendMessageOptions = {}): Promise<void> {
+    if (!isValidWebChatId(chatId)) {
+      throw new Error(`Invalid web chat id: ${chatId}`);
+    }
+
+    const attachments: Array<{ filename: string; url: string }> = [];
+    for (const attachment of content.attachments ?? []) {
+      if (/^https?:\/\//i.test(attachment.source)) {
+        const filename = attachment.filename?.trim() || path.basename(new URL(attachment.source).pathname) || "file";
+        attachments.push({ filename, url: attachment.source });
+        continue;
+      }
+      const resolvedPath = path.resolve(attachment.source);
+      if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`Web attachment source file not found: ${resolvedPath}`);
+      }
+      attachments.push(this.publishFile(resolvedPath, attachment.filename));
+    }
+
+    const text = typeof content.text === "string" && content.text.trim() ? content.text : undefined;
+    if (!text && attachments.length === 0) return;
+
+    const replyTo = options.replyToMessageId?.trim();
+    // Messages sent while no browser is connected are shown from history on the next connect.
+    this.record({
+      id: this.nextId(),
+      chatId,
+      from: "agent",
+      text,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyTo: replyTo && this.findEntry(chatId, replyTo) ? replyTo : undefined,
+      createdAt: Date.now(),
+    });
+  }
+
+  onMessage(handler: ChannelMessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  onCommand(handler: ChannelCommandHandler): void {
+    this.commandHandlers.push(handler);
+  }
+
+  async setReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    const trimmed = emoji.trim();
+    if (!trimmed) {
+      throw new Error("Reaction emoji is required");
+    }
+    const entry = this.findEntry(chatId, messageId.trim());
+    if (!entry) {
+      throw new Error(`Web message not found: ${messageId}`);
+    }
+    entry.reactions = [...new Set([...(entry.reactions ?? []), trimmed])];
+    this.broadcast(chatId, { type: "reaction", messageId: entry.id, reactions: entry.reactions });
+  }
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return; // Already started, ignore duplicate calls
+    }
+    if (!this.secret) {
+      console.error(`[${this.platform}] Invalid adapter token (expected "<port>:<secret>")`);
+      return;
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.wss = new WebSocketServer({ noServer: true });
+    server.on("upgrade", (req, socket, head) => this.handleUpgrade(req, socket, head));
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(this.port, this.host, () => {
+          server.off("error", reject);
+          resolve();
+        });
+      });
+    } catch (err) {
+      console.error(`[${this.platform}] Failed to listen on ${this.host}:${this.port}:`, err);
+      this.wss.close();
+      this.wss = null;
+      return;
+    }
+
+    this.server = server;
+    this.started = true;
+    console.log(`[${this.platform}] Listening on http://${this.host}:${this.port}/ (open with #token=<secret>)`);
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+    for (const socket of this.sockets.keys()) {
+      socket.terminate();
+    }
+    this.sockets.clear();
+    this.wss?.close();
+    this.wss = null;
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    console.log(`[${this.platform}] Bot stopped`);
+  }
+}
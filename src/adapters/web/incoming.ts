@@ -0,0 +1,93 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { IncomingMessage } from "http";
+import type { Attachment, ChannelMessage } from "../types.js";
+import { WEB_MAX_UPLOAD_BYTES, type WebChatEntry } from "./shared.js";
+
+// Everyone holding the access secret is the boss; the browser has no other identity.
+export const WEB_BOSS_AUTHOR = { id: "boss", displayName: "Boss" } as const;
+const WEB_AGENT_AUTHOR = { id: "agent", displayName: "Agent" } as const;
+
+/**
+ * Get a unique file path in the given directory, adding incremental suffix for duplicates.
+ */
+function getUniqueFilePath(dir: string, filename: string): string {
+  const ext = path.extname(filename);
+  const base = path.basename(filename, ext);
+  let candidate = path.join(dir, filename);
+  let counter = 1;
+
+  while (fs.existsSync(candidate)) {
+    candidate = path.join(dir, `${base}_${counter}${ext}`);
+    counter++;
+  }
+  return candidate;
+}
+
+export class WebUploadTooLargeError extends Error {
+  constructor() {
+    super(`Upload exceeds ${WEB_MAX_UPLOAD_BYTES} bytes`);
+    this.name = "WebUploadTooLargeError";
+  }
+}
+
+/**
+ * Stream an upload request body into the media directory.
+ */
+export async function saveWebUpload(params: {
+  req: IncomingMessage;
+  mediaDir: string;
+  filename: string | null;
+}): Promise<Attachment> {
+  if (!fs.existsSync(params.mediaDir)) {
+    fs.mkdirSync(params.mediaDir, { recursive: true });
+  }
+
+  const filename = path.basename(params.filename?.trim() || "") || `file_${crypto.randomUUID()}.bin`;
+  const localPath = getUniqueFilePath(params.mediaDir, filename);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of params.req) {
+    size += (chunk as Buffer).length;
+    if (size > WEB_MAX_UPLOAD_BYTES) {
+      throw new WebUploadTooLargeError();
+    }
+    chunks.push(chunk as Buffer);
+  }
+  fs.writeFileSync(localPath, Buffer.concat(chunks));
+
+  return { source: localPath, filename };
+}
+
+/**
+ * Build a `ChannelMessage` from a boss message sent in the browser.
+ */
+export function buildWebChannelMessage(params: {
+  platform: string;
+  entry: WebChatEntry;
+  attachments: Attachment[];
+  replyToEntry?: WebChatEntry;
+}): ChannelMessage {
+  const { entry, replyToEntry } = params;
+
+  return {
+    id: entry.id,
+    platform: params.platform,
+    author: { ...WEB_BOSS_AUTHOR },
+    inReplyTo: replyToEntry
+      ? {
+          channelMessageId: replyToEntry.id,
+          author: replyToEntry.from === "boss" ? { ...WEB_BOSS_AUTHOR } : { ...WEB_AGENT_AUTHOR },
+          text: replyToEntry.text,
+        }
+      : undefined,
+    chat: { id: entry.chatId },
+    content: {
+      text: entry.text,
+      attachments: params.attachments.length > 0 ? params.attachments : undefined,
+    },
+    raw: entry,
+  };
+}
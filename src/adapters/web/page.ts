@@ -0,0 +1,169 @@
+/**
+ * Single-page web chat client served at `/`.
+ *
+ * The access secret is read from the URL fragment (`#token=<secret>`, never sent in
+ * page requests) and kept in sessionStorage. Rendering uses textContent only.
+ */
+export function renderWebChatPage(): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Hi-Boss</title>
+<style>
+  body { margin: 0; font: 15px/1.4 system-ui, sans-serif; display: flex; flex-direction: column; height: 100vh; background: #f4f4f5; }
+  header { padding: 8px 12px; background: #18181b; color: #fafafa; display: flex; justify-content: space-between; }
+  #log { flex: 1; overflow-y: auto; padding: 12px; }
+  .msg { max-width: 80%; margin: 6px 0; padding: 8px 10px; border-radius: 8px; background: #fff; white-space: pre-wrap; word-wrap: break-word; }
+  .msg.boss { margin-left: auto; background: #dbeafe; }
+  .msg.system { margin: 6px auto; background: #e4e4e7; font-size: 13px; }
+  .quote { border-left: 3px solid #a1a1aa; padding-left: 6px; color: #52525b; font-size: 13px; margin-bottom: 4px; }
+  .meta { font-size: 11px; color: #71717a; margin-top: 4px; }
+  .meta button { border: 0; background: none; color: #2563eb; cursor: pointer; font-size: 11px; padding: 0 0 0 6px; }
+  .msg img { max-width: 100%; max-height: 320px; display: block; margin-top: 4px; }
+  form { display: flex; gap: 6px; padding: 8px; background: #fff; border-top: 1px solid #e4e4e7; }
+  textarea { flex: 1; resize: none; height: 48px; font: inherit; }
+  #replying { padding: 4px 12px; font-size: 12px; background: #fef9c3; display: none; }
+</style>
+</head>
+<body>
+<header><strong>Hi-Boss</strong><span id="status">connecting…</span></header>
+<div id="log"></div>
+<div id="replying"></div>
+<form id="composer">
+  <input type="file" id="files" multiple>
+  <textarea id="text" placeholder="Message (Enter to send, Shift+Enter for newline, /new /status /abort)"></textarea>
+  <button type="submit">Send</button>
+</form>
+<script>
+(() => {
+  const params = new URLSearchParams(location.hash.slice(1));
+  if (params.get("token")) sessionStorage.setItem("hiboss-web-token", params.get("token"));
+  history.replaceState(null, "", location.pathname + (params.get("chat") ? "#chat=" + params.get("chat") : ""));
+  const token = sessionStorage.getItem("hiboss-web-token") || prompt("Access secret (the part of the adapter token after ':')") || "";
+  const chat = params.get("chat") || "main";
+  const log = document.getElementById("log");
+  const statusEl = document.getElementById("status");
+  const replying = document.getElementById("replying");
+  const entries = new Map();
+  let ws = null;
+  let replyTo = null;
+  let retryMs = 1000;
+
+  const withToken = (url) => url.startsWith("/") ? url + (url.includes("?") ? "&" : "?") + "token=" + encodeURIComponent(token) : url;
+
+  function setReplyTo(id) {
+    replyTo = id;
+    const target = id && entries.get(id);
+    replying.style.display = target ? "block" : "none";
+    replying.textContent = target ? "Replying to: " + (target.text || "(attachment)").slice(0, 80) + "  (Esc to cancel)" : "";
+  }
+
+  function render(entry) {
+    entries.set(entry.id, entry);
+    let el = document.getElementById("m-" + entry.id);
+    const stick = log.scrollTop + log.clientHeight >= log.scrollHeight - 20;
+    if (!el) {
+      el = document.createElement("div");
+      el.id = "m-" + entry.id;
+      log.appendChild(el);
+    }
+    el.className = "msg " + entry.from;
+    el.replaceChildren();
+    const parent = entry.replyTo && entries.get(entry.replyTo);
+    if (parent) {
+      const q = document.createElement("div");
+      q.className = "quote";
+      q.textContent = (parent.text || "(attachment)").slice(0, 200);
+      el.appendChild(q);
+    }
+    if (entry.text) el.appendChild(document.createTextNode(entry.text));
+    for (const a of entry.attachments || []) {
+      const url = withToken(a.url);
+      if (/\\.(png|jpe?g|gif|webp)$/i.test(a.filename)) {
+        const img = document.createElement("img");
+        img.src = url;
+        img.alt = a.filename;
+        el.appendChild(img);
+      }
+      const link = document.createElement("a");
+      link.href = url;
+      link.target = "_blank";
+      link.textContent = "📎 " + a.filename;
+      el.appendChild(document.createElement("br"));
+      el.appendChild(link);
+    }
+    const meta = document.createElement("div");
+    meta.className = "meta";
+    meta.textContent = new Date(entry.createdAt).toLocaleTimeString() + (entry.reactions && entry.reactions.length ? "  " + entry.reactions.join(" ") : "");
+    if (entry.from !== "system") {
+      const btn = document.createElement("button");
+      btn.type = "button";
+      btn.textContent = "reply";
+      btn.onclick = () => { setReplyTo(entry.id); document.getElementById("text").focus(); };
+      meta.appendChild(btn);
+    }
+    el.appendChild(meta);
+    if (stick) log.scrollTop = log.scrollHeight;
+  }
+
+  function connect() {
+    const proto = location.protocol === "https:" ? "wss:" : "ws:";
+    ws = new WebSocket(proto + "//" + location.host + "/ws?chat=" + encodeURIComponent(chat) + "&token=" + encodeURIComponent(token));
+    ws.onopen = () => { statusEl.textContent = "connected (" + chat + ")"; retryMs = 1000; };
+    ws.onmessage = (ev) => {
+      const frame = JSON.parse(ev.data);
+      if (frame.type === "hello") { log.replaceChildren(); entries.clear(); frame.history.forEach(render); }
+      else if (frame.type === "message") render(frame.message);
+      else if (frame.type === "reaction") { const e = entries.get(frame.messageId); if (e) { e.reactions = frame.reactions; render(e); } }
+      else if (frame.type === "error") alert(frame.error);
+    };
+    ws.onclose = (ev) => {
+      if (ev.code === 4001) { statusEl.textContent = "invalid access secret"; sessionStorage.removeItem("hiboss-web-token"); return; }
+      statusEl.textContent = "disconnected, retrying…";
+      setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, 30000);
+    };
+  }
+
+  async function upload(file) {
+    const res = await fetch("/upload?name=" + encodeURIComponent(file.name), {
+      method: "POST",
+      headers: { Authorization: "Bearer " + token },
+      body: file,
+    });
+    if (!res.ok) throw new Error("upload failed: " + res.status + " " + (await res.text()));
+    return (await res.json()).id;
+  }
+
+  const textEl = document.getElementById("text");
+  const filesEl = document.getElementById("files");
+  document.getElementById("composer").onsubmit = async (ev) => {
+    ev.preventDefault();
+    const text = textEl.value;
+    const files = [...filesEl.files];
+    if (!text.trim() && files.length === 0) return;
+    if (!ws || ws.readyState !== WebSocket.OPEN) { alert("not connected"); return; }
+    try {
+      const attachments = [];
+      for (const f of files) attachments.push(await upload(f));
+      ws.send(JSON.stringify({ type: "message", text, attachments, replyTo }));
+      textEl.value = "";
+      filesEl.value = "";
+      setReplyTo(null);
+    } catch (err) {
+      alert(err.message);
+    }
+  };
+  textEl.onkeydown = (ev) => {
+    if (ev.key === "Enter" && !ev.shiftKey) { ev.preventDefault(); document.getElementById("composer").requestSubmit(); }
+    if (ev.key === "Escape") setReplyTo(null);
+  };
+  connect();
+})();
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,79 @@
+import * as crypto from "crypto";
+
+export const WEB_HOST = "127.0.0.1";
+export const WEB_DEFAULT_PORT = 8787;
+
+// Browser-only limits (no platform API constraints).
+export const WEB_MAX_TEXT_CHARS = 65_536;
+export const WEB_MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+// Messages kept per chat so reloads and reconnects show recent history.
+export const WEB_HISTORY_LIMIT = 200;
+
+// Adapter token: `<port>:<secret>`; the secret is the browser access secret.
+const WEB_ADAPTER_TOKEN_REGEX = /^(\d{1,5}):([A-Za-z0-9_-]{24,})$/;
+const WEB_CHAT_ID_REGEX = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function parseWebAdapterToken(token: string): { port: number; secret: string } | null {
+  const match = WEB_ADAPTER_TOKEN_REGEX.exec(token.trim());
+  if (!match) return null;
+  const port = Number(match[1]);
+  if (port < 1 || port > 65_535) return null;
+  return { port, secret: match[2]! };
+}
+
+export function isValidWebAdapterToken(token: string): boolean {
+  return parseWebAdapterToken(token) !== null;
+}
+
+export function generateWebAdapterToken(port: number = WEB_DEFAULT_PORT): string {
+  return `${port}:${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+export function isValidWebChatId(chatId: string): boolean {
+  return WEB_CHAT_ID_REGEX.test(chatId);
+}
+
+/**
+ * Constant-time secret comparison (hashing first keeps lengths equal).
+ */
+export function secretsMatch(provided: string, expected: string): boolean {
+  const a = crypto.createHash("sha256").update(provided).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * A message as shown in the browser (history entries and `message` frames).
+ */
+export interface WebChatEntry {
+  id: string;
+  chatId: string;
+  from: "boss" | "agent" | "system";
+  text?: string;
+  attachments?: Array<{ filename: string; url: string }>;
+  replyTo?: string;
+  reactions?: string[];
+  createdAt: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+  ".oga": "audio/ogg",
+  ".m4a": "audio/mp4",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+export function contentTypeForFile(filename: string): string {
+  const ext = filename.slice(filename.lastIndexOf(".")).toLowerCase();
+  return CONTENT_TYPES[ext] ?? "application/octet-stream";
+}
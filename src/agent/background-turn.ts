@@ -1,15 +1,13 @@
 import { spawn } from "node:child_process";
 import type { ChildProcess } from "node:child_process";
-import { readFile, unlink } from "node:fs/promises";
-import { tmpdir } from "node:os";
-import path from "node:path";
+import type { TurnTokenUsage } from "./executor-support.js";
 import { HIBOSS_TOKEN_ENV } from "../shared/env.js";
 import { errorMessage, logEvent } from "../shared/daemon-log.js";
-
-export type BackgroundProvider = "claude" | "codex";
+import { getAgentProvider } from "./providers/index.js";
 
 export interface ExecuteBackgroundPromptParams {
-  provider: BackgroundProvider;
+  /** Registered provider name (see ./providers). */
+  provider: string;
   workspace: string;
   prompt: string;
   model?: string;
@@ -18,65 +16,32 @@ export interface ExecuteBackgroundPromptParams {
   onChildProcess?: (proc: ChildProcess) => void;
 }
 
-function buildClaudeArgs(params: { model?: string }): string[] {
-  const args: string[] = [
-    "-p",
-    "--output-format", "text",
-    "--permission-mode", "bypassPermissions",
-  ];
-
-  if (params.model) {
-    args.push("--model", params.model);
-  }
-
-  return args;
-}
-
-function buildCodexArgs(params: {
-  prompt: string;
-  model?: string;
-  reasoningEffort?: string;
-  outputLastMessagePath: string;
-}): string[] {
-  const args: string[] = ["exec", "--skip-git-repo-check", "-o", params.outputLastMessagePath];
-
-  // Non-interactive execution (no approvals/sandbox prompts).
-  args.push("--dangerously-bypass-approvals-and-sandbox");
-
-  if (params.reasoningEffort) {
-    args.push("-c", `model_reasoning_effort="${params.reasoningEffort}"`);
-  }
-  if (params.model) {
-    args.push("-m", params.model);
-  }
-
-  args.push(params.prompt);
-  return args;
-}
-
-function buildTempOutputPath(): string {
-  const suffix = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-  return path.join(tmpdir(), `hiboss-background-codex-last-message-${suffix}.txt`);
+export interface BackgroundPromptResult {
+  finalText: string;
+  /** Token usage, when the provider reports it for one-shot prompts. */
+  usage?: TurnTokenUsage;
 }
 
 /**
  * Execute a one-shot provider CLI prompt without Hi-Boss system instructions and without `HIBOSS_TOKEN`.
  */
-export async function executeBackgroundPrompt(params: ExecuteBackgroundPromptParams): Promise<{ finalText: string }> {
-  const cmd = params.provider === "claude" ? "claude" : "codex";
-  let outputLastMessagePath: string | undefined;
-  const args =
-    params.provider === "claude"
-      ? buildClaudeArgs({ model: params.model })
-      : (() => {
-          outputLastMessagePath = buildTempOutputPath();
-          return buildCodexArgs({
-            prompt: params.prompt,
-            model: params.model,
-            reasoningEffort: params.reasoningEffort,
-            outputLastMessagePath,
-          });
-        })();
+export async function executeBackgroundPrompt(params: ExecuteBackgroundPromptParams): Promise<BackgroundPromptResult> {
+  const provider = getAgentProvider(params.provider);
+  if (provider.kind === "in-process") {
+    return provider.runBackgroundPrompt({
+      prompt: params.prompt,
+      model: params.model,
+      reasoningEffort: params.reasoningEffort,
+      signal: params.signal,
+    });
+  }
+
+  const cmd = provider.command;
+  const invocation = provider.buildBackgroundInvocation({
+    prompt: params.prompt,
+    model: params.model,
+    reasoningEffort: params.reasoningEffort,
+  });
 
   const env: Record<string, string> = {
     ...(process.env as Record<string, string>),
@@ -85,16 +50,16 @@ export async function executeBackgroundPrompt(params: ExecuteBackgroundPromptPar
   // Ensure background jobs do not inherit the Hi-Boss token.
   delete env[HIBOSS_TOKEN_ENV];
 
-  // Force shared default provider homes for stable behavior across machines.
-  delete env.CLAUDE_CONFIG_DIR;
-  delete env.CODEX_HOME;
+  for (const name of provider.unsetEnv ?? []) {
+    delete env[name];
+  }
 
-  return new Promise<{ finalText: string }>((resolve, reject) => {
+  return new Promise<BackgroundPromptResult>((resolve, reject) => {
     let cancelled = false;
     let stdoutChunks: Buffer[] = [];
     let stderrChunks: Buffer[] = [];
 
-    const child = spawn(cmd, args, {
+    const child = spawn(cmd, invocation.args, {
       cwd: params.workspace,
       env,
       stdio: ["pipe", "pipe", "pipe"],
@@ -103,17 +68,11 @@ export async function executeBackgroundPrompt(params: ExecuteBackgroundPromptPar
 
     params.onChildProcess?.(child);
 
-    const cleanupCodexOutputFile = async (): Promise<void> => {
-      if (!outputLastMessagePath) return;
-      try {
-        await unlink(outputLastMessagePath);
-      } catch {
-        // Best-effort temp file cleanup.
-      }
+    const cleanup = async (): Promise<void> => {
+      await invocation.cleanup?.();
     };
 
-    // Claude reads prompt from stdin when -p is used with piped stdio.
-    if (params.provider === "claude") {
+    if (provider.promptInput === "stdin") {
       child.stdin?.write(params.prompt);
     }
     child.stdin?.end();
@@ -155,13 +114,13 @@ export async function executeBackgroundPrompt(params: ExecuteBackgroundPromptPar
       const stderr = Buffer.concat(stderrChunks).toString("utf-8");
 
       if (cancelled) {
-        void cleanupCodexOutputFile();
+        void cleanup();
         resolve({ finalText: "" });
         return;
       }
 
       if (code !== 0 && code !== null) {
-        void cleanupCodexOutputFile();
+        void cleanup();
         const errMsg = stderr.trim() || `CLI exited with code ${code}`;
         logEvent("warn", "background-cli-exit-nonzero", {
           provider: params.provider,
@@ -173,7 +132,7 @@ export async function executeBackgroundPrompt(params: ExecuteBackgroundPromptPar
       }
 
       if (code === null) {
-        void cleanupCodexOutputFile();
+        void cleanup();
         const sig = closeSignal ?? "unknown-signal";
         logEvent("warn", "background-cli-exit-signal", {
           provider: params.provider,
@@ -185,32 +144,20 @@ export async function executeBackgroundPrompt(params: ExecuteBackgroundPromptPar
       }
 
       void (async () => {
-        let finalText = stdout.trim();
-
-        if (params.provider === "codex" && outputLastMessagePath) {
-          try {
-            const text = (await readFile(outputLastMessagePath, "utf-8")).trim();
-            if (text) {
-              finalText = text;
-            }
-          } catch (err) {
-            logEvent("warn", "background-codex-output-read-failed", {
-              error: errorMessage(err),
-            });
-          } finally {
-            await cleanupCodexOutputFile();
-          }
+        try {
+          const finalText = invocation.readFinalText ? await invocation.readFinalText(stdout) : stdout.trim();
+          const usage = invocation.readUsage?.(stdout);
+          resolve({ finalText, ...(usage ? { usage } : {}) });
+        } finally {
+          await cleanup();
         }
-
-        resolve({ finalText });
       })().catch((err) => {
-        void cleanupCodexOutputFile();
         reject(err);
       });
     });
 
     child.on("error", (err) => {
-      void cleanupCodexOutputFile();
+      void cleanup();
       reject(new Error(`Failed to spawn ${cmd}: ${errorMessage(err)}`));
     });
   });
@@ -2,7 +2,7 @@
  * Agent session creation for CLI-based provider invocation.
  *
  * Creates AgentSession objects that hold the configuration needed to spawn
- * CLI processes (claude / codex) for each turn.
+ * the agent's provider CLI for each turn.
  */
 
 import type { Agent } from "./types.js";
@@ -10,8 +10,11 @@ import type { HiBossDatabase } from "../daemon/db/database.js";
 import { generateSystemInstructions } from "./instruction-generator.js";
 import {
   DEFAULT_AGENT_PROVIDER,
+  DEFAULT_PERMISSION_POLICY,
   getDefaultRuntimeWorkspace,
 } from "../shared/defaults.js";
+import { parsePermissionPolicyV1OrDefault } from "../shared/permissions.js";
+import { canAgentWriteSharedMemory, getSharedMemoryDir } from "../shared/shared-memory.js";
 import { errorMessage, logEvent } from "../shared/daemon-log.js";
 import {
   getBossInfo,
@@ -22,6 +25,7 @@ import { readPersistedAgentSession } from "./persisted-session.js";
 import type { AgentRunTrigger } from "./executor-triggers.js";
 import { getTriggerFields } from "./executor-triggers.js";
 import { resolveSessionOpenMode } from "./session-resume.js";
+import { getAgentProvider, isAgentProviderName } from "./providers/index.js";
 
 type SessionPolicy = {
   dailyResetAt?: { hour: number; minute: number; normalized: string };
@@ -29,30 +33,6 @@ type SessionPolicy = {
   maxContextLength?: number;
 };
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
-}
-
-function parseCodexCumulativeUsageTotals(value: unknown): {
-  inputTokens: number;
-  cachedInputTokens: number;
-  outputTokens: number;
-} | undefined {
-  if (!isRecord(value)) return undefined;
-  const inputTokens = value.inputTokens;
-  const cachedInputTokens = value.cachedInputTokens;
-  const outputTokens = value.outputTokens;
-  if (typeof inputTokens !== "number" || !Number.isFinite(inputTokens)) return undefined;
-  if (typeof cachedInputTokens !== "number" || !Number.isFinite(cachedInputTokens)) return undefined;
-  if (typeof outputTokens !== "number" || !Number.isFinite(outputTokens)) return undefined;
-  if (inputTokens < 0 || cachedInputTokens < 0 || outputTokens < 0) return undefined;
-  return {
-    inputTokens,
-    cachedInputTokens,
-    outputTokens,
-  };
-}
-
 export async function getOrCreateAgentSession(params: {
   agent: Agent;
   db: HiBossDatabase;
@@ -92,19 +72,20 @@ export async function getOrCreateAgentSession(params: {
     const persisted = readPersistedAgentSession(agentRecord);
     // If a resumable session handle exists, prefer its provider.
     const provider =
-      persisted?.handle.sessionId && (persisted.provider === "claude" || persisted.provider === "codex")
+      persisted?.handle.sessionId && isAgentProviderName(persisted.provider)
         ? persisted.provider
         : desiredProvider;
     const workspace = params.agent.workspace ?? getDefaultRuntimeWorkspace();
-    const codexCumulativeUsageTotals =
-      provider === "codex"
-        ? parseCodexCumulativeUsageTotals(persisted?.handle.metadata?.codexCumulativeUsage)
-        : undefined;
 
     try {
       // Generate system instructions for inline injection
       const bindings = params.db.getBindingsByAgentName(params.agent.name);
       const boss = getBossInfo(params.db, bindings);
+      const policy = parsePermissionPolicyV1OrDefault(
+        params.db.getConfig("permission_policy"),
+        DEFAULT_PERMISSION_POLICY
+      );
+      const sharedMemoryWritable = canAgentWriteSharedMemory(agentRecord, policy);
       const instructions = generateSystemInstructions({
         agent: params.agent,
         agentToken: agentRecord.token,
@@ -112,6 +93,7 @@ export async function getOrCreateAgentSession(params: {
         bossTimezone: params.db.getBossTimezone(),
         hibossDir: params.hibossDir,
         boss,
+        sharedMemoryWritable,
       });
 
       // Resolve session open mode (fresh vs resume)
@@ -124,6 +106,12 @@ export async function getOrCreateAgentSession(params: {
           policy: params.getSessionPolicy(params.agent),
         });
 
+      // Provider state only carries over when resuming the session it belongs to.
+      const handleMetadata = openMode === "resume" ? persisted?.handle.metadata : undefined;
+      const restoreSessionState = getAgentProvider(provider).restoreSessionState;
+      const providerState =
+        handleMetadata && restoreSessionState ? restoreSessionState(handleMetadata) : undefined;
+
       session = {
         provider,
         agentToken: agentRecord.token,
@@ -131,9 +119,10 @@ export async function getOrCreateAgentSession(params: {
         workspace,
         model: params.agent.model,
         reasoningEffort: params.agent.reasoningEffort,
+        ...(sharedMemoryWritable ? { sharedMemoryDir: getSharedMemoryDir(params.hibossDir) } : {}),
         sessionId,
         createdAtMs,
-        ...(codexCumulativeUsageTotals ? { codexCumulativeUsageTotals } : {}),
+        ...(providerState ? { providerState } : {}),
         ...(lastRunCompletedAtMs !== undefined ? { lastRunCompletedAtMs } : {}),
       };
       params.sessions.set(params.agent.name, session);
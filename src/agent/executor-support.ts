@@ -2,27 +2,26 @@ import type { HiBossDatabase } from "../daemon/db/database.js";
 import type { ChildProcess } from "node:child_process";
 
 export interface AgentSession {
-  provider: "claude" | "codex";
+  /** Registered provider name (see ./providers). */
+  provider: string;
   agentToken: string;
   systemInstructions: string;
   workspace: string;
   model?: string;
   reasoningEffort?: string;
+  /** Shared team memory directory, set only when the agent may write it (extra `--add-dir`). */
+  sharedMemoryDir?: string;
   /** CLI child process for the current run (set during executeCliTurn). */
   childProcess?: ChildProcess;
-  /** Session ID for resume: session_id (Claude) or thread_id (Codex). */
+  /** Provider session/thread ID for resume. */
   sessionId?: string;
   createdAtMs: number;
   lastRunCompletedAtMs?: number;
   /**
-   * Codex `turn.completed.usage` values are cumulative across the session thread.
-   * Store the last observed cumulative totals so we can compute per-turn deltas.
+   * Provider-owned state carried across turns (e.g. Codex cumulative usage totals).
+   * Persisted as the session handle metadata alongside `sessionId`.
    */
-  codexCumulativeUsageTotals?: {
-    inputTokens: number;
-    cachedInputTokens: number;
-    outputTokens: number;
-  };
+  providerState?: Record<string, unknown>;
 }
 
 export interface SessionRefreshRequest {
@@ -1,21 +1,21 @@
 /**
  * CLI-based turn execution for agent runs.
  *
- * Spawns provider CLI processes (claude / codex) and parses JSONL output
- * for results, token usage, and session IDs.
+ * Spawns the agent's provider CLI (see ./providers) and parses its JSONL output
+ * for results, token usage, and session IDs. In-process providers run the turn themselves.
  */
 
 import { spawn, type ChildProcess } from "node:child_process";
+import { StringDecoder } from "node:string_decoder";
 import type { AgentSession, TurnTokenUsage } from "./executor-support.js";
 import { readTokenUsage } from "./executor-support.js";
 import { HIBOSS_TOKEN_ENV } from "../shared/env.js";
 import { getAgentInternalSpaceDir } from "./home-setup.js";
 import { errorMessage, logEvent } from "../shared/daemon-log.js";
-import {
-  findCodexRolloutPathForThread,
-  readCodexFinalCallTokenUsageFromRollout,
-} from "./codex-rollout.js";
-import { parseClaudeOutput, parseCodexOutput } from "./provider-cli-parsers.js";
+import { getAgentProvider, type ProviderRpcCaller, type ProviderTurnOutput } from "./providers/index.js";
+import type { HiBossDatabase } from "../daemon/db/database.js";
+import type { TurnProgressEvent } from "./turn-progress.js";
+import type { AgentRunStreamUpdate } from "./run-events.js";
 
 export interface CliTurnResult {
   status: "success" | "cancelled";
@@ -25,85 +25,6 @@ export interface CliTurnResult {
   sessionId?: string;
 }
 
-/**
- * Build CLI arguments for a Claude Code invocation.
- *
- * NOTE: The turn input is NOT included in args — it must be written to
- * the child process's stdin.  When `claude -p` is spawned with piped stdio
- * it ignores positional prompt arguments and reads from stdin instead.
- */
-function buildClaudeArgs(
-  session: AgentSession,
-  hibossDir: string,
-  agentName: string,
-): string[] {
-  const args: string[] = [
-    "-p",
-    "--append-system-prompt", session.systemInstructions,
-    "--output-format", "stream-json",
-    "--verbose",
-    "--permission-mode", "bypassPermissions",
-  ];
-
-  const internalSpaceDir = getAgentInternalSpaceDir(agentName, hibossDir);
-  args.push("--add-dir", internalSpaceDir);
-
-  if (session.model) {
-    args.push("--model", session.model);
-  }
-
-  // Resume if we have a session ID
-  if (session.sessionId) {
-    args.push("-r", session.sessionId);
-  }
-
-  return args;
-}
-
-/**
- * Build CLI arguments for a Codex invocation.
- */
-function buildCodexArgs(
-  session: AgentSession,
-  turnInput: string,
-  hibossDir: string,
-  agentName: string,
-): string[] {
-  const internalSpaceDir = getAgentInternalSpaceDir(agentName, hibossDir);
-
-  // Config overrides (supported by both `codex exec` and `codex exec resume`).
-  // NOTE: We intentionally pass `developer_instructions` on every turn so resume
-  // runs don't rely on prior thread history for Hi-Boss system behavior.
-  const configArgs: string[] = ["-c", `developer_instructions=${session.systemInstructions}`];
-  if (session.reasoningEffort) {
-    // Codex config key uses TOML strings; quote so parsing is stable.
-    configArgs.push("-c", `model_reasoning_effort="${session.reasoningEffort}"`);
-  }
-
-  const modelArgs: string[] = session.model ? ["-m", session.model] : [];
-
-  if (session.sessionId) {
-    const resumeArgs: string[] = ["exec", "resume", "--json", "--skip-git-repo-check"];
-
-    // Always bypass approvals and sandboxing for reliable agent operation.
-    resumeArgs.push("--dangerously-bypass-approvals-and-sandbox");
-
-    resumeArgs.push(...configArgs, ...modelArgs, session.sessionId, turnInput);
-    return resumeArgs;
-  }
-
-  const freshArgs: string[] = ["exec", "--json", "--skip-git-repo-check"];
-
-  // Always bypass approvals and sandboxing for reliable agent operation.
-  freshArgs.push("--dangerously-bypass-approvals-and-sandbox");
-
-  // Additional directories (only supported on fresh `codex exec`).
-  freshArgs.push("--add-dir", internalSpaceDir);
-
-  freshArgs.push(...configArgs, ...modelArgs, turnInput);
-  return freshArgs;
-}
-
 /**
  * Execute a single turn by spawning a provider CLI process.
  */
@@ -115,27 +36,49 @@ export async function executeCliTurn(
     agentName: string;
     signal?: AbortSignal;
     onChildProcess?: (proc: ChildProcess) => void;
+    /** Called for tool calls and assistant text as JSONL events arrive (streaming mode). */
+    onProgress?: (event: TurnProgressEvent) => void;
+    /** Called for tool calls, commands and file edits (and their outcomes) as they arrive. */
+    onRunEvent?: (update: AgentRunStreamUpdate) => void;
+    /** For in-process providers (session storage and tool calls). */
+    db?: HiBossDatabase;
+    callRpc?: ProviderRpcCaller;
   },
 ): Promise<CliTurnResult> {
   const { hibossDir, agentName, signal } = options;
 
-  const cmd = session.provider === "claude" ? "claude" : "codex";
-  const args =
-    session.provider === "claude"
-      ? buildClaudeArgs(session, hibossDir, agentName)
-      : buildCodexArgs(session, turnInput, hibossDir, agentName);
+  const provider = getAgentProvider(session.provider);
+  const internalSpaceDir = getAgentInternalSpaceDir(agentName, hibossDir);
+
+  if (provider.kind === "in-process") {
+    const result = await provider.runTurn({
+      session,
+      turnInput,
+      agentName,
+      internalSpaceDir,
+      db: options.db,
+      callRpc: options.callRpc,
+      signal,
+      onProgress: options.onProgress,
+      onRunEvent: options.onRunEvent,
+    });
+    if (result.status === "cancelled") {
+      return { status: "cancelled", finalText: "", usage: readTokenUsage({}) };
+    }
+    return { status: "success", finalText: result.finalText, usage: result.usage, sessionId: result.sessionId };
+  }
+
+  const cmd = provider.command;
+  const args = provider.buildTurnArgs({ session, turnInput, internalSpaceDir });
 
   const env: Record<string, string> = {
     ...process.env as Record<string, string>,
     [HIBOSS_TOKEN_ENV]: session.agentToken,
   };
 
-  // Provider CLIs support "home" overrides via env vars, but Hi-Boss intentionally
-  // forces the shared default homes for stable behavior across machines:
-  // - Claude: ~/.claude (override var: CLAUDE_CONFIG_DIR)
-  // - Codex:  ~/.codex  (override var: CODEX_HOME)
-  delete env.CLAUDE_CONFIG_DIR;
-  delete env.CODEX_HOME;
+  for (const name of provider.unsetEnv ?? []) {
+    delete env[name];
+  }
 
   return new Promise<CliTurnResult>((resolve, reject) => {
     let cancelled = false;
@@ -152,16 +95,46 @@ export async function executeCliTurn(
     session.childProcess = child;
     options.onChildProcess?.(child);
 
-    // Claude -p with piped stdio reads the prompt from stdin (positional args
-    // are ignored).  Write the turn input and close stdin so the CLI proceeds.
-    // For Codex the prompt is a positional arg; close stdin immediately.
-    if (session.provider === "claude") {
+    // Write the turn input for stdin-prompted providers, then close stdin so the CLI proceeds.
+    if (provider.promptInput === "stdin") {
       child.stdin?.write(turnInput);
     }
     child.stdin?.end();
 
+    // Streaming: parse complete JSONL lines as they arrive for progress and the run audit;
+    // the full buffer is still parsed on exit for the final text and usage.
+    const { onProgress, onRunEvent } = options;
+    const streaming = Boolean(onProgress || onRunEvent);
+    const decoder = new StringDecoder("utf8");
+    let partialLine = "";
+    const emitStreamLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+      let event: Record<string, unknown>;
+      try {
+        event = JSON.parse(trimmed) as Record<string, unknown>;
+      } catch {
+        return;
+      }
+      if (onProgress && provider.parseProgressEvents) {
+        for (const progress of provider.parseProgressEvents(event)) {
+          onProgress(progress);
+        }
+      }
+      if (onRunEvent && provider.parseRunEvents) {
+        for (const update of provider.parseRunEvents(event)) {
+          onRunEvent(update);
+        }
+      }
+    };
+
     child.stdout?.on("data", (chunk: Buffer) => {
       stdoutChunks.push(chunk);
+      if (streaming) {
+        const lines = (partialLine + decoder.write(chunk)).split("\n");
+        partialLine = lines.pop() ?? "";
+        for (const line of lines) emitStreamLine(line);
+      }
     });
 
     child.stderr?.on("data", (chunk: Buffer) => {
@@ -196,6 +169,12 @@ export async function executeCliTurn(
         signal.removeEventListener("abort", onAbort);
       }
 
+      // A final event without a trailing newline is still part of the stream.
+      if (streaming) {
+        emitStreamLine(partialLine + decoder.end());
+        partialLine = "";
+      }
+
       const stdout = Buffer.concat(stdoutChunks).toString("utf-8");
       const stderr = Buffer.concat(stderrChunks).toString("utf-8");
 
@@ -232,80 +211,37 @@ export async function executeCliTurn(
         return;
       }
 
+      let parsed: ProviderTurnOutput;
       try {
-        const parsed = session.provider === "claude" ? parseClaudeOutput(stdout) : parseCodexOutput(stdout);
-
-        (async () => {
-          // Best-effort: for Codex, refine context-length using the rollout log’s token_count events.
-          if (session.provider === "codex") {
-            const parsedCodex = parsed as ReturnType<typeof parseCodexOutput>;
-            const threadId = parsed.sessionId ?? session.sessionId;
-            const rolloutPath = threadId ? await findCodexRolloutPathForThread(threadId) : null;
-            if (rolloutPath) {
-              const lastUsage = await readCodexFinalCallTokenUsageFromRollout(rolloutPath);
-              if (lastUsage) {
-                // Context-length is the final model call's size (prompt + output).
-                // NOTE: In Codex usage, `cached_input_tokens` is a breakdown of `input_tokens`
-                // (cache hits), not an additional bucket. Do not add it again.
-                parsed.usage.contextLength = lastUsage.inputTokens + lastUsage.outputTokens;
-              }
-            }
-
-            // Token usage (debug-only): Codex `turn.completed.usage` is cumulative across the
-            // session thread; compute per-turn deltas using the last observed cumulative totals.
-            const currentTotals = parsedCodex.codexCumulativeUsage;
-            if (currentTotals) {
-              let appliedTurnTotals = false;
-              const hasPriorTotals = Boolean(session.codexCumulativeUsageTotals);
-              const isResume = typeof session.sessionId === "string" && session.sessionId.trim().length > 0;
-              const prevTotals = hasPriorTotals
-                ? session.codexCumulativeUsageTotals
-                : isResume
-                  ? null
-                  : { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0 };
-
-              if (prevTotals) {
-                const deltaInput = currentTotals.inputTokens - prevTotals.inputTokens;
-                const deltaCached = currentTotals.cachedInputTokens - prevTotals.cachedInputTokens;
-                const deltaOutput = currentTotals.outputTokens - prevTotals.outputTokens;
+        parsed = provider.parseTurnOutput(stdout);
+      } catch (err) {
+        reject(new Error(`Failed to parse ${cmd} output: ${errorMessage(err)}`));
+        return;
+      }
 
-                if (deltaInput >= 0 && deltaCached >= 0 && deltaOutput >= 0) {
-                  parsed.usage.inputTokens = deltaInput;
-                  parsed.usage.outputTokens = deltaOutput;
-                  parsed.usage.cacheReadTokens = deltaCached;
-                  parsed.usage.cacheWriteTokens = null;
-                  parsed.usage.totalTokens = deltaInput + deltaOutput;
-                  appliedTurnTotals = true;
-                }
-              }
+      const finish = () =>
+        resolve({
+          status: "success",
+          finalText: parsed.finalText,
+          usage: parsed.usage,
+          sessionId: parsed.sessionId,
+        });
 
-              // Always store the new cumulative totals for the next run.
-              session.codexCumulativeUsageTotals = currentTotals;
-            }
-          }
+      if (!provider.finalizeTurn) {
+        finish();
+        return;
+      }
 
-          resolve({
-            status: "success",
-            finalText: parsed.finalText,
-            usage: parsed.usage,
-            sessionId: parsed.sessionId,
-          });
-        })().catch((err) => {
-          logEvent("warn", "agent-codex-context-length-enrich-failed", {
+      provider
+        .finalizeTurn({ session, output: parsed })
+        .catch((err) => {
+          logEvent("warn", "agent-provider-usage-enrich-failed", {
             "agent-name": agentName,
             provider: session.provider,
             error: errorMessage(err),
           });
-          resolve({
-            status: "success",
-            finalText: parsed.finalText,
-            usage: parsed.usage,
-            sessionId: parsed.sessionId,
-          });
-        });
-      } catch (err) {
-        reject(new Error(`Failed to parse ${cmd} output: ${errorMessage(err)}`));
-      }
+        })
+        .finally(finish);
     });
 
     child.on("error", (err) => {
@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { HiBossDatabase } from "../daemon/db/database.js";
+import { AgentExecutor } from "./executor.js";
+import { getMockCallsPath, getMockScenarioPath } from "./providers/mock.js";
+
+type MockCall = {
+  index: number;
+  resumed: boolean;
+  sessionId: string;
+  model: string | null;
+  hasToken: boolean;
+  prompt: string;
+};
+
+async function withMockAgent(
+  scenario: unknown,
+  run: (ctx: { db: HiBossDatabase; executor: AgentExecutor; workspace: string; send: (text: string) => void }) => Promise<void>,
+  agentOptions: {
+    model?: string;
+    sessionPolicy?: { maxContextLength?: number };
+    metadata?: Record<string, unknown>;
+  } = {}
+): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-executor-test-"));
+  const workspace = path.join(dir, "workspace");
+  fs.mkdirSync(path.dirname(getMockScenarioPath(workspace)), { recursive: true });
+  fs.writeFileSync(getMockScenarioPath(workspace), JSON.stringify(scenario));
+
+  const db = new HiBossDatabase(path.join(dir, "hiboss.db"));
+  db.registerAgent({ name: "nex", provider: "mock", role: "leader", workspace, ...agentOptions });
+  const executor = new AgentExecutor({ db, hibossDir: dir });
+  const send = (text: string) => {
+    db.createEnvelope({ from: "agent:boss-bot", to: "agent:nex", content: { text } });
+  };
+
+  try {
+    await run({ db, executor, workspace, send });
+  } finally {
+    await executor.closeAll();
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function readCalls(workspace: string): MockCall[] {
+  return fs
+    .readFileSync(getMockCallsPath(workspace), "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as MockCall);
+}
+
+test("mock provider turn completes the run and resumes the session on the next turn", async () => {
+  await withMockAgent(
+    { turns: [{ text: "first", usage: { inputTokens: 10, outputTokens: 2 } }, { text: "second" }] },
+    async ({ db, executor, workspace, send }) => {
+      send("hello");
+      await executor.checkAndRun(db.getAgentByName("nex")!, db);
+      send("again");
+      await executor.checkAndRun(db.getAgentByName("nex")!, db);
+
+      const calls = readCalls(workspace);
+      assert.equal(calls.length, 2);
+      assert.equal(calls[0].resumed, false);
+      assert.equal(calls[0].hasToken, true);
+      assert.match(calls[0].prompt, /hello/);
+      assert.equal(calls[1].resumed, true);
+      assert.equal(calls[1].sessionId, calls[0].sessionId);
+
+      const runs = db.getAgentRuns("nex", { limit: 10 });
+      assert.deepEqual(
+        runs.map((run) => [run.status, run.finalResponse]).sort(),
+        [["completed", "first"], ["completed", "second"]]
+      );
+    }
+  );
+});
+
+test("codex-shaped mock output is parsed with per-turn usage", async () => {
+  await withMockAgent(
+    { format: "codex", turns: [{ text: "from codex", usage: { inputTokens: 7, cacheReadTokens: 3, outputTokens: 1 } }] },
+    async ({ db, executor, send }) => {
+      send("hello");
+      await executor.checkAndRun(db.getAgentByName("nex")!, db);
+
+      const [run] = db.getAgentRuns("nex", { limit: 1 });
+      assert.equal(run.finalResponse, "from codex");
+      assert.equal(run.inputTokens, 7);
+      assert.equal(run.cacheReadTokens, 3);
+      assert.equal(run.outputTokens, 1);
+    }
+  );
+});
+
+test("a final JSONL event without a trailing newline still reaches the run audit", async () => {
+  const toolUse = { type: "tool_use", id: "call-1", name: "Bash", input: { command: "ls" } };
+  const toolResult = { type: "tool_result", tool_use_id: "call-1" };
+  await withMockAgent(
+    {
+      turns: [
+        {
+          text: "done",
+          events: [{ type: "assistant", message: { content: [toolUse] } }],
+          trailingEvents: [{ type: "user", message: { content: [toolResult] } }],
+        },
+      ],
+    },
+    async ({ db, executor, send }) => {
+      send("hello");
+      await executor.checkAndRun(db.getAgentByName("nex")!, db);
+
+      const [run] = db.getAgentRuns("nex", { limit: 1 });
+      assert.equal(run.status, "completed");
+      const events = db.getAgentRunEvents(run.id);
+      assert.deepEqual(
+        events.map((e) => [e.kind, e.tool, e.status]),
+        [["command", "Bash", "ok"]]
+      );
+    }
+  );
+});
+
+test("abort cancels an in-flight mock turn", async () => {
+  await withMockAgent({ turns: [{ text: "too late", delayMs: 30_000 }] }, async ({ db, executor, workspace, send }) => {
+    send("slow");
+    const running = executor.checkAndRun(db.getAgentByName("nex")!, db);
+
+    const deadline = Date.now() + 10_000;
+    while (!fs.existsSync(getMockCallsPath(workspace)) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    assert.equal(executor.abortCurrentRun("nex", "test-abort"), true);
+    await running;
+
+    const [run] = db.getAgentRuns("nex", { limit: 1 });
+    assert.equal(run.status, "cancelled");
+  });
+});
+
+test("exceeding max-context-length starts a fresh session on the next turn", async () => {
+  await withMockAgent(
+    { turns: [{ text: "big", usage: { outputTokens: 10, contextLength: 5_000 } }, { text: "fresh" }] },
+    async ({ db, executor, workspace, send }) => {
+      send("one");
+      await executor.checkAndRun(db.getAgentByName("nex")!, db);
+      send("two");
+      await executor.checkAndRun(db.getAgentByName("nex")!, db);
+
+      const calls = readCalls(workspace);
+      assert.equal(calls.length, 2);
+      assert.equal(calls[1].resumed, false);
+      assert.notEqual(calls[1].sessionId, calls[0].sessionId);
+    },
+    { sessionPolicy: { maxContextLength: 1_000 } }
+  );
+});
+
+test("a retryable provider failure fails over to the next provider with the same turn input", async () => {
+  await withMockAgent(
+    { turns: [{ exitCode: 1, stderr: "API Error: 429 rate limit exceeded" }, { text: "from backup" }, { text: "back home" }] },
+    async ({ db, executor, workspace, send }) => {
+      send("hello");
+      await executor.checkAndRun(db.getAgentByName("nex")!, db);
+      send("again");
+      await executor.checkAndRun(db.getAgentByName("nex")!, db);
+
+      const calls = readCalls(workspace);
+      assert.equal(calls.length, 3);
+      assert.equal(calls[1].model, "backup");
+      assert.equal(calls[1].resumed, false);
+      assert.equal(calls[1].prompt, calls[0].prompt);
+      assert.equal(calls[2].model, "primary");
+
+      const runs = db.getAgentRuns("nex", { limit: 10 });
+      assert.deepEqual(
+        runs.map((run) => [run.status, run.finalResponse, run.model]).sort(),
+        [["completed", "back home", "primary"], ["completed", "from backup", "backup"]]
+      );
+    },
+    { model: "primary", metadata: { providerFallbacks: ["mock:backup", "gemini:pro"] } }
+  );
+});
+
+test("a retryable failure after tool calls does not fail over", async () => {
+  const toolUse = { type: "tool_use", id: "call-1", name: "Write", input: { file_path: "notes.md" } };
+  await withMockAgent(
+    {
+      turns: [
+        { events: [{ type: "assistant", message: { content: [toolUse] } }], exitCode: 1, stderr: "status: 503" },
+        { text: "unused" },
+      ],
+    },
+    async ({ db, executor, workspace, send }) => {
+      send("hello");
+      await assert.rejects(executor.checkAndRun(db.getAgentByName("nex")!, db), /status: 503/);
+
+      assert.equal(readCalls(workspace).length, 1);
+      const [run] = db.getAgentRuns("nex", { limit: 1 });
+      assert.equal(run.status, "failed");
+      assert.deepEqual(db.getAgentRunEvents(run.id).map((e) => e.kind), ["file-edit"]);
+    },
+    { metadata: { providerFallbacks: ["mock:backup"] } }
+  );
+});
+
+test("a fatal provider failure does not fail over", async () => {
+  await withMockAgent(
+    { turns: [{ exitCode: 1, stderr: "Prompt is too long" }, { text: "unused" }] },
+    async ({ db, executor, workspace, send }) => {
+      send("hello");
+      await assert.rejects(executor.checkAndRun(db.getAgentByName("nex")!, db));
+
+      assert.equal(readCalls(workspace).length, 1);
+      const [run] = db.getAgentRuns("nex", { limit: 1 });
+      assert.equal(run.status, "failed");
+    },
+    { metadata: { providerFallbacks: ["mock:backup"] } }
+  );
+});
@@ -3,8 +3,9 @@
  */
 import type { ChildProcess } from "node:child_process";
 import type { Agent } from "./types.js";
+import type { Envelope } from "../envelope/types.js";
 import type { HiBossDatabase } from "../daemon/db/database.js";
-import { getHiBossDir } from "./home-setup.js";
+import { getAgentInternalSpaceDir, getHiBossDir } from "./home-setup.js";
 import { buildTurnInput } from "./turn-input.js";
 import {
   parseSessionPolicyConfig,
@@ -15,18 +16,45 @@ import {
   type AgentSession,
   type SessionRefreshRequest,
 } from "./executor-support.js";
-import { writePersistedAgentSession } from "./persisted-session.js";
+import { readPersistedAgentSession, writePersistedAgentSession } from "./persisted-session.js";
+import { discardAgentSession } from "./session-resume.js";
 import type { AgentRunTrigger } from "./executor-triggers.js";
 import { getTriggerFields } from "./executor-triggers.js";
 import { countDuePendingEnvelopesForAgent } from "./executor-db.js";
 import { executeCliTurn } from "./executor-turn.js";
+import { parseProviderFallbacksFromMetadata, runTurnWithFallbacks } from "./provider-fallback.js";
+import type { ProviderRpcCaller } from "./providers/index.js";
 import { getOrCreateAgentSession } from "./executor-session.js";
+import { parseEnvelopeDeliveryModeFromMetadata } from "../shared/envelope-delivery.js";
+import { DEFAULT_ENVELOPE_LEASE_MS } from "../shared/defaults.js";
+import type {
+  TurnPresence,
+  TurnPresenceFactory,
+  TurnProgressFactory,
+  TurnProgressOutcome,
+  TurnProgressSink,
+} from "./turn-progress.js";
+import { AgentRunEventRecorder } from "./run-events.js";
+import { getAgentUsageBudgetState, type AgentBudgetExceededNotice } from "./usage-budget.js";
+import { computeTurnCostUsd, getUsageModelKey } from "../shared/model-prices.js";
+import { getAgentProvider } from "./providers/index.js";
+import { snapshotAgentMemory } from "../daemon/memory/memory-history.js";
 
 /**
  * Maximum number of pending envelopes to process in a single turn.
  */
 const MAX_ENVELOPES_PER_TURN = 10;
 
+/**
+ * How often in-flight envelope leases are renewed while a run is active.
+ */
+const ENVELOPE_LEASE_RENEW_INTERVAL_MS = Math.floor(DEFAULT_ENVELOPE_LEASE_MS / 3);
+
+/**
+ * Largest delay setTimeout accepts; longer budget pauses re-arm when the timer fires.
+ */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
 type InFlightAgentRun = {
   runRecordId: string;
   abortController: AbortController;
@@ -45,17 +73,33 @@ export class AgentExecutor {
   private db: HiBossDatabase | null;
   private hibossDir: string;
   private onEnvelopesDone?: (envelopeIds: string[], db: HiBossDatabase) => void | Promise<void>;
+  private createTurnProgress?: TurnProgressFactory;
+  private createTurnPresence?: TurnPresenceFactory;
+  private onBudgetExceeded?: (notice: AgentBudgetExceededNotice) => void | Promise<void>;
+  private callRpc?: ProviderRpcCaller;
+  /** Budget period each paused agent is waiting out (`<period>:<period-start-ms>`). */
+  private budgetPauses: Map<string, string> = new Map();
+  private budgetResumeTimers: Map<string, NodeJS.Timeout> = new Map();
 
   constructor(
     options: {
       db?: HiBossDatabase;
       hibossDir?: string;
       onEnvelopesDone?: (envelopeIds: string[], db: HiBossDatabase) => void | Promise<void>;
+      createTurnProgress?: TurnProgressFactory;
+      createTurnPresence?: TurnPresenceFactory;
+      onBudgetExceeded?: (notice: AgentBudgetExceededNotice) => void | Promise<void>;
+      /** Daemon RPC dispatch for in-process providers' tools. */
+      callRpc?: ProviderRpcCaller;
     } = {}
   ) {
     this.db = options.db ?? null;
     this.hibossDir = options.hibossDir ?? getHiBossDir();
     this.onEnvelopesDone = options.onEnvelopesDone;
+    this.createTurnProgress = options.createTurnProgress;
+    this.createTurnPresence = options.createTurnPresence;
+    this.onBudgetExceeded = options.onBudgetExceeded;
+    this.callRpc = options.callRpc;
   }
 
   /**
@@ -65,6 +109,42 @@ export class AgentExecutor {
     return this.agentLocks.has(agentName);
   }
 
+  /**
+   * Run a task between this agent's runs (queued behind the current run, if any).
+   *
+   * Rejects without running the task when it has not started within `waitMs`.
+   */
+  async runBetweenRuns<T>(agentName: string, task: () => T | Promise<T>, waitMs: number): Promise<T> {
+    let started = false;
+    let cancelled = false;
+    let result!: T;
+    const queued = queueAgentTask({
+      agentLocks: this.agentLocks,
+      agentName,
+      log: () => undefined,
+      task: async () => {
+        if (cancelled) return;
+        started = true;
+        result = await task();
+      },
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        if (started) return;
+        cancelled = true;
+        reject(new Error(`Agent ${agentName} is still running; try again later`));
+      }, waitMs);
+    });
+    try {
+      await Promise.race([queued, timedOut]);
+      return result;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Cancel the current in-flight run for an agent (best-effort).
    */
@@ -186,28 +266,49 @@ export class AgentExecutor {
       return 0;
     }
 
-    // Mark envelopes done immediately after read (at-most-once).
+    // Over budget: leave envelopes pending until the budget period rolls over.
+    if (this.isPausedByBudget(agent, db)) {
+      return 0;
+    }
+
     const envelopeIds = envelopes.map((e) => e.id);
-    db.markEnvelopesDone(envelopeIds);
+    const atLeastOnce = parseEnvelopeDeliveryModeFromMetadata(agent.metadata) === "at-least-once";
 
-    if (this.onEnvelopesDone) {
-      try {
-        await this.onEnvelopesDone(envelopeIds, db);
-      } catch (err) {
-        logEvent("error", "agent-on-envelopes-done-failed", {
-          "agent-name": agent.name,
-          error: errorMessage(err),
-        });
-      }
+    let leaseTimer: NodeJS.Timeout | null = null;
+    if (atLeastOnce) {
+      // At-least-once: hold envelopes in-flight under a lease until the run completes.
+      db.claimEnvelopesInFlight(envelopeIds, Date.now() + DEFAULT_ENVELOPE_LEASE_MS);
+      leaseTimer = setInterval(() => {
+        try {
+          db.extendEnvelopeLeases(envelopeIds, Date.now() + DEFAULT_ENVELOPE_LEASE_MS);
+        } catch (err) {
+          logEvent("warn", "agent-envelope-lease-renew-failed", {
+            "agent-name": agent.name,
+            error: errorMessage(err),
+          });
+        }
+      }, ENVELOPE_LEASE_RENEW_INTERVAL_MS);
+      leaseTimer.unref();
+    } else {
+      // Mark envelopes done immediately after read (at-most-once).
+      await this.markEnvelopesDone(agent.name, envelopeIds, db);
     }
 
     const pendingRemainingCount = countDuePendingEnvelopesForAgent(db, agent.name);
 
+    // Edits made since the last run (boss, consolidation, hand edits) are not this run's.
+    this.snapshotMemory(agent.name, db);
+
     // Create run record for auditing
     const run = db.createAgentRun(agent.name, envelopeIds);
     const triggerFields = getTriggerFields(trigger);
     let runStartedAtMs: number | null = null;
 
+    const runEvents = new AgentRunEventRecorder(db, agent.name, run.id);
+    let presence: TurnPresence | null = null;
+    let progress: TurnProgressSink | null = null;
+    let progressOutcome: TurnProgressOutcome = "failed";
+
     const inFlight: InFlightAgentRun = {
       runRecordId: run.id,
       abortController: new AbortController(),
@@ -219,6 +320,7 @@ export class AgentExecutor {
       if (inFlight.abortController.signal.aborted) {
         const reason = inFlight.abortReason ?? "abort-requested";
         db.cancelAgentRun(run.id, reason);
+        if (atLeastOnce) await this.markEnvelopesDone(agent.name, envelopeIds, db);
         logEvent("info", "agent-run-complete", {
           "agent-name": agent.name,
           "agent-run-id": run.id,
@@ -230,6 +332,8 @@ export class AgentExecutor {
         return envelopeIds.length;
       }
 
+      presence = this.startTurnPresence(agent, envelopes);
+
       // Get or create session
       const session = await this.getOrCreateSession(agent, db, trigger);
 
@@ -251,20 +355,38 @@ export class AgentExecutor {
         ...triggerFields,
       });
       runStartedAtMs = Date.now();
+      progress = await this.startTurnProgress(agent, envelopes);
 
-      // Execute the turn via CLI
-      const turn = await executeCliTurn(session, turnInput, {
-        hibossDir: this.hibossDir,
+      // Execute the turn via the provider (CLI or in-process), failing over per metadata.providerFallbacks
+      const { turn, session: answeredBy } = await runTurnWithFallbacks({
+        session,
+        fallbacks: parseProviderFallbacksFromMetadata(agent.metadata),
         agentName: agent.name,
+        runId: run.id,
         signal: inFlight.abortController.signal,
-        onChildProcess: (proc) => {
-          inFlight.childProcess = proc;
-        },
+        onRunEvent: (update) => runEvents.record(update),
+        runTurn: (attemptSession, onRunEvent) =>
+          executeCliTurn(attemptSession, turnInput, {
+            hibossDir: this.hibossDir,
+            agentName: agent.name,
+            db,
+            callRpc: this.callRpc,
+            signal: inFlight.abortController.signal,
+            onChildProcess: (proc) => {
+              inFlight.childProcess = proc;
+            },
+            onProgress: progress ? (event) => progress?.onEvent(event) : undefined,
+            onRunEvent,
+          }),
       });
+      const failedOver = answeredBy !== session;
+      progressOutcome = turn.status;
 
       if (turn.status === "cancelled") {
         const reason = inFlight.abortReason ?? "run-cancelled";
         db.cancelAgentRun(run.id, reason);
+        // An explicit abort drops the work; do not redeliver it.
+        if (atLeastOnce) await this.markEnvelopesDone(agent.name, envelopeIds, db);
         logEvent("info", "agent-run-complete", {
           "agent-name": agent.name,
           "agent-run-id": run.id,
@@ -280,7 +402,8 @@ export class AgentExecutor {
       session.lastRunCompletedAtMs = Date.now();
 
       // Update session ID from CLI output (for resume on next turn).
-      if (turn.sessionId) {
+      // A fallback's session is not kept: the agent's own provider resumes next run.
+      if (turn.sessionId && !failedOver) {
         session.sessionId = turn.sessionId;
       }
 
@@ -293,9 +416,7 @@ export class AgentExecutor {
             handle: {
               provider: session.provider,
               sessionId: session.sessionId,
-              ...(session.provider === "codex" && session.codexCumulativeUsageTotals
-                ? { metadata: { codexCumulativeUsage: session.codexCumulativeUsageTotals } }
-                : {}),
+              ...(session.providerState ? { metadata: session.providerState } : {}),
             },
             createdAtMs: session.createdAtMs,
             lastRunCompletedAtMs: session.lastRunCompletedAtMs,
@@ -309,8 +430,16 @@ export class AgentExecutor {
         }
       }
 
-      // Complete the run record
-      db.completeAgentRun(run.id, response, turn.usage.contextLength);
+      // Complete the run record with the provider that answered
+      // (priced from config.model_prices when the model is listed)
+      const model = answeredBy.model ?? null;
+      const costUsd = computeTurnCostUsd({
+        inputIncludesCacheReads: getAgentProvider(answeredBy.provider).inputIncludesCacheReads,
+        usage: turn.usage,
+        price: db.getModelPrices()[getUsageModelKey({ provider: answeredBy.provider, model })],
+      });
+      db.completeAgentRun(run.id, response, turn.usage, { provider: answeredBy.provider, model, costUsd });
+      if (atLeastOnce) await this.markEnvelopesDone(agent.name, envelopeIds, db);
 
       logEvent("info", "agent-run-complete", {
         "agent-name": agent.name,
@@ -323,11 +452,14 @@ export class AgentExecutor {
         "cache-read-tokens": turn.usage.cacheReadTokens,
         "cache-write-tokens": turn.usage.cacheWriteTokens,
         "total-tokens": turn.usage.totalTokens,
+        "cost-usd": costUsd,
+        ...(failedOver ? { provider: answeredBy.provider, model } : {}),
       });
 
       // Context-length refresh: if a run grew the context too large, reset the session for the next run.
       const policy = this.getSessionPolicy(agent);
       if (
+        !failedOver &&
         typeof policy.maxContextLength === "number" &&
         turn.usage.contextLength !== null &&
         turn.usage.contextLength > policy.maxContextLength
@@ -349,12 +481,192 @@ export class AgentExecutor {
         "context-length": null,
         error: errMsg,
       });
+      if (atLeastOnce) {
+        await this.releaseEnvelopesForRetry(agent.name, envelopeIds, db, errMsg);
+      }
       throw error;
     } finally {
+      if (leaseTimer) clearInterval(leaseTimer);
+      presence?.stop();
+      await progress?.finish(progressOutcome);
       const existing = this.inFlightRuns.get(agent.name);
       if (existing && existing.runRecordId === run.id) {
         this.inFlightRuns.delete(agent.name);
       }
+      this.snapshotMemory(agent.name, db, run.id);
+    }
+  }
+
+  /**
+   * Record memory file changes in the agent's memory history (best-effort).
+   */
+  private snapshotMemory(agentName: string, db: HiBossDatabase, runId?: string): void {
+    try {
+      const snapshot = snapshotAgentMemory({
+        db,
+        agentName,
+        internalSpaceDir: getAgentInternalSpaceDir(agentName, this.hibossDir),
+        reason: runId ? "run" : "outside-run",
+        runId,
+        runStatus: runId ? db.getAgentRunById(runId)?.status : undefined,
+      });
+      if (snapshot) {
+        logEvent("info", "memory-snapshot", {
+          "agent-name": agentName,
+          "snapshot-id": snapshot.id,
+          "agent-run-id": runId,
+          "run-status": snapshot.runStatus,
+          reason: snapshot.reason,
+        });
+      }
+    } catch (err) {
+      logEvent("warn", "memory-snapshot-failed", {
+        "agent-name": agentName,
+        "agent-run-id": runId,
+        error: errorMessage(err),
+      });
+    }
+  }
+
+  /**
+   * True while the agent's spend is at or over its daily/monthly budget.
+   *
+   * The first check in each period logs, notifies the daemon, and arms a wake-up for when the
+   * period ends so pending envelopes run without waiting for new work.
+   */
+  private isPausedByBudget(agent: Agent, db: HiBossDatabase): boolean {
+    const { exceeded } = getAgentUsageBudgetState(db, agent);
+    if (!exceeded) {
+      this.budgetPauses.delete(agent.name);
+      return false;
+    }
+
+    const pauseKey = `${exceeded.period}:${exceeded.periodStartMs}`;
+    if (this.budgetPauses.get(agent.name) === pauseKey) {
+      // Month-long pauses outlast one timer; re-arm after it fires early.
+      if (!this.budgetResumeTimers.has(agent.name)) {
+        this.scheduleBudgetResume(agent.name, db, exceeded.periodEndMs);
+      }
+      return true;
+    }
+    this.budgetPauses.set(agent.name, pauseKey);
+
+    logEvent("warn", "agent-budget-exceeded", {
+      "agent-name": agent.name,
+      period: exceeded.period,
+      "budget-usd": exceeded.budgetUsd,
+      "spent-usd": exceeded.spentUsd,
+      "resume-at-ms": exceeded.periodEndMs,
+    });
+    this.scheduleBudgetResume(agent.name, db, exceeded.periodEndMs);
+
+    if (this.onBudgetExceeded) {
+      Promise.resolve(this.onBudgetExceeded({ agentName: agent.name, ...exceeded })).catch((err) => {
+        logEvent("warn", "agent-budget-notify-failed", {
+          "agent-name": agent.name,
+          error: errorMessage(err),
+        });
+      });
+    }
+    return true;
+  }
+
+  private scheduleBudgetResume(agentName: string, db: HiBossDatabase, resumeAtMs: number): void {
+    const existing = this.budgetResumeTimers.get(agentName);
+    if (existing) clearTimeout(existing);
+
+    const delayMs = Math.min(Math.max(0, resumeAtMs - Date.now()), MAX_TIMER_DELAY_MS);
+    const timer = setTimeout(() => {
+      this.budgetResumeTimers.delete(agentName);
+      const agent = db.getAgentByName(agentName);
+      if (!agent) return;
+      const trigger: AgentRunTrigger = { kind: "scheduler", reason: "budget-period-reset" };
+      this.checkAndRun(agent, db, trigger).catch((err) => {
+        logEvent("error", "agent-check-and-run-failed", {
+          "agent-name": agentName,
+          ...getTriggerFields(trigger),
+          error: errorMessage(err),
+        });
+      });
+    }, delayMs);
+    timer.unref();
+    this.budgetResumeTimers.set(agentName, timer);
+  }
+
+  /**
+   * Start channel presence (typing) for this run when the daemon provides it (best-effort).
+   */
+  private startTurnPresence(agent: Agent, envelopes: Envelope[]): TurnPresence | null {
+    if (!this.createTurnPresence) return null;
+    try {
+      return this.createTurnPresence({ agent, envelopes });
+    } catch (err) {
+      logEvent("warn", "agent-turn-presence-start-failed", {
+        "agent-name": agent.name,
+        error: errorMessage(err),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Open a live progress sink for this run when the daemon provides one (best-effort).
+   */
+  private async startTurnProgress(agent: Agent, envelopes: Envelope[]): Promise<TurnProgressSink | null> {
+    if (!this.createTurnProgress) return null;
+    try {
+      return await this.createTurnProgress({ agent, envelopes });
+    } catch (err) {
+      logEvent("warn", "agent-turn-progress-start-failed", {
+        "agent-name": agent.name,
+        error: errorMessage(err),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Terminalize envelopes and notify listeners (cron advances on done).
+   */
+  private async markEnvelopesDone(agentName: string, envelopeIds: string[], db: HiBossDatabase): Promise<void> {
+    db.markEnvelopesDone(envelopeIds);
+    await this.notifyEnvelopesDone(agentName, envelopeIds, db);
+  }
+
+  private async notifyEnvelopesDone(agentName: string, envelopeIds: string[], db: HiBossDatabase): Promise<void> {
+    if (!this.onEnvelopesDone || envelopeIds.length === 0) return;
+    try {
+      await this.onEnvelopesDone(envelopeIds, db);
+    } catch (err) {
+      logEvent("error", "agent-on-envelopes-done-failed", {
+        "agent-name": agentName,
+        error: errorMessage(err),
+      });
+    }
+  }
+
+  /**
+   * Return in-flight envelopes of a failed run to the queue (or dead-letter them).
+   */
+  private async releaseEnvelopesForRetry(
+    agentName: string,
+    envelopeIds: string[],
+    db: HiBossDatabase,
+    message: string
+  ): Promise<void> {
+    try {
+      const released = db.releaseInFlightEnvelopes(envelopeIds, { kind: "agent-run-failed", message });
+      logEvent("warn", "agent-envelopes-released", {
+        "agent-name": agentName,
+        "retried-count": released.retried.length,
+        "failed-count": released.failed.length,
+      });
+      await this.notifyEnvelopesDone(agentName, released.failed, db);
+    } catch (err) {
+      logEvent("error", "agent-envelopes-release-failed", {
+        "agent-name": agentName,
+        error: errorMessage(err),
+      });
     }
   }
 
@@ -387,6 +699,15 @@ export class AgentExecutor {
     this.pendingSessionRefresh.delete(agentName);
 
     if (this.db) {
+      const current = this.sessions.get(agentName);
+      const record = current ? null : this.db.getAgentByName(agentName);
+      const persisted = record ? readPersistedAgentSession(record) : null;
+      discardAgentSession({
+        db: this.db,
+        agentName,
+        provider: current?.provider ?? persisted?.provider ?? "",
+        sessionId: current?.sessionId ?? persisted?.handle.sessionId,
+      });
       try {
         writePersistedAgentSession(this.db, agentName, null);
       } catch (err) {
@@ -422,9 +743,14 @@ export class AgentExecutor {
         }
       }
     }
+    for (const timer of this.budgetResumeTimers.values()) {
+      clearTimeout(timer);
+    }
     this.sessions.clear();
     this.agentLocks.clear();
     this.inFlightRuns.clear();
+    this.budgetResumeTimers.clear();
+    this.budgetPauses.clear();
   }
 }
 
@@ -432,6 +758,10 @@ export function createAgentExecutor(options?: {
   db?: HiBossDatabase;
   hibossDir?: string;
   onEnvelopesDone?: (envelopeIds: string[], db: HiBossDatabase) => void | Promise<void>;
+  createTurnProgress?: TurnProgressFactory;
+  createTurnPresence?: TurnPresenceFactory;
+  onBudgetExceeded?: (notice: AgentBudgetExceededNotice) => void | Promise<void>;
+  callRpc?: ProviderRpcCaller;
 }): AgentExecutor {
   return new AgentExecutor(options);
 }
@@ -15,6 +15,7 @@ import {
   readAgentInternalDailyMemorySnapshot,
   readAgentInternalMemorySnapshot,
 } from "../shared/internal-space.js";
+import { ensureSharedMemoryLayout, readSharedMemorySnapshot } from "../shared/shared-memory.js";
 
 /**
  * Context for generating system instructions.
@@ -30,6 +31,8 @@ export interface InstructionContext {
     name?: string;
     adapterIds?: Record<string, string>;
   };
+  /** Whether the agent may write the shared team memory (read-only otherwise). */
+  sharedMemoryWritable?: boolean;
 }
 
 function chooseFence(text: string): string {
@@ -60,6 +63,7 @@ export function generateSystemInstructions(ctx: InstructionContext): string {
     time: { bossTimezone: ctx.bossTimezone },
     hibossDir: ctx.hibossDir,
     boss,
+    sharedMemoryWritable: ctx.sharedMemoryWritable,
   });
 
   // Inject internal space MEMORY.md snapshot for this agent (best-effort; never prints token).
@@ -97,6 +101,20 @@ export function generateSystemInstructions(ctx: InstructionContext): string {
     }
   }
 
+  // Inject the shared team memory snapshot (best-effort; same for every agent).
+  const sharedContext = promptContext.sharedMemory as Record<string, unknown>;
+  const sharedEnsured = ensureSharedMemoryLayout({ hibossDir });
+  const sharedSnapshot = sharedEnsured.ok ? readSharedMemorySnapshot({ hibossDir }) : sharedEnsured;
+  if (sharedSnapshot.ok) {
+    sharedContext.note = sharedSnapshot.note;
+    sharedContext.noteFence = chooseFence(sharedSnapshot.note);
+    sharedContext.error = "";
+  } else {
+    sharedContext.note = "";
+    sharedContext.noteFence = "```";
+    sharedContext.error = sharedSnapshot.error;
+  }
+
   (promptContext.hiboss as Record<string, unknown>).additionalContext =
     additionalContext ?? "";
 
@@ -15,7 +15,7 @@ export type SessionHandle = {
 
 export type PersistedAgentSessionV1 = {
   version: 1;
-  provider: "claude" | "codex";
+  provider: string;
   handle: SessionHandle;
   createdAtMs: number;
   lastRunCompletedAtMs?: number;
@@ -49,7 +49,7 @@ export function readPersistedAgentSession(agent: Agent): PersistedAgentSessionV1
   const raw = agent.metadata[AGENT_PERSISTED_SESSION_KEY];
   if (!isRecord(raw) || raw.version !== 1) return null;
 
-  if (raw.provider !== "claude" && raw.provider !== "codex") return null;
+  if (typeof raw.provider !== "string" || !raw.provider) return null;
   if (typeof raw.createdAtMs !== "number" || !Number.isFinite(raw.createdAtMs)) return null;
   if (typeof raw.updatedAtMs !== "number" || !Number.isFinite(raw.updatedAtMs)) return null;
   if (raw.lastRunCompletedAtMs !== undefined) {
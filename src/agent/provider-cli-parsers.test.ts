@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  parseClaudeProgressEvents,
+  parseClaudeRunEvents,
+  parseCodexProgressEvents,
+  parseCodexRunEvents,
+} from "./provider-cli-parsers.js";
+
+test("parseClaudeProgressEvents reports assistant text and tool_use blocks", () => {
+  assert.deepEqual(
+    parseClaudeProgressEvents({
+      type: "assistant",
+      message: {
+        content: [
+          { type: "text", text: " Checking the tests. " },
+          { type: "tool_use", name: "Bash", input: { command: "npm test", description: "Run tests" } },
+          { type: "tool_use", name: "TodoWrite", input: { todos: [] } },
+        ],
+      },
+    }),
+    [
+      { kind: "text", text: "Checking the tests." },
+      { kind: "tool", name: "Bash", detail: "npm test" },
+      { kind: "tool", name: "TodoWrite" },
+    ]
+  );
+  assert.deepEqual(parseClaudeProgressEvents({ type: "result", subtype: "success", result: "done" }), []);
+});
+
+test("parseCodexProgressEvents reports started tools, file changes, and agent messages", () => {
+  assert.deepEqual(
+    parseCodexProgressEvents({ type: "item.started", item: { type: "command_execution", command: "ls -la" } }),
+    [{ kind: "tool", name: "shell", detail: "ls -la" }]
+  );
+  assert.deepEqual(
+    parseCodexProgressEvents({ type: "item.completed", item: { type: "command_execution", command: "ls -la" } }),
+    []
+  );
+  assert.deepEqual(
+    parseCodexProgressEvents({
+      type: "item.completed",
+      item: { type: "file_change", changes: [{ path: "src/a.ts", kind: "update" }] },
+    }),
+    [{ kind: "tool", name: "edit", detail: "src/a.ts" }]
+  );
+  assert.deepEqual(
+    parseCodexProgressEvents({ type: "item.completed", item: { type: "agent_message", text: "All set." } }),
+    [{ kind: "text", text: "All set." }]
+  );
+});
+
+test("parseClaudeRunEvents classifies tool_use blocks and reads tool_result outcomes", () => {
+  assert.deepEqual(
+    parseClaudeRunEvents({
+      type: "assistant",
+      message: {
+        content: [
+          { type: "text", text: "Fixing it." },
+          { type: "tool_use", id: "t1", name: "Bash", input: { command: "npm test" } },
+          { type: "tool_use", id: "t2", name: "Edit", input: { file_path: "src/a.ts", old_string: "a", new_string: "b" } },
+          { type: "tool_use", id: "t3", name: "Grep", input: { pattern: "TODO" } },
+        ],
+      },
+    }),
+    [
+      { type: "call", kind: "command", tool: "Bash", summary: "npm test", input: '{"command":"npm test"}', callId: "t1" },
+      {
+        type: "call",
+        kind: "file-edit",
+        tool: "Edit",
+        summary: "src/a.ts",
+        input: '{"file_path":"src/a.ts","old_string":"a","new_string":"b"}',
+        callId: "t2",
+      },
+      { type: "call", kind: "tool-call", tool: "Grep", summary: "TODO", input: '{"pattern":"TODO"}', callId: "t3" },
+    ]
+  );
+  assert.deepEqual(
+    parseClaudeRunEvents({
+      type: "user",
+      message: {
+        content: [
+          { type: "tool_result", tool_use_id: "t1", is_error: true, content: "1 failing" },
+          { type: "tool_result", tool_use_id: "t2", content: "ok" },
+        ],
+      },
+    }),
+    [
+      { type: "result", callId: "t1", status: "error" },
+      { type: "result", callId: "t2", status: "ok" },
+    ]
+  );
+});
+
+test("parseCodexRunEvents records items on start and outcomes on completion", () => {
+  assert.deepEqual(
+    parseCodexRunEvents({ type: "item.started", item: { id: "item_1", type: "command_execution", command: "ls" } }),
+    [{ type: "call", kind: "command", tool: "shell", summary: "ls", callId: "item_1" }]
+  );
+  assert.deepEqual(
+    parseCodexRunEvents({
+      type: "item.completed",
+      item: { id: "item_1", type: "command_execution", command: "ls", exit_code: 2 },
+    }),
+    [{ type: "call", kind: "command", tool: "shell", summary: "ls", callId: "item_1", status: "error" }]
+  );
+  assert.deepEqual(
+    parseCodexRunEvents({
+      type: "item.completed",
+      item: { id: "item_2", type: "file_change", status: "completed", changes: [{ path: "a.ts", kind: "add" }] },
+    }),
+    [{ type: "call", kind: "file-edit", tool: "apply_patch", summary: "add a.ts", callId: "item_2", status: "ok" }]
+  );
+  assert.deepEqual(
+    parseCodexRunEvents({ type: "item.completed", item: { id: "item_3", type: "agent_message", text: "done" } }),
+    []
+  );
+});
@@ -1,5 +1,8 @@
 import type { TurnTokenUsage } from "./executor-support.js";
 import { readTokenUsage } from "./executor-support.js";
+import type { TurnProgressEvent } from "./turn-progress.js";
+import type { AgentRunEventStatus, AgentRunStreamUpdate } from "./run-events.js";
+import { DEFAULT_AGENT_RUN_EVENT_INPUT_MAX_CHARS } from "../shared/defaults.js";
 
 /**
  * Parse Claude stream-json JSONL output.
@@ -178,3 +181,204 @@ export function parseCodexOutput(stdout: string): {
   finalText = lastAgentMessage;
   return { finalText, usage, sessionId, ...(codexCumulativeUsage ? { codexCumulativeUsage } : {}) };
 }
+
+export function summarizeToolInput(input: unknown): string | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const record = input as Record<string, unknown>;
+  for (const key of ["command", "file_path", "path", "pattern", "url", "query", "description"]) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Extract progress events from one Claude stream-json event.
+ *
+ * Each `type:"assistant"` event carries one model call's content blocks (text and tool_use).
+ */
+export function parseClaudeProgressEvents(event: Record<string, unknown>): TurnProgressEvent[] {
+  if (event.type !== "assistant") return [];
+  const msg = event.message as Record<string, unknown> | undefined;
+  const content = msg?.content;
+  if (!Array.isArray(content)) return [];
+
+  const events: TurnProgressEvent[] = [];
+  for (const block of content) {
+    if (!block || typeof block !== "object") continue;
+    const b = block as Record<string, unknown>;
+    if (b.type === "text" && typeof b.text === "string" && b.text.trim()) {
+      events.push({ kind: "text", text: b.text.trim() });
+    } else if (b.type === "tool_use" && typeof b.name === "string") {
+      const detail = summarizeToolInput(b.input);
+      events.push({ kind: "tool", name: b.name, ...(detail ? { detail } : {}) });
+    }
+  }
+  return events;
+}
+
+/**
+ * Extract progress events from one Codex --json event.
+ *
+ * Tool-like items are reported when they start; agent messages when they complete.
+ */
+export function parseCodexProgressEvents(event: Record<string, unknown>): TurnProgressEvent[] {
+  const item = event.item as Record<string, unknown> | undefined;
+  if (!item || typeof item !== "object") return [];
+
+  if (event.type === "item.started") {
+    switch (item.type) {
+      case "command_execution":
+        return [{ kind: "tool", name: "shell", ...(typeof item.command === "string" ? { detail: item.command } : {}) }];
+      case "mcp_tool_call":
+        return [{ kind: "tool", name: typeof item.tool === "string" ? item.tool : "mcp" }];
+      case "web_search":
+        return [{ kind: "tool", name: "web_search", ...(typeof item.query === "string" ? { detail: item.query } : {}) }];
+      default:
+        return [];
+    }
+  }
+
+  if (event.type === "item.completed") {
+    if (item.type === "file_change" && Array.isArray(item.changes)) {
+      const paths = item.changes
+        .map((c) => (c && typeof c === "object" ? (c as Record<string, unknown>).path : undefined))
+        .filter((p): p is string => typeof p === "string");
+      return [{ kind: "tool", name: "edit", ...(paths.length > 0 ? { detail: paths.join(", ") } : {}) }];
+    }
+    if (item.type === "agent_message" && typeof item.text === "string" && item.text.trim()) {
+      return [{ kind: "text", text: item.text.trim() }];
+    }
+  }
+  return [];
+}
+
+const CLAUDE_COMMAND_TOOLS = new Set(["Bash"]);
+const CLAUDE_FILE_EDIT_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+
+export function stringifyToolInput(input: unknown): string | undefined {
+  if (input === undefined || input === null) return undefined;
+  let json: string;
+  try {
+    json = JSON.stringify(input);
+  } catch {
+    return undefined;
+  }
+  if (!json || json === "{}") return undefined;
+  return json.length > DEFAULT_AGENT_RUN_EVENT_INPUT_MAX_CHARS
+    ? `${json.slice(0, DEFAULT_AGENT_RUN_EVENT_INPUT_MAX_CHARS - 1)}…`
+    : json;
+}
+
+/**
+ * Extract audit updates from one Claude stream-json event.
+ *
+ * `tool_use` blocks arrive in `type:"assistant"` events; their outcomes arrive later as
+ * `tool_result` blocks (with `is_error`) in `type:"user"` events.
+ */
+export function parseClaudeRunEvents(event: Record<string, unknown>): AgentRunStreamUpdate[] {
+  if (event.type !== "assistant" && event.type !== "user") return [];
+  const msg = event.message as Record<string, unknown> | undefined;
+  const content = msg?.content;
+  if (!Array.isArray(content)) return [];
+
+  const updates: AgentRunStreamUpdate[] = [];
+  for (const block of content) {
+    if (!block || typeof block !== "object") continue;
+    const b = block as Record<string, unknown>;
+
+    if (event.type === "assistant" && b.type === "tool_use" && typeof b.name === "string") {
+      const input = b.input as Record<string, unknown> | undefined;
+      const kind = CLAUDE_COMMAND_TOOLS.has(b.name)
+        ? "command"
+        : CLAUDE_FILE_EDIT_TOOLS.has(b.name)
+          ? "file-edit"
+          : "tool-call";
+      const summary =
+        kind === "file-edit" && input
+          ? [input.file_path, input.notebook_path].find((v): v is string => typeof v === "string")
+          : summarizeToolInput(input);
+      const inputJson = stringifyToolInput(input);
+      updates.push({
+        type: "call",
+        kind,
+        tool: b.name,
+        ...(summary ? { summary } : {}),
+        ...(inputJson ? { input: inputJson } : {}),
+        ...(typeof b.id === "string" ? { callId: b.id } : {}),
+      });
+    } else if (event.type === "user" && b.type === "tool_result" && typeof b.tool_use_id === "string") {
+      updates.push({ type: "result", callId: b.tool_use_id, status: b.is_error === true ? "error" : "ok" });
+    }
+  }
+  return updates;
+}
+
+function readCodexItemStatus(item: Record<string, unknown>): AgentRunEventStatus | undefined {
+  if (typeof item.exit_code === "number") return item.exit_code === 0 ? "ok" : "error";
+  if (item.status === "failed" || item.status === "declined" || item.error) return "error";
+  if (item.status === "completed") return "ok";
+  return undefined;
+}
+
+/**
+ * Extract audit updates from one Codex --json event.
+ *
+ * Commands, MCP tool calls and web searches are recorded on `item.started` and resolved on
+ * `item.completed`; file changes are only reported on completion.
+ */
+export function parseCodexRunEvents(event: Record<string, unknown>): AgentRunStreamUpdate[] {
+  if (event.type !== "item.started" && event.type !== "item.completed") return [];
+  const item = event.item as Record<string, unknown> | undefined;
+  if (!item || typeof item !== "object") return [];
+  const callId = typeof item.id === "string" ? item.id : undefined;
+  const status = event.type === "item.completed" ? readCodexItemStatus(item) : undefined;
+
+  let call: Extract<AgentRunStreamUpdate, { type: "call" }> | null = null;
+  switch (item.type) {
+    case "command_execution": {
+      call = {
+        type: "call",
+        kind: "command",
+        tool: "shell",
+        ...(typeof item.command === "string" ? { summary: item.command } : {}),
+      };
+      break;
+    }
+    case "mcp_tool_call": {
+      const tool = typeof item.tool === "string" ? item.tool : "mcp";
+      const inputJson = stringifyToolInput(item.arguments);
+      call = {
+        type: "call",
+        kind: "tool-call",
+        tool: typeof item.server === "string" ? `${item.server}.${tool}` : tool,
+        ...(inputJson ? { input: inputJson } : {}),
+      };
+      break;
+    }
+    case "web_search": {
+      call = {
+        type: "call",
+        kind: "tool-call",
+        tool: "web_search",
+        ...(typeof item.query === "string" ? { summary: item.query } : {}),
+      };
+      break;
+    }
+    case "file_change": {
+      const changes = Array.isArray(item.changes) ? item.changes : [];
+      const summary = changes
+        .map((c) => (c && typeof c === "object" ? (c as Record<string, unknown>) : null))
+        .filter((c): c is Record<string, unknown> => c !== null && typeof c.path === "string")
+        .map((c) => (typeof c.kind === "string" ? `${c.kind} ${c.path as string}` : (c.path as string)))
+        .join(", ");
+      call = { type: "call", kind: "file-edit", tool: "apply_patch", ...(summary ? { summary } : {}) };
+      break;
+    }
+    default:
+      return [];
+  }
+
+  // Completion of an item recorded on start: the recorder turns this into a status update.
+  return [{ ...call, ...(callId ? { callId } : {}), ...(status ? { status } : {}) }];
+}
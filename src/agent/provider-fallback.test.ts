@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { classifyProviderError } from "./provider-fallback.js";
+
+test("classifyProviderError matches status codes only in status context", () => {
+  const reasonOf = (message: string) => {
+    const { retryable, reason } = classifyProviderError(new Error(message));
+    return `${reason}:${retryable}`;
+  };
+
+  assert.equal(reasonOf("API Error: 429 {\"type\":\"rate_limit_error\"}"), "rate-limit:true");
+  assert.equal(reasonOf("request failed with status code 529"), "rate-limit:true");
+  assert.equal(reasonOf("status: 401"), "auth:true");
+  assert.equal(reasonOf("HTTP/1.1 502"), "unavailable:true");
+  assert.equal(reasonOf("HTTP 503"), "unavailable:true");
+
+  // Bare numbers (line numbers, ids, paths) are not status codes.
+  assert.equal(reasonOf("SyntaxError at line 429 of /tmp/run-500/out.json"), "unknown:false");
+  assert.equal(reasonOf("claude exited with code 1: "), "unknown:false");
+
+  assert.equal(reasonOf("Prompt is too long"), "context-length:false");
+  assert.equal(reasonOf("EACCES: permission denied, open '/ws/a'"), "workspace:false");
+});
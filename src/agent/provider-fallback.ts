@@ -0,0 +1,185 @@
+/**
+ * Provider failover for agent runs.
+ *
+ * An agent may list fallback providers in `metadata.providerFallbacks`
+ * (e.g. `["codex:gpt-5.2", "claude"]`). When its own provider fails a turn with a
+ * retryable error before doing any work (no tool calls, commands or file edits), the same
+ * turn input is retried on each fallback in order.
+ */
+
+import type { AgentSession } from "./executor-support.js";
+import type { CliTurnResult } from "./executor-turn.js";
+import type { AgentRunStreamUpdate } from "./run-events.js";
+import { isAgentProviderName } from "./providers/index.js";
+import { errorMessage, logEvent } from "../shared/daemon-log.js";
+
+export interface ProviderFallback {
+  provider: string;
+  /** Model override; omitted means the provider default. */
+  model?: string;
+}
+
+export type ProviderErrorReason =
+  | "rate-limit"
+  | "auth"
+  | "unavailable"
+  | "context-length"
+  | "workspace"
+  | "unknown";
+
+export interface ProviderErrorClassification {
+  /** Whether another provider may succeed with the same turn input. */
+  retryable: boolean;
+  reason: ProviderErrorReason;
+}
+
+/**
+ * An HTTP status code in status context (`status: 429`, `status code 503`, `HTTP/1.1 502`,
+ * `API Error: 401`), so stray numbers in paths or ids do not match.
+ */
+function httpStatusPattern(codes: string): RegExp {
+  return new RegExp(`(?:\\bstatus(?:[ _]?code)?|\\bHTTP(?:/\\d(?:\\.\\d)?)?|\\bAPI error)[:= ]+(?:${codes})\\b`, "i");
+}
+
+// Checked in order; the first match wins. Fatal patterns come first: another provider
+// would fail the same way (the turn input or the workspace is the problem).
+const PROVIDER_ERROR_PATTERNS: Array<{ reason: ProviderErrorReason; retryable: boolean; pattern: RegExp }> = [
+  {
+    reason: "context-length",
+    retryable: false,
+    pattern: /prompt is too long|context[ _-](length|window)[ _-]exceeded|maximum context length|input is too long/i,
+  },
+  { reason: "workspace", retryable: false, pattern: /\b(EACCES|ENOTDIR|ENOSPC)\b/ },
+  {
+    reason: "rate-limit",
+    retryable: true,
+    pattern: /rate[ _-]?limit|too many requests|usage limit|quota|overloaded|credit balance/i,
+  },
+  { reason: "rate-limit", retryable: true, pattern: httpStatusPattern("429|529") },
+  {
+    reason: "auth",
+    retryable: true,
+    pattern: /unauthori[sz]ed|authenticat|invalid api key|not logged in|please (run )?(\/)?login/i,
+  },
+  { reason: "auth", retryable: true, pattern: httpStatusPattern("401|403") },
+  {
+    reason: "unavailable",
+    retryable: true,
+    pattern: /\bENOENT\b|command not found|ECONNREFUSED|ECONNRESET|ETIMEDOUT|EAI_AGAIN|timed out|network error|service unavailable|internal server error|bad gateway/i,
+  },
+  { reason: "unavailable", retryable: true, pattern: httpStatusPattern("50[0234]") },
+];
+
+/**
+ * Classify a failed turn from its error message (CLI stderr is part of it).
+ *
+ * Unrecognized failures (e.g. a bare non-zero exit) are fatal: only known provider-side
+ * errors are worth repeating the turn elsewhere.
+ */
+export function classifyProviderError(err: unknown): ProviderErrorClassification {
+  const message = errorMessage(err);
+  for (const entry of PROVIDER_ERROR_PATTERNS) {
+    if (entry.pattern.test(message)) {
+      return { retryable: entry.retryable, reason: entry.reason };
+    }
+  }
+  return { retryable: false, reason: "unknown" };
+}
+
+/**
+ * Parse `metadata.providerFallbacks` (`provider` or `provider:model` strings).
+ *
+ * Entries naming unregistered providers are skipped.
+ */
+export function parseProviderFallbacksFromMetadata(metadata: unknown): ProviderFallback[] {
+  if (typeof metadata !== "object" || metadata === null) return [];
+  const raw = (metadata as Record<string, unknown>).providerFallbacks;
+  if (!Array.isArray(raw)) return [];
+
+  const fallbacks: ProviderFallback[] = [];
+  for (const entry of raw) {
+    if (typeof entry !== "string") continue;
+    const trimmed = entry.trim();
+    const sep = trimmed.indexOf(":");
+    const provider = sep === -1 ? trimmed : trimmed.slice(0, sep).trim();
+    const model = sep === -1 ? "" : trimmed.slice(sep + 1).trim();
+    if (!isAgentProviderName(provider)) continue;
+    fallbacks.push({ provider, ...(model ? { model } : {}) });
+  }
+  return fallbacks;
+}
+
+/**
+ * Session used for a fallback attempt: fresh (nothing to resume on another provider)
+ * and never persisted, so the agent's own session continues on the next run.
+ */
+function toFallbackSession(session: AgentSession, fallback: ProviderFallback): AgentSession {
+  return {
+    provider: fallback.provider,
+    agentToken: session.agentToken,
+    systemInstructions: session.systemInstructions,
+    workspace: session.workspace,
+    model: fallback.model,
+    reasoningEffort: session.reasoningEffort,
+    createdAtMs: Date.now(),
+  };
+}
+
+/**
+ * Run a turn on the agent's session, failing over to each fallback on retryable errors.
+ *
+ * An attempt that already produced run events (tool calls, commands, file edits) is never
+ * retried elsewhere: its work is not undone, so repeating the turn could do it twice.
+ *
+ * Resolves with the result and the session that produced it; rejects with the last error
+ * once the chain is exhausted or a failure is fatal.
+ */
+export async function runTurnWithFallbacks(params: {
+  session: AgentSession;
+  fallbacks: ProviderFallback[];
+  agentName: string;
+  runId: string;
+  signal?: AbortSignal;
+  onRunEvent?: (update: AgentRunStreamUpdate) => void;
+  runTurn: (session: AgentSession, onRunEvent: (update: AgentRunStreamUpdate) => void) => Promise<CliTurnResult>;
+}): Promise<{ turn: CliTurnResult; session: AgentSession }> {
+  const chain = [params.session, ...params.fallbacks.map((fallback) => toFallbackSession(params.session, fallback))];
+
+  for (let i = 0; ; i++) {
+    const session = chain[i];
+    let producedRunEvents = false;
+    const onRunEvent = (update: AgentRunStreamUpdate) => {
+      producedRunEvents = true;
+      params.onRunEvent?.(update);
+    };
+    try {
+      return { turn: await params.runTurn(session, onRunEvent), session };
+    } catch (err) {
+      const next = chain[i + 1];
+      const { retryable, reason } = classifyProviderError(err);
+      if (!next || !retryable || params.signal?.aborted) {
+        throw err;
+      }
+      if (producedRunEvents) {
+        logEvent("warn", "agent-provider-failover-skipped", {
+          "agent-name": params.agentName,
+          "agent-run-id": params.runId,
+          "from-provider": session.provider,
+          reason: "run-events",
+          error: errorMessage(err).slice(0, 300),
+        });
+        throw err;
+      }
+      logEvent("warn", "agent-provider-failover", {
+        "agent-name": params.agentName,
+        "agent-run-id": params.runId,
+        "from-provider": session.provider,
+        "from-model": session.model ?? null,
+        "to-provider": next.provider,
+        "to-model": next.model ?? null,
+        reason,
+        error: errorMessage(err).slice(0, 300),
+      });
+    }
+  }
+}
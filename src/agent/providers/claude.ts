@@ -0,0 +1,70 @@
+/**
+ * Claude Code provider (`claude -p`, stream-json output).
+ */
+
+import type { CliAgentProvider } from "./types.js";
+import {
+  parseClaudeOutput,
+  parseClaudeProgressEvents,
+  parseClaudeRunEvents,
+} from "../provider-cli-parsers.js";
+
+export const claudeProvider: CliAgentProvider = {
+  kind: "cli",
+  name: "claude",
+  command: "claude",
+  // `claude -p` with piped stdio ignores positional prompt arguments and reads stdin.
+  promptInput: "stdin",
+  // Hi-Boss forces the shared default home (~/.claude) for stable behavior across machines.
+  unsetEnv: ["CLAUDE_CONFIG_DIR"],
+  inputIncludesCacheReads: false,
+
+  buildTurnArgs({ session, internalSpaceDir }) {
+    const args: string[] = [
+      "-p",
+      "--append-system-prompt", session.systemInstructions,
+      "--output-format", "stream-json",
+      "--verbose",
+      "--permission-mode", "bypassPermissions",
+    ];
+
+    args.push("--add-dir", internalSpaceDir);
+    if (session.sharedMemoryDir) {
+      args.push("--add-dir", session.sharedMemoryDir);
+    }
+
+    if (session.model) {
+      args.push("--model", session.model);
+    }
+
+    // Resume if we have a session ID
+    if (session.sessionId) {
+      args.push("-r", session.sessionId);
+    }
+
+    return args;
+  },
+
+  parseTurnOutput: parseClaudeOutput,
+  parseProgressEvents: parseClaudeProgressEvents,
+  parseRunEvents: parseClaudeRunEvents,
+
+  buildBackgroundInvocation({ model }) {
+    const args: string[] = [
+      "-p",
+      // One JSON result object: the reply plus the usage to record.
+      "--output-format", "json",
+      "--permission-mode", "bypassPermissions",
+    ];
+
+    if (model) {
+      args.push("--model", model);
+    }
+
+    return {
+      args,
+      readFinalText: async (stdout) => parseClaudeOutput(stdout).finalText || stdout.trim(),
+      readUsage: (stdout) => parseClaudeOutput(stdout).usage,
+    };
+  },
+};
@@ -0,0 +1,215 @@
+/**
+ * Codex provider (`codex exec --json`).
+ */
+
+import { readFile, unlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { CliAgentProvider } from "./types.js";
+import type { AgentSession, TurnTokenUsage } from "../executor-support.js";
+import { readTokenUsage } from "../executor-support.js";
+import {
+  parseCodexOutput,
+  parseCodexProgressEvents,
+  parseCodexRunEvents,
+} from "../provider-cli-parsers.js";
+import {
+  findCodexRolloutPathForThread,
+  readCodexFinalCallTokenUsageFromRollout,
+} from "../codex-rollout.js";
+import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+
+type CodexCumulativeUsage = {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+};
+
+/** `session.providerState` key (also persisted in the session handle metadata). */
+const CUMULATIVE_USAGE_KEY = "codexCumulativeUsage";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseCodexCumulativeUsage(value: unknown): CodexCumulativeUsage | undefined {
+  if (!isRecord(value)) return undefined;
+  const inputTokens = value.inputTokens;
+  const cachedInputTokens = value.cachedInputTokens;
+  const outputTokens = value.outputTokens;
+  if (typeof inputTokens !== "number" || !Number.isFinite(inputTokens)) return undefined;
+  if (typeof cachedInputTokens !== "number" || !Number.isFinite(cachedInputTokens)) return undefined;
+  if (typeof outputTokens !== "number" || !Number.isFinite(outputTokens)) return undefined;
+  if (inputTokens < 0 || cachedInputTokens < 0 || outputTokens < 0) return undefined;
+  return {
+    inputTokens,
+    cachedInputTokens,
+    outputTokens,
+  };
+}
+
+function buildTempOutputPath(): string {
+  const suffix = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  return path.join(tmpdir(), `hiboss-background-codex-last-message-${suffix}.txt`);
+}
+
+async function refineCodexUsage(session: AgentSession, parsed: ReturnType<typeof parseCodexOutput>): Promise<void> {
+  // Best-effort: refine context-length using the rollout log’s token_count events.
+  const threadId = parsed.sessionId ?? session.sessionId;
+  const rolloutPath = threadId ? await findCodexRolloutPathForThread(threadId) : null;
+  if (rolloutPath) {
+    const lastUsage = await readCodexFinalCallTokenUsageFromRollout(rolloutPath);
+    if (lastUsage) {
+      // Context-length is the final model call's size (prompt + output).
+      // NOTE: In Codex usage, `cached_input_tokens` is a breakdown of `input_tokens`
+      // (cache hits), not an additional bucket. Do not add it again.
+      parsed.usage.contextLength = lastUsage.inputTokens + lastUsage.outputTokens;
+    }
+  }
+
+  // Token usage: Codex `turn.completed.usage` is cumulative across the session thread;
+  // compute per-turn deltas using the last observed cumulative totals.
+  const currentTotals = parsed.codexCumulativeUsage;
+  if (!currentTotals) return;
+
+  const priorTotals = parseCodexCumulativeUsage(session.providerState?.[CUMULATIVE_USAGE_KEY]);
+  const isResume = typeof session.sessionId === "string" && session.sessionId.trim().length > 0;
+  const prevTotals = priorTotals ?? (isResume ? null : { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0 });
+
+  if (prevTotals) {
+    const deltaInput = currentTotals.inputTokens - prevTotals.inputTokens;
+    const deltaCached = currentTotals.cachedInputTokens - prevTotals.cachedInputTokens;
+    const deltaOutput = currentTotals.outputTokens - prevTotals.outputTokens;
+
+    if (deltaInput >= 0 && deltaCached >= 0 && deltaOutput >= 0) {
+      parsed.usage.inputTokens = deltaInput;
+      parsed.usage.outputTokens = deltaOutput;
+      parsed.usage.cacheReadTokens = deltaCached;
+      parsed.usage.cacheWriteTokens = null;
+      parsed.usage.totalTokens = deltaInput + deltaOutput;
+    }
+  }
+
+  // Always store the new cumulative totals for the next run.
+  session.providerState = { ...session.providerState, [CUMULATIVE_USAGE_KEY]: currentTotals };
+}
+
+/**
+ * Usage of a one-shot `codex exec`: a fresh thread, so its cumulative totals are this run's.
+ */
+function readCodexBackgroundUsage(stdout: string): TurnTokenUsage {
+  const totals = parseCodexOutput(stdout).codexCumulativeUsage;
+  return readTokenUsage(
+    totals
+      ? {
+          input_tokens: totals.inputTokens,
+          cache_read_tokens: totals.cachedInputTokens,
+          output_tokens: totals.outputTokens,
+          total_tokens: totals.inputTokens + totals.outputTokens,
+        }
+      : {}
+  );
+}
+
+export const codexProvider: CliAgentProvider = {
+  kind: "cli",
+  name: "codex",
+  command: "codex",
+  // The prompt is the final positional argument.
+  promptInput: "argument",
+  // Hi-Boss forces the shared default home (~/.codex) for stable behavior across machines.
+  unsetEnv: ["CODEX_HOME"],
+  // `cached_input_tokens` is a breakdown of `input_tokens`.
+  inputIncludesCacheReads: true,
+
+  buildTurnArgs({ session, turnInput, internalSpaceDir }) {
+    // Config overrides (supported by both `codex exec` and `codex exec resume`).
+    // NOTE: We intentionally pass `developer_instructions` on every turn so resume
+    // runs don't rely on prior thread history for Hi-Boss system behavior.
+    const configArgs: string[] = ["-c", `developer_instructions=${session.systemInstructions}`];
+    if (session.reasoningEffort) {
+      // Codex config key uses TOML strings; quote so parsing is stable.
+      configArgs.push("-c", `model_reasoning_effort="${session.reasoningEffort}"`);
+    }
+
+    const modelArgs: string[] = session.model ? ["-m", session.model] : [];
+
+    if (session.sessionId) {
+      const resumeArgs: string[] = ["exec", "resume", "--json", "--skip-git-repo-check"];
+
+      // Always bypass approvals and sandboxing for reliable agent operation.
+      resumeArgs.push("--dangerously-bypass-approvals-and-sandbox");
+
+      resumeArgs.push(...configArgs, ...modelArgs, session.sessionId, turnInput);
+      return resumeArgs;
+    }
+
+    const freshArgs: string[] = ["exec", "--json", "--skip-git-repo-check"];
+
+    // Always bypass approvals and sandboxing for reliable agent operation.
+    freshArgs.push("--dangerously-bypass-approvals-and-sandbox");
+
+    // Additional directories (only supported on fresh `codex exec`).
+    freshArgs.push("--add-dir", internalSpaceDir);
+    if (session.sharedMemoryDir) {
+      freshArgs.push("--add-dir", session.sharedMemoryDir);
+    }
+
+    freshArgs.push(...configArgs, ...modelArgs, turnInput);
+    return freshArgs;
+  },
+
+  parseTurnOutput: parseCodexOutput,
+  parseProgressEvents: parseCodexProgressEvents,
+  parseRunEvents: parseCodexRunEvents,
+
+  async finalizeTurn({ session, output }) {
+    await refineCodexUsage(session, output as ReturnType<typeof parseCodexOutput>);
+  },
+
+  restoreSessionState(metadata) {
+    const totals = parseCodexCumulativeUsage(metadata[CUMULATIVE_USAGE_KEY]);
+    return totals ? { [CUMULATIVE_USAGE_KEY]: totals } : undefined;
+  },
+
+  buildBackgroundInvocation({ prompt, model, reasoningEffort }) {
+    const outputLastMessagePath = buildTempOutputPath();
+    // `--json` only for usage (`turn.completed`); the reply comes from the `-o` file.
+    const args: string[] = ["exec", "--json", "--skip-git-repo-check", "-o", outputLastMessagePath];
+
+    // Non-interactive execution (no approvals/sandbox prompts).
+    args.push("--dangerously-bypass-approvals-and-sandbox");
+
+    if (reasoningEffort) {
+      args.push("-c", `model_reasoning_effort="${reasoningEffort}"`);
+    }
+    if (model) {
+      args.push("-m", model);
+    }
+
+    args.push(prompt);
+
+    return {
+      args,
+      readFinalText: async (stdout) => {
+        try {
+          const text = (await readFile(outputLastMessagePath, "utf-8")).trim();
+          if (text) return text;
+        } catch (err) {
+          logEvent("warn", "background-codex-output-read-failed", {
+            error: errorMessage(err),
+          });
+        }
+        return parseCodexOutput(stdout).finalText || stdout.trim();
+      },
+      readUsage: (stdout) => readCodexBackgroundUsage(stdout),
+      cleanup: async () => {
+        try {
+          await unlink(outputLastMessagePath);
+        } catch {
+          // Best-effort temp file cleanup.
+        }
+      },
+    };
+  },
+};
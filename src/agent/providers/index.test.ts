@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { AgentSession } from "../executor-support.js";
+import { claudeProvider } from "./claude.js";
+import { codexProvider } from "./codex.js";
+import { formatAgentProviderNames, getAgentProvider, isAgentProviderName } from "./index.js";
+
+function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
+  return {
+    provider: "codex",
+    agentToken: "tok",
+    systemInstructions: "SYS",
+    workspace: "/tmp",
+    createdAtMs: 0,
+    ...overrides,
+  };
+}
+
+test("registry exposes built-in providers and rejects unknown names", () => {
+  assert.equal(isAgentProviderName("claude"), true);
+  assert.equal(isAgentProviderName("codex"), true);
+  assert.equal(isAgentProviderName("gemini"), false);
+  assert.equal(isAgentProviderName(undefined), false);
+  assert.equal(isAgentProviderName("openai-compatible"), true);
+  assert.equal(formatAgentProviderNames(), "claude, codex, or openai-compatible");
+  assert.throws(
+    () => getAgentProvider("gemini"),
+    /Unknown provider: gemini \(expected claude, codex, or openai-compatible\)/
+  );
+});
+
+test("claude reads the prompt from stdin and resumes with -r", () => {
+  const claude = claudeProvider;
+  assert.equal(claude.promptInput, "stdin");
+  const args = claude.buildTurnArgs({
+    session: makeSession({ provider: "claude", sessionId: "s-1", model: "opus" }),
+    turnInput: "hello",
+    internalSpaceDir: "/hb/agents/a/internal_space",
+  });
+  assert.equal(args.includes("hello"), false);
+  assert.deepEqual(args.slice(-5), ["/hb/agents/a/internal_space", "--model", "opus", "-r", "s-1"]);
+});
+
+test("codex passes the prompt as the last argument and uses exec resume for sessions", () => {
+  const codex = codexProvider;
+  assert.equal(codex.promptInput, "argument");
+
+  const fresh = codex.buildTurnArgs({ session: makeSession(), turnInput: "hello", internalSpaceDir: "/is" });
+  assert.deepEqual(fresh.slice(0, 2), ["exec", "--json"]);
+  assert.ok(fresh.includes("--add-dir"));
+  assert.equal(fresh[fresh.length - 1], "hello");
+
+  const resumed = codex.buildTurnArgs({
+    session: makeSession({ sessionId: "thread-1" }),
+    turnInput: "hello",
+    internalSpaceDir: "/is",
+  });
+  assert.deepEqual(resumed.slice(0, 2), ["exec", "resume"]);
+  assert.equal(resumed.includes("--add-dir"), false);
+  assert.deepEqual(resumed.slice(-2), ["thread-1", "hello"]);
+});
+
+test("writable shared memory adds a second --add-dir", () => {
+  const session = makeSession({ provider: "claude", sharedMemoryDir: "/hb/shared" });
+  const claudeArgs = claudeProvider.buildTurnArgs({ session, turnInput: "hello", internalSpaceDir: "/is" });
+  assert.deepEqual(claudeArgs.slice(-4), ["--add-dir", "/is", "--add-dir", "/hb/shared"]);
+
+  const codexArgs = codexProvider.buildTurnArgs({ session, turnInput: "hello", internalSpaceDir: "/is" });
+  assert.deepEqual(codexArgs.filter((_, i) => codexArgs[i - 1] === "--add-dir"), ["/is", "/hb/shared"]);
+
+  const readOnly = claudeProvider.buildTurnArgs({ session: makeSession(), turnInput: "hello", internalSpaceDir: "/is" });
+  assert.equal(readOnly.includes("/hb/shared"), false);
+});
+
+test("codex restores only well-formed cumulative usage from a session handle", () => {
+  const codex = codexProvider;
+  const totals = { inputTokens: 10, cachedInputTokens: 4, outputTokens: 2 };
+  assert.deepEqual(codex.restoreSessionState?.({ codexCumulativeUsage: totals }), { codexCumulativeUsage: totals });
+  assert.equal(codex.restoreSessionState?.({ codexCumulativeUsage: { inputTokens: -1 } }), undefined);
+});
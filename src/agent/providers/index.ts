@@ -0,0 +1,67 @@
+/**
+ * Agent provider registry.
+ *
+ * Adding a provider = implementing `AgentProvider` and registering it here;
+ * RPC/CLI validation, the executor and background jobs look providers up by name.
+ */
+
+import type { AgentProvider } from "./types.js";
+import { claudeProvider } from "./claude.js";
+import { codexProvider } from "./codex.js";
+import { mockProvider } from "./mock.js";
+import { openAiCompatibleProvider } from "./openai-compatible.js";
+
+export type {
+  AgentProvider,
+  CliAgentProvider,
+  InProcessAgentProvider,
+  ProviderBackgroundInvocation,
+  ProviderBackgroundParams,
+  ProviderRpcCaller,
+  ProviderRunTurnParams,
+  ProviderRunTurnResult,
+  ProviderTurnArgsParams,
+  ProviderTurnOutput,
+} from "./types.js";
+
+const providers = new Map<string, AgentProvider>();
+
+/**
+ * Register (or replace) a provider by name.
+ */
+export function registerAgentProvider(provider: AgentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerAgentProvider(claudeProvider);
+registerAgentProvider(codexProvider);
+registerAgentProvider(openAiCompatibleProvider);
+registerAgentProvider(mockProvider);
+
+export function isAgentProviderName(value: unknown): value is string {
+  return typeof value === "string" && providers.has(value);
+}
+
+/**
+ * Providers offered to users (setup prompts, help text); test-only providers are omitted.
+ */
+export function getAgentProviderNames(): string[] {
+  return [...providers.values()].filter((provider) => !provider.testOnly).map((provider) => provider.name);
+}
+
+/**
+ * Human-readable list for validation errors, e.g. "claude or codex".
+ */
+export function formatAgentProviderNames(): string {
+  const names = getAgentProviderNames();
+  if (names.length <= 2) return names.join(" or ");
+  return `${names.slice(0, -1).join(", ")}, or ${names[names.length - 1]}`;
+}
+
+export function getAgentProvider(name: string): AgentProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown provider: ${name} (expected ${formatAgentProviderNames()})`);
+  }
+  return provider;
+}
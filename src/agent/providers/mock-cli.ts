@@ -0,0 +1,242 @@
+/**
+ * Scripted stand-in for a provider CLI, spawned by the `mock` provider.
+ *
+ * Reads `<cwd>/.hiboss-mock/scenario.json`, replays one scripted turn per invocation
+ * as Claude `stream-json` or Codex `--json` JSONL, and appends each invocation to
+ * `<cwd>/.hiboss-mock/calls.jsonl` so tests can assert what the daemon sent.
+ *
+ * Uses Node built-ins only; it runs as a standalone child process.
+ *
+ * Scenario shape:
+ * {
+ *   "format": "claude" | "codex",          // default output shape (default: claude)
+ *   "turns": [{
+ *     "format": "claude" | "codex",        // per-turn override
+ *     "text": "final reply",
+ *     "usage": { "inputTokens", "outputTokens", "cacheReadTokens", "cacheWriteTokens", "contextLength" },
+ *     "events": [ { ...raw JSONL event } ],  // emitted before the final message (tool calls, etc.)
+ *     "trailingEvents": [ { ... } ],        // emitted after it, the last without a trailing newline
+ *     "hiboss": [["envelope", "send", "--to", "agent:x", "--text", "hi"]],
+ *     "delayMs": 0,                         // sleep before replying (abort tests)
+ *     "exitCode": 0, "stderr": ""           // simulate CLI failures (after streaming `events`)
+ *   }]
+ * }
+ * The n-th invocation plays `turns[n]`; the last turn repeats once the script runs out.
+ */
+
+import { spawnSync } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+type MockFormat = "claude" | "codex";
+
+type MockUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  contextLength?: number;
+};
+
+type MockTurn = {
+  format?: MockFormat;
+  text?: string;
+  usage?: MockUsage;
+  events?: Record<string, unknown>[];
+  trailingEvents?: Record<string, unknown>[];
+  hiboss?: string[][];
+  delayMs?: number;
+  exitCode?: number;
+  stderr?: string;
+};
+
+type MockScenario = {
+  format?: MockFormat;
+  turns?: MockTurn[];
+};
+
+// Keep in sync with mock.ts (which must not import this file: it runs on load).
+const MOCK_STATE_DIRNAME = ".hiboss-mock";
+const MOCK_SCENARIO_FILENAME = "scenario.json";
+const MOCK_CALLS_FILENAME = "calls.jsonl";
+
+function parseArgs(argv: string[]): {
+  sessionId?: string;
+  model?: string;
+  addDir?: string;
+  systemPrompt?: string;
+  background: boolean;
+} {
+  const parsed: ReturnType<typeof parseArgs> = { background: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = argv[i + 1];
+    if (arg === "--resume") parsed.sessionId = next;
+    else if (arg === "--model") parsed.model = next;
+    else if (arg === "--add-dir") parsed.addDir = next;
+    else if (arg === "--system-prompt") parsed.systemPrompt = next;
+    else if (arg === "--background") {
+      parsed.background = true;
+      continue;
+    } else continue;
+    i++;
+  }
+  return parsed;
+}
+
+function readScenario(stateDir: string): MockScenario {
+  const scenarioPath = path.join(stateDir, MOCK_SCENARIO_FILENAME);
+  if (!fs.existsSync(scenarioPath)) return {};
+  return JSON.parse(fs.readFileSync(scenarioPath, "utf8")) as MockScenario;
+}
+
+function countPriorCalls(callsPath: string): number {
+  if (!fs.existsSync(callsPath)) return 0;
+  return fs.readFileSync(callsPath, "utf8").split("\n").filter((line) => line.trim()).length;
+}
+
+function readStdin(): string {
+  try {
+    return fs.readFileSync(0, "utf8");
+  } catch {
+    return "";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function runHiboss(args: string[]): { args: string[]; exitCode: number | null; stdout: string; stderr: string } {
+  // Same layout in src/ (tsx) and dist/: <root>/bin/hiboss.<ext>
+  const here = fileURLToPath(import.meta.url);
+  const entry = path.resolve(path.dirname(here), "../../../bin", `hiboss${path.extname(here)}`);
+  const result = spawnSync(process.execPath, [...process.execArgv, entry, ...args], {
+    env: process.env,
+    encoding: "utf8",
+  });
+  return { args, exitCode: result.status, stdout: result.stdout ?? "", stderr: result.stderr ?? "" };
+}
+
+function claudeLines(sessionId: string, text: string, usage: MockUsage, events: Record<string, unknown>[]): unknown[] {
+  const input = usage.inputTokens ?? 0;
+  const output = usage.outputTokens ?? 0;
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  // Context length is derived from the last assistant message's usage.
+  const callInput =
+    usage.contextLength !== undefined ? Math.max(0, usage.contextLength - output - cacheRead - cacheWrite) : input;
+  return [
+    { type: "system", subtype: "init", session_id: sessionId },
+    ...events,
+    {
+      type: "assistant",
+      message: {
+        content: [{ type: "text", text }],
+        usage: {
+          input_tokens: callInput,
+          output_tokens: output,
+          cache_read_input_tokens: cacheRead,
+          cache_creation_input_tokens: cacheWrite,
+        },
+      },
+    },
+    {
+      type: "result",
+      subtype: "success",
+      result: text,
+      session_id: sessionId,
+      usage: {
+        input_tokens: input,
+        output_tokens: output,
+        cache_read_input_tokens: cacheRead,
+        cache_creation_input_tokens: cacheWrite,
+      },
+    },
+  ];
+}
+
+function codexLines(sessionId: string, text: string, usage: MockUsage, events: Record<string, unknown>[]): unknown[] {
+  return [
+    { type: "thread.started", thread_id: sessionId },
+    { type: "turn.started" },
+    ...events,
+    { type: "item.completed", item: { id: "mock_msg", type: "agent_message", text } },
+    {
+      type: "turn.completed",
+      usage: {
+        input_tokens: usage.inputTokens ?? 0,
+        cached_input_tokens: usage.cacheReadTokens ?? 0,
+        output_tokens: usage.outputTokens ?? 0,
+      },
+    },
+  ];
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const prompt = readStdin();
+  const stateDir = path.join(process.cwd(), MOCK_STATE_DIRNAME);
+  fs.mkdirSync(stateDir, { recursive: true });
+
+  const scenario = readScenario(stateDir);
+  const callsPath = path.join(stateDir, MOCK_CALLS_FILENAME);
+  const callIndex = countPriorCalls(callsPath);
+  const turns = scenario.turns ?? [];
+  const turn: MockTurn = turns[Math.min(callIndex, turns.length - 1)] ?? {};
+  const sessionId = args.sessionId ?? `mock-${randomUUID()}`;
+
+  const hiboss = (turn.hiboss ?? []).map(runHiboss);
+
+  fs.appendFileSync(
+    callsPath,
+    JSON.stringify({
+      index: callIndex,
+      background: args.background,
+      resumed: Boolean(args.sessionId),
+      sessionId,
+      model: args.model ?? null,
+      addDir: args.addDir ?? null,
+      hasSystemPrompt: Boolean(args.systemPrompt),
+      hasToken: Boolean(process.env.HIBOSS_TOKEN),
+      prompt,
+      hiboss,
+    }) + "\n"
+  );
+
+  if (turn.delayMs) {
+    await sleep(turn.delayMs);
+  }
+
+  if (turn.exitCode) {
+    // Events still stream before the failure (work done by a turn that then fails).
+    for (const event of turn.events ?? []) process.stdout.write(JSON.stringify(event) + "\n");
+    process.stderr.write(turn.stderr ?? "mock provider failure");
+    process.exitCode = turn.exitCode;
+    return;
+  }
+
+  const text = turn.text ?? "ok";
+  if (args.background) {
+    // Shaped like `claude -p --output-format json`.
+    const result = claudeLines(sessionId, text, turn.usage ?? {}, []).at(-1);
+    process.stdout.write(JSON.stringify(result) + "\n");
+    return;
+  }
+
+  const format = turn.format ?? scenario.format ?? "claude";
+  const lines =
+    format === "codex"
+      ? codexLines(sessionId, text, turn.usage ?? {}, turn.events ?? [])
+      : claudeLines(sessionId, text, turn.usage ?? {}, turn.events ?? []);
+  const output = lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+  const trailing = (turn.trailingEvents ?? []).map((line) => JSON.stringify(line)).join("\n");
+  process.stdout.write(output + trailing);
+}
+
+main().catch((err) => {
+  process.stderr.write(`mock provider error: ${err instanceof Error ? err.message : String(err)}\n`);
+  process.exit(1);
+});
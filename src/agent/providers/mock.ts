@@ -0,0 +1,117 @@
+/**
+ * Mock provider: runs the scripted `mock-cli` instead of a real agent CLI.
+ *
+ * Deterministic and offline, for end-to-end tests of executor → CLI turn → router.
+ * The script lives in the agent workspace (`.hiboss-mock/scenario.json`); see mock-cli.ts.
+ */
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { CliAgentProvider, ProviderTurnOutput } from "./types.js";
+import {
+  parseClaudeOutput,
+  parseClaudeProgressEvents,
+  parseClaudeRunEvents,
+  parseCodexOutput,
+  parseCodexProgressEvents,
+  parseCodexRunEvents,
+} from "../provider-cli-parsers.js";
+
+const MOCK_STATE_DIRNAME = ".hiboss-mock";
+
+export function getMockScenarioPath(workspace: string): string {
+  return path.join(workspace, MOCK_STATE_DIRNAME, "scenario.json");
+}
+
+export function getMockCallsPath(workspace: string): string {
+  return path.join(workspace, MOCK_STATE_DIRNAME, "calls.jsonl");
+}
+
+/**
+ * Node flags that load a TypeScript runtime (tsx), so the `.ts` script runs from a source checkout.
+ */
+function getLoaderExecArgv(): string[] {
+  const keep = new Set(["--require", "-r", "--import", "--loader", "--experimental-loader"]);
+  const out: string[] = [];
+  const argv = process.execArgv;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const flag = arg.split("=")[0];
+    if (!keep.has(flag)) continue;
+    out.push(arg);
+    if (!arg.includes("=") && i + 1 < argv.length) {
+      out.push(argv[++i]);
+    }
+  }
+  return out;
+}
+
+function getMockCliArgs(): string[] {
+  const here = fileURLToPath(import.meta.url);
+  const script = path.join(path.dirname(here), `mock-cli${path.extname(here)}`);
+  return [...getLoaderExecArgv(), script];
+}
+
+function isCodexEvent(event: Record<string, unknown>): boolean {
+  const type = typeof event.type === "string" ? event.type : "";
+  return type.startsWith("thread.") || type.startsWith("turn.") || type.startsWith("item.");
+}
+
+function parseMockOutput(stdout: string): ProviderTurnOutput {
+  if (!stdout.includes('"thread.started"')) {
+    return parseClaudeOutput(stdout);
+  }
+  // The mock reports per-turn (not cumulative) Codex usage, so map it directly.
+  const parsed = parseCodexOutput(stdout);
+  const totals = parsed.codexCumulativeUsage;
+  if (totals) {
+    parsed.usage.inputTokens = totals.inputTokens;
+    parsed.usage.outputTokens = totals.outputTokens;
+    parsed.usage.cacheReadTokens = totals.cachedInputTokens;
+    parsed.usage.totalTokens = totals.inputTokens + totals.outputTokens;
+  }
+  return { finalText: parsed.finalText, usage: parsed.usage, sessionId: parsed.sessionId };
+}
+
+export const mockProvider: CliAgentProvider = {
+  kind: "cli",
+  name: "mock",
+  command: process.execPath,
+  promptInput: "stdin",
+  inputIncludesCacheReads: false,
+  testOnly: true,
+
+  buildTurnArgs({ session, internalSpaceDir }) {
+    const args = [...getMockCliArgs(), "--add-dir", internalSpaceDir];
+    args.push("--system-prompt", session.systemInstructions);
+    if (session.model) {
+      args.push("--model", session.model);
+    }
+    if (session.sessionId) {
+      args.push("--resume", session.sessionId);
+    }
+    return args;
+  },
+
+  parseTurnOutput: parseMockOutput,
+
+  parseProgressEvents(event) {
+    return isCodexEvent(event) ? parseCodexProgressEvents(event) : parseClaudeProgressEvents(event);
+  },
+
+  parseRunEvents(event) {
+    return isCodexEvent(event) ? parseCodexRunEvents(event) : parseClaudeRunEvents(event);
+  },
+
+  buildBackgroundInvocation({ model }) {
+    const args = [...getMockCliArgs(), "--background"];
+    if (model) {
+      args.push("--model", model);
+    }
+    return {
+      args,
+      readFinalText: async (stdout) => parseClaudeOutput(stdout).finalText,
+      readUsage: (stdout) => parseClaudeOutput(stdout).usage,
+    };
+  },
+};
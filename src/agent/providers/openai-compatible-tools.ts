@@ -0,0 +1,216 @@
+/**
+ * Tools exposed to OpenAI-compatible models.
+ *
+ * A minimal stand-in for the `hiboss` CLI and file access that CLI agents have:
+ * envelopes and cron go through daemon RPCs (with the agent's own token, so the
+ * usual permission policy applies), memory tools read/write files inside internal_space.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { errorMessage } from "../../shared/daemon-log.js";
+import type { AgentRunEventKind } from "../run-events.js";
+import type { ProviderRpcCaller } from "./types.js";
+
+export interface OpenAiToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface OpenAiToolContext {
+  agentToken: string;
+  internalSpaceDir: string;
+  callRpc?: ProviderRpcCaller;
+}
+
+interface OpenAiTool {
+  definition: OpenAiToolDefinition;
+  /** Run-audit kind for calls to this tool. */
+  kind: AgentRunEventKind;
+  run(args: Record<string, unknown>, ctx: OpenAiToolContext): Promise<unknown>;
+}
+
+function defineTool(
+  name: string,
+  description: string,
+  properties: Record<string, unknown>,
+  required: string[],
+  kind: AgentRunEventKind,
+  run: OpenAiTool["run"]
+): OpenAiTool {
+  return {
+    definition: {
+      type: "function",
+      function: { name, description, parameters: { type: "object", properties, required } },
+    },
+    kind,
+    run,
+  };
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`Missing required argument: ${key}`);
+  }
+  return value;
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+async function callDaemon(ctx: OpenAiToolContext, method: string, params: Record<string, unknown>): Promise<unknown> {
+  if (!ctx.callRpc) {
+    throw new Error(`Daemon RPC is not available (${method})`);
+  }
+  return await ctx.callRpc(method, { token: ctx.agentToken, ...params });
+}
+
+/**
+ * Resolve a path relative to internal_space, rejecting anything that escapes it.
+ */
+export function resolveInternalSpacePath(internalSpaceDir: string, relativePath: string): string {
+  const root = path.resolve(internalSpaceDir);
+  const resolved = path.resolve(root, relativePath);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`Path is outside internal_space: ${relativePath}`);
+  }
+  return resolved;
+}
+
+function listFiles(root: string, dir: string, out: string[]): void {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      listFiles(root, full, out);
+    } else if (entry.isFile()) {
+      out.push(path.relative(root, full).split(path.sep).join("/"));
+    }
+  }
+}
+
+const TOOLS: OpenAiTool[] = [
+  defineTool(
+    "send_envelope",
+    "Send a message to an address (agent:<name>, channel:<adapter>:<chat-id>). Your final reply is NOT delivered anywhere; use this to answer.",
+    {
+      to: { type: "string", description: "Destination address" },
+      text: { type: "string", description: "Message text" },
+      reply_to: { type: "string", description: "Envelope id being replied to (optional)" },
+    },
+    ["to", "text"],
+    "tool-call",
+    async (args, ctx) =>
+      await callDaemon(ctx, "envelope.send", {
+        to: requireString(args, "to"),
+        text: requireString(args, "text"),
+        ...(optionalString(args, "reply_to") ? { replyToEnvelopeId: optionalString(args, "reply_to") } : {}),
+      })
+  ),
+  defineTool(
+    "cron_create",
+    "Create a cron schedule that sends a message on each tick.",
+    {
+      cron: { type: "string", description: "Cron expression (5 fields, or 6 with seconds)" },
+      to: { type: "string", description: "Destination address" },
+      text: { type: "string", description: "Message text" },
+      timezone: { type: "string", description: "IANA timezone (optional; defaults to the boss timezone)" },
+    },
+    ["cron", "to", "text"],
+    "tool-call",
+    async (args, ctx) =>
+      await callDaemon(ctx, "cron.create", {
+        cron: requireString(args, "cron"),
+        to: requireString(args, "to"),
+        text: requireString(args, "text"),
+        ...(optionalString(args, "timezone") ? { timezone: optionalString(args, "timezone") } : {}),
+      })
+  ),
+  defineTool("cron_list", "List your cron schedules.", {}, [], "tool-call", async (_args, ctx) =>
+    await callDaemon(ctx, "cron.list", {})
+  ),
+  defineTool(
+    "cron_delete",
+    "Delete one of your cron schedules.",
+    { id: { type: "string", description: "Schedule id (or unique prefix)" } },
+    ["id"],
+    "tool-call",
+    async (args, ctx) => await callDaemon(ctx, "cron.delete", { id: requireString(args, "id") })
+  ),
+  defineTool("memory_list", "List files in your internal_space.", {}, [], "tool-call", async (_args, ctx) => {
+    const files: string[] = [];
+    if (fs.existsSync(ctx.internalSpaceDir)) {
+      listFiles(ctx.internalSpaceDir, ctx.internalSpaceDir, files);
+    }
+    return { files: files.sort() };
+  }),
+  defineTool(
+    "memory_read",
+    "Read a file from your internal_space (e.g. MEMORY.md, memories/YYYY-MM-DD.md).",
+    { path: { type: "string", description: "Path relative to internal_space" } },
+    ["path"],
+    "tool-call",
+    async (args, ctx) => {
+      const filePath = resolveInternalSpacePath(ctx.internalSpaceDir, requireString(args, "path"));
+      return { content: fs.readFileSync(filePath, "utf8") };
+    }
+  ),
+  defineTool(
+    "memory_write",
+    "Write a file in your internal_space (replaces the file unless append is true).",
+    {
+      path: { type: "string", description: "Path relative to internal_space" },
+      content: { type: "string", description: "File content" },
+      append: { type: "boolean", description: "Append instead of replacing (optional)" },
+    },
+    ["path", "content"],
+    "file-edit",
+    async (args, ctx) => {
+      const filePath = resolveInternalSpacePath(ctx.internalSpaceDir, requireString(args, "path"));
+      const content = typeof args.content === "string" ? args.content : "";
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      if (args.append === true) {
+        fs.appendFileSync(filePath, content, "utf8");
+      } else {
+        fs.writeFileSync(filePath, content, "utf8");
+      }
+      return { ok: true };
+    }
+  ),
+];
+
+const TOOLS_BY_NAME = new Map(TOOLS.map((tool) => [tool.definition.function.name, tool]));
+
+export function getOpenAiToolDefinitions(): OpenAiToolDefinition[] {
+  return TOOLS.map((tool) => tool.definition);
+}
+
+export function getOpenAiToolKind(name: string): AgentRunEventKind {
+  return TOOLS_BY_NAME.get(name)?.kind ?? "tool-call";
+}
+
+/**
+ * Run one tool call. Never throws: failures are returned as `{ ok: false }` with the message
+ * the model sees, so it can correct itself.
+ */
+export async function runOpenAiTool(
+  name: string,
+  args: Record<string, unknown>,
+  ctx: OpenAiToolContext
+): Promise<{ ok: boolean; output: unknown }> {
+  const tool = TOOLS_BY_NAME.get(name);
+  if (!tool) {
+    return { ok: false, output: { error: `Unknown tool: ${name}` } };
+  }
+  try {
+    return { ok: true, output: (await tool.run(args, ctx)) ?? { ok: true } };
+  } catch (err) {
+    return { ok: false, output: { error: errorMessage(err) } };
+  }
+}
@@ -0,0 +1,165 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { HiBossDatabase } from "../../daemon/db/database.js";
+import { HIBOSS_OPENAI_BASE_URL_ENV } from "../../shared/env.js";
+import type { AgentSession } from "../executor-support.js";
+import { openAiCompatibleProvider, trimChatHistory } from "./openai-compatible.js";
+import { resolveInternalSpacePath } from "./openai-compatible-tools.js";
+
+type ChatRequest = { model?: string; messages: Array<Record<string, unknown>>; tools?: unknown[] };
+
+async function withFakeServer(
+  replies: unknown[],
+  run: (ctx: { requests: ChatRequest[]; db: HiBossDatabase; internalSpaceDir: string }) => Promise<void>
+): Promise<void> {
+  const requests: ChatRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      assert.equal(req.url, "/v1/chat/completions");
+      requests.push(JSON.parse(body) as ChatRequest);
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(replies.shift() ?? { choices: [{ message: { role: "assistant", content: "" } }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-openai-test-"));
+  const internalSpaceDir = path.join(dir, "internal_space");
+  fs.mkdirSync(internalSpaceDir, { recursive: true });
+  const db = new HiBossDatabase(path.join(dir, "hiboss.db"));
+  const previousBaseUrl = process.env[HIBOSS_OPENAI_BASE_URL_ENV];
+  process.env[HIBOSS_OPENAI_BASE_URL_ENV] = `http://127.0.0.1:${port}/v1/`;
+
+  try {
+    await run({ requests, db, internalSpaceDir });
+  } finally {
+    if (previousBaseUrl === undefined) delete process.env[HIBOSS_OPENAI_BASE_URL_ENV];
+    else process.env[HIBOSS_OPENAI_BASE_URL_ENV] = previousBaseUrl;
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
+  return {
+    provider: "openai-compatible",
+    agentToken: "tok",
+    systemInstructions: "SYS",
+    workspace: "/tmp",
+    model: "qwen",
+    createdAtMs: 0,
+    ...overrides,
+  };
+}
+
+test("tool calls run against internal_space and the daemon, and history resumes the session", async () => {
+  const replies = [
+    {
+      choices: [{
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "c1", type: "function", function: { name: "memory_write", arguments: '{"path":"MEMORY.md","content":"likes tea"}' } },
+            { id: "c2", type: "function", function: { name: "send_envelope", arguments: '{"to":"agent:boss-bot","text":"hi"}' } },
+          ],
+        },
+      }],
+      usage: { prompt_tokens: 100, completion_tokens: 20, prompt_tokens_details: { cached_tokens: 40 } },
+    },
+    { choices: [{ message: { role: "assistant", content: "done" } }], usage: { prompt_tokens: 150, completion_tokens: 5 } },
+    { choices: [{ message: { role: "assistant", content: "again" } }] },
+  ];
+
+  await withFakeServer(replies, async ({ requests, db, internalSpaceDir }) => {
+    const rpcCalls: Array<[string, Record<string, unknown>]> = [];
+    const events: string[] = [];
+    const first = await openAiCompatibleProvider.runTurn({
+      session: makeSession(),
+      turnInput: "hello",
+      agentName: "nex",
+      internalSpaceDir,
+      db,
+      callRpc: async (method, params) => {
+        rpcCalls.push([method, params]);
+        return { id: "env-1" };
+      },
+      onRunEvent: (update) => events.push(update.type === "call" ? `${update.kind}:${update.tool}` : `${update.callId}:${update.status}`),
+    });
+
+    assert.equal(first.status, "success");
+    assert.equal(first.finalText, "done");
+    assert.ok(first.sessionId);
+    assert.equal(fs.readFileSync(path.join(internalSpaceDir, "MEMORY.md"), "utf8"), "likes tea");
+    assert.deepEqual(rpcCalls, [["envelope.send", { token: "tok", to: "agent:boss-bot", text: "hi" }]]);
+    assert.deepEqual(events, ["file-edit:memory_write", "c1:ok", "tool-call:send_envelope", "c2:ok"]);
+    assert.equal(first.usage.inputTokens, 250);
+    assert.equal(first.usage.outputTokens, 25);
+    assert.equal(first.usage.cacheReadTokens, 40);
+    assert.equal(first.usage.contextLength, 155);
+
+    assert.equal(requests[0].model, "qwen");
+    assert.ok(Array.isArray(requests[0].tools) && requests[0].tools.length > 0);
+    assert.deepEqual(requests[1].messages.map((m) => m.role), ["system", "user", "assistant", "tool", "tool"]);
+
+    const second = await openAiCompatibleProvider.runTurn({
+      session: makeSession({ sessionId: first.sessionId }),
+      turnInput: "more",
+      agentName: "nex",
+      internalSpaceDir,
+      db,
+    });
+    assert.equal(second.finalText, "again");
+    assert.equal(second.sessionId, first.sessionId);
+    assert.deepEqual(
+      requests[2].messages.map((m) => m.role),
+      ["system", "user", "assistant", "tool", "tool", "assistant", "user"]
+    );
+
+    // A fresh session (e.g. a fallback attempt) starts empty and leaves the stored conversation alone.
+    const fresh = await openAiCompatibleProvider.runTurn({
+      session: makeSession(),
+      turnInput: "new",
+      agentName: "nex",
+      internalSpaceDir,
+      db,
+    });
+    assert.deepEqual(requests[3].messages.map((m) => m.role), ["system", "user"]);
+    assert.equal(db.getAgentChatMessages(first.sessionId!).length, 7);
+
+    // Discarding a session deletes only that session's messages.
+    openAiCompatibleProvider.discardSession?.({ db, agentName: "nex", sessionId: first.sessionId! });
+    assert.equal(db.getAgentChatMessages(first.sessionId!).length, 0);
+    assert.equal(db.getAgentChatMessages(fresh.sessionId!).length, 2);
+  });
+});
+
+test("history re-sent to the server keeps the newest whole turns within the budget", () => {
+  const turn = (text: string) => [
+    { role: "user", content: text },
+    { role: "assistant", content: "", tool_calls: [{ id: `c-${text}` }] },
+    { role: "tool", tool_call_id: `c-${text}`, content: "x".repeat(50) },
+    { role: "assistant", content: "ok" },
+  ];
+  const history = [...turn("one"), ...turn("two"), ...turn("three")];
+  const turnSize = turn("two").reduce((sum, m) => sum + JSON.stringify(m).length, 0);
+
+  assert.deepEqual(trimChatHistory(history, 100_000), history);
+  assert.deepEqual(trimChatHistory(history, turnSize * 2 + 10), [...turn("two"), ...turn("three")]);
+  assert.deepEqual(trimChatHistory(history, 10), []);
+});
+
+test("memory paths cannot escape internal_space", () => {
+  assert.equal(resolveInternalSpacePath("/hb/is", "memories/a.md"), path.resolve("/hb/is/memories/a.md"));
+  assert.throws(() => resolveInternalSpacePath("/hb/is", "../agents.db"), /outside internal_space/);
+  assert.throws(() => resolveInternalSpacePath("/hb/is", "/etc/passwd"), /outside internal_space/);
+});
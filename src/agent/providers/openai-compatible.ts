@@ -0,0 +1,315 @@
+/**
+ * OpenAI-compatible provider (`POST <base-url>/chat/completions`, e.g. llama.cpp or vLLM).
+ *
+ * Runs in-process: no agent CLI is spawned. The conversation is stored in SQLite
+ * (`agent_chat_messages`) and `sessionId` names that conversation; the executor discards
+ * a session's messages when it stops resuming it. Tools are defined in openai-compatible-tools.ts.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { TurnTokenUsage } from "../executor-support.js";
+import { stringifyToolInput, summarizeToolInput } from "../provider-cli-parsers.js";
+import {
+  DEFAULT_OPENAI_BASE_URL,
+  DEFAULT_OPENAI_HISTORY_MAX_CHARS,
+  DEFAULT_OPENAI_MAX_TOOL_ROUNDS,
+  DEFAULT_OPENAI_REQUEST_TIMEOUT_MS,
+  DEFAULT_OPENAI_TOOL_RESULT_MAX_CHARS,
+} from "../../shared/defaults.js";
+import { HIBOSS_OPENAI_API_KEY_ENV, HIBOSS_OPENAI_BASE_URL_ENV } from "../../shared/env.js";
+import type { InProcessAgentProvider } from "./types.js";
+import {
+  getOpenAiToolDefinitions,
+  getOpenAiToolKind,
+  runOpenAiTool,
+  type OpenAiToolDefinition,
+} from "./openai-compatible-tools.js";
+
+type ChatMessage = Record<string, unknown> & { role: string };
+
+interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+interface ChatCompletion {
+  message: ChatMessage;
+  content: string;
+  toolCalls: ChatToolCall[];
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    cachedTokens?: number;
+  };
+}
+
+const TOOLS_NOTE = [
+  "## Tools (this runtime)",
+  "",
+  "You have no shell and cannot run `hiboss` commands here. Use the provided tools instead:",
+  "send_envelope (replies and messages), cron_create/cron_list/cron_delete, and",
+  "memory_list/memory_read/memory_write for files in your internal_space.",
+].join("\n");
+
+function getBaseUrl(): string {
+  const raw = (process.env[HIBOSS_OPENAI_BASE_URL_ENV] ?? "").trim() || DEFAULT_OPENAI_BASE_URL;
+  return raw.replace(/\/+$/, "");
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function parseCompletion(body: unknown): ChatCompletion {
+  const record = (body ?? {}) as Record<string, unknown>;
+  const choices = Array.isArray(record.choices) ? record.choices : [];
+  const first = (choices[0] ?? {}) as Record<string, unknown>;
+  const raw = first.message as Record<string, unknown> | undefined;
+  if (!raw || typeof raw !== "object") {
+    throw new Error("openai-compatible response has no choices[0].message");
+  }
+
+  const content = typeof raw.content === "string" ? raw.content : "";
+  const toolCalls: ChatToolCall[] = [];
+  for (const call of Array.isArray(raw.tool_calls) ? raw.tool_calls : []) {
+    const c = (call ?? {}) as Record<string, unknown>;
+    const fn = (c.function ?? {}) as Record<string, unknown>;
+    if (typeof fn.name !== "string") continue;
+    toolCalls.push({
+      id: typeof c.id === "string" && c.id ? c.id : randomUUID(),
+      name: fn.name,
+      arguments: typeof fn.arguments === "string" ? fn.arguments : "{}",
+    });
+  }
+
+  // Store only what is replayed to the server on later calls.
+  const message: ChatMessage = { role: "assistant", content };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls.map((call) => ({
+      id: call.id,
+      type: "function",
+      function: { name: call.name, arguments: call.arguments },
+    }));
+  }
+
+  const usageRaw = record.usage as Record<string, unknown> | undefined;
+  const promptTokens = asNumber(usageRaw?.prompt_tokens);
+  const completionTokens = asNumber(usageRaw?.completion_tokens);
+  const details = usageRaw?.prompt_tokens_details as Record<string, unknown> | undefined;
+  const usage =
+    promptTokens !== undefined && completionTokens !== undefined
+      ? { promptTokens, completionTokens, cachedTokens: asNumber(details?.cached_tokens) }
+      : undefined;
+
+  return { message, content, toolCalls, usage };
+}
+
+async function postChatCompletion(params: {
+  model?: string;
+  messages: ChatMessage[];
+  tools?: OpenAiToolDefinition[];
+  signal?: AbortSignal;
+}): Promise<ChatCompletion> {
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  const apiKey = (process.env[HIBOSS_OPENAI_API_KEY_ENV] ?? "").trim();
+  if (apiKey) {
+    headers.authorization = `Bearer ${apiKey}`;
+  }
+
+  // Abort on the run's signal or the request timeout, whichever comes first.
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, DEFAULT_OPENAI_REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  if (params.signal?.aborted) controller.abort();
+  params.signal?.addEventListener("abort", onAbort, { once: true });
+
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(`${getBaseUrl()}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        ...(params.model ? { model: params.model } : {}),
+        messages: params.messages,
+        ...(params.tools && params.tools.length > 0 ? { tools: params.tools } : {}),
+      }),
+      signal: controller.signal,
+    });
+    text = await response.text();
+  } catch (err) {
+    if (timedOut) {
+      throw new Error(`openai-compatible request timed out after ${DEFAULT_OPENAI_REQUEST_TIMEOUT_MS / 1000}s`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    params.signal?.removeEventListener("abort", onAbort);
+  }
+
+  if (!response.ok) {
+    throw new Error(`openai-compatible request failed (HTTP ${response.status}): ${text.trim().slice(0, 500)}`);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error("openai-compatible response is not JSON");
+  }
+  return parseCompletion(body);
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function truncateToolResult(output: unknown): string {
+  const json = JSON.stringify(output);
+  return json.length > DEFAULT_OPENAI_TOOL_RESULT_MAX_CHARS
+    ? `${json.slice(0, DEFAULT_OPENAI_TOOL_RESULT_MAX_CHARS)}…(truncated)`
+    : json;
+}
+
+/**
+ * The newest whole turns of `history` (each starts at a user message) that fit the history budget.
+ *
+ * Cutting at turn boundaries keeps every tool result next to the assistant call it answers.
+ */
+export function trimChatHistory(history: ChatMessage[], maxChars = DEFAULT_OPENAI_HISTORY_MAX_CHARS): ChatMessage[] {
+  let start = history.length;
+  let size = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    size += JSON.stringify(history[i]).length;
+    if (size > maxChars) break;
+    if (history[i].role === "user") start = i;
+  }
+  return history.slice(start);
+}
+
+function emptyUsage(): TurnTokenUsage {
+  return {
+    contextLength: null,
+    inputTokens: null,
+    outputTokens: null,
+    cacheReadTokens: null,
+    cacheWriteTokens: null,
+    totalTokens: null,
+  };
+}
+
+function addUsage(total: TurnTokenUsage, usage: ChatCompletion["usage"]): void {
+  if (!usage) return;
+  total.inputTokens = (total.inputTokens ?? 0) + usage.promptTokens;
+  total.outputTokens = (total.outputTokens ?? 0) + usage.completionTokens;
+  total.totalTokens = (total.totalTokens ?? 0) + usage.promptTokens + usage.completionTokens;
+  if (usage.cachedTokens !== undefined) {
+    total.cacheReadTokens = (total.cacheReadTokens ?? 0) + usage.cachedTokens;
+  }
+  // The last call sees the whole conversation.
+  total.contextLength = usage.promptTokens + usage.completionTokens;
+}
+
+export const openAiCompatibleProvider: InProcessAgentProvider = {
+  kind: "in-process",
+  name: "openai-compatible",
+  // `prompt_tokens` includes `prompt_tokens_details.cached_tokens`.
+  inputIncludesCacheReads: true,
+
+  async runTurn({ session, turnInput, agentName, internalSpaceDir, db, callRpc, signal, onProgress, onRunEvent }) {
+    if (!db) {
+      throw new Error("openai-compatible provider requires the daemon database");
+    }
+
+    const sessionId = session.sessionId || randomUUID();
+
+    const system: ChatMessage = { role: "system", content: `${session.systemInstructions}\n\n${TOOLS_NOTE}` };
+    const history = trimChatHistory(db.getAgentChatMessages(sessionId) as ChatMessage[]);
+    const added: ChatMessage[] = [{ role: "user", content: turnInput }];
+    const usage = emptyUsage();
+    const tools = getOpenAiToolDefinitions();
+    let finalText = "";
+
+    try {
+      for (let round = 1; ; round++) {
+        const lastRound = round >= DEFAULT_OPENAI_MAX_TOOL_ROUNDS;
+        const completion = await postChatCompletion({
+          model: session.model,
+          messages: [system, ...history, ...added],
+          tools: lastRound ? undefined : tools,
+          signal,
+        });
+        addUsage(usage, completion.usage);
+        added.push(completion.message);
+
+        if (completion.content.trim()) {
+          onProgress?.({ kind: "text", text: completion.content.trim() });
+        }
+        if (completion.toolCalls.length === 0 || lastRound) {
+          finalText = completion.content.trim();
+          if (completion.toolCalls.length > 0) {
+            // Unanswered tool calls would be rejected when the history is replayed.
+            delete completion.message.tool_calls;
+          }
+          break;
+        }
+
+        for (const call of completion.toolCalls) {
+          const args = parseToolArguments(call.arguments);
+          const summary = summarizeToolInput(args) ?? (typeof args.to === "string" ? args.to : undefined);
+          const input = stringifyToolInput(args);
+          onProgress?.({ kind: "tool", name: call.name, ...(summary ? { detail: summary } : {}) });
+          onRunEvent?.({
+            type: "call",
+            kind: getOpenAiToolKind(call.name),
+            tool: call.name,
+            callId: call.id,
+            ...(summary ? { summary } : {}),
+            ...(input ? { input } : {}),
+          });
+
+          const result = await runOpenAiTool(call.name, args, {
+            agentToken: session.agentToken,
+            internalSpaceDir,
+            callRpc,
+          });
+          onRunEvent?.({ type: "result", callId: call.id, status: result.ok ? "ok" : "error" });
+          added.push({ role: "tool", tool_call_id: call.id, content: truncateToolResult(result.output) });
+        }
+      }
+    } catch (err) {
+      // A cancelled turn is not stored, so the session resumes from the last complete turn.
+      if (signal?.aborted) {
+        return { status: "cancelled", finalText: "", usage };
+      }
+      throw err;
+    }
+
+    db.appendAgentChatMessages(agentName, sessionId, added);
+    return { status: "success", finalText, usage, sessionId };
+  },
+
+  async runBackgroundPrompt({ prompt, model, signal }) {
+    const completion = await postChatCompletion({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      signal,
+    });
+    const usage = emptyUsage();
+    addUsage(usage, completion.usage);
+    return { finalText: completion.content.trim(), usage };
+  },
+
+  discardSession({ db, agentName, sessionId }) {
+    db.deleteAgentChatSession(agentName, sessionId);
+  },
+};
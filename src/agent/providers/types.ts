@@ -0,0 +1,122 @@
+/**
+ * Agent provider contract.
+ *
+ * A CLI provider describes how to drive one agent CLI: which executable to spawn,
+ * how the prompt reaches it, how to parse its output, and how to resume a session.
+ * An in-process provider runs the turn itself (e.g. over HTTP).
+ * The executor and background runner only talk to these interfaces.
+ */
+
+import type { HiBossDatabase } from "../../daemon/db/database.js";
+import type { AgentSession, TurnTokenUsage } from "../executor-support.js";
+import type { TurnProgressEvent } from "../turn-progress.js";
+import type { AgentRunStreamUpdate } from "../run-events.js";
+
+export interface ProviderTurnArgsParams {
+  session: AgentSession;
+  turnInput: string;
+  /** Agent internal_space directory (extra writable dir for the CLI). */
+  internalSpaceDir: string;
+}
+
+export interface ProviderTurnOutput {
+  finalText: string;
+  usage: TurnTokenUsage;
+  /** Session/thread ID to resume on the next turn. */
+  sessionId?: string;
+}
+
+export interface ProviderBackgroundParams {
+  prompt: string;
+  model?: string;
+  reasoningEffort?: string;
+}
+
+export interface ProviderBackgroundInvocation {
+  args: string[];
+  /** Final text for a successful run; defaults to trimmed stdout. */
+  readFinalText?: (stdout: string) => Promise<string>;
+  /** Token usage of a successful run, when the output reports it. */
+  readUsage?: (stdout: string) => TurnTokenUsage;
+  /** Best-effort cleanup once the process has exited (any outcome). */
+  cleanup?: () => Promise<void>;
+}
+
+/**
+ * Calls a daemon RPC method in-process (same auth and errors as the socket).
+ */
+export type ProviderRpcCaller = (method: string, params: Record<string, unknown>) => Promise<unknown>;
+
+export interface ProviderRunTurnParams {
+  session: AgentSession;
+  turnInput: string;
+  agentName: string;
+  /** Agent internal_space directory (the agent's private memory files). */
+  internalSpaceDir: string;
+  db?: HiBossDatabase;
+  callRpc?: ProviderRpcCaller;
+  signal?: AbortSignal;
+  onProgress?: (event: TurnProgressEvent) => void;
+  onRunEvent?: (update: AgentRunStreamUpdate) => void;
+}
+
+export interface ProviderRunTurnResult extends ProviderTurnOutput {
+  status: "success" | "cancelled";
+}
+
+interface AgentProviderBase {
+  /** Provider name as stored on agents (`agents.provider`). */
+  name: string;
+  /** Whether reported input tokens already include cache reads (affects pricing). */
+  inputIncludesCacheReads: boolean;
+  /** Accepted as an agent provider but left out of setup prompts and help text. */
+  testOnly?: boolean;
+  /**
+   * Validate provider state restored from a persisted session handle.
+   * Returns the state to keep on the session, or undefined to drop it.
+   */
+  restoreSessionState?(metadata: Record<string, unknown>): Record<string, unknown> | undefined;
+}
+
+export interface CliAgentProvider extends AgentProviderBase {
+  kind: "cli";
+  /** Executable spawned for turns and background prompts. */
+  command: string;
+  /**
+   * How the turn prompt reaches the CLI: written to stdin, or already part of
+   * the arguments returned by `buildTurnArgs` / `buildBackgroundInvocation`.
+   */
+  promptInput: "stdin" | "argument";
+  /** Env vars removed before spawning (e.g. provider home overrides). */
+  unsetEnv?: string[];
+
+  buildTurnArgs(params: ProviderTurnArgsParams): string[];
+  /** Parse the full stdout of a successful turn. Throws when output is unusable. */
+  parseTurnOutput(stdout: string): ProviderTurnOutput;
+  /** Map one streamed JSON event to progress events (live channel updates). */
+  parseProgressEvents?(event: Record<string, unknown>): TurnProgressEvent[];
+  /** Map one streamed JSON event to run-audit updates (tool calls, commands, edits). */
+  parseRunEvents?(event: Record<string, unknown>): AgentRunStreamUpdate[];
+  /**
+   * Refine usage after parsing (may read/write `session.providerState`).
+   * Errors are logged and the parsed output is used as-is.
+   */
+  finalizeTurn?(params: { session: AgentSession; output: ProviderTurnOutput }): Promise<void>;
+
+  /** One-shot prompt without Hi-Boss instructions (background jobs). */
+  buildBackgroundInvocation(params: ProviderBackgroundParams): ProviderBackgroundInvocation;
+}
+
+export interface InProcessAgentProvider extends AgentProviderBase {
+  kind: "in-process";
+  /** Run one turn. Rejects on provider errors; resolves "cancelled" when `signal` aborts. */
+  runTurn(params: ProviderRunTurnParams): Promise<ProviderRunTurnResult>;
+  /** One-shot prompt without Hi-Boss instructions or tools (background jobs). */
+  runBackgroundPrompt(
+    params: ProviderBackgroundParams & { signal?: AbortSignal }
+  ): Promise<{ finalText: string; usage?: TurnTokenUsage }>;
+  /** Drop the stored state of a session the agent will not resume (refresh or fresh open). */
+  discardSession?(params: { db: HiBossDatabase; agentName: string; sessionId: string }): void;
+}
+
+export type AgentProvider = CliAgentProvider | InProcessAgentProvider;
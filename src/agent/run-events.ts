@@ -0,0 +1,91 @@
+/**
+ * Audit trail of what an agent did during a run (tool calls, commands, file edits).
+ */
+
+import type { HiBossDatabase } from "../daemon/db/database.js";
+import { errorMessage, logEvent } from "../shared/daemon-log.js";
+
+export type AgentRunEventKind = "tool-call" | "command" | "file-edit";
+
+export type AgentRunEventStatus = "ok" | "error";
+
+/**
+ * One row of `agent_run_events`.
+ */
+export interface AgentRunEvent {
+  runId: string;
+  seq: number;
+  createdAt: number;
+  kind: AgentRunEventKind;
+  tool: string;
+  summary?: string;
+  input?: string;
+  callId?: string;
+  status?: AgentRunEventStatus;
+}
+
+/**
+ * What one provider stream event contributes to the audit trail: a new call, or the outcome
+ * of a call seen earlier (matched by `callId`).
+ */
+export type AgentRunStreamUpdate =
+  | {
+    type: "call";
+    kind: AgentRunEventKind;
+    tool: string;
+    summary?: string;
+    input?: string;
+    callId?: string;
+    status?: AgentRunEventStatus;
+  }
+  | { type: "result"; callId: string; status: AgentRunEventStatus };
+
+/**
+ * Persists stream updates for one run as they arrive. Storage errors are logged once and
+ * never fail the run.
+ */
+export class AgentRunEventRecorder {
+  private seq = 0;
+  private readonly recordedCallIds = new Set<string>();
+  private failureLogged = false;
+
+  constructor(
+    private readonly db: HiBossDatabase,
+    private readonly agentName: string,
+    private readonly runId: string
+  ) {}
+
+  record(update: AgentRunStreamUpdate): void {
+    try {
+      if (update.type === "result" || (update.callId && this.recordedCallIds.has(update.callId))) {
+        // Codex reports some items again on completion; only the outcome is new.
+        if (update.status && update.callId) {
+          this.db.setAgentRunEventStatus(this.runId, update.callId, update.status);
+        }
+        return;
+      }
+
+      this.seq++;
+      this.db.appendAgentRunEvent({
+        runId: this.runId,
+        seq: this.seq,
+        createdAt: Date.now(),
+        kind: update.kind,
+        tool: update.tool,
+        ...(update.summary ? { summary: update.summary } : {}),
+        ...(update.input ? { input: update.input } : {}),
+        ...(update.callId ? { callId: update.callId } : {}),
+        ...(update.status ? { status: update.status } : {}),
+      });
+      if (update.callId) this.recordedCallIds.add(update.callId);
+    } catch (err) {
+      if (this.failureLogged) return;
+      this.failureLogged = true;
+      logEvent("warn", "agent-run-event-record-failed", {
+        "agent-name": this.agentName,
+        "agent-run-id": this.runId,
+        error: errorMessage(err),
+      });
+    }
+  }
+}
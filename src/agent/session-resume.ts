@@ -10,10 +10,36 @@ import type { Agent } from "./types.js";
 import type { AgentSession } from "./executor-support.js";
 import { getRefreshReasonForPolicy } from "./executor-support.js";
 import { readPersistedAgentSession, writePersistedAgentSession } from "./persisted-session.js";
-import { logEvent } from "../shared/daemon-log.js";
+import { getAgentProvider, isAgentProviderName } from "./providers/index.js";
+import { errorMessage, logEvent } from "../shared/daemon-log.js";
 
 export type OpenMode = "open" | "resume";
 
+/**
+ * Let the provider drop the stored state of a session the agent will not resume (best-effort).
+ *
+ * Only sessions the agent owned reach here; fallback sessions are never kept or discarded.
+ */
+export function discardAgentSession(params: {
+  db: HiBossDatabase;
+  agentName: string;
+  provider: string;
+  sessionId?: string;
+}): void {
+  if (!params.sessionId || !isAgentProviderName(params.provider)) return;
+  const provider = getAgentProvider(params.provider);
+  if (provider.kind !== "in-process" || !provider.discardSession) return;
+  try {
+    provider.discardSession({ db: params.db, agentName: params.agentName, sessionId: params.sessionId });
+  } catch (err) {
+    logEvent("warn", "agent-session-discard-failed", {
+      "agent-name": params.agentName,
+      provider: params.provider,
+      error: errorMessage(err),
+    });
+  }
+}
+
 /**
  * Determine session open mode and resolve session ID for resume.
  *
@@ -24,7 +50,7 @@ export type OpenMode = "open" | "resume";
 export function resolveSessionOpenMode(params: {
   agent: Agent;
   agentRecord: Agent;
-  provider: "claude" | "codex";
+  provider: string;
   db: HiBossDatabase;
   policy: { dailyResetAt?: { hour: number; minute: number; normalized: string }; idleTimeoutMs?: number };
 }): {
@@ -51,6 +77,12 @@ export function resolveSessionOpenMode(params: {
     if (reason) {
       openReason = `persisted-policy:${reason}`;
       writePersistedAgentSession(params.db, params.agent.name, null);
+      discardAgentSession({
+        db: params.db,
+        agentName: params.agent.name,
+        provider: persisted.provider,
+        sessionId: persisted.handle.sessionId,
+      });
       persisted = null;
     }
   }
@@ -0,0 +1,50 @@
+/**
+ * Live progress of an agent turn (tool calls, partial assistant text) and channel presence.
+ */
+
+import type { Agent } from "./types.js";
+import type { Envelope } from "../envelope/types.js";
+
+export type TurnProgressEvent =
+  | { kind: "tool"; name: string; detail?: string }
+  | { kind: "text"; text: string };
+
+export type TurnProgressOutcome = "success" | "cancelled" | "failed";
+
+/**
+ * Receives progress events for one run. Implementations must not throw.
+ */
+export interface TurnProgressSink {
+  onEvent(event: TurnProgressEvent): void;
+  finish(outcome: TurnProgressOutcome): Promise<void>;
+}
+
+export interface TurnStartParams {
+  agent: Agent;
+  envelopes: Envelope[];
+}
+
+/**
+ * Creates a sink for a run, or null when the agent has not opted in or there is nowhere to report.
+ */
+export type TurnProgressFactory = (params: TurnStartParams) => Promise<TurnProgressSink | null>;
+
+/**
+ * Keeps a "working" indicator (e.g. channel typing) alive until the run ends.
+ */
+export interface TurnPresence {
+  stop(): void;
+}
+
+/**
+ * Starts presence for a run, or returns null when the run has no channel to signal.
+ */
+export type TurnPresenceFactory = (params: TurnStartParams) => TurnPresence | null;
+
+/**
+ * Whether `metadata.streamProgress` opts the agent into live progress messages.
+ */
+export function isStreamProgressEnabled(metadata: unknown): boolean {
+  if (typeof metadata !== "object" || metadata === null) return false;
+  return (metadata as Record<string, unknown>).streamProgress === true;
+}
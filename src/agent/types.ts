@@ -18,7 +18,7 @@ export interface Agent {
   token: string;           // agent token (short identifier, e.g. "abc123")
   description?: string;    // displayed to other agents
   workspace?: string;      // provider CLI working directory (session cwd)
-  provider?: 'claude' | 'codex';
+  provider?: string;       // registered provider name (see src/agent/providers)
   model?: string;
   reasoningEffort?: 'none' | 'low' | 'medium' | 'high' | 'xhigh';
   permissionLevel?: AgentPermissionLevel;   // authorization level for CLI/RPC ops
@@ -36,7 +36,7 @@ export interface RegisterAgentInput {
   name: string;
   description?: string;
   workspace?: string;
-  provider?: 'claude' | 'codex';
+  provider?: string;
   model?: string | null;
   reasoningEffort?: 'none' | 'low' | 'medium' | 'high' | 'xhigh' | null;
   permissionLevel?: AgentPermissionLevel;
@@ -0,0 +1,79 @@
+/**
+ * Per-agent cost budgets (session policy `dailyBudgetUsd` / `monthlyBudgetUsd`).
+ */
+
+import type { Agent } from "./types.js";
+import type { HiBossDatabase } from "../daemon/db/database.js";
+import { parseSessionPolicyConfig } from "../shared/session-policy.js";
+import { getCalendarPeriodBoundsInTimeZone } from "../shared/time.js";
+
+export type UsageBudgetPeriod = "daily" | "monthly";
+
+export interface UsageBudgetExceeded {
+  period: UsageBudgetPeriod;
+  budgetUsd: number;
+  spentUsd: number;
+  periodStartMs: number;
+  /** When the period rolls over and the agent may run again. */
+  periodEndMs: number;
+}
+
+export interface AgentUsageBudgetState {
+  dailyCostUsd: number;
+  monthlyCostUsd: number;
+  dailyBudgetUsd?: number;
+  monthlyBudgetUsd?: number;
+  exceeded?: UsageBudgetExceeded;
+}
+
+/**
+ * Sent to the daemon when an agent is paused for a budget period (once per period).
+ */
+export interface AgentBudgetExceededNotice extends UsageBudgetExceeded {
+  agentName: string;
+}
+
+/**
+ * Spend for the current day and month (boss timezone) and the first budget it exceeds, if any.
+ */
+export function getAgentUsageBudgetState(
+  db: HiBossDatabase,
+  agent: Agent,
+  nowMs = Date.now()
+): AgentUsageBudgetState {
+  const policy = parseSessionPolicyConfig(agent.sessionPolicy, { strict: false });
+  const bossTimezone = db.getBossTimezone();
+  const day = getCalendarPeriodBoundsInTimeZone(nowMs, bossTimezone, "day");
+  const month = getCalendarPeriodBoundsInTimeZone(nowMs, bossTimezone, "month");
+
+  const dailyCostUsd = db.sumAgentRunCostUsd(agent.name, day.startMs);
+  const monthlyCostUsd = db.sumAgentRunCostUsd(agent.name, month.startMs);
+
+  const state: AgentUsageBudgetState = {
+    dailyCostUsd,
+    monthlyCostUsd,
+    ...(policy.dailyBudgetUsd !== undefined ? { dailyBudgetUsd: policy.dailyBudgetUsd } : {}),
+    ...(policy.monthlyBudgetUsd !== undefined ? { monthlyBudgetUsd: policy.monthlyBudgetUsd } : {}),
+  };
+
+  // The monthly pause outlasts the daily one, so report it first.
+  if (policy.monthlyBudgetUsd !== undefined && monthlyCostUsd >= policy.monthlyBudgetUsd) {
+    state.exceeded = {
+      period: "monthly",
+      budgetUsd: policy.monthlyBudgetUsd,
+      spentUsd: monthlyCostUsd,
+      periodStartMs: month.startMs,
+      periodEndMs: month.endMs,
+    };
+  } else if (policy.dailyBudgetUsd !== undefined && dailyCostUsd >= policy.dailyBudgetUsd) {
+    state.exceeded = {
+      period: "daily",
+      budgetUsd: policy.dailyBudgetUsd,
+      spentUsd: dailyCostUsd,
+      periodStartMs: day.startMs,
+      periodEndMs: day.endMs,
+    };
+  }
+
+  return state;
+}
@@ -63,6 +63,14 @@ export function printAmbiguousIdPrefixError(
         console.error(`candidate-enabled: ${c.enabled ? "true" : "false"}`);
       }
       console.error(`candidate-next-deliver-at: ${formatMaybeOffset(c.nextDeliverAt, options?.displayTimeZone)}`);
+    } else if (c.candidateKind === "agent-run") {
+      if (typeof c.agentName === "string") {
+        console.error(`candidate-agent-name: ${c.agentName}`);
+      }
+      if (typeof c.status === "string") {
+        console.error(`candidate-status: ${c.status}`);
+      }
+      console.error(`candidate-started-at: ${formatMaybeOffset(c.startedAt, options?.displayTimeZone)}`);
     }
 
     if (i !== data.candidates.length - 1) {
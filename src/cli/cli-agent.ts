@@ -1,5 +1,15 @@
 import type { Command } from "commander";
-import { registerAgent, setAgent, listAgents, deleteAgent, agentStatus, abortAgent } from "./commands/index.js";
+import {
+  registerAgent,
+  setAgent,
+  listAgents,
+  deleteAgent,
+  agentStatus,
+  abortAgent,
+  listAgentRuns,
+  showAgentRun,
+} from "./commands/index.js";
+import { formatAgentProviderNames } from "../agent/providers/index.js";
 
 export function registerAgentCommands(program: Command): void {
   // Agent commands
@@ -19,7 +29,7 @@ export function registerAgentCommands(program: Command): void {
     .description("Register a new agent")
     .requiredOption("--name <name>", "Agent name (alphanumeric with hyphens)")
     .requiredOption("--role <role>", "Agent role (speaker or leader)")
-    .requiredOption("--provider <provider>", "Provider (claude or codex)")
+    .requiredOption("--provider <provider>", `Provider (${formatAgentProviderNames()})`)
     .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
     .option("--description <description>", "Agent description")
     .option("--workspace <path>", "Workspace directory for provider CLI runs")
@@ -45,10 +55,20 @@ export function registerAgentCommands(program: Command): void {
       "Refresh session after a run's context length exceeds N tokens",
       parseInt
     )
+    .option(
+      "--session-daily-budget-usd <usd>",
+      "Pause the agent once today's run cost (boss timezone) reaches this many USD",
+      parseFloat
+    )
+    .option(
+      "--session-monthly-budget-usd <usd>",
+      "Pause the agent once this month's run cost reaches this many USD",
+      parseFloat
+    )
     .option("--metadata-json <json>", "Agent metadata JSON object")
     .option("--metadata-file <path>", "Path to agent metadata JSON file")
-    .option("--bind-adapter-type <type>", "Bind adapter type at creation (e.g., telegram)")
-    .option("--bind-adapter-token <token>", "Bind adapter token at creation (e.g., bot token)")
+    .option("--bind-adapter-type <type>", "Bind adapter type at creation (telegram, discord, slack, web, email, or a plugin type)")
+    .option("--bind-adapter-token <token>", "Bind adapter token at creation (e.g., bot token; generated for web when omitted)")
     .option("--dry-run", "Validate registration without creating the agent")
     .action((options) => {
       registerAgent({
@@ -64,6 +84,8 @@ export function registerAgentCommands(program: Command): void {
         sessionDailyResetAt: options.sessionDailyResetAt,
         sessionIdleTimeout: options.sessionIdleTimeout,
         sessionMaxContextLength: options.sessionMaxContextLength,
+        sessionDailyBudgetUsd: options.sessionDailyBudgetUsd,
+        sessionMonthlyBudgetUsd: options.sessionMonthlyBudgetUsd,
         metadataJson: options.metadataJson,
         metadataFile: options.metadataFile,
         bindAdapterType: options.bindAdapterType,
@@ -80,7 +102,7 @@ export function registerAgentCommands(program: Command): void {
     .option("--role <role>", "Agent role (speaker or leader)")
     .option("--description <description>", "Agent description")
     .option("--workspace <path>", "Workspace directory for provider CLI runs")
-    .option("--provider <provider>", "Provider (claude or codex)")
+    .option("--provider <provider>", `Provider (${formatAgentProviderNames()})`)
     .option(
       "--model <model>",
       "Model override (provider-specific; use 'default' to clear)"
@@ -106,19 +128,29 @@ export function registerAgentCommands(program: Command): void {
       "Refresh session after a run's context length exceeds N tokens",
       parseInt
     )
+    .option(
+      "--session-daily-budget-usd <usd>",
+      "Pause the agent once today's run cost (boss timezone) reaches this many USD",
+      parseFloat
+    )
+    .option(
+      "--session-monthly-budget-usd <usd>",
+      "Pause the agent once this month's run cost reaches this many USD",
+      parseFloat
+    )
     .option("--clear-session-policy", "Clear session policy")
     .option("--metadata-json <json>", "Agent metadata JSON object")
     .option("--metadata-file <path>", "Path to agent metadata JSON file")
     .option("--clear-metadata", "Clear agent metadata")
     .option(
       "--bind-adapter-type <type>",
-      "Bind/replace adapter type (e.g., telegram)"
+      "Bind/replace adapter type (telegram, discord, slack, web, email, or a plugin type)"
     )
     .option(
       "--bind-adapter-token <token>",
-      "Bind/replace adapter token (e.g., bot token)"
+      "Bind/replace adapter token (e.g., bot token; generated for web when omitted)"
     )
-    .option("--unbind-adapter-type <type>", "Unbind adapter type (e.g., telegram)")
+    .option("--unbind-adapter-type <type>", "Unbind adapter type (telegram, discord, slack, web, email, or a plugin type)")
     .action((options) => {
       setAgent({
         token: options.token,
@@ -133,6 +165,8 @@ export function registerAgentCommands(program: Command): void {
         sessionDailyResetAt: options.sessionDailyResetAt,
         sessionIdleTimeout: options.sessionIdleTimeout,
         sessionMaxContextLength: options.sessionMaxContextLength,
+        sessionDailyBudgetUsd: options.sessionDailyBudgetUsd,
+        sessionMonthlyBudgetUsd: options.sessionMonthlyBudgetUsd,
         clearSessionPolicy: options.clearSessionPolicy,
         metadataJson: options.metadataJson,
         metadataFile: options.metadataFile,
@@ -177,4 +211,39 @@ export function registerAgentCommands(program: Command): void {
     .action((options) => {
       abortAgent({ token: options.token, name: options.name });
     });
+
+  agent
+    .command("runs")
+    .description("List recent runs for an agent")
+    .requiredOption("--name <name>", "Agent name")
+    .option("--status <status>", "Filter by status (running, completed, failed, cancelled)")
+    .option(
+      "--since <time>",
+      "Only runs started at or after time (ISO 8601 or relative: -24h, -7D; units: Y/M/D/h/m/s)"
+    )
+    .option("-n, --limit <n>", "Maximum number of results (default 10, max 100)", parseInt)
+    .option("--json", "Print runs as a JSON array")
+    .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+    .action((options) => {
+      listAgentRuns({
+        token: options.token,
+        name: options.name,
+        status: options.status,
+        since: options.since,
+        limit: options.limit,
+        json: Boolean(options.json),
+      });
+    });
+
+  const run = agent.command("run").description("Agent run audit").helpCommand(false);
+
+  run
+    .command("show")
+    .description("Show an agent run and its tool-call timeline")
+    .requiredOption("--id <id>", "Run id (short id, longer prefix, or full UUID)")
+    .option("--verbose", "Also print tool inputs and the final response")
+    .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+    .action((options) => {
+      showAgentRun({ token: options.token, id: options.id, verbose: Boolean(options.verbose) });
+    });
 }
@@ -9,12 +9,25 @@ import {
   sendEnvelope,
   listEnvelopes,
   threadEnvelope,
+  retryEnvelopes,
   createCron,
   explainCron,
   listCrons,
   enableCron,
   disableCron,
   deleteCron,
+  createHook,
+  listHooks,
+  deleteHook,
+  usageReport,
+  memorySearch,
+  memoryShow,
+  memoryAppend,
+  memoryEdit,
+  memoryDiff,
+  memoryListDays,
+  memoryHistory,
+  memoryRestore,
   setReaction,
   runSetup,
   runSetupConfigExport,
@@ -145,6 +158,32 @@ envelope
     });
   });
 
+envelope
+  .command("retry")
+  .description("Re-queue failed (dead-lettered) envelopes")
+  .option("--envelope-id <id>", "Failed envelope id (repeatable; short id, prefix, or full UUID)", collect, [])
+  .option("--all", "Retry every failed envelope in scope")
+  .option("--agent <name>", "Limit --all to one agent's envelopes (boss)")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .addHelpText(
+    "after",
+    [
+      "",
+      "Notes:",
+      "  - Agents can only retry envelopes they sent or received.",
+      "  - Re-queued envelopes are delivered immediately; ones that fail again return to failed.",
+      "",
+    ].join("\n")
+  )
+  .action((options) => {
+    retryEnvelopes({
+      token: options.token,
+      envelopeIds: options.envelopeId,
+      all: Boolean(options.all),
+      agent: options.agent,
+    });
+  });
+
 // Reaction commands
 const reaction = program
   .command("reaction")
@@ -181,9 +220,10 @@ envelope
   .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
   .option("--to <address>", "List envelopes you sent to an address")
   .option("--from <address>", "List envelopes sent to you from an address")
+  .option("--agent <name>", "With --status failed and no --to/--from: only this agent's failed envelopes (boss)")
   .requiredOption(
     "--status <status>",
-    "pending or done (note: --from + pending ACKs what is returned; marks done)"
+    "pending, done, or failed (note: --from + pending ACKs what is returned; marks done)"
   )
   .option(
     "--created-after <time>",
@@ -196,14 +236,15 @@ envelope
   .option("-n, --limit <n>", "Maximum number of results (default 10, max 50)", parseInt, 10)
   .addHelpText(
     "after",
-    "\nNotes:\n  - Listing with --from <address> --status pending ACKs what is returned (marks those envelopes done).\n  - Default limit is 10; maximum is 50.\n"
+    "\nNotes:\n  - Listing with --from <address> --status pending ACKs what is returned (marks those envelopes done).\n  - --status failed without --to/--from lists dead-lettered envelopes (boss: all agents; agent: its own).\n  - Default limit is 10; maximum is 50.\n"
   )
   .action((options) => {
     listEnvelopes({
       token: options.token,
       to: options.to,
       from: options.from,
-      status: options.status as "pending" | "done",
+      agent: options.agent,
+      status: options.status as "pending" | "done" | "failed",
       createdAfter: options.createdAfter,
       createdBefore: options.createdBefore,
       limit: options.limit,
@@ -306,6 +347,221 @@ cron
     deleteCron({ id: options.id, token: options.token });
   });
 
+const hook = program
+  .command("hook")
+  .description("Webhook endpoints (POST /hooks/<name> → agent envelope; channel:webhook:<name> → outbound URL)")
+  .helpCommand(false);
+
+hook
+  .command("create")
+  .description("Create a webhook endpoint (prints its secret once)")
+  .requiredOption("--name <name>", "Webhook name (lowercase alphanumeric with hyphens; URL path segment)")
+  .requiredOption("--agent <name>", "Agent that receives payload envelopes")
+  .option("--template <source>", "Nunjucks template for envelope text (context: payload, hook, headers)")
+  .option("--template-file <path>", "Read the template from a file")
+  .option("--rate-limit <n>", "Max accepted requests per minute (default 60)", parseInt)
+  .option("--url <url>", "Outbound URL for envelopes sent to channel:webhook:<name>")
+  .option("--token <token>", "Boss token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    createHook({
+      name: options.name,
+      agent: options.agent,
+      template: options.template,
+      templateFile: options.templateFile,
+      rateLimit: options.rateLimit,
+      url: options.url,
+      token: options.token,
+    });
+  });
+
+hook
+  .command("list")
+  .description("List webhook endpoints")
+  .option("--token <token>", "Boss token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    listHooks({ token: options.token });
+  });
+
+hook
+  .command("delete")
+  .description("Delete a webhook endpoint")
+  .requiredOption("--name <name>", "Webhook name")
+  .option("--token <token>", "Boss token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    deleteHook({ name: options.name, token: options.token });
+  });
+
+const usage = program
+  .command("usage")
+  .description("Token usage and cost (priced from setup model-prices)")
+  .helpCommand(false);
+
+usage
+  .command("report")
+  .description("Summarize run token usage and cost")
+  .requiredOption("--by <group>", "Group rows by agent, day, or model")
+  .option("--name <name>", "Only include this agent's runs")
+  .option(
+    "--since <time>",
+    "Only runs started at or after time (ISO 8601 or relative: -24h, -7D; units: Y/M/D/h/m/s)"
+  )
+  .option("--json", "Print the report as JSON")
+  .option("--token <token>", "Boss token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    usageReport({
+      token: options.token,
+      by: options.by,
+      name: options.name,
+      since: options.since,
+      json: Boolean(options.json),
+    });
+  });
+
+const memory = program
+  .command("memory")
+  .description("Agent memory files (internal_space)")
+  .helpCommand(false);
+
+memory
+  .command("search")
+  .description("Search MEMORY.md and daily memories, including files no longer in the system prompt")
+  .requiredOption("--query <text>", "Words to look for (ranked by relevance)")
+  .option("--name <name>", "Agent whose memory to search (boss token; agents search their own)")
+  .option("--limit <n>", "Maximum results (default 8, max 50)", parseInt)
+  .option("--json", "Print results as JSON")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    memorySearch({
+      token: options.token,
+      query: options.query,
+      name: options.name,
+      limit: options.limit,
+      json: Boolean(options.json),
+    });
+  });
+
+memory
+  .command("show")
+  .description("Print MEMORY.md or a daily memory file")
+  .option("--name <name>", "Agent whose memory to use (boss token; agents use their own)")
+  .option("--day <day>", "Daily memory of this day (YYYY-MM-DD or today; default: MEMORY.md)")
+  .option("--json", "Print as JSON")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    memoryShow({
+      token: options.token,
+      name: options.name,
+      day: options.day,
+      json: Boolean(options.json),
+    });
+  });
+
+memory
+  .command("append")
+  .description("Append line(s) to MEMORY.md or a daily memory file")
+  .option("--name <name>", "Agent whose memory to use (boss token; agents use their own)")
+  .option("--day <day>", "Daily memory of this day (YYYY-MM-DD or today; default: MEMORY.md)")
+  .option("--text <text>", "Text to append (use - to read from stdin)")
+  .option("--text-file <path>", "Read text from file")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    memoryAppend({
+      token: options.token,
+      name: options.name,
+      day: options.day,
+      text: options.text,
+      textFile: options.textFile,
+    });
+  });
+
+memory
+  .command("edit")
+  .description("Replace the content of MEMORY.md or a daily memory file")
+  .option("--name <name>", "Agent whose memory to use (boss token; agents use their own)")
+  .option("--day <day>", "Daily memory of this day (YYYY-MM-DD or today; default: MEMORY.md)")
+  .option("--text <text>", "New content (use - to read from stdin)")
+  .option("--text-file <path>", "Read new content from file")
+  .option("--base-hash <hash>", "Fail if the file changed since `memory show` printed this content-hash")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    memoryEdit({
+      token: options.token,
+      name: options.name,
+      day: options.day,
+      text: options.text,
+      textFile: options.textFile,
+      baseHash: options.baseHash,
+    });
+  });
+
+memory
+  .command("diff")
+  .description("Show what `memory edit` would change (unified diff)")
+  .option("--name <name>", "Agent whose memory to use (boss token; agents use their own)")
+  .option("--day <day>", "Daily memory of this day (YYYY-MM-DD or today; default: MEMORY.md)")
+  .option("--text <text>", "New content (use - to read from stdin)")
+  .option("--text-file <path>", "Read new content from file")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    memoryDiff({
+      token: options.token,
+      name: options.name,
+      day: options.day,
+      text: options.text,
+      textFile: options.textFile,
+    });
+  });
+
+memory
+  .command("list-days")
+  .description("List daily memory files (newest first)")
+  .option("--name <name>", "Agent whose memory to use (boss token; agents use their own)")
+  .option("--archived", "Include days archived by memory consolidation")
+  .option("--json", "Print as JSON")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    memoryListDays({
+      token: options.token,
+      name: options.name,
+      archived: Boolean(options.archived),
+      json: Boolean(options.json),
+    });
+  });
+
+memory
+  .command("history")
+  .description("List memory snapshots taken around agent runs (newest first)")
+  .option("--name <name>", "Agent whose memory to use (boss token; agents use their own)")
+  .option("--limit <n>", "Maximum snapshots (default 20, max 200)", parseInt)
+  .option("--run <run-id>", "Only the snapshot of this agent run")
+  .option("--diff", "Include a unified diff of each snapshot's changes")
+  .option("--json", "Print as JSON")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    memoryHistory({
+      token: options.token,
+      name: options.name,
+      limit: options.limit,
+      run: options.run,
+      diff: Boolean(options.diff),
+      json: Boolean(options.json),
+    });
+  });
+
+memory
+  .command("restore")
+  .description("Roll memory files back to a snapshot")
+  .requiredOption("--at <snapshot-id|run-id|time>", "Snapshot id, run id, or datetime (newest snapshot at or before it)")
+  .option("--name <name>", "Agent whose memory to use (boss token; agents use their own)")
+  .option("--token <token>", "Token (defaults to HIBOSS_TOKEN)")
+  .action((options) => {
+    memoryRestore({
+      token: options.token,
+      name: options.name,
+      at: options.at,
+    });
+  });
+
 registerAgentCommands(program);
 
 const setup = program
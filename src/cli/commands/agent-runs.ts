@@ -0,0 +1,162 @@
+import { getDefaultConfig, getSocketPath } from "../../daemon/daemon.js";
+import { IpcClient } from "../ipc-client.js";
+import type { AgentRunShowResult, AgentRunsResult, AgentRunView } from "../../daemon/ipc/types.js";
+import { formatShortId } from "../../shared/id-format.js";
+import { formatUnixMsAsTimeZoneOffset } from "../../shared/time.js";
+import { resolveToken } from "../token.js";
+import { getDaemonTimeContext } from "../time-context.js";
+import { tryPrintAmbiguousIdPrefixError } from "../ambiguous-id.js";
+import { AGENT_NAME_ERROR_MESSAGE, isValidAgentName } from "../../shared/validation.js";
+import { formatUsd } from "../../shared/model-prices.js";
+
+export interface ListAgentRunsOptions {
+  token?: string;
+  name: string;
+  status?: string;
+  since?: string;
+  limit?: number;
+  json?: boolean;
+}
+
+export interface ShowAgentRunOptions {
+  token?: string;
+  id: string;
+  verbose?: boolean;
+}
+
+function printTokenUsage(run: AgentRunView): void {
+  const fields: Array<[string, number | undefined]> = [
+    ["input-tokens", run.inputTokens],
+    ["output-tokens", run.outputTokens],
+    ["cache-read-tokens", run.cacheReadTokens],
+    ["cache-write-tokens", run.cacheWriteTokens],
+    ["total-tokens", run.totalTokens],
+  ];
+  for (const [key, value] of fields) {
+    if (typeof value === "number") console.log(`${key}: ${value}`);
+  }
+  if (typeof run.costUsd === "number") {
+    console.log(`cost-usd: ${formatUsd(run.costUsd)}`);
+  }
+}
+
+/**
+ * List recent runs for an agent (newest first).
+ */
+export async function listAgentRuns(options: ListAgentRunsOptions): Promise<void> {
+  if (!isValidAgentName(options.name)) {
+    console.error("error:", AGENT_NAME_ERROR_MESSAGE);
+    process.exit(1);
+  }
+
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const result = await client.call<AgentRunsResult>("agent.runs", {
+      token,
+      agentName: options.name,
+      status: options.status,
+      since: options.since,
+      limit: options.limit,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result.runs, null, 2));
+      return;
+    }
+
+    if (result.runs.length === 0) {
+      console.log("no-runs: true");
+      return;
+    }
+
+    const time = await getDaemonTimeContext({ client, token });
+    result.runs.forEach((run, index) => {
+      if (index > 0) console.log("");
+      console.log(`run-id: ${formatShortId(run.id)}`);
+      console.log(`status: ${run.status}`);
+      console.log(`started-at: ${formatUnixMsAsTimeZoneOffset(run.startedAt, time.bossTimezone)}`);
+      if (typeof run.durationMs === "number") {
+        console.log(`duration-ms: ${run.durationMs}`);
+      }
+      console.log(
+        `envelope-ids: ${run.envelopeIds.length > 0 ? run.envelopeIds.map(formatShortId).join(", ") : "(none)"}`
+      );
+      if (typeof run.contextLength === "number") {
+        console.log(`context-length: ${run.contextLength}`);
+      }
+      printTokenUsage(run);
+      if (run.error) {
+        console.log(`error: ${run.error}`);
+      }
+    });
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Show one agent run and its tool-call timeline.
+ */
+export async function showAgentRun(options: ShowAgentRunOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  const token = resolveToken(options.token);
+  const time = await getDaemonTimeContext({ client, token }).catch(() => null);
+  const formatAt = (ms: number): string =>
+    time ? formatUnixMsAsTimeZoneOffset(ms, time.bossTimezone) : new Date(ms).toISOString();
+
+  try {
+    const result = await client.call<AgentRunShowResult>("agent.run.show", { token, id: options.id });
+    const { run, events } = result;
+
+    console.log(`run-id: ${formatShortId(run.id)}`);
+    console.log(`agent-name: ${run.agentName}`);
+    console.log(`status: ${run.status}`);
+    if (run.provider) {
+      console.log(`provider: ${run.provider}`);
+      console.log(`model: ${run.model ?? "default"}`);
+    }
+    console.log(`started-at: ${formatAt(run.startedAt)}`);
+    if (typeof run.completedAt === "number") {
+      console.log(`completed-at: ${formatAt(run.completedAt)}`);
+    }
+    console.log(`envelope-ids: ${run.envelopeIds.length > 0 ? run.envelopeIds.map(formatShortId).join(", ") : "(none)"}`);
+    if (typeof run.contextLength === "number") {
+      console.log(`context-length: ${run.contextLength}`);
+    }
+    printTokenUsage(run);
+    if (run.error) {
+      console.log(`error: ${run.error}`);
+    }
+    if (options.verbose && run.finalResponse) {
+      console.log(`final-response-json: ${JSON.stringify(run.finalResponse)}`);
+    }
+    console.log(`event-count: ${events.length}`);
+
+    for (const event of events) {
+      console.log("");
+      console.log(`event-seq: ${event.seq}`);
+      console.log(`event-at: ${formatAt(event.createdAt)}`);
+      console.log(`event-kind: ${event.kind}`);
+      console.log(`event-tool: ${event.tool}`);
+      console.log(`event-status: ${event.status ?? "unknown"}`);
+      if (event.summary) {
+        console.log(`event-summary: ${event.summary.replace(/\s*\n\s*/g, " ")}`);
+      }
+      if (options.verbose && event.input) {
+        console.log(`event-input-json: ${event.input}`);
+      }
+    }
+  } catch (err) {
+    if (tryPrintAmbiguousIdPrefixError(err, { displayTimeZone: time?.bossTimezone })) {
+      process.exit(1);
+    }
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
@@ -14,6 +14,8 @@ export interface SetAgentSessionPolicyOptions {
   sessionDailyResetAt?: string;
   sessionIdleTimeout?: string;
   sessionMaxContextLength?: number;
+  sessionDailyBudgetUsd?: number;
+  sessionMonthlyBudgetUsd?: number;
   clear?: boolean;
 }
 
@@ -36,6 +38,8 @@ export async function setAgentSessionPolicy(
         sessionDailyResetAt: options.sessionDailyResetAt,
         sessionIdleTimeout: options.sessionIdleTimeout,
         sessionMaxContextLength: options.sessionMaxContextLength,
+        sessionDailyBudgetUsd: options.sessionDailyBudgetUsd,
+        sessionMonthlyBudgetUsd: options.sessionMonthlyBudgetUsd,
         clear: options.clear,
       }
     );
@@ -55,6 +59,12 @@ export async function setAgentSessionPolicy(
       if (typeof sp.maxContextLength === "number") {
         console.log(`session-max-context-length: ${sp.maxContextLength}`);
       }
+      if (typeof sp.dailyBudgetUsd === "number") {
+        console.log(`session-daily-budget-usd: ${sp.dailyBudgetUsd}`);
+      }
+      if (typeof sp.monthlyBudgetUsd === "number") {
+        console.log(`session-monthly-budget-usd: ${sp.monthlyBudgetUsd}`);
+      }
     }
   } catch (err) {
     console.error("error:", (err as Error).message);
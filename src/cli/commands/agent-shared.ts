@@ -1,5 +1,6 @@
 import * as fs from "fs";
 import * as path from "path";
+import { getAdapterPlugin } from "../../adapters/registry.js";
 
 export async function readMetadataInput(options: {
   metadataJson?: string;
@@ -61,3 +62,22 @@ export function normalizeDefaultSentinel(value: string | undefined): string | nu
   if (trimmed === "default") return null;
   return trimmed;
 }
+
+/**
+ * Resolve the adapter token for `--bind-adapter-type`, generating one when the adapter
+ * supports it (e.g. `web`) and none was given.
+ *
+ * @returns The token to send and whether it was generated here.
+ */
+export function resolveBindAdapterToken(
+  adapterType: string | undefined,
+  adapterToken: string | undefined
+): { token: string | undefined; generated: boolean } {
+  if (adapterType && !adapterToken) {
+    const plugin = getAdapterPlugin(adapterType);
+    if (plugin?.generateToken) {
+      return { token: plugin.generateToken(), generated: true };
+    }
+  }
+  return { token: adapterToken, generated: false };
+}
@@ -4,15 +4,23 @@ import type { Agent } from "../../agent/types.js";
 import type { AgentAbortResult, AgentStatusResult } from "../../daemon/ipc/types.js";
 import { formatShortId } from "../../shared/id-format.js";
 import { formatUnixMsAsTimeZoneOffset } from "../../shared/time.js";
+import { formatUsd } from "../../shared/model-prices.js";
 import { AGENT_NAME_ERROR_MESSAGE, isValidAgentName } from "../../shared/validation.js";
 import { resolveToken } from "../token.js";
 import { DEFAULT_AGENT_PERMISSION_LEVEL } from "../../shared/defaults.js";
-import { normalizeDefaultSentinel, readMetadataInput, sanitizeAgentMetadata } from "./agent-shared.js";
+import {
+  normalizeDefaultSentinel,
+  readMetadataInput,
+  resolveBindAdapterToken,
+  sanitizeAgentMetadata,
+} from "./agent-shared.js";
 import { getDaemonTimeContext } from "../time-context.js";
 export { bindAgent, unbindAgent } from "./agent-bindings.js";
 export type { BindAgentOptions, UnbindAgentOptions } from "./agent-bindings.js";
 export { setAgentSessionPolicy } from "./agent-session-policy.js";
 export type { SetAgentSessionPolicyOptions } from "./agent-session-policy.js";
+export { listAgentRuns, showAgentRun } from "./agent-runs.js";
+export type { ListAgentRunsOptions, ShowAgentRunOptions } from "./agent-runs.js";
 
 interface RegisterAgentResult {
   dryRun?: boolean;
@@ -54,6 +62,8 @@ export interface RegisterAgentOptions {
   sessionDailyResetAt?: string;
   sessionIdleTimeout?: string;
   sessionMaxContextLength?: number;
+  sessionDailyBudgetUsd?: number;
+  sessionMonthlyBudgetUsd?: number;
   metadataJson?: string;
   metadataFile?: string;
   bindAdapterType?: string;
@@ -93,6 +103,8 @@ export interface SetAgentOptions {
   sessionDailyResetAt?: string;
   sessionIdleTimeout?: string;
   sessionMaxContextLength?: number;
+  sessionDailyBudgetUsd?: number;
+  sessionMonthlyBudgetUsd?: number;
   clearSessionPolicy?: boolean;
   metadataJson?: string;
   metadataFile?: string;
@@ -117,6 +129,7 @@ export async function registerAgent(options: RegisterAgentOptions): Promise<void
     const token = resolveToken(options.token);
     const model = normalizeDefaultSentinel(options.model);
     const reasoningEffort = normalizeDefaultSentinel(options.reasoningEffort);
+    const bindAdapter = resolveBindAdapterToken(options.bindAdapterType, options.bindAdapterToken);
     const result = await client.call<RegisterAgentResult>("agent.register", {
       token,
       name: options.name,
@@ -131,8 +144,10 @@ export async function registerAgent(options: RegisterAgentOptions): Promise<void
       sessionDailyResetAt: options.sessionDailyResetAt,
       sessionIdleTimeout: options.sessionIdleTimeout,
       sessionMaxContextLength: options.sessionMaxContextLength,
+      sessionDailyBudgetUsd: options.sessionDailyBudgetUsd,
+      sessionMonthlyBudgetUsd: options.sessionMonthlyBudgetUsd,
       bindAdapterType: options.bindAdapterType,
-      bindAdapterToken: options.bindAdapterToken,
+      bindAdapterToken: bindAdapter.token,
       dryRun: Boolean(options.dryRun),
     });
 
@@ -151,6 +166,9 @@ export async function registerAgent(options: RegisterAgentOptions): Promise<void
       }
       console.log(`token: ${result.token}`);
     }
+    if (bindAdapter.generated && !result.dryRun) {
+      console.log(`bind-adapter-token: ${bindAdapter.token}`);
+    }
   } catch (err) {
     console.error("error:", (err as Error).message);
     process.exit(1);
@@ -170,8 +188,9 @@ export async function setAgent(options: SetAgentOptions): Promise<void> {
     if (options.clearMetadata && (options.metadataJson || options.metadataFile)) {
       throw new Error("Use either --clear-metadata or --metadata-json/--metadata-file, not both");
     }
+    const bindAdapter = resolveBindAdapterToken(options.bindAdapterType, options.bindAdapterToken);
     if (
-      (options.bindAdapterType && !options.bindAdapterToken) ||
+      (options.bindAdapterType && !bindAdapter.token) ||
       (!options.bindAdapterType && options.bindAdapterToken)
     ) {
       throw new Error("--bind-adapter-type and --bind-adapter-token must be used together");
@@ -185,13 +204,17 @@ export async function setAgent(options: SetAgentOptions): Promise<void> {
       options.clearSessionPolicy ||
       options.sessionDailyResetAt !== undefined ||
       options.sessionIdleTimeout !== undefined ||
-      options.sessionMaxContextLength !== undefined
+      options.sessionMaxContextLength !== undefined ||
+      options.sessionDailyBudgetUsd !== undefined ||
+      options.sessionMonthlyBudgetUsd !== undefined
         ? options.clearSessionPolicy
           ? null
           : {
               dailyResetAt: options.sessionDailyResetAt,
               idleTimeout: options.sessionIdleTimeout,
               maxContextLength: options.sessionMaxContextLength,
+              dailyBudgetUsd: options.sessionDailyBudgetUsd,
+              monthlyBudgetUsd: options.sessionMonthlyBudgetUsd,
             }
       : undefined;
 
@@ -211,7 +234,7 @@ export async function setAgent(options: SetAgentOptions): Promise<void> {
       sessionPolicy,
       metadata,
       bindAdapterType: options.bindAdapterType,
-      bindAdapterToken: options.bindAdapterToken,
+      bindAdapterToken: bindAdapter.token,
       unbindAdapterType: options.unbindAdapterType,
     });
 
@@ -235,8 +258,17 @@ export async function setAgent(options: SetAgentOptions): Promise<void> {
       if (typeof sp.maxContextLength === "number") {
         console.log(`session-max-context-length: ${sp.maxContextLength}`);
       }
+      if (typeof sp.dailyBudgetUsd === "number") {
+        console.log(`session-daily-budget-usd: ${sp.dailyBudgetUsd}`);
+      }
+      if (typeof sp.monthlyBudgetUsd === "number") {
+        console.log(`session-monthly-budget-usd: ${sp.monthlyBudgetUsd}`);
+      }
     }
     console.log(`bindings: ${result.bindings.length > 0 ? result.bindings.join(", ") : "(none)"}`);
+    if (bindAdapter.generated) {
+      console.log(`bind-adapter-token: ${bindAdapter.token}`);
+    }
   } catch (err) {
     console.error("error:", (err as Error).message);
     process.exit(1);
@@ -316,10 +348,25 @@ export async function agentStatus(options: AgentStatusOptions): Promise<void> {
       if (typeof sp.maxContextLength === "number") {
         console.log(`session-max-context-length: ${sp.maxContextLength}`);
       }
+      if (typeof sp.dailyBudgetUsd === "number") {
+        console.log(`session-daily-budget-usd: ${sp.dailyBudgetUsd}`);
+      }
+      if (typeof sp.monthlyBudgetUsd === "number") {
+        console.log(`session-monthly-budget-usd: ${sp.monthlyBudgetUsd}`);
+      }
     }
     console.log(`agent-state: ${result.status.agentState}`);
     console.log(`agent-health: ${result.status.agentHealth}`);
     console.log(`pending-count: ${result.status.pendingCount}`);
+    console.log(`failed-count: ${result.status.failedCount}`);
+    console.log(`cost-today-usd: ${formatUsd(result.usage.todayCostUsd)}`);
+    console.log(`cost-month-usd: ${formatUsd(result.usage.monthCostUsd)}`);
+    if (result.usage.budgetExceeded) {
+      console.log(`budget-exceeded: ${result.usage.budgetExceeded.period}`);
+      console.log(
+        `budget-resumes-at: ${formatUnixMsAsTimeZoneOffset(result.usage.budgetExceeded.resumesAt, time.bossTimezone)}`
+      );
+    }
 
     if (result.status.currentRun) {
       console.log(`current-run-id: ${formatShortId(result.status.currentRun.id)}`);
@@ -15,6 +15,12 @@ interface ListEnvelopesResult {
   envelopes: Envelope[];
 }
 
+interface RetryEnvelopesResult {
+  retriedCount: number;
+  failedAgainCount: number;
+  envelopeIds: string[];
+}
+
 interface EnvelopeThreadResult {
   maxDepth: number;
   totalCount: number;
@@ -39,12 +45,20 @@ export interface ListEnvelopesOptions {
   token?: string;
   to?: string;
   from?: string;
-  status: "pending" | "done";
+  agent?: string;
+  status: "pending" | "done" | "failed";
   createdAfter?: string;
   createdBefore?: string;
   limit?: number;
 }
 
+export interface RetryEnvelopesOptions {
+  token?: string;
+  envelopeIds?: string[];
+  all?: boolean;
+  agent?: string;
+}
+
 export interface ThreadEnvelopeOptions {
   token?: string;
   envelopeId: string;
@@ -194,23 +208,33 @@ export async function listEnvelopes(options: ListEnvelopesOptions): Promise<void
     const time = await getDaemonTimeContext({ client, token });
     const hasTo = typeof options.to === "string" && options.to.trim();
     const hasFrom = typeof options.from === "string" && options.from.trim();
-    if ((hasTo && hasFrom) || (!hasTo && !hasFrom)) {
-      throw new Error("Provide exactly one of --to or --from");
+    if (!options.status) {
+      throw new Error("Missing --status (pending, done, or failed)");
     }
 
-    if (!options.status) {
-      throw new Error("Missing --status (pending or done)");
+    const isDeadLetterView = options.status === "failed" && !hasTo && !hasFrom;
+    if (!isDeadLetterView && ((hasTo && hasFrom) || (!hasTo && !hasFrom))) {
+      throw new Error("Provide exactly one of --to or --from");
+    }
+    if (options.agent && !isDeadLetterView) {
+      throw new Error("--agent is only supported with --status failed (without --to/--from)");
     }
 
-    const result = await client.call<ListEnvelopesResult>("envelope.list", {
-      token,
-      to: options.to,
-      from: options.from,
-      status: options.status,
-      createdAfter: options.createdAfter,
-      createdBefore: options.createdBefore,
-      limit: options.limit,
-    });
+    const result = isDeadLetterView
+      ? await client.call<ListEnvelopesResult>("envelope.dead-letters", {
+          token,
+          agentName: options.agent,
+          limit: options.limit,
+        })
+      : await client.call<ListEnvelopesResult>("envelope.list", {
+          token,
+          to: options.to,
+          from: options.from,
+          status: options.status,
+          createdAfter: options.createdAfter,
+          createdBefore: options.createdBefore,
+          limit: options.limit,
+        });
 
     if (result.envelopes.length === 0) {
       console.log("no-envelopes: true");
@@ -226,3 +250,37 @@ export async function listEnvelopes(options: ListEnvelopesOptions): Promise<void
     process.exit(1);
   }
 }
+
+/**
+ * Re-queue failed (dead-lettered) envelopes.
+ */
+export async function retryEnvelopes(options: RetryEnvelopesOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const envelopeIds = (options.envelopeIds ?? []).map((id) => id.trim()).filter(Boolean);
+    if ((envelopeIds.length > 0) === Boolean(options.all)) {
+      throw new Error("Provide exactly one of --envelope-id or --all");
+    }
+    if (options.agent && !options.all) {
+      throw new Error("--agent is only supported with --all");
+    }
+
+    const result = await client.call<RetryEnvelopesResult>("envelope.retry", {
+      token,
+      ...(envelopeIds.length > 0 ? { envelopeIds } : { all: true }),
+      agentName: options.agent,
+    });
+
+    console.log(`retried-count: ${result.retriedCount}`);
+    console.log(`failed-again-count: ${result.failedAgainCount}`);
+    for (const id of result.envelopeIds) {
+      console.log(`envelope-id: ${formatShortId(id)}`);
+    }
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
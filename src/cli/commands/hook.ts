@@ -0,0 +1,123 @@
+import * as fs from "fs";
+import { getDefaultConfig, getSocketPath } from "../../daemon/daemon.js";
+import { IpcClient } from "../ipc-client.js";
+import { resolveToken } from "../token.js";
+import type { HookCreateResult, HookListResult, HookView } from "../../daemon/ipc/types.js";
+import { formatUnixMsAsTimeZoneOffset } from "../../shared/time.js";
+import { getDaemonTimeContext } from "../time-context.js";
+
+export interface HookCreateOptions {
+  token?: string;
+  name: string;
+  agent: string;
+  template?: string;
+  templateFile?: string;
+  rateLimit?: number;
+  url?: string;
+}
+
+export interface HookListOptions {
+  token?: string;
+}
+
+export interface HookDeleteOptions {
+  token?: string;
+  name: string;
+}
+
+async function resolveTemplate(template?: string, templateFile?: string): Promise<string | undefined> {
+  if (template !== undefined && templateFile !== undefined) {
+    throw new Error("Cannot use both --template and --template-file");
+  }
+  if (templateFile !== undefined) {
+    return fs.promises.readFile(templateFile, "utf-8");
+  }
+  return template;
+}
+
+function formatHook(hook: HookView & { url: string | null }, bossTimezone: string): string {
+  const lines: string[] = [];
+  lines.push(`webhook-name: ${hook.name}`);
+  lines.push(`agent-name: ${hook.agentName}`);
+  lines.push(`url: ${hook.url ?? "(ingress not running)"}`);
+  lines.push(`rate-limit-per-minute: ${hook.rateLimitPerMinute}`);
+  lines.push(`outbound-url: ${hook.outboundUrl ?? "(none)"}`);
+  lines.push(`created-at: ${formatUnixMsAsTimeZoneOffset(hook.createdAt, bossTimezone)}`);
+  lines.push("template:");
+  lines.push(hook.template?.trimEnd() ? hook.template.trimEnd() : "(none)");
+  return lines.join("\n");
+}
+
+export async function createHook(options: HookCreateOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const template = await resolveTemplate(options.template, options.templateFile);
+    if (options.rateLimit !== undefined && !Number.isFinite(options.rateLimit)) {
+      throw new Error("Invalid --rate-limit");
+    }
+
+    const result = await client.call<HookCreateResult>("hook.create", {
+      token,
+      name: options.name,
+      agentName: options.agent,
+      template,
+      rateLimitPerMinute: options.rateLimit,
+      outboundUrl: options.url,
+    });
+
+    console.log(`webhook-name: ${result.hook.name}`);
+    console.log(`agent-name: ${result.hook.agentName}`);
+    console.log(`url: ${result.url ?? "(ingress not running)"}`);
+    console.log(`rate-limit-per-minute: ${result.hook.rateLimitPerMinute}`);
+    console.log(`outbound-url: ${result.hook.outboundUrl ?? "(none)"}`);
+    console.log(`webhook-secret: ${result.secret}`);
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+export async function listHooks(options: HookListOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const time = await getDaemonTimeContext({ client, token });
+    const result = await client.call<HookListResult>("hook.list", { token });
+
+    if (result.hooks.length === 0) {
+      console.log("no-hooks: true");
+      return;
+    }
+
+    for (const hook of result.hooks) {
+      console.log(formatHook(hook, time.bossTimezone));
+      console.log();
+    }
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+export async function deleteHook(options: HookDeleteOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const result = await client.call<{ success: boolean; name: string }>("hook.delete", {
+      token,
+      name: options.name,
+    });
+    console.log(`success: ${result.success ? "true" : "false"}`);
+    console.log(`webhook-name: ${result.name}`);
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
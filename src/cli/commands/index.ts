@@ -1,6 +1,9 @@
 export * from "./daemon.js";
 export * from "./envelope.js";
 export * from "./cron.js";
+export * from "./hook.js";
+export * from "./usage.js";
+export * from "./memory.js";
 export * from "./reaction.js";
 export * from "./agent.js";
 export * from "./setup.js";
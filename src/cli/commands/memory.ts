@@ -0,0 +1,357 @@
+import { getDefaultConfig, getSocketPath } from "../../daemon/daemon.js";
+import { IpcClient } from "../ipc-client.js";
+import { resolveToken } from "../token.js";
+import { resolveText } from "./envelope-input.js";
+import { getDaemonTimeContext } from "../time-context.js";
+import { formatShortId } from "../../shared/id-format.js";
+import { formatUnixMsAsTimeZoneOffset } from "../../shared/time.js";
+import type {
+  MemoryDiffResult,
+  MemoryHistoryResult,
+  MemoryListDaysResult,
+  MemoryRestoreResult,
+  MemorySearchResult,
+  MemoryShowResult,
+  MemoryWriteResult,
+} from "../../daemon/ipc/types.js";
+
+export interface MemorySearchOptions {
+  token?: string;
+  query: string;
+  name?: string;
+  limit?: number;
+  json?: boolean;
+}
+
+/**
+ * Search an agent's memory files (MEMORY.md and daily memories).
+ */
+export async function memorySearch(options: MemorySearchOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const result = await client.call<MemorySearchResult>("memory.search", {
+      token,
+      query: options.query,
+      agentName: options.name,
+      limit: options.limit,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    console.log(`agent-name: ${result.agentName}`);
+    console.log(`search-mode: ${result.mode}`);
+    if (result.hits.length === 0) {
+      console.log("no-results: true");
+      return;
+    }
+
+    for (const hit of result.hits) {
+      console.log("");
+      console.log(`path: ${hit.path}`);
+      console.log(`line: ${hit.line}`);
+      console.log(`score: ${hit.score}`);
+      console.log("text:");
+      console.log(hit.text);
+    }
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+export interface MemoryTargetOptions {
+  token?: string;
+  name?: string;
+  day?: string;
+}
+
+export interface MemoryShowOptions extends MemoryTargetOptions {
+  json?: boolean;
+}
+
+export interface MemoryTextOptions extends MemoryTargetOptions {
+  text?: string;
+  textFile?: string;
+}
+
+export interface MemoryEditOptions extends MemoryTextOptions {
+  baseHash?: string;
+}
+
+export interface MemoryListDaysOptions {
+  token?: string;
+  name?: string;
+  archived?: boolean;
+  json?: boolean;
+}
+
+export interface MemoryHistoryOptions {
+  token?: string;
+  name?: string;
+  limit?: number;
+  run?: string;
+  diff?: boolean;
+  json?: boolean;
+}
+
+export interface MemoryRestoreOptions {
+  token?: string;
+  name?: string;
+  at: string;
+}
+
+async function requireTextInput(options: MemoryTextOptions): Promise<string> {
+  const text = await resolveText(options.text, options.textFile);
+  if (text === undefined) {
+    throw new Error("Text is required. Use --text, --text -, or --text-file.");
+  }
+  return text;
+}
+
+function printWriteResult(result: MemoryWriteResult): void {
+  console.log(`agent-name: ${result.agentName}`);
+  console.log(`path: ${result.path}`);
+  console.log(`changed: ${result.changed}`);
+  console.log(`chars: ${result.chars}`);
+  if (result.maxChars !== undefined) {
+    console.log(`max-chars: ${result.maxChars}`);
+  }
+  console.log(`content-hash: ${result.contentHash}`);
+}
+
+/**
+ * Print MEMORY.md (or one day's daily memory).
+ */
+export async function memoryShow(options: MemoryShowOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const result = await client.call<MemoryShowResult>("memory.show", {
+      token,
+      agentName: options.name,
+      day: options.day,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    console.log(`agent-name: ${result.agentName}`);
+    console.log(`path: ${result.path}`);
+    console.log(`chars: ${result.chars}`);
+    if (result.maxChars !== undefined) {
+      console.log(`max-chars: ${result.maxChars}`);
+    }
+    console.log(`content-hash: ${result.contentHash}`);
+    console.log("content:");
+    if (result.content) {
+      console.log(result.content.replace(/\n$/, ""));
+    }
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Append line(s) to MEMORY.md or a daily memory file.
+ */
+export async function memoryAppend(options: MemoryTextOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const text = await requireTextInput(options);
+    const result = await client.call<MemoryWriteResult>("memory.append", {
+      token,
+      agentName: options.name,
+      day: options.day,
+      text,
+    });
+    printWriteResult(result);
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Replace the content of MEMORY.md or a daily memory file.
+ */
+export async function memoryEdit(options: MemoryEditOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const content = await requireTextInput(options);
+    const result = await client.call<MemoryWriteResult>("memory.edit", {
+      token,
+      agentName: options.name,
+      day: options.day,
+      content,
+      baseHash: options.baseHash,
+    });
+    printWriteResult(result);
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Preview `memory edit`: unified diff from the current file to the given text.
+ */
+export async function memoryDiff(options: MemoryTextOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const content = await requireTextInput(options);
+    const result = await client.call<MemoryDiffResult>("memory.diff", {
+      token,
+      agentName: options.name,
+      day: options.day,
+      content,
+    });
+
+    if (!result.changed) {
+      console.log("no-changes: true");
+      return;
+    }
+    console.log(result.diff);
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * List daily memory files (newest first).
+ */
+export async function memoryListDays(options: MemoryListDaysOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const result = await client.call<MemoryListDaysResult>("memory.list-days", {
+      token,
+      agentName: options.name,
+      includeArchived: options.archived,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.days.length === 0) {
+      console.log("no-days: true");
+      return;
+    }
+    result.days.forEach((day, index) => {
+      if (index > 0) console.log("");
+      console.log(`day: ${day.day}`);
+      console.log(`path: ${day.path}`);
+      console.log(`chars: ${day.chars}`);
+      if (day.archived) {
+        console.log("archived: true");
+      }
+    });
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * List memory snapshots (newest first), optionally with what each one changed.
+ */
+export async function memoryHistory(options: MemoryHistoryOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const result = await client.call<MemoryHistoryResult>("memory.history", {
+      token,
+      agentName: options.name,
+      limit: options.limit,
+      runId: options.run,
+      includeDiff: options.diff,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.snapshots.length === 0) {
+      console.log("no-snapshots: true");
+      return;
+    }
+    const time = await getDaemonTimeContext({ client, token });
+    result.snapshots.forEach((snapshot, index) => {
+      if (index > 0) console.log("");
+      console.log(`snapshot-id: ${formatShortId(snapshot.id)}`);
+      console.log(`created-at: ${formatUnixMsAsTimeZoneOffset(snapshot.createdAt, time.bossTimezone)}`);
+      console.log(`reason: ${snapshot.reason}`);
+      if (snapshot.runId) {
+        console.log(`run-id: ${formatShortId(snapshot.runId)}`);
+      }
+      if (snapshot.runStatus) {
+        console.log(`run-status: ${snapshot.runStatus}`);
+      }
+      if (snapshot.restoredFrom) {
+        console.log(`restored-from: ${formatShortId(snapshot.restoredFrom)}`);
+      }
+      console.log(`paths: ${snapshot.paths.join(", ")}`);
+      if (snapshot.diff) {
+        console.log("diff:");
+        console.log(snapshot.diff);
+      }
+    });
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Roll memory files back to a snapshot.
+ */
+export async function memoryRestore(options: MemoryRestoreOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const result = await client.call<MemoryRestoreResult>("memory.restore", {
+      token,
+      agentName: options.name,
+      at: options.at,
+    });
+
+    console.log(`agent-name: ${result.agentName}`);
+    console.log(`restored-from: ${formatShortId(result.restoredFrom.id)}`);
+    if (result.snapshotId) {
+      console.log(`snapshot-id: ${formatShortId(result.snapshotId)}`);
+    }
+    console.log(`changed-paths: ${result.changedPaths.length > 0 ? result.changedPaths.join(", ") : "(none)"}`);
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
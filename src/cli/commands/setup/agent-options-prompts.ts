@@ -4,9 +4,9 @@ import {
   DEFAULT_SETUP_PERMISSION_LEVEL,
   SETUP_MODEL_CHOICES_BY_PROVIDER,
 } from "../../../shared/defaults.js";
-import type { SetupConfig } from "./types.js";
+import type { SetupConfig, SetupProvider } from "./types.js";
+import { getAgentProviderNames } from "../../../agent/providers/index.js";
 
-type Provider = "claude" | "codex";
 type PermissionLevel = NonNullable<SetupConfig["speakerAgent"]["permissionLevel"]>;
 
 const MODEL_PROVIDER_DEFAULT = "default";
@@ -16,27 +16,27 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-export async function promptAgentProvider(message: string): Promise<Provider> {
-  return select<Provider>({
+function getSetupModelChoices(provider: SetupProvider): readonly string[] {
+  const choices: Record<string, readonly string[]> = SETUP_MODEL_CHOICES_BY_PROVIDER;
+  return choices[provider] ?? [];
+}
+
+export async function promptAgentProvider(message: string): Promise<SetupProvider> {
+  return select<SetupProvider>({
     message,
-    choices: [
-      { value: "claude", name: "claude" },
-      { value: "codex", name: "codex" },
-    ],
+    choices: getAgentProviderNames().map((name) => ({ value: name, name })),
   });
 }
 
 export async function promptAgentModel(params: {
-  provider: Provider;
+  provider: SetupProvider;
   message: string;
 }): Promise<string | null> {
   const modelChoice = await select<string>({
     message: params.message,
     choices: [
       { value: MODEL_PROVIDER_DEFAULT, name: "null (use provider default; do not override)" },
-      ...(params.provider === "claude"
-        ? SETUP_MODEL_CHOICES_BY_PROVIDER.claude.map((value) => ({ value, name: value }))
-        : SETUP_MODEL_CHOICES_BY_PROVIDER.codex.map((value) => ({ value, name: value }))),
+      ...getSetupModelChoices(params.provider).map((value) => ({ value, name: value })),
       { value: MODEL_CUSTOM, name: "Custom model id..." },
     ],
     default: MODEL_PROVIDER_DEFAULT,
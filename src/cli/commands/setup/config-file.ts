@@ -8,13 +8,16 @@ import {
   getDefaultSetupBossName,
   getDefaultSetupWorkspace,
 } from "../../../shared/defaults.js";
-import { parseDailyResetAt, parseDurationToMs } from "../../../shared/session-policy.js";
+import { parseBudgetUsd, parseDailyResetAt, parseDurationToMs } from "../../../shared/session-policy.js";
+import { parseModelPriceTable, type ModelPriceTable } from "../../../shared/model-prices.js";
 import { isAgentRole } from "../../../shared/agent-role.js";
+import { formatAgentProviderNames, isAgentProviderName } from "../../../agent/providers/index.js";
 import { resolveToken } from "../../token.js";
 import type {
   SetupDeclarativeAgentConfig,
   SetupDeclarativeConfig,
   SetupPermissionLevel,
+  SetupProvider,
   SetupReasoningEffort,
 } from "./types.js";
 import { reconcileSetupConfig } from "./declarative.js";
@@ -27,10 +30,13 @@ interface SetupConfigFileV2 {
   telegram: {
     "adapter-boss-id": string;
   };
+  "adapter-plugins"?: string[];
+  /** USD per 1M tokens: `{ "<model>": { input, output, "cache-read"?, "cache-write"? } }`. */
+  "model-prices"?: Record<string, Record<string, number>>;
   agents: Array<{
     name: string;
     role: "speaker" | "leader";
-    provider: "claude" | "codex";
+    provider: SetupProvider;
     description?: string;
     workspace?: string;
     model?: string | null;
@@ -40,6 +46,8 @@ interface SetupConfigFileV2 {
       "daily-reset-at"?: string;
       "idle-timeout"?: string;
       "max-context-length"?: number;
+      "daily-budget-usd"?: number;
+      "monthly-budget-usd"?: number;
     };
     metadata?: Record<string, unknown>;
     bindings: Array<{
@@ -47,8 +55,21 @@ interface SetupConfigFileV2 {
       "adapter-token": string;
     }>;
   }>;
+  /** Other adapter types: `"<adapter-type>": { "adapter-boss-id": string }`. */
+  [adapterType: string]: unknown;
 }
 
+// Top-level keys that are not `<adapter-type>.adapter-boss-id` blocks.
+const SETUP_CONFIG_FILE_KEYS = new Set([
+  "version",
+  "boss-name",
+  "boss-timezone",
+  "telegram",
+  "adapter-plugins",
+  "model-prices",
+  "agents",
+]);
+
 function parseSetupPermissionLevel(raw: unknown): SetupPermissionLevel | undefined {
   if (raw === undefined) return undefined;
   if (raw === "restricted" || raw === "standard" || raw === "privileged" || raw === "boss") {
@@ -121,6 +142,15 @@ function parseSessionPolicy(raw: unknown, agentName: string): SetupDeclarativeAg
     next.maxContextLength = Math.trunc(raw["max-context-length"]);
   }
 
+  for (const [key, field] of [
+    ["daily-budget-usd", "dailyBudgetUsd"],
+    ["monthly-budget-usd", "monthlyBudgetUsd"],
+  ] as const) {
+    if (raw[key] !== undefined) {
+      next[field] = parseBudgetUsd(raw[key], `setup config (agent.session-policy.${key} for '${agentName}')`);
+    }
+  }
+
   return Object.keys(next).length > 0 ? next : undefined;
 }
 
@@ -207,6 +237,37 @@ function parseSetupConfigFileV2(json: string): SetupDeclarativeConfig {
   }
   const telegramBossId = adapterBossIdRaw.replace(/^@/, "");
 
+  // Adapter types are validated against the registry after plugins load (see reconcileSetupConfig).
+  const adapterBossIds: Record<string, string> = {};
+  for (const [adapterType, adapterRaw] of Object.entries(parsed)) {
+    if (SETUP_CONFIG_FILE_KEYS.has(adapterType) || !isPlainObject(adapterRaw)) continue;
+    const bossIdRaw =
+      typeof adapterRaw["adapter-boss-id"] === "string" ? adapterRaw["adapter-boss-id"].trim() : "";
+    if (!bossIdRaw) {
+      throw new Error(`Invalid setup config (${adapterType}.adapter-boss-id is required)`);
+    }
+    adapterBossIds[adapterType] = bossIdRaw.replace(/^@/, "");
+  }
+
+  const adapterPluginsRaw = parsed["adapter-plugins"];
+  if (
+    adapterPluginsRaw !== undefined &&
+    (!Array.isArray(adapterPluginsRaw) ||
+      !adapterPluginsRaw.every((item) => typeof item === "string" && item.trim().length > 0))
+  ) {
+    throw new Error("Invalid setup config (adapter-plugins must be an array of package names)");
+  }
+  const adapterPlugins = (adapterPluginsRaw ?? []).map((item: string) => item.trim());
+
+  let modelPrices: ModelPriceTable | undefined;
+  if (parsed["model-prices"] !== undefined) {
+    try {
+      modelPrices = parseModelPriceTable(parsed["model-prices"]);
+    } catch (err) {
+      throw new Error(`Invalid setup config (model-prices): ${(err as Error).message}`);
+    }
+  }
+
   const agentsRaw = parsed.agents;
   if (!Array.isArray(agentsRaw) || agentsRaw.length === 0) {
     throw new Error("Invalid setup config (agents must contain at least one agent)");
@@ -228,8 +289,10 @@ function parseSetupConfigFileV2(json: string): SetupDeclarativeConfig {
     }
 
     const provider = agentRaw.provider;
-    if (provider !== "claude" && provider !== "codex") {
-      throw new Error(`Invalid setup config (agents[${index}].provider must be claude or codex)`);
+    if (!isAgentProviderName(provider)) {
+      throw new Error(
+        `Invalid setup config (agents[${index}].provider must be ${formatAgentProviderNames()})`
+      );
     }
 
     const description =
@@ -270,6 +333,9 @@ function parseSetupConfigFileV2(json: string): SetupDeclarativeConfig {
     bossName,
     bossTimezone,
     telegramBossId,
+    ...(Object.keys(adapterBossIds).length > 0 ? { adapterBossIds } : {}),
+    ...(adapterPlugins.length > 0 ? { adapterPlugins } : {}),
+    ...(modelPrices && Object.keys(modelPrices).length > 0 ? { modelPrices } : {}),
     agents,
   };
 }
@@ -38,7 +38,7 @@ export interface SetupStatus {
     name: string;
     role?: AgentRole;
     workspace?: string;
-    provider?: "claude" | "codex";
+    provider?: string;
   }>;
   integrity: {
     speakerWithoutBindings: string[];
@@ -4,6 +4,7 @@ import * as path from "node:path";
 import { getDefaultConfig, isDaemonRunning } from "../../../daemon/daemon.js";
 import { HiBossDatabase } from "../../../daemon/db/database.js";
 import { setupAgentHome } from "../../../agent/home-setup.js";
+import { isAgentProviderName } from "../../../agent/providers/index.js";
 import type {
   SetupDeclarativeConfig,
   SetupDeclarativeAgentConfig,
@@ -14,6 +15,7 @@ import { resolveAgentRole, AGENT_ROLES } from "../../../shared/agent-role.js";
 import { AGENT_NAME_ERROR_MESSAGE, isValidAgentName } from "../../../shared/validation.js";
 import {
   BACKGROUND_AGENT_NAME,
+  DEFAULT_ADAPTERS_DIRNAME,
   DEFAULT_SETUP_AGENT_NAME,
   DEFAULT_SETUP_PERMISSION_LEVEL,
   getDefaultAgentDescription,
@@ -23,6 +25,12 @@ import {
 import { getDaemonIanaTimeZone, isValidIanaTimeZone } from "../../../shared/timezone.js";
 import { getSpeakerBindingIntegrity } from "../../../shared/speaker-binding-invariant.js";
 import { isPermissionLevel } from "../../../shared/permissions.js";
+import {
+  getAdapterBindingError,
+  getAdapterPlugin,
+  isAdapterType,
+  loadAdapterPlugins,
+} from "../../../adapters/registry.js";
 
 function ensureBossProfileFile(hibossDir: string): void {
   try {
@@ -147,11 +155,24 @@ export async function exportSetupConfig(): Promise<SetupDeclarativeConfig> {
       };
     }
 
+    // Boss ids are only required for bound adapter types, so those are the ones exported.
+    const adapterBossIds: Record<string, string> = {};
+    const boundAdapterTypes = [...new Set(allBindings.map((binding) => binding.adapterType))].sort();
+    for (const adapterType of boundAdapterTypes) {
+      if (adapterType === "telegram") continue;
+      const bossId = (db.getAdapterBossId(adapterType) ?? "").trim();
+      if (bossId) adapterBossIds[adapterType] = bossId;
+    }
+    const adapterPlugins = db.getAdapterPluginPackages();
+    const modelPrices = db.getModelPrices();
     return {
       version: 2,
       bossName: (db.getBossName() ?? "").trim() || getDefaultSetupBossName(),
       bossTimezone: (db.getConfig("boss_timezone") ?? "").trim() || getDaemonIanaTimeZone(),
       telegramBossId: (db.getAdapterBossId("telegram") ?? "").trim(),
+      ...(Object.keys(adapterBossIds).length > 0 ? { adapterBossIds } : {}),
+      ...(adapterPlugins.length > 0 ? { adapterPlugins } : {}),
+      ...(Object.keys(modelPrices).length > 0 ? { modelPrices } : {}),
       agents,
     };
   } finally {
@@ -205,7 +226,7 @@ function assertDeclarativeConfig(config: SetupDeclarativeConfig): void {
     }
     normalizedRoles.add(agent.role);
 
-    if (agent.provider !== "claude" && agent.provider !== "codex") {
+    if (!isAgentProviderName(agent.provider)) {
       throw new Error(`Invalid setup config (agent.provider for '${trimmedName}')`);
     }
 
@@ -231,8 +252,9 @@ function assertDeclarativeConfig(config: SetupDeclarativeConfig): void {
       if (!adapterToken) {
         throw new Error(`Invalid setup config (binding.adapter-token for '${trimmedName}' is required)`);
       }
-      if (adapterType === "telegram" && !/^\d+:[A-Za-z0-9_-]+$/.test(adapterToken)) {
-        throw new Error(`Invalid setup config (telegram adapter token for '${trimmedName}' has invalid format)`);
+      const bindingError = getAdapterBindingError(adapterType, adapterToken);
+      if (bindingError) {
+        throw new Error(`Invalid setup config (${bindingError} for '${trimmedName}')`);
       }
       if (seenTypesForAgent.has(adapterType)) {
         throw new Error(`Invalid setup config (duplicate ${adapterType} binding for '${trimmedName}')`);
@@ -251,6 +273,20 @@ function assertDeclarativeConfig(config: SetupDeclarativeConfig): void {
     }
   }
 
+  for (const adapterType of Object.keys(config.adapterBossIds ?? {})) {
+    if (adapterType === "telegram" || !isAdapterType(adapterType)) {
+      throw new Error(`Invalid setup config (unknown adapter type '${adapterType}' in ${adapterType}.adapter-boss-id)`);
+    }
+  }
+
+  const boundAdapterTypes = new Set(allBindings.map((binding) => binding.adapterType));
+  for (const adapterType of boundAdapterTypes) {
+    if (adapterType === "telegram" || getAdapterPlugin(adapterType)?.requiresBossId === false) continue;
+    if (!config.adapterBossIds?.[adapterType]?.trim()) {
+      throw new Error(`Invalid setup config (${adapterType}.adapter-boss-id is required when binding ${adapterType})`);
+    }
+  }
+
   if (!normalizedRoles.has("speaker") || !normalizedRoles.has("leader")) {
     throw new Error("Invalid setup config (requires at least one speaker and one leader)");
   }
@@ -285,18 +321,30 @@ function requireSetupMutationToken(token: string): string {
   return trimmed;
 }
 
+async function loadSetupAdapterPlugins(dataDir: string, packages: string[] | undefined): Promise<void> {
+  const result = await loadAdapterPlugins({
+    adaptersDir: path.join(dataDir, DEFAULT_ADAPTERS_DIRNAME),
+    packages,
+  });
+  const failed = result.failed[0];
+  if (failed) {
+    throw new Error(`Failed to load adapter plugin ${failed.source}: ${failed.error}`);
+  }
+}
+
 export async function reconcileSetupConfig(params: {
   config: SetupDeclarativeConfig;
   token: string;
   dryRun: boolean;
 }): Promise<SetupReconcileResult> {
+  const daemonConfig = getDefaultConfig();
+  await loadSetupAdapterPlugins(daemonConfig.dataDir, params.config.adapterPlugins);
   assertDeclarativeConfig(params.config);
 
   if (await isDaemonRunning()) {
     throw new Error("Daemon is running. Stop it first: hiboss daemon stop --token <boss-token>");
   }
 
-  const daemonConfig = getDefaultConfig();
   fs.mkdirSync(daemonConfig.dataDir, { recursive: true });
   fs.mkdirSync(daemonConfig.daemonDir, { recursive: true });
 
@@ -351,6 +399,13 @@ export async function reconcileSetupConfig(params: {
       db.setBossName(params.config.bossName.trim());
       db.setConfig("boss_timezone", params.config.bossTimezone.trim());
       db.setAdapterBossId("telegram", params.config.telegramBossId.trim().replace(/^@/, ""));
+      for (const [adapterType, bossId] of Object.entries(params.config.adapterBossIds ?? {})) {
+        if (bossId?.trim()) {
+          db.setAdapterBossId(adapterType, bossId.trim().replace(/^@/, ""));
+        }
+      }
+      db.setAdapterPluginPackages(params.config.adapterPlugins ?? []);
+      db.setModelPrices(params.config.modelPrices ?? {});
       db.setBossToken(token);
 
       const tokens: Array<{ name: string; role: AgentRole; token: string }> = [];
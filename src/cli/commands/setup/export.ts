@@ -3,6 +3,7 @@ import * as path from "node:path";
 
 import { getDefaultConfig } from "../../../daemon/daemon.js";
 import { exportSetupConfig } from "./declarative.js";
+import { formatModelPriceTable } from "../../../shared/model-prices.js";
 
 export interface SetupExportOptions {
   outputPath?: string;
@@ -16,6 +17,14 @@ function toConfigFileV2(config: Awaited<ReturnType<typeof exportSetupConfig>>):
     telegram: {
       "adapter-boss-id": config.telegramBossId,
     },
+    ...(config.adapterPlugins ? { "adapter-plugins": config.adapterPlugins } : {}),
+    ...(config.modelPrices ? { "model-prices": formatModelPriceTable(config.modelPrices) } : {}),
+    ...Object.fromEntries(
+      Object.entries(config.adapterBossIds ?? {}).map(([adapterType, bossId]) => [
+        adapterType,
+        { "adapter-boss-id": bossId },
+      ])
+    ),
     agents: config.agents.map((agent) => ({
       name: agent.name,
       role: agent.role,
@@ -37,6 +46,12 @@ function toConfigFileV2(config: Awaited<ReturnType<typeof exportSetupConfig>>):
               ...(agent.sessionPolicy.maxContextLength !== undefined
                 ? { "max-context-length": agent.sessionPolicy.maxContextLength }
                 : {}),
+              ...(agent.sessionPolicy.dailyBudgetUsd !== undefined
+                ? { "daily-budget-usd": agent.sessionPolicy.dailyBudgetUsd }
+                : {}),
+              ...(agent.sessionPolicy.monthlyBudgetUsd !== undefined
+                ? { "monthly-budget-usd": agent.sessionPolicy.monthlyBudgetUsd }
+                : {}),
             },
           }
         : {}),
@@ -1,6 +1,8 @@
 import type { AgentRole } from "../../../shared/agent-role.js";
+import type { ModelPriceTable } from "../../../shared/model-prices.js";
 
-export type SetupProvider = "claude" | "codex";
+/** Registered agent provider name (see src/agent/providers). */
+export type SetupProvider = string;
 export type SetupReasoningEffort = "none" | "low" | "medium" | "high" | "xhigh";
 export type SetupPermissionLevel = "restricted" | "standard" | "privileged" | "boss";
 
@@ -8,6 +10,8 @@ export interface SetupSessionPolicy {
   dailyResetAt?: string;
   idleTimeout?: string;
   maxContextLength?: number;
+  dailyBudgetUsd?: number;
+  monthlyBudgetUsd?: number;
 }
 
 export interface SetupAgentConfig {
@@ -53,6 +57,15 @@ export interface SetupDeclarativeConfig {
   bossName: string;
   bossTimezone: string;
   telegramBossId: string;
+  /**
+   * Boss id per non-telegram adapter type (top-level `<type>.adapter-boss-id` blocks);
+   * required for each adapter type any agent binds.
+   */
+  adapterBossIds?: Record<string, string>;
+  /** npm packages loaded as adapter plugins (in addition to `{{HIBOSS_DIR}}/adapters/*.js`). */
+  adapterPlugins?: string[];
+  /** Per-model token prices used to cost agent runs (`config.model_prices`). */
+  modelPrices?: ModelPriceTable;
   agents: SetupDeclarativeAgentConfig[];
 }
 
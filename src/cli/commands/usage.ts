@@ -0,0 +1,64 @@
+import { getDefaultConfig, getSocketPath } from "../../daemon/daemon.js";
+import { IpcClient } from "../ipc-client.js";
+import { resolveToken } from "../token.js";
+import type { UsageReportResult, UsageReportRow } from "../../daemon/ipc/types.js";
+import { formatUsd } from "../../shared/model-prices.js";
+
+export interface UsageReportOptions {
+  token?: string;
+  by: string;
+  name?: string;
+  since?: string;
+  json?: boolean;
+}
+
+function printUsageTotals(prefix: string, row: Omit<UsageReportRow, "key">): void {
+  console.log(`${prefix}run-count: ${row.runCount}`);
+  console.log(`${prefix}input-tokens: ${row.inputTokens}`);
+  console.log(`${prefix}output-tokens: ${row.outputTokens}`);
+  console.log(`${prefix}cache-read-tokens: ${row.cacheReadTokens}`);
+  console.log(`${prefix}cache-write-tokens: ${row.cacheWriteTokens}`);
+  console.log(`${prefix}total-tokens: ${row.totalTokens}`);
+  console.log(`${prefix}cost-usd: ${formatUsd(row.costUsd)}`);
+  if (row.unpricedRunCount > 0) {
+    console.log(`${prefix}unpriced-run-count: ${row.unpricedRunCount}`);
+  }
+}
+
+/**
+ * Report token usage and cost grouped by agent, day, or model.
+ */
+export async function usageReport(options: UsageReportOptions): Promise<void> {
+  const config = getDefaultConfig();
+  const client = new IpcClient(getSocketPath(config));
+
+  try {
+    const token = resolveToken(options.token);
+    const result = await client.call<UsageReportResult>("usage.report", {
+      token,
+      by: options.by,
+      agentName: options.name,
+      since: options.since,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.rows.length === 0) {
+      console.log("no-usage: true");
+      return;
+    }
+
+    for (const row of result.rows) {
+      console.log(`${result.by}: ${row.key}`);
+      printUsageTotals("", row);
+      console.log("");
+    }
+    printUsageTotals("total-", result.total);
+  } catch (err) {
+    console.error("error:", (err as Error).message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Tells the boss when an agent is paused for exceeding its cost budget.
+ */
+
+import type { HiBossDatabase } from "../db/database.js";
+import type { MessageRouter } from "../router/message-router.js";
+import type { AgentBudgetExceededNotice } from "../../agent/usage-budget.js";
+import { formatUsd } from "../../shared/model-prices.js";
+import { formatUnixMsAsTimeZoneOffset } from "../../shared/time.js";
+import { logEvent } from "../../shared/daemon-log.js";
+
+export function formatBudgetExceededText(notice: AgentBudgetExceededNotice, bossTimezone: string): string {
+  return [
+    `agent-paused: ${notice.agentName}`,
+    `reason: ${notice.period}-budget-exceeded`,
+    `budget-usd: ${formatUsd(notice.budgetUsd)}`,
+    `spent-usd: ${formatUsd(notice.spentUsd)}`,
+    `resumes-at: ${formatUnixMsAsTimeZoneOffset(notice.periodEndMs, bossTimezone)}`,
+  ].join("\n");
+}
+
+/**
+ * Executor hook: replies in the chat the boss last wrote from, sent by the agent that received
+ * that message (its binding is what reaches the chat). Without such a chat the pause is only logged.
+ */
+export function createBossBudgetNotifier(
+  db: HiBossDatabase,
+  router: MessageRouter
+): (notice: AgentBudgetExceededNotice) => Promise<void> {
+  return async (notice) => {
+    const latest = db.getLatestBossChannelEnvelope();
+    if (!latest) {
+      logEvent("info", "agent-budget-notify-skipped", {
+        "agent-name": notice.agentName,
+        reason: "no-boss-channel",
+      });
+      return;
+    }
+
+    await router.routeEnvelope({
+      from: latest.to,
+      to: latest.from,
+      content: { text: formatBudgetExceededText(notice, db.getBossTimezone()) },
+    });
+  };
+}
@@ -6,10 +6,13 @@ import type {
   MessageContent,
 } from "../../adapters/types.js";
 import { formatChannelAddress, formatAgentAddress } from "../../adapters/types.js";
+import { isBossIdentity } from "../../adapters/registry.js";
 import type { MessageRouter } from "../router/message-router.js";
 import type { HiBossDatabase } from "../db/database.js";
 import type { DaemonConfig } from "../daemon.js";
 import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+import type { Transcriber } from "./transcriber.js";
+import { transcribeMessageContent } from "./transcriber.js";
 
 /**
  * Bridge between ChannelMessages and Envelopes.
@@ -29,7 +32,8 @@ export class ChannelBridge {
   constructor(
     private router: MessageRouter,
     private db: HiBossDatabase,
-    private config: DaemonConfig
+    private config: DaemonConfig,
+    private transcriber: Transcriber | null = null
   ) {}
 
   /**
@@ -64,7 +68,7 @@ export class ChannelBridge {
     adapterToken: string,
     command: ChannelCommand
   ): Promise<MessageContent | void> {
-    const fromBoss = this.isBoss(adapter.platform, command.authorUsername);
+    const fromBoss = this.isBoss(adapter.platform, { id: command.authorId, username: command.authorUsername });
     if (!fromBoss) {
       // Boss-only commands: do not reply to non-boss users.
       return;
@@ -100,7 +104,7 @@ export class ChannelBridge {
     message: ChannelMessage
   ): Promise<void> {
     const platform = adapter.platform;
-    const fromBoss = this.isBoss(platform, message.author.username);
+    const fromBoss = this.isBoss(platform, message.author);
 
     // Find the agent bound to this adapter
     const binding = this.db.getBindingByAdapter(platform, adapterToken);
@@ -131,13 +135,16 @@ export class ChannelBridge {
 
     const fromAddress = formatChannelAddress(platform, message.chat.id);
     const toAddress = formatAgentAddress(binding.agentName);
+    const transcribed = this.transcriber
+      ? await transcribeMessageContent(this.transcriber, message.content)
+      : { text: message.content.text, transcripts: [] };
 
     await this.router.routeEnvelope({
       from: fromAddress,
       to: toAddress,
       fromBoss,
       content: {
-        text: message.content.text,
+        text: transcribed.text,
         attachments: message.content.attachments?.map((a) => ({
           source: a.source,
           filename: a.filename,
@@ -150,20 +157,16 @@ export class ChannelBridge {
         author: message.author,
         chat: message.chat,
         ...(message.inReplyTo ? { inReplyTo: message.inReplyTo } : {}),
+        ...(transcribed.transcripts.length > 0 ? { transcripts: transcribed.transcripts } : {}),
       },
     });
   }
 
-  private isBoss(platform: string, username?: string): boolean {
-    if (!username) return false;
-
-    const adapterBossId = this.db.getAdapterBossId(platform);
-    if (!adapterBossId) return false;
-
-    // Normalize comparison (handle @username vs username)
-    const normalizedBoss = adapterBossId.replace(/^@/, '').toLowerCase();
-    const normalizedUser = username.replace(/^@/, '').toLowerCase();
-
-    return normalizedBoss === normalizedUser;
+  /**
+   * The boss id may be a username (Telegram, Discord) or a platform user ID (Slack);
+   * adapter plugins may supply their own matching.
+   */
+  private isBoss(platform: string, author: { id?: string; username?: string }): boolean {
+    return isBossIdentity(platform, author, this.db.getAdapterBossId(platform) ?? "");
   }
 }
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { ChatAdapter } from "../../adapters/types.js";
+import type { Agent } from "../../agent/types.js";
+import type { Envelope } from "../../envelope/types.js";
+import type { MessageRouter } from "../router/message-router.js";
+import { ChannelProgressReporter, createChannelProgressFactory } from "./progress-reporter.js";
+
+class FakeEditableAdapter implements ChatAdapter {
+  readonly platform = "telegram";
+  readonly sent: Array<{ chatId: string; text: string }> = [];
+  readonly edits: Array<{ chatId: string; messageId: string; text: string }> = [];
+
+  async sendMessage(): Promise<void> {}
+  onMessage(): void {}
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+
+  async sendEditableMessage(chatId: string, text: string): Promise<string> {
+    this.sent.push({ chatId, text });
+    return "m1";
+  }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    this.edits.push({ chatId, messageId, text });
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function makeEnvelope(id: string, from: string): Envelope {
+  return { id, from, to: "agent:nex", fromBoss: true, content: { text: "hi" }, status: "pending", createdAt: 0 };
+}
+
+test("ChannelProgressReporter throttles edits and ends with a summary", async () => {
+  const adapter = new FakeEditableAdapter();
+  const reporter = new ChannelProgressReporter(adapter, "chat-1", 30);
+  await reporter.start();
+  assert.deepEqual(adapter.sent, [{ chatId: "chat-1", text: "working…" }]);
+
+  reporter.onEvent({ kind: "tool", name: "Bash", detail: "npm test\n--watch=false" });
+  reporter.onEvent({ kind: "text", text: "Tests pass." });
+  assert.equal(adapter.edits.length, 0);
+
+  await sleep(60);
+  assert.equal(adapter.edits.length, 1);
+  assert.match(adapter.edits[0]!.text, /^working… \d+s\n· Bash: npm test --watch=false\n· “Tests pass\.”$/);
+
+  reporter.onEvent({ kind: "tool", name: "Read" });
+  await reporter.finish("success");
+  await sleep(60);
+  assert.equal(adapter.edits.length, 2);
+  assert.match(adapter.edits[1]!.text, /^done · 2 steps · \d+s$/);
+});
+
+test("channel progress factory requires opt-in and an editable bound adapter", async () => {
+  const adapter = new FakeEditableAdapter();
+  const router = {
+    getBoundAdapter: (_agentName: string, adapterType: string) => (adapterType === "telegram" ? adapter : null),
+  } as unknown as MessageRouter;
+  const factory = createChannelProgressFactory(router);
+  const agent: Agent = { name: "nex", token: "t", createdAt: 0, metadata: { streamProgress: true } };
+  const envelopes = [makeEnvelope("e1", "channel:telegram:chat-1"), makeEnvelope("e2", "agent:kai")];
+
+  assert.equal(await factory({ agent: { ...agent, metadata: {} }, envelopes }), null);
+  assert.equal(await factory({ agent, envelopes: [makeEnvelope("e3", "channel:discord:c9")] }), null);
+
+  const sink = await factory({ agent, envelopes });
+  assert.ok(sink);
+  assert.deepEqual(adapter.sent, [{ chatId: "chat-1", text: "working…" }]);
+  await sink.finish("cancelled");
+  assert.match(adapter.edits.at(-1)!.text, /^cancelled · 0 steps/);
+});
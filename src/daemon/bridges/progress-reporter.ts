@@ -0,0 +1,151 @@
+/**
+ * Live "working…" messages: mirrors agent turn progress into one edited channel message.
+ */
+
+import type { ChatAdapter } from "../../adapters/types.js";
+import type { MessageRouter } from "../router/message-router.js";
+import type {
+  TurnProgressEvent,
+  TurnProgressFactory,
+  TurnProgressOutcome,
+  TurnProgressSink,
+} from "../../agent/turn-progress.js";
+import { isStreamProgressEnabled } from "../../agent/turn-progress.js";
+import { DEFAULT_PROGRESS_EDIT_INTERVAL_MS } from "../../shared/defaults.js";
+import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+import { findLatestChannelSender } from "./typing-indicator.js";
+
+const MAX_PROGRESS_LINES = 8;
+const MAX_PROGRESS_LINE_CHARS = 160;
+
+type EditableAdapter = ChatAdapter & Required<Pick<ChatAdapter, "sendEditableMessage" | "editMessage">>;
+
+function isEditableAdapter(adapter: ChatAdapter | null): adapter is EditableAdapter {
+  return !!adapter && typeof adapter.sendEditableMessage === "function" && typeof adapter.editMessage === "function";
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, "0")}s` : `${seconds}s`;
+}
+
+function formatProgressLine(event: TurnProgressEvent): string {
+  const line =
+    event.kind === "tool"
+      ? event.detail
+        ? `${event.name}: ${event.detail}`
+        : event.name
+      : `“${event.text}”`;
+  const singleLine = line.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_PROGRESS_LINE_CHARS
+    ? `${singleLine.slice(0, MAX_PROGRESS_LINE_CHARS - 1)}…`
+    : singleLine;
+}
+
+const OUTCOME_LABELS: Record<TurnProgressOutcome, string> = {
+  success: "done",
+  cancelled: "cancelled",
+  failed: "failed",
+};
+
+/**
+ * One progress message per run. Edits are throttled to `intervalMs` and serialized;
+ * adapter errors are logged and never reach the agent run.
+ */
+export class ChannelProgressReporter implements TurnProgressSink {
+  private lines: string[] = [];
+  private stepCount = 0;
+  private messageId: string | null = null;
+  private startedAtMs = Date.now();
+  private lastEditAtMs = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private readonly adapter: EditableAdapter,
+    private readonly chatId: string,
+    private readonly intervalMs: number = DEFAULT_PROGRESS_EDIT_INTERVAL_MS
+  ) {}
+
+  async start(): Promise<void> {
+    this.startedAtMs = Date.now();
+    this.messageId = await this.adapter.sendEditableMessage(this.chatId, "working…");
+    this.lastEditAtMs = Date.now();
+  }
+
+  onEvent(event: TurnProgressEvent): void {
+    if (this.closed) return;
+    if (event.kind === "tool") this.stepCount++;
+    this.lines.push(formatProgressLine(event));
+    if (this.lines.length > MAX_PROGRESS_LINES) {
+      this.lines.splice(0, this.lines.length - MAX_PROGRESS_LINES);
+    }
+    this.scheduleEdit();
+  }
+
+  async finish(outcome: TurnProgressOutcome): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const steps = `${this.stepCount} ${this.stepCount === 1 ? "step" : "steps"}`;
+    this.enqueueEdit(`${OUTCOME_LABELS[outcome]} · ${steps} · ${formatElapsed(Date.now() - this.startedAtMs)}`);
+    await this.queue;
+  }
+
+  private render(): string {
+    const header = `working… ${formatElapsed(Date.now() - this.startedAtMs)}`;
+    return [header, ...this.lines.map((line) => `· ${line}`)].join("\n");
+  }
+
+  private scheduleEdit(): void {
+    if (this.timer || this.closed) return;
+    const delayMs = Math.max(0, this.lastEditAtMs + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.closed) this.enqueueEdit(this.render());
+    }, delayMs);
+  }
+
+  private enqueueEdit(text: string): void {
+    const messageId = this.messageId;
+    if (!messageId) return;
+    this.queue = this.queue
+      .then(async () => {
+        this.lastEditAtMs = Date.now();
+        await this.adapter.editMessage(this.chatId, messageId, text);
+      })
+      .catch((err) => {
+        logEvent("warn", "progress-edit-failed", {
+          "adapter-type": this.adapter.platform,
+          "chat-id": this.chatId,
+          error: errorMessage(err),
+        });
+      });
+  }
+}
+
+/**
+ * Progress factory for the executor: reports into the chat of the newest channel envelope
+ * in the run, through the agent's own binding, when `metadata.streamProgress` is true and
+ * the adapter supports editing.
+ */
+export function createChannelProgressFactory(router: MessageRouter): TurnProgressFactory {
+  return async ({ agent, envelopes }) => {
+    if (!isStreamProgressEnabled(agent.metadata)) return null;
+
+    const target = findLatestChannelSender(envelopes);
+    if (!target) return null;
+
+    const adapter = router.getBoundAdapter(agent.name, target.adapterType);
+    if (!isEditableAdapter(adapter)) return null;
+    const reporter = new ChannelProgressReporter(adapter, target.chatId);
+    await reporter.start();
+    return reporter;
+  };
+}
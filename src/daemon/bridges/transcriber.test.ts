@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { CommandTranscriber, createTranscriberFromEnv, transcribeMessageContent } from "./transcriber.js";
+
+test("CommandTranscriber substitutes the quoted file path and reads stdout", async () => {
+  const transcriber = new CommandTranscriber("printf 'heard %s\\n' {file}");
+  assert.equal(await transcriber.transcribe("/tmp/it's voice_1.oga"), "heard /tmp/it's voice_1.oga");
+
+  const appended = new CommandTranscriber("echo");
+  assert.equal(await appended.transcribe("/tmp/a b.oga"), "/tmp/a b.oga");
+
+  await assert.rejects(new CommandTranscriber("echo oops >&2; exit 3").transcribe("/tmp/x.oga"), /code 3: oops/);
+  await assert.rejects(new CommandTranscriber("sleep 5; echo", 50).transcribe("/tmp/x.oga"), /timed out/);
+});
+
+test("transcribeMessageContent folds local audio transcripts into the text and keeps attachments", async () => {
+  const transcriber = {
+    transcribe: async (filePath: string) => {
+      if (filePath.includes("broken")) throw new Error("engine crashed");
+      return `transcript of ${filePath}`;
+    },
+  };
+
+  const result = await transcribeMessageContent(transcriber, {
+    text: "listen",
+    attachments: [
+      { source: "/media/voice_1.oga", filename: "voice_1.oga" },
+      { source: "/media/photo.jpg" },
+      { source: "/media/broken.oga" },
+      { source: "https://example.com/remote.mp3" },
+    ],
+  });
+
+  assert.equal(result.text, "listen\n\ntranscript of /media/voice_1.oga");
+  assert.deepEqual(result.transcripts, [
+    { source: "/media/voice_1.oga", filename: "voice_1.oga", text: "transcript of /media/voice_1.oga" },
+  ]);
+
+  const untouched = await transcribeMessageContent(transcriber, { text: "hi" });
+  assert.deepEqual(untouched, { text: "hi", transcripts: [] });
+
+  assert.equal(createTranscriberFromEnv({}), null);
+  assert.ok(createTranscriberFromEnv({ HIBOSS_TRANSCRIBE_COMMAND: "whisper {file}" }) instanceof CommandTranscriber);
+});
@@ -0,0 +1,143 @@
+/**
+ * Voice transcription for inbound channel messages.
+ */
+
+import { spawn } from "node:child_process";
+import type { Attachment, MessageContent } from "../../adapters/types.js";
+import { detectAttachmentType } from "../../adapters/types.js";
+import { DEFAULT_TRANSCRIBE_MAX_OUTPUT_CHARS, DEFAULT_TRANSCRIBE_TIMEOUT_MS } from "../../shared/defaults.js";
+import { HIBOSS_TRANSCRIBE_COMMAND_ENV } from "../../shared/env.js";
+import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+
+export interface Transcriber {
+  /**
+   * Return the transcript of a local audio file (empty when nothing was recognized).
+   */
+  transcribe(filePath: string): Promise<string>;
+}
+
+export interface AttachmentTranscript {
+  source: string;
+  filename?: string;
+  text: string;
+}
+
+const FILE_PLACEHOLDER = "{file}";
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Runs a shell command per file and reads the transcript from stdout.
+ *
+ * `{file}` in the command is replaced by the quoted audio path; without it the path is appended.
+ * Example: `whisper-transcribe.sh {file}` wrapping ffmpeg + whisper.cpp.
+ */
+export class CommandTranscriber implements Transcriber {
+  constructor(
+    private readonly command: string,
+    private readonly timeoutMs: number = DEFAULT_TRANSCRIBE_TIMEOUT_MS
+  ) {}
+
+  transcribe(filePath: string): Promise<string> {
+    const quoted = shellQuote(filePath);
+    const commandLine = this.command.includes(FILE_PLACEHOLDER)
+      ? this.command.split(FILE_PLACEHOLDER).join(quoted)
+      : `${this.command} ${quoted}`;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(commandLine, {
+        shell: true,
+        stdio: ["ignore", "pipe", "pipe"],
+        detached: true,
+      });
+      const stdoutChunks: Buffer[] = [];
+      const stderrChunks: Buffer[] = [];
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          if (child.pid) {
+            process.kill(-child.pid, "SIGKILL");
+          } else {
+            child.kill("SIGKILL");
+          }
+        } catch {
+          child.kill("SIGKILL");
+        }
+      }, this.timeoutMs);
+
+      child.stdout?.on("data", (chunk: Buffer) => stdoutChunks.push(chunk));
+      child.stderr?.on("data", (chunk: Buffer) => stderrChunks.push(chunk));
+
+      child.on("error", (err) => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to spawn transcribe command: ${errorMessage(err)}`));
+      });
+
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (timedOut) {
+          reject(new Error(`Transcribe command timed out after ${this.timeoutMs}ms`));
+          return;
+        }
+        if (code !== 0) {
+          const stderr = Buffer.concat(stderrChunks).toString("utf8").trim().slice(-500);
+          reject(new Error(`Transcribe command exited with code ${code}${stderr ? `: ${stderr}` : ""}`));
+          return;
+        }
+        resolve(Buffer.concat(stdoutChunks).toString("utf8").trim().slice(0, DEFAULT_TRANSCRIBE_MAX_OUTPUT_CHARS));
+      });
+    });
+  }
+}
+
+/**
+ * Build the transcriber configured by `HIBOSS_TRANSCRIBE_COMMAND` (null when unset).
+ */
+export function createTranscriberFromEnv(env: NodeJS.ProcessEnv = process.env): Transcriber | null {
+  const command = (env[HIBOSS_TRANSCRIBE_COMMAND_ENV] ?? "").trim();
+  return command ? new CommandTranscriber(command) : null;
+}
+
+function isTranscribable(attachment: Attachment): boolean {
+  return detectAttachmentType(attachment) === "audio" && !/^https?:\/\//i.test(attachment.source);
+}
+
+/**
+ * Transcribe local audio attachments and fold the transcripts into the message text.
+ *
+ * Attachments are kept as-is. A failed transcription is logged and skipped so the
+ * message still reaches the agent.
+ */
+export async function transcribeMessageContent(
+  transcriber: Transcriber,
+  content: MessageContent
+): Promise<{ text?: string; transcripts: AttachmentTranscript[] }> {
+  const transcripts: AttachmentTranscript[] = [];
+  for (const attachment of content.attachments ?? []) {
+    if (!isTranscribable(attachment)) continue;
+    try {
+      const text = await transcriber.transcribe(attachment.source);
+      if (!text) continue;
+      transcripts.push({
+        source: attachment.source,
+        ...(attachment.filename ? { filename: attachment.filename } : {}),
+        text,
+      });
+    } catch (err) {
+      logEvent("warn", "channel-transcribe-failed", {
+        source: attachment.source,
+        error: errorMessage(err),
+      });
+    }
+  }
+
+  const parts = [content.text?.trim(), ...transcripts.map((t) => t.text)].filter((p): p is string => !!p);
+  return {
+    text: parts.length > 0 ? parts.join("\n\n") : content.text,
+    transcripts,
+  };
+}
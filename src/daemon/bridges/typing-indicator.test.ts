@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { ChatAdapter } from "../../adapters/types.js";
+import type { Envelope } from "../../envelope/types.js";
+import { ChannelTypingIndicator, findLatestChannelSender } from "./typing-indicator.js";
+
+class FakeTypingAdapter implements ChatAdapter {
+  readonly platform = "telegram";
+  readonly typing: string[] = [];
+
+  async sendMessage(): Promise<void> {}
+  onMessage(): void {}
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+
+  async setTyping(chatId: string): Promise<void> {
+    this.typing.push(chatId);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function makeEnvelope(id: string, from: string): Envelope {
+  return { id, from, to: "agent:nex", fromBoss: true, content: { text: "hi" }, status: "pending", createdAt: 0 };
+}
+
+test("ChannelTypingIndicator refreshes until stopped", async () => {
+  const adapter = new FakeTypingAdapter();
+  const indicator = new ChannelTypingIndicator(adapter, "chat-1", 20);
+  indicator.start();
+  assert.deepEqual(adapter.typing, ["chat-1"]);
+
+  await sleep(70);
+  indicator.stop();
+  const count = adapter.typing.length;
+  assert.ok(count >= 3, `expected refreshes, got ${count}`);
+
+  await sleep(50);
+  assert.equal(adapter.typing.length, count);
+});
+
+test("findLatestChannelSender picks the newest channel envelope", () => {
+  assert.equal(findLatestChannelSender([makeEnvelope("e1", "agent:leader")]), null);
+  assert.deepEqual(
+    findLatestChannelSender([
+      makeEnvelope("e1", "channel:telegram:111"),
+      makeEnvelope("e2", "channel:discord:222"),
+      makeEnvelope("e3", "agent:leader"),
+    ]),
+    { adapterType: "discord", chatId: "222" }
+  );
+});
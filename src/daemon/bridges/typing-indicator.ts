@@ -0,0 +1,86 @@
+/**
+ * Channel "typing…" presence while an agent run is in flight.
+ */
+
+import type { ChatAdapter } from "../../adapters/types.js";
+import { parseAddress } from "../../adapters/types.js";
+import type { Envelope } from "../../envelope/types.js";
+import type { MessageRouter } from "../router/message-router.js";
+import type { TurnPresence, TurnPresenceFactory } from "../../agent/turn-progress.js";
+import { DEFAULT_TYPING_REFRESH_INTERVAL_MS } from "../../shared/defaults.js";
+import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+
+/**
+ * The channel a run should signal: the sender of its newest channel envelope, if any.
+ */
+export function findLatestChannelSender(envelopes: Envelope[]): { adapterType: string; chatId: string } | null {
+  for (let i = envelopes.length - 1; i >= 0; i--) {
+    let from: ReturnType<typeof parseAddress>;
+    try {
+      from = parseAddress(envelopes[i]!.from);
+    } catch {
+      continue;
+    }
+    if (from.type === "channel") return { adapterType: from.adapter, chatId: from.chatId };
+  }
+  return null;
+}
+
+type TypingAdapter = ChatAdapter & Required<Pick<ChatAdapter, "setTyping">>;
+
+/**
+ * Re-sends the typing action every `intervalMs` until stopped. Only the first failure is
+ * logged, so a chat that rejects the action does not flood the daemon log.
+ */
+export class ChannelTypingIndicator implements TurnPresence {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private failureLogged = false;
+
+  constructor(
+    private readonly adapter: TypingAdapter,
+    private readonly chatId: string,
+    private readonly intervalMs: number = DEFAULT_TYPING_REFRESH_INTERVAL_MS
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.send();
+    this.timer = setInterval(() => this.send(), this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private send(): void {
+    this.adapter.setTyping(this.chatId).catch((err) => {
+      if (this.failureLogged) return;
+      this.failureLogged = true;
+      logEvent("warn", "channel-typing-failed", {
+        "adapter-type": this.adapter.platform,
+        "chat-id": this.chatId,
+        error: errorMessage(err),
+      });
+    });
+  }
+}
+
+/**
+ * Presence factory for the executor: shows typing in the chat of the newest channel envelope
+ * in the run, through the agent's own binding, when the adapter supports it.
+ */
+export function createChannelTypingFactory(router: MessageRouter): TurnPresenceFactory {
+  return ({ agent, envelopes }) => {
+    const target = findLatestChannelSender(envelopes);
+    if (!target) return null;
+
+    const adapter = router.getBoundAdapter(agent.name, target.adapterType);
+    if (!adapter || typeof adapter.setTyping !== "function") return null;
+    const indicator = new ChannelTypingIndicator(adapter as TypingAdapter, target.chatId);
+    indicator.start();
+    return indicator;
+  };
+}
@@ -8,9 +8,20 @@ import {
 } from "../shared/defaults.js";
 import { formatUnixMsAsTimeZoneOffset } from "../shared/time.js";
 import { formatShortId } from "../shared/id-format.js";
+import { formatUsd } from "../shared/model-prices.js";
+import { getAgentUsageBudgetState } from "../agent/usage-budget.js";
 
 type EnrichedChannelCommand = ChannelCommand & { agentName?: string };
 
+const MAX_STATUS_FAILED_ENVELOPES = 3;
+
+function getLastDeliveryErrorKind(metadata: Record<string, unknown> | undefined): string {
+  const err = metadata?.lastDeliveryError;
+  if (!err || typeof err !== "object") return "unknown";
+  const kind = (err as Record<string, unknown>).kind;
+  return typeof kind === "string" && kind.trim() ? kind.trim() : "unknown";
+}
+
 function buildAgentStatusText(params: { db: HiBossDatabase; executor: AgentExecutor; agentName: string }): string {
   const agent = params.db.getAgentByNameCaseInsensitive(params.agentName);
   if (!agent) {
@@ -24,6 +35,7 @@ function buildAgentStatusText(params: { db: HiBossDatabase; executor: AgentExecu
 
   const isBusy = params.executor.isAgentBusy(agent.name);
   const pendingCount = params.db.countDuePendingEnvelopesForAgent(agent.name);
+  const failedCount = params.db.countFailedEnvelopesForAgent(agent.name);
   const bindings = params.db.getBindingsByAgentName(agent.name).map((b) => b.adapterType);
 
   const currentRun = isBusy ? params.db.getCurrentRunningAgentRun(agent.name) : null;
@@ -51,14 +63,37 @@ function buildAgentStatusText(params: { db: HiBossDatabase; executor: AgentExecu
     if (typeof sp.maxContextLength === "number") {
       lines.push(`session-max-context-length: ${sp.maxContextLength}`);
     }
+    if (typeof sp.dailyBudgetUsd === "number") {
+      lines.push(`session-daily-budget-usd: ${sp.dailyBudgetUsd}`);
+    }
+    if (typeof sp.monthlyBudgetUsd === "number") {
+      lines.push(`session-monthly-budget-usd: ${sp.monthlyBudgetUsd}`);
+    }
   }
 
-  const agentState = isBusy ? "running" : "idle";
+  const budget = getAgentUsageBudgetState(params.db, agent);
+  const agentState = isBusy ? "running" : budget.exceeded ? "paused" : "idle";
   const agentHealth = !lastRun ? "unknown" : lastRun.status === "failed" ? "error" : "ok";
 
   lines.push(`agent-state: ${agentState}`);
   lines.push(`agent-health: ${agentHealth}`);
   lines.push(`pending-count: ${pendingCount}`);
+  lines.push(`failed-count: ${failedCount}`);
+  lines.push(`cost-today-usd: ${formatUsd(budget.dailyCostUsd)}`);
+  lines.push(`cost-month-usd: ${formatUsd(budget.monthlyCostUsd)}`);
+  if (budget.exceeded) {
+    lines.push(`budget-exceeded: ${budget.exceeded.period}`);
+    lines.push(`budget-resumes-at: ${formatUnixMsAsTimeZoneOffset(budget.exceeded.periodEndMs, bossTz)}`);
+  }
+  if (failedCount > 0) {
+    const failed = params.db.listFailedEnvelopes({
+      address: `agent:${agent.name}`,
+      limit: MAX_STATUS_FAILED_ENVELOPES,
+    });
+    for (const env of failed) {
+      lines.push(`failed-envelope: ${formatShortId(env.id)} to=${env.to} kind=${getLastDeliveryErrorKind(env.metadata)}`);
+    }
+  }
 
   if (currentRun) {
     lines.push(`current-run-id: ${formatShortId(currentRun.id)}`);
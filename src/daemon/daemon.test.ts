@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { registerAdapterPlugin } from "../adapters/registry.js";
+import type {
+  ChannelCommand,
+  ChannelCommandHandler,
+  ChannelMessageHandler,
+  ChatAdapter,
+  MessageContent,
+} from "../adapters/types.js";
+import { getMockCallsPath, getMockScenarioPath } from "../agent/providers/mock.js";
+import { Daemon } from "./daemon.js";
+import { HiBossDatabase } from "./db/database.js";
+
+/**
+ * In-memory chat adapter: the test plays the boss by calling its handlers directly.
+ */
+class FakeChatAdapter implements ChatAdapter {
+  readonly platform = "fakechat";
+  readonly sent: Array<{ chatId: string; text?: string }> = [];
+  messageHandler: ChannelMessageHandler | null = null;
+  commandHandler: ChannelCommandHandler | null = null;
+
+  async sendMessage(chatId: string, content: MessageContent): Promise<void> {
+    this.sent.push({ chatId, text: content.text });
+  }
+  onMessage(handler: ChannelMessageHandler): void {
+    this.messageHandler = handler;
+  }
+  onCommand(handler: ChannelCommandHandler): void {
+    this.commandHandler = handler;
+  }
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+}
+
+let adapter: FakeChatAdapter | null = null;
+
+registerAdapterPlugin(
+  {
+    apiVersion: 1,
+    platform: "fakechat",
+    capabilities: { reactions: false, commands: true, parseModes: ["plain"], maxTextLength: 4000 },
+    validateToken: (token: string) => token.startsWith("fc-"),
+    createAdapter: () => {
+      adapter = new FakeChatAdapter();
+      return adapter;
+    },
+  },
+  "daemon.test"
+);
+
+type MockCall = {
+  resumed: boolean;
+  sessionId: string;
+  hiboss: Array<{ exitCode: number | null; stderr: string }>;
+};
+
+function readCalls(workspace: string): MockCall[] {
+  const callsPath = getMockCallsPath(workspace);
+  if (!fs.existsSync(callsPath)) return [];
+  return fs
+    .readFileSync(callsPath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as MockCall);
+}
+
+async function waitFor(what: string, check: () => boolean, timeoutMs = 30_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+/**
+ * Start a daemon on a temp HIBOSS_DIR with a `mock` speaker (nex, bound to fakechat) and leader (kai).
+ */
+async function withDaemon(
+  scenarios: { nex: unknown; kai?: unknown },
+  run: (ctx: { db: HiBossDatabase; chat: FakeChatAdapter; workspaces: { nex: string; kai: string } }) => Promise<void>
+): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-daemon-test-"));
+  const previousDir = process.env.HIBOSS_DIR;
+  // The mock's `hiboss` calls find the daemon socket through HIBOSS_DIR.
+  process.env.HIBOSS_DIR = dir;
+  const daemonDir = path.join(dir, ".daemon");
+  const workspaces = { nex: path.join(dir, "ws-nex"), kai: path.join(dir, "ws-kai") };
+  for (const [name, workspace] of Object.entries(workspaces)) {
+    const scenario = scenarios[name as keyof typeof scenarios] ?? { turns: [{ text: "ok" }] };
+    fs.mkdirSync(path.dirname(getMockScenarioPath(workspace)), { recursive: true });
+    fs.writeFileSync(getMockScenarioPath(workspace), JSON.stringify(scenario));
+  }
+
+  const db = new HiBossDatabase(path.join(daemonDir, "hiboss.db"));
+  db.setBossName("boss");
+  db.setBossToken("boss-token");
+  db.setAdapterBossId("fakechat", "boss");
+  db.registerAgent({ name: "nex", provider: "mock", role: "speaker", workspace: workspaces.nex });
+  db.registerAgent({ name: "kai", provider: "mock", role: "leader", workspace: workspaces.kai });
+  db.createBinding("nex", "fakechat", "fc-1");
+  db.markSetupComplete();
+
+  adapter = null;
+  const daemon = new Daemon({ dataDir: dir, daemonDir });
+  try {
+    await daemon.start();
+    assert.ok(adapter, "fakechat adapter was not created for the binding");
+    await run({ db, chat: adapter, workspaces });
+  } finally {
+    await daemon.stop();
+    db.close();
+    if (previousDir === undefined) delete process.env.HIBOSS_DIR;
+    else process.env.HIBOSS_DIR = previousDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function bossSays(chat: FakeChatAdapter, id: string, text: string): Promise<void> {
+  return Promise.resolve(
+    chat.messageHandler!({
+      id,
+      platform: "fakechat",
+      author: { id: "u-boss", username: "boss", displayName: "Boss" },
+      chat: { id: "chat-1" },
+      content: { text },
+      raw: null,
+    })
+  );
+}
+
+test("daemon runs a mock speaker end to end: resumes its session and routes the envelope it sends", async () => {
+  await withDaemon(
+    {
+      nex: {
+        turns: [
+          { text: "first", hiboss: [["envelope", "send", "--to", "agent:kai", "--text", "boss says hi"]] },
+          { text: "second" },
+        ],
+      },
+    },
+    async ({ db, chat, workspaces }) => {
+      await bossSays(chat, "m-1", "hello");
+      await waitFor("nex's first run", () => db.getAgentRuns("nex", { status: "completed" }).length === 1);
+
+      // The mock ran `hiboss envelope send` with its injected HIBOSS_TOKEN; the daemon routed it to kai.
+      const [first] = readCalls(workspaces.nex);
+      assert.deepEqual(first?.hiboss.map((r) => r.exitCode), [0], first?.hiboss[0]?.stderr);
+      await waitFor("kai's run", () => db.getAgentRuns("kai", { status: "completed" }).length === 1);
+      const [routed] = db.listEnvelopesByRoute({ from: "agent:nex", to: "agent:kai", status: "done", limit: 10 });
+      assert.equal(routed?.content.text, "boss says hi");
+
+      await bossSays(chat, "m-2", "again");
+      await waitFor("nex's second run", () => db.getAgentRuns("nex", { status: "completed" }).length === 2);
+      const calls = readCalls(workspaces.nex);
+      assert.equal(calls[1]?.resumed, true);
+      assert.equal(calls[1]?.sessionId, first?.sessionId);
+    }
+  );
+});
+
+test("/abort from the boss cancels the speaker's in-flight run", async () => {
+  await withDaemon({ nex: { turns: [{ text: "too late", delayMs: 30_000 }] } }, async ({ db, chat, workspaces }) => {
+    await bossSays(chat, "m-1", "take your time");
+    await waitFor("the mock turn to start", () => readCalls(workspaces.nex).length === 1);
+
+    const command: ChannelCommand = { command: "abort", args: "", chatId: "chat-1", authorUsername: "boss" };
+    const reply = await chat.commandHandler!(command);
+    assert.match(reply?.text ?? "", /cancelled-run: true/);
+    assert.deepEqual(chat.sent, []);
+
+    await waitFor("the run to be cancelled", () => db.getAgentRuns("nex", { status: "cancelled" }).length === 1);
+    assert.equal(db.getAgentRuns("nex", { status: "completed" }).length, 0);
+  });
+});
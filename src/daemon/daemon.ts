@@ -7,16 +7,27 @@ import { HiBossDatabase } from "./db/database.js";
 import { IpcServer } from "./ipc/server.js";
 import { MessageRouter } from "./router/message-router.js";
 import { ChannelBridge } from "./bridges/channel-bridge.js";
+import { createTranscriberFromEnv } from "./bridges/transcriber.js";
+import { createChannelProgressFactory } from "./bridges/progress-reporter.js";
+import { createChannelTypingFactory } from "./bridges/typing-indicator.js";
+import { createBossBudgetNotifier } from "./bridges/budget-notifier.js";
 import { AgentExecutor, createAgentExecutor } from "../agent/executor.js";
 import { type BackgroundExecutor, createBackgroundExecutor } from "../agent/background-executor.js";
 import type { Agent } from "../agent/types.js";
 import { EnvelopeScheduler } from "./scheduler/envelope-scheduler.js";
 import { CronScheduler } from "./scheduler/cron-scheduler.js";
+import { MemoryConsolidationScheduler } from "./scheduler/memory-consolidation-scheduler.js";
+import { WebhookIngress, resolveWebhookPort } from "./webhooks/webhook-ingress.js";
 import type { RpcMethodRegistry } from "./ipc/types.js";
 import { RPC_ERRORS } from "./ipc/types.js";
 import type { ChatAdapter } from "../adapters/types.js";
-import { TelegramAdapter } from "../adapters/telegram.adapter.js";
-import { BACKGROUND_AGENT_NAME, DEFAULT_AGENT_PERMISSION_LEVEL } from "../shared/defaults.js";
+import { getAdapterPlugin, loadAdapterPlugins } from "../adapters/registry.js";
+import {
+  BACKGROUND_AGENT_NAME,
+  DEFAULT_ADAPTERS_DIRNAME,
+  DEFAULT_AGENT_PERMISSION_LEVEL,
+  DEFAULT_MEDIA_DIRNAME,
+} from "../shared/defaults.js";
 import { getHiBossPaths } from "../shared/hiboss-paths.js";
 import {
   DEFAULT_PERMISSION_POLICY,
@@ -40,6 +51,10 @@ import {
   createAgentHandlers,
   createAgentSetHandler,
   createAgentDeleteHandler,
+  createAgentRunHandlers,
+  createUsageHandlers,
+  createMemoryHandlers,
+  createHookHandlers,
 } from "./rpc/index.js";
 import { createChannelCommandHandler } from "./channel-commands.js";
 import { buildMissingAgentRolesGuidance } from "../shared/agent-role.js";
@@ -103,6 +118,8 @@ export class Daemon {
   private backgroundExecutor: BackgroundExecutor;
   private scheduler: EnvelopeScheduler;
   private cronScheduler: CronScheduler | null = null;
+  private memoryConsolidationScheduler: MemoryConsolidationScheduler;
+  private webhookIngress: WebhookIngress | null = null;
   private adapters: Map<string, ChatAdapter> = new Map(); // token -> adapter
   private running = false;
   private startTimeMs: number | null = null;
@@ -120,15 +137,26 @@ export class Daemon {
     this.router = new MessageRouter(this.db, {
       onEnvelopeDone: (envelope) => this.cronScheduler?.onEnvelopeDone(envelope),
     });
-    this.bridge = new ChannelBridge(this.router, this.db, config);
+    this.bridge = new ChannelBridge(this.router, this.db, config, createTranscriberFromEnv());
     this.executor = createAgentExecutor({
       db: this.db,
       hibossDir: config.dataDir,
       onEnvelopesDone: (envelopeIds) => this.cronScheduler?.onEnvelopesDone(envelopeIds),
+      createTurnProgress: createChannelProgressFactory(this.router),
+      createTurnPresence: createChannelTypingFactory(this.router),
+      onBudgetExceeded: createBossBudgetNotifier(this.db, this.router),
+      callRpc: (method, params) => this.ipc.invoke(method, params),
     });
     this.backgroundExecutor = createBackgroundExecutor({ db: this.db, router: this.router });
-    this.scheduler = new EnvelopeScheduler(this.db, this.router, this.executor);
+    this.scheduler = new EnvelopeScheduler(this.db, this.router, this.executor, {
+      onEnvelopesDone: (envelopeIds) => this.cronScheduler?.onEnvelopesDone(envelopeIds),
+    });
     this.cronScheduler = new CronScheduler(this.db, this.scheduler);
+    this.memoryConsolidationScheduler = new MemoryConsolidationScheduler({
+      db: this.db,
+      router: this.router,
+      hibossDir: config.dataDir,
+    });
 
     this.registerRpcMethods();
   }
@@ -175,6 +203,10 @@ export class Daemon {
       executor: this.executor,
       scheduler: this.scheduler,
       cronScheduler: this.cronScheduler,
+      get webhookIngress() {
+        return daemon.webhookIngress;
+      },
+      syncWebhookIngress: () => this.syncWebhookIngress(),
       adapters: this.adapters,
       config: this.config,
       get running() {
@@ -267,7 +299,8 @@ export class Daemon {
       // Set up command handler for /new etc.
       this.setupCommandHandler();
 
-      // Load bindings and create adapters
+      // Load adapter plugins, then bindings and their adapters
+      await this.loadAdapterPlugins();
       await this.loadBindings();
 
       // Register agent handlers for auto-execution
@@ -279,11 +312,17 @@ export class Daemon {
         await adapter.start();
       }
 
+      await this.syncWebhookIngress();
+
+      // At-least-once: runs cannot survive restarts, so requeue envelopes the previous process left in-flight.
+      this.releaseInFlightEnvelopesOnStartup();
+
       // Cron: skip missed runs before any startup delivery/turn triggers.
       this.cronScheduler?.reconcileAllSchedules({ skipMisfires: true });
 
       // Start scheduler after adapters/handlers are ready
       this.scheduler.start();
+      this.memoryConsolidationScheduler.start();
 
       // Process any pending envelopes from before restart
       await this.processPendingEnvelopes();
@@ -301,6 +340,42 @@ export class Daemon {
     });
   }
 
+  /**
+   * Run the webhook ingress server only while at least one hook exists, so the port is not
+   * bound for nothing (best-effort: a busy port should not block the daemon).
+   */
+  private async syncWebhookIngress(): Promise<void> {
+    const wanted = this.db.listWebhooks().length > 0;
+    if (!wanted && this.webhookIngress) {
+      const ingress = this.webhookIngress;
+      this.webhookIngress = null;
+      await ingress.stop();
+      return;
+    }
+    if (!wanted || this.webhookIngress) return;
+    try {
+      const ingress = new WebhookIngress(this.db, this.router, { port: resolveWebhookPort() });
+      await ingress.start();
+      this.webhookIngress = ingress;
+    } catch (err) {
+      logEvent("error", "webhook-ingress-start-failed", { error: errorMessage(err) });
+    }
+  }
+
+  private releaseInFlightEnvelopesOnStartup(): void {
+    const inFlight = this.db.listInFlightEnvelopes();
+    if (inFlight.length === 0) return;
+
+    const released = this.db.releaseInFlightEnvelopes(
+      inFlight.map((env) => env.id),
+      { kind: "daemon-stopped", message: "Daemon stopped before the agent run completed" }
+    );
+    logEvent("warn", "daemon-in-flight-envelopes-released", {
+      "retried-count": released.retried.length,
+      "failed-count": released.failed.length,
+    });
+  }
+
   /**
    * Set up command handler for adapter commands.
    */
@@ -369,6 +444,22 @@ export class Daemon {
     }
   }
 
+  /**
+   * Load third-party adapter plugins (`{{dataDir}}/adapters/*.js` + `config.adapter_plugins`).
+   */
+  private async loadAdapterPlugins(): Promise<void> {
+    const result = await loadAdapterPlugins({
+      adaptersDir: path.join(this.config.dataDir, DEFAULT_ADAPTERS_DIRNAME),
+      packages: this.db.getAdapterPluginPackages(),
+    });
+    for (const loaded of result.loaded) {
+      logEvent("info", "adapter-plugin-loaded", { "adapter-type": loaded.platform, source: loaded.source });
+    }
+    for (const failed of result.failed) {
+      logEvent("error", "adapter-plugin-load-failed", { source: failed.source, error: failed.error });
+    }
+  }
+
   /**
    * Load bindings from database and create adapters.
    */
@@ -392,15 +483,28 @@ export class Daemon {
       return this.adapters.get(adapterToken)!;
     }
 
-    let adapter: ChatAdapter;
+    const plugin = getAdapterPlugin(adapterType);
+    if (!plugin) {
+      logEvent("error", "adapter-unknown-type", { "adapter-type": adapterType });
+      return null;
+    }
 
-    switch (adapterType) {
-      case "telegram":
-        adapter = new TelegramAdapter(adapterToken);
-        break;
-      default:
-        logEvent("error", "adapter-unknown-type", { "adapter-type": adapterType });
-        return null;
+    let adapter: ChatAdapter;
+    try {
+      adapter = plugin.createAdapter(adapterToken, {
+        dataDir: this.config.dataDir,
+        mediaDir: path.join(this.config.dataDir, DEFAULT_MEDIA_DIRNAME),
+      });
+    } catch (err) {
+      logEvent("error", "adapter-create-failed", { "adapter-type": adapterType, error: errorMessage(err) });
+      return null;
+    }
+    if (adapter.platform !== adapterType) {
+      logEvent("error", "adapter-platform-mismatch", {
+        "adapter-type": adapterType,
+        platform: adapter.platform,
+      });
+      return null;
     }
 
     this.adapters.set(adapterToken, adapter);
@@ -432,12 +536,16 @@ export class Daemon {
 
     // Stop scheduler first (prevents new work while shutting down)
     this.scheduler.stop();
+    this.memoryConsolidationScheduler.stop();
 
     // Stop all adapters
     for (const adapter of this.adapters.values()) {
       await adapter.stop();
     }
 
+    await this.webhookIngress?.stop();
+    this.webhookIngress = null;
+
     // Close agent executor
     await this.executor.closeAll();
 
@@ -471,9 +579,13 @@ export class Daemon {
       ...createEnvelopeHandlers(ctx),
       ...createReactionHandlers(ctx),
       ...createCronHandlers(ctx),
+      ...createHookHandlers(ctx),
       ...createAgentHandlers(ctx),
       ...createAgentSetHandler(ctx),
       ...createAgentDeleteHandler(ctx),
+      ...createAgentRunHandlers(ctx),
+      ...createUsageHandlers(ctx),
+      ...createMemoryHandlers(ctx),
       ...createDaemonHandlers(ctx),
       ...createSetupHandlers(ctx),
     };
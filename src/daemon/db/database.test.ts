@@ -4,6 +4,7 @@ import os from "node:os";
 import path from "node:path";
 import test from "node:test";
 import { HiBossDatabase } from "./database.js";
+import { AgentRunEventRecorder } from "../../agent/run-events.js";
 
 function withTempDb(run: (db: HiBossDatabase) => void): void {
   const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-db-test-"));
@@ -49,3 +50,92 @@ test("getAgentRoleCounts prefers explicit metadata.role over binding inference",
     assert.deepEqual(db.getAgentRoleCounts(), { speaker: 0, leader: 1 });
   });
 });
+
+test("releaseInFlightEnvelopes retries with backoff, then dead-letters at max attempts", () => {
+  withTempDb((db) => {
+    const env = db.createEnvelope({
+      from: "channel:telegram:chat-1",
+      to: "agent:nex",
+      content: { text: "hello" },
+    });
+
+    db.claimEnvelopesInFlight([env.id], Date.now() + 60_000);
+    assert.equal(db.getEnvelopeById(env.id)?.status, "in-flight");
+    assert.equal(db.getPendingEnvelopesForAgent("nex", 10).length, 0);
+
+    const nowMs = Date.now();
+    const first = db.releaseInFlightEnvelopes([env.id], { kind: "agent-run-failed", message: "boom", maxAttempts: 2, nowMs });
+    assert.deepEqual(first, { retried: [env.id], failed: [] });
+
+    const retried = db.getEnvelopeById(env.id)!;
+    assert.equal(retried.status, "pending");
+    assert.equal(retried.attempts, 1);
+    assert.ok((retried.deliverAt ?? 0) > nowMs);
+    assert.equal((retried.metadata?.lastDeliveryError as { kind?: string }).kind, "agent-run-failed");
+
+    db.updateEnvelopeDeliverAt(env.id, null);
+    db.claimEnvelopesInFlight([env.id], Date.now() - 1);
+    assert.equal(db.listInFlightEnvelopes({ expiredBefore: Date.now() }).length, 1);
+
+    const second = db.releaseInFlightEnvelopes([env.id], { kind: "lease-expired", message: "expired", maxAttempts: 2 });
+    assert.deepEqual(second, { retried: [], failed: [env.id] });
+    assert.equal(db.getEnvelopeById(env.id)?.status, "failed");
+  });
+});
+
+test("AgentRunEventRecorder appends calls in order and resolves outcomes by call id", () => {
+  withTempDb((db) => {
+    db.registerAgent({ name: "nex", provider: "codex", role: "leader" });
+    const run = db.createAgentRun("nex", []);
+    const recorder = new AgentRunEventRecorder(db, "nex", run.id);
+
+    recorder.record({ type: "call", kind: "command", tool: "shell", summary: "npm test", callId: "item_1" });
+    recorder.record({ type: "call", kind: "file-edit", tool: "apply_patch", summary: "update a.ts", status: "ok" });
+    recorder.record({ type: "call", kind: "command", tool: "shell", summary: "npm test", callId: "item_1", status: "error" });
+    recorder.record({ type: "result", callId: "unknown", status: "ok" });
+
+    const events = db.getAgentRunEvents(run.id);
+    assert.deepEqual(
+      events.map((e) => [e.seq, e.kind, e.summary, e.status]),
+      [
+        [1, "command", "npm test", "error"],
+        [2, "file-edit", "update a.ts", "ok"],
+      ]
+    );
+    assert.equal(db.findAgentRunsByIdPrefix(run.id.replace(/-/g, "").slice(0, 8))[0]?.id, run.id);
+  });
+});
+
+test("getAgentRuns filters by status and start time and returns persisted token usage", () => {
+  withTempDb((db) => {
+    db.registerAgent({ name: "nex", provider: "claude", role: "leader" });
+    const done = db.createAgentRun("nex", ["env-1"]);
+    db.completeAgentRun(done.id, "ok", {
+      contextLength: 1200,
+      inputTokens: 1000,
+      outputTokens: 200,
+      cacheReadTokens: 800,
+      cacheWriteTokens: null,
+      totalTokens: 1200,
+    }, { provider: "claude", model: "claude-sonnet-4-5", costUsd: 0.25 });
+    const failed = db.createAgentRun("nex", ["env-2"]);
+    db.failAgentRun(failed.id, "boom");
+
+    const completed = db.getAgentRuns("nex", { status: "completed" });
+    assert.equal(completed.length, 1);
+    assert.equal(completed[0]?.inputTokens, 1000);
+    assert.equal(completed[0]?.cacheReadTokens, 800);
+    assert.equal(completed[0]?.cacheWriteTokens, undefined);
+    assert.equal(completed[0]?.model, "claude-sonnet-4-5");
+    assert.equal(completed[0]?.costUsd, 0.25);
+    assert.equal(db.sumAgentRunCostUsd("nex", 0), 0.25);
+    assert.deepEqual(db.getAgentRunsWithUsage().map((r) => r.id), [done.id]);
+
+    assert.deepEqual(
+      db.getAgentRuns("nex", { status: "failed" }).map((r) => r.error),
+      ["boom"]
+    );
+    assert.equal(db.getAgentRuns("nex", { startedAfter: Date.now() + 60_000 }).length, 0);
+    assert.equal(db.getAgentRuns("nex", { limit: 1 }).length, 1);
+  });
+});
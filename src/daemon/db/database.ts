@@ -1,17 +1,24 @@
 import Database from "better-sqlite3";
 import * as fs from "fs";
 import * as path from "path";
-import { SCHEMA_SQL } from "./schema.js";
+import { ADDITIVE_COLUMNS, ADDITIVE_SCHEMA_SQL, SCHEMA_SQL } from "./schema.js";
 import type { Agent, AgentPermissionLevel, RegisterAgentInput } from "../../agent/types.js";
+import type { AgentRunEvent, AgentRunEventKind, AgentRunEventStatus } from "../../agent/run-events.js";
+import type { TurnTokenUsage } from "../../agent/executor-support.js";
 import type { Envelope, CreateEnvelopeInput, EnvelopeStatus } from "../../envelope/types.js";
 import type { CronSchedule, CreateCronScheduleInput } from "../../cron/types.js";
+import type { CreateWebhookInput, Webhook } from "../../webhook/types.js";
 import type { SessionPolicyConfig } from "../../shared/session-policy.js";
+import { formatModelPriceTable, parseModelPriceTable, type ModelPriceTable } from "../../shared/model-prices.js";
 import {
   BACKGROUND_AGENT_NAME,
   DEFAULT_AGENT_PERMISSION_LEVEL,
   DEFAULT_AGENT_PROVIDER,
+  DEFAULT_ENVELOPE_MAX_ATTEMPTS,
+  DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE,
   getDefaultAgentDescription,
 } from "../../shared/defaults.js";
+import { computeEnvelopeRetryDelayMs } from "../../shared/envelope-delivery.js";
 import type { AgentRole } from "../../shared/agent-role.js";
 import {
   inferAgentRoleFromBindingCount,
@@ -20,7 +27,8 @@ import {
 } from "../../shared/agent-role.js";
 import { generateToken, hashToken, verifyToken } from "../../agent/auth.js";
 import { generateUUID } from "../../shared/uuid.js";
-import { assertValidAgentName } from "../../shared/validation.js";
+import { assertValidAgentName, isValidWebhookName, WEBHOOK_NAME_ERROR_MESSAGE } from "../../shared/validation.js";
+import { generateWebhookSecret } from "../../webhook/signature.js";
 import { getDaemonIanaTimeZone } from "../../shared/timezone.js";
 
 /**
@@ -50,6 +58,8 @@ interface EnvelopeRow {
   content_attachments: string | null;
   deliver_at: number | null;
   status: string;
+  attempts: number | null;
+  lease_expires_at: number | null;
   created_at: number;
   metadata: string | null;
 }
@@ -79,6 +89,17 @@ interface AgentBindingRow {
   created_at: number;
 }
 
+interface WebhookRow {
+  id: string;
+  name: string;
+  agent_name: string;
+  secret: string;
+  template: string | null;
+  url: string | null;
+  rate_limit_per_minute: number | null;
+  created_at: number;
+}
+
 interface AgentRunRow {
   id: string;
   agent_name: string;
@@ -87,10 +108,30 @@ interface AgentRunRow {
   envelope_ids: string | null;
   final_response: string | null;
   context_length: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_read_tokens: number | null;
+  cache_write_tokens: number | null;
+  total_tokens: number | null;
+  provider: string | null;
+  model: string | null;
+  cost_usd: number | null;
   status: string;
   error: string | null;
 }
 
+interface AgentRunEventRow {
+  run_id: string;
+  seq: number;
+  created_at: number;
+  kind: string;
+  tool: string;
+  summary: string | null;
+  input: string | null;
+  call_id: string | null;
+  status: string | null;
+}
+
 /**
  * Agent binding type.
  */
@@ -113,10 +154,74 @@ export interface AgentRun {
   envelopeIds: string[];
   finalResponse?: string;
   contextLength?: number;
-  status: "running" | "completed" | "failed" | "cancelled";
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  totalTokens?: number;
+  provider?: string;
+  model?: string;
+  costUsd?: number;
+  status: AgentRunStatus;
   error?: string;
 }
 
+export type AgentRunStatus = "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * Indexed memory file (change detection for the memory search index).
+ */
+export interface MemoryFileRecord {
+  path: string;
+  mtimeMs: number;
+  size: number;
+}
+
+/**
+ * One indexed slice of a memory file.
+ */
+export interface MemoryChunk {
+  id: number;
+  path: string;
+  line: number;
+  content: string;
+}
+
+export type MemorySnapshotReason = "baseline" | "run" | "outside-run" | "restore";
+
+/**
+ * One entry of an agent's memory history (the files it changed; see memory_snapshot_changes).
+ */
+export interface MemorySnapshot {
+  id: string;
+  agentName: string;
+  runId?: string;
+  /** Final status of the linked run (run snapshots only). */
+  runStatus?: AgentRunStatus;
+  reason: MemorySnapshotReason;
+  restoredFrom?: string;
+  createdAt: number;
+}
+
+/**
+ * A memory file as of one snapshot (`contentHash` null: the file was removed).
+ */
+export interface MemorySnapshotChange {
+  snapshotId: string;
+  path: string;
+  contentHash: string | null;
+}
+
+interface MemorySnapshotRow {
+  id: string;
+  agent_name: string;
+  run_id: string | null;
+  run_status: string | null;
+  reason: string;
+  restored_from: string | null;
+  created_at: number;
+}
+
 /**
  * SQLite database wrapper for Hi-Boss.
  */
@@ -136,10 +241,20 @@ export class HiBossDatabase {
 
   private initSchema(): void {
     this.db.exec(SCHEMA_SQL);
+    this.applyAdditiveColumns();
     this.assertSchemaCompatible();
     this.reconcileStaleAgentRunsOnStartup();
   }
 
+  private applyAdditiveColumns(): void {
+    for (const spec of ADDITIVE_COLUMNS) {
+      const info = this.db.prepare(`PRAGMA table_info(${spec.table})`).all() as Array<{ name: string }>;
+      if (info.length === 0 || info.some((c) => c.name === spec.column)) continue;
+      this.db.exec(`ALTER TABLE ${spec.table} ADD COLUMN ${spec.column} ${spec.definition}`);
+    }
+    this.db.exec(ADDITIVE_SCHEMA_SQL);
+  }
+
   private assertSchemaCompatible(): void {
     const requiredColumnsByTable: Record<string, string[]> = {
       config: ["key", "value", "created_at"],
@@ -166,6 +281,8 @@ export class HiBossDatabase {
         "content_attachments",
         "deliver_at",
         "status",
+        "attempts",
+        "lease_expires_at",
         "created_at",
         "metadata",
       ],
@@ -184,6 +301,24 @@ export class HiBossDatabase {
         "updated_at",
       ],
       agent_bindings: ["id", "agent_name", "adapter_type", "adapter_token", "created_at"],
+      webhooks: ["id", "name", "agent_name", "secret", "template", "url", "rate_limit_per_minute", "created_at"],
+      agent_run_events: [
+        "run_id",
+        "seq",
+        "created_at",
+        "kind",
+        "tool",
+        "summary",
+        "input",
+        "call_id",
+        "status",
+      ],
+      agent_chat_messages: ["id", "agent_name", "session_id", "message", "created_at"],
+      memory_files: ["agent_name", "path", "mtime_ms", "size", "indexed_at"],
+      memory_snapshots: ["id", "agent_name", "run_id", "run_status", "reason", "restored_from", "created_at"],
+      memory_snapshot_changes: ["snapshot_id", "path", "content_hash"],
+      memory_heads: ["agent_name", "path", "content_hash"],
+      memory_blobs: ["hash", "content"],
       agent_runs: [
         "id",
         "agent_name",
@@ -192,6 +327,14 @@ export class HiBossDatabase {
         "envelope_ids",
         "final_response",
         "context_length",
+        "input_tokens",
+        "output_tokens",
+        "cache_read_tokens",
+        "cache_write_tokens",
+        "total_tokens",
+        "provider",
+        "model",
+        "cost_usd",
         "status",
         "error",
       ],
@@ -204,10 +347,16 @@ export class HiBossDatabase {
       { table: "agent_bindings", column: "created_at" },
       { table: "envelopes", column: "created_at" },
       { table: "envelopes", column: "deliver_at" },
+      { table: "envelopes", column: "lease_expires_at" },
       { table: "cron_schedules", column: "created_at" },
       { table: "cron_schedules", column: "updated_at" },
+      { table: "webhooks", column: "created_at" },
       { table: "agent_runs", column: "started_at" },
       { table: "agent_runs", column: "completed_at" },
+      { table: "agent_run_events", column: "created_at" },
+      { table: "agent_chat_messages", column: "created_at" },
+      { table: "memory_files", column: "indexed_at" },
+      { table: "memory_snapshots", column: "created_at" },
     ];
 
     for (const [table, requiredColumns] of Object.entries(requiredColumnsByTable)) {
@@ -283,12 +432,17 @@ export class HiBossDatabase {
    *
    * Notes:
    * - Keeps envelopes (including envelope history) and config keys intact.
-   * - Clears agent run audit in `agent_runs`.
+   * - Clears agent run audit in `agent_runs` and `agent_run_events`.
    * - Clears cron schedules to avoid orphan schedules that reference removed agents.
    */
   clearSetupManagedState(): void {
     this.db.prepare("DELETE FROM cron_schedules").run();
     this.db.prepare("DELETE FROM agent_bindings").run();
+    this.db.prepare("DELETE FROM agent_run_events").run();
+    this.db.prepare("DELETE FROM agent_chat_messages").run();
+    this.db.prepare("DELETE FROM memory_chunk_embeddings").run();
+    this.db.prepare("DELETE FROM memory_chunks").run();
+    this.db.prepare("DELETE FROM memory_files").run();
     this.db.prepare("DELETE FROM agent_runs").run();
     this.db.prepare("DELETE FROM agents").run();
   }
@@ -398,7 +552,7 @@ export class HiBossDatabase {
     update: {
       description?: string | null;
       workspace?: string | null;
-      provider?: "claude" | "codex" | null;
+      provider?: string | null;
       model?: string | null;
       reasoningEffort?: "none" | "low" | "medium" | "high" | "xhigh" | null;
       role?: AgentRole;
@@ -638,6 +792,8 @@ export class HiBossDatabase {
       dailyResetAt?: string;
       idleTimeout?: string;
       maxContextLength?: number;
+      dailyBudgetUsd?: number;
+      monthlyBudgetUsd?: number;
     }
   ): Agent {
     const agent = this.getAgentByName(name);
@@ -662,6 +818,12 @@ export class HiBossDatabase {
       if (typeof update.maxContextLength === "number") {
         merged.maxContextLength = update.maxContextLength;
       }
+      if (typeof update.dailyBudgetUsd === "number") {
+        merged.dailyBudgetUsd = update.dailyBudgetUsd;
+      }
+      if (typeof update.monthlyBudgetUsd === "number") {
+        merged.monthlyBudgetUsd = update.monthlyBudgetUsd;
+      }
 
       if (Object.keys(merged).length === 0) {
         nextPolicy = null;
@@ -720,7 +882,7 @@ export class HiBossDatabase {
       token: row.token,
       description: row.description ?? undefined,
       workspace: row.workspace ?? undefined,
-      provider: (row.provider as 'claude' | 'codex') ?? undefined,
+      provider: row.provider ?? undefined,
       model: row.model ?? undefined,
       reasoningEffort: (row.reasoning_effort as 'none' | 'low' | 'medium' | 'high' | 'xhigh') ?? undefined,
       permissionLevel,
@@ -903,6 +1065,8 @@ export class HiBossDatabase {
       },
       deliverAt: row.deliver_at ?? undefined,
       status: row.status as EnvelopeStatus,
+      attempts: typeof row.attempts === "number" && row.attempts > 0 ? row.attempts : undefined,
+      leaseExpiresAt: row.lease_expires_at ?? undefined,
       createdAt: row.created_at,
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
     };
@@ -1099,6 +1263,87 @@ export class HiBossDatabase {
     };
   }
 
+  // ==================== Webhook Operations ====================
+
+  /**
+   * Create a webhook and generate its secret.
+   */
+  createWebhook(input: CreateWebhookInput): Webhook {
+    if (!isValidWebhookName(input.name)) {
+      throw new Error(WEBHOOK_NAME_ERROR_MESSAGE);
+    }
+    if (this.getWebhookByName(input.name)) {
+      throw new Error("Webhook already exists");
+    }
+
+    const id = generateUUID();
+    const stmt = this.db.prepare(`
+      INSERT INTO webhooks (id, name, agent_name, secret, template, url, rate_limit_per_minute, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      id,
+      input.name,
+      input.agentName,
+      generateWebhookSecret(),
+      input.template ?? null,
+      input.url ?? null,
+      input.rateLimitPerMinute ?? DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE,
+      Date.now()
+    );
+
+    return this.getWebhookByName(input.name)!;
+  }
+
+  /**
+   * Get a webhook by name.
+   */
+  getWebhookByName(name: string): Webhook | null {
+    const stmt = this.db.prepare("SELECT * FROM webhooks WHERE name = ?");
+    const row = stmt.get(name) as WebhookRow | undefined;
+    return row ? this.rowToWebhook(row) : null;
+  }
+
+  /**
+   * List all webhooks.
+   */
+  listWebhooks(): Webhook[] {
+    const stmt = this.db.prepare("SELECT * FROM webhooks ORDER BY name ASC");
+    const rows = stmt.all() as WebhookRow[];
+    return rows.map((row) => this.rowToWebhook(row));
+  }
+
+  /**
+   * Delete a webhook by name.
+   */
+  deleteWebhook(name: string): boolean {
+    const stmt = this.db.prepare("DELETE FROM webhooks WHERE name = ?");
+    const result = stmt.run(name);
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete all webhooks that target an agent.
+   */
+  deleteWebhooksByAgent(agentName: string): number {
+    const stmt = this.db.prepare("DELETE FROM webhooks WHERE agent_name = ?");
+    return stmt.run(agentName).changes;
+  }
+
+  private rowToWebhook(row: WebhookRow): Webhook {
+    return {
+      id: row.id,
+      name: row.name,
+      agentName: row.agent_name,
+      secret: row.secret,
+      template: row.template ?? undefined,
+      url: row.url ?? undefined,
+      rateLimitPerMinute: row.rate_limit_per_minute ?? DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE,
+      createdAt: row.created_at,
+    };
+  }
+
   // ==================== Binding Operations ====================
 
   /**
@@ -1222,15 +1467,56 @@ export class HiBossDatabase {
   }
 
   /**
-   * Complete an agent run with success.
+   * Complete an agent run with success, recording the turn's token usage and cost.
    */
-  completeAgentRun(id: string, finalResponse: string, contextLength: number | null): void {
+  completeAgentRun(
+    id: string,
+    finalResponse: string,
+    usage: TurnTokenUsage,
+    pricing: { provider: string; model: string | null; costUsd: number | null }
+  ): void {
     const stmt = this.db.prepare(`
       UPDATE agent_runs
-      SET status = 'completed', completed_at = ?, final_response = ?, context_length = ?
+      SET status = 'completed', completed_at = ?, final_response = ?, context_length = ?,
+          input_tokens = ?, output_tokens = ?, cache_read_tokens = ?, cache_write_tokens = ?, total_tokens = ?,
+          provider = ?, model = ?, cost_usd = ?
       WHERE id = ?
     `);
-    stmt.run(Date.now(), finalResponse, contextLength, id);
+    stmt.run(
+      Date.now(),
+      finalResponse,
+      usage.contextLength,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.cacheReadTokens,
+      usage.cacheWriteTokens,
+      usage.totalTokens,
+      pricing.provider,
+      pricing.model,
+      pricing.costUsd,
+      id
+    );
+  }
+
+  /**
+   * Record a completed run that did not go through the executor (daemon background jobs
+   * prompting on an agent's behalf), so its usage and cost count against the agent.
+   */
+  insertCompletedAgentRun(params: {
+    agentName: string;
+    startedAt: number;
+    finalResponse: string;
+    usage: TurnTokenUsage;
+    pricing: { provider: string; model: string | null; costUsd: number | null };
+  }): AgentRun {
+    // One transaction: the row is never seen as `running` (which would block the agent's own runs).
+    const id = this.runInTransaction(() => {
+      const run = this.createAgentRun(params.agentName, []);
+      this.db.prepare("UPDATE agent_runs SET started_at = ? WHERE id = ?").run(params.startedAt, run.id);
+      this.completeAgentRun(run.id, params.finalResponse, params.usage, params.pricing);
+      return run.id;
+    });
+    return this.getAgentRunById(id)!;
   }
 
   /**
@@ -1304,19 +1590,530 @@ export class HiBossDatabase {
   }
 
   /**
-   * Get recent runs for an agent.
+   * Get recent runs for an agent (newest first), optionally filtered by status and start time.
    */
-  getAgentRuns(agentName: string, limit = 10): AgentRun[] {
+  getAgentRuns(
+    agentName: string,
+    options: { limit?: number; status?: AgentRunStatus; startedAfter?: number } = {}
+  ): AgentRun[] {
+    const where = ["agent_name = ?"];
+    const params: Array<string | number> = [agentName];
+    if (options.status) {
+      where.push("status = ?");
+      params.push(options.status);
+    }
+    if (typeof options.startedAfter === "number") {
+      where.push("started_at >= ?");
+      params.push(options.startedAfter);
+    }
     const stmt = this.db.prepare(`
       SELECT * FROM agent_runs
-      WHERE agent_name = ?
+      WHERE ${where.join(" AND ")}
+      ORDER BY started_at DESC
+      LIMIT ?
+    `);
+    const rows = stmt.all(...params, options.limit ?? 10) as AgentRunRow[];
+    return rows.map((row) => this.rowToAgentRun(row));
+  }
+
+  /**
+   * Total priced cost (USD) of an agent's runs started at or after `startedAfter`.
+   */
+  sumAgentRunCostUsd(agentName: string, startedAfter: number): number {
+    const stmt = this.db.prepare(`
+      SELECT COALESCE(SUM(cost_usd), 0) AS total
+      FROM agent_runs
+      WHERE agent_name = ? AND started_at >= ?
+    `);
+    const row = stmt.get(agentName, startedAfter) as { total: number } | undefined;
+    return row?.total ?? 0;
+  }
+
+  /**
+   * Runs that reported token usage, oldest first (usage reports).
+   */
+  getAgentRunsWithUsage(options: { agentName?: string; startedAfter?: number } = {}): AgentRun[] {
+    const where = ["(total_tokens IS NOT NULL OR cost_usd IS NOT NULL)"];
+    const params: Array<string | number> = [];
+    if (options.agentName) {
+      where.push("agent_name = ?");
+      params.push(options.agentName);
+    }
+    if (typeof options.startedAfter === "number") {
+      where.push("started_at >= ?");
+      params.push(options.startedAfter);
+    }
+    const stmt = this.db.prepare(`
+      SELECT * FROM agent_runs
+      WHERE ${where.join(" AND ")}
+      ORDER BY started_at ASC
+    `);
+    const rows = stmt.all(...params) as AgentRunRow[];
+    return rows.map((row) => this.rowToAgentRun(row));
+  }
+
+  /**
+   * Find agent runs by compact UUID prefix (newest first).
+   */
+  findAgentRunsByIdPrefix(idPrefix: string, limit = 50): AgentRun[] {
+    const prefix = idPrefix.trim().toLowerCase();
+    const n = Number.isFinite(limit) ? Math.max(1, Math.min(500, Math.trunc(limit))) : 50;
+    const stmt = this.db.prepare(`
+      SELECT * FROM agent_runs
+      WHERE replace(lower(id), '-', '') LIKE ?
       ORDER BY started_at DESC
       LIMIT ?
     `);
-    const rows = stmt.all(agentName, limit) as AgentRunRow[];
+    const rows = stmt.all(`${prefix}%`, n) as AgentRunRow[];
     return rows.map((row) => this.rowToAgentRun(row));
   }
 
+  /**
+   * Append one audit event to a run.
+   */
+  appendAgentRunEvent(event: AgentRunEvent): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO agent_run_events (run_id, seq, created_at, kind, tool, summary, input, call_id, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      event.runId,
+      event.seq,
+      event.createdAt,
+      event.kind,
+      event.tool,
+      event.summary ?? null,
+      event.input ?? null,
+      event.callId ?? null,
+      event.status ?? null
+    );
+  }
+
+  /**
+   * Record the outcome of a call previously appended with the same provider call id.
+   */
+  setAgentRunEventStatus(runId: string, callId: string, status: AgentRunEventStatus): void {
+    const stmt = this.db.prepare(`
+      UPDATE agent_run_events
+      SET status = ?
+      WHERE run_id = ? AND call_id = ?
+    `);
+    stmt.run(status, runId, callId);
+  }
+
+  /**
+   * Get the audit events of a run in order.
+   */
+  getAgentRunEvents(runId: string): AgentRunEvent[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM agent_run_events
+      WHERE run_id = ?
+      ORDER BY seq ASC
+    `);
+    const rows = stmt.all(runId) as AgentRunEventRow[];
+    return rows.map((row) => this.rowToAgentRunEvent(row));
+  }
+
+  /**
+   * Append messages to an in-process provider session (in order).
+   */
+  appendAgentChatMessages(agentName: string, sessionId: string, messages: Record<string, unknown>[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO agent_chat_messages (agent_name, session_id, message, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    const now = Date.now();
+    this.runInTransaction(() => {
+      for (const message of messages) {
+        stmt.run(agentName, sessionId, JSON.stringify(message), now);
+      }
+    });
+  }
+
+  /**
+   * Get the messages of an in-process provider session in order.
+   */
+  getAgentChatMessages(sessionId: string): Record<string, unknown>[] {
+    const stmt = this.db.prepare(`
+      SELECT message FROM agent_chat_messages
+      WHERE session_id = ?
+      ORDER BY id ASC
+    `);
+    const rows = stmt.all(sessionId) as Array<{ message: string }>;
+    return rows.map((row) => JSON.parse(row.message) as Record<string, unknown>);
+  }
+
+  /**
+   * Delete the stored chat messages of one in-process provider session.
+   */
+  deleteAgentChatSession(agentName: string, sessionId: string): number {
+    const stmt = this.db.prepare("DELETE FROM agent_chat_messages WHERE agent_name = ? AND session_id = ?");
+    return stmt.run(agentName, sessionId).changes;
+  }
+
+  /**
+   * Delete all stored chat messages of an agent (every session).
+   */
+  deleteAgentChatMessages(agentName: string): number {
+    const stmt = this.db.prepare("DELETE FROM agent_chat_messages WHERE agent_name = ?");
+    return stmt.run(agentName).changes;
+  }
+
+  /**
+   * List the memory files currently in an agent's search index.
+   */
+  getMemoryFiles(agentName: string): MemoryFileRecord[] {
+    const stmt = this.db.prepare("SELECT path, mtime_ms, size FROM memory_files WHERE agent_name = ?");
+    const rows = stmt.all(agentName) as Array<{ path: string; mtime_ms: number; size: number }>;
+    return rows.map((row) => ({ path: row.path, mtimeMs: row.mtime_ms, size: row.size }));
+  }
+
+  /**
+   * Replace the indexed chunks of one memory file (drops its embeddings).
+   */
+  replaceMemoryFileChunks(
+    agentName: string,
+    file: MemoryFileRecord,
+    chunks: Array<{ line: number; content: string }>
+  ): void {
+    const insertChunk = this.db.prepare(
+      "INSERT INTO memory_chunks (content, agent_name, path, line) VALUES (?, ?, ?, ?)"
+    );
+    this.runInTransaction(() => {
+      this.deleteMemoryFileChunks(agentName, file.path);
+      for (const chunk of chunks) {
+        insertChunk.run(chunk.content, agentName, file.path, chunk.line);
+      }
+      this.db.prepare(`
+        INSERT INTO memory_files (agent_name, path, mtime_ms, size, indexed_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(agent_name, path) DO UPDATE SET
+          mtime_ms = excluded.mtime_ms,
+          size = excluded.size,
+          indexed_at = excluded.indexed_at
+      `).run(agentName, file.path, file.mtimeMs, file.size, Date.now());
+    });
+  }
+
+  /**
+   * Remove a memory file (and its chunks) from the search index.
+   */
+  deleteMemoryFile(agentName: string, filePath: string): void {
+    this.runInTransaction(() => {
+      this.deleteMemoryFileChunks(agentName, filePath);
+      this.db.prepare("DELETE FROM memory_files WHERE agent_name = ? AND path = ?").run(agentName, filePath);
+    });
+  }
+
+  private deleteMemoryFileChunks(agentName: string, filePath: string): void {
+    this.db.prepare(`
+      DELETE FROM memory_chunk_embeddings
+      WHERE chunk_id IN (SELECT rowid FROM memory_chunks WHERE agent_name = ? AND path = ?)
+    `).run(agentName, filePath);
+    this.db.prepare("DELETE FROM memory_chunks WHERE agent_name = ? AND path = ?").run(agentName, filePath);
+  }
+
+  /**
+   * Drop an agent's whole memory search index.
+   */
+  deleteMemoryIndex(agentName: string): void {
+    this.runInTransaction(() => {
+      this.db.prepare("DELETE FROM memory_chunk_embeddings WHERE agent_name = ?").run(agentName);
+      this.db.prepare("DELETE FROM memory_chunks WHERE agent_name = ?").run(agentName);
+      this.db.prepare("DELETE FROM memory_files WHERE agent_name = ?").run(agentName);
+    });
+  }
+
+  /**
+   * Full-text search over an agent's memory chunks, best match first.
+   *
+   * `matchQuery` is an FTS5 MATCH expression; `score` is bm25 (lower is better).
+   */
+  searchMemoryChunks(agentName: string, matchQuery: string, limit: number): Array<MemoryChunk & { score: number }> {
+    const stmt = this.db.prepare(`
+      SELECT rowid AS id, path, line, content, bm25(memory_chunks) AS score
+      FROM memory_chunks
+      WHERE memory_chunks MATCH ? AND agent_name = ?
+      ORDER BY score ASC
+      LIMIT ?
+    `);
+    return stmt.all(matchQuery, agentName, limit) as Array<MemoryChunk & { score: number }>;
+  }
+
+  /**
+   * Chunks of an agent that have no embedding yet (oldest first).
+   */
+  getMemoryChunksWithoutEmbedding(agentName: string, limit: number): MemoryChunk[] {
+    const stmt = this.db.prepare(`
+      SELECT c.rowid AS id, c.path, c.line, c.content
+      FROM memory_chunks c
+      LEFT JOIN memory_chunk_embeddings e ON e.chunk_id = c.rowid
+      WHERE c.agent_name = ? AND e.chunk_id IS NULL
+      ORDER BY c.rowid ASC
+      LIMIT ?
+    `);
+    return stmt.all(agentName, limit) as MemoryChunk[];
+  }
+
+  setMemoryChunkEmbeddings(agentName: string, embeddings: Array<{ chunkId: number; vector: Float32Array }>): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO memory_chunk_embeddings (chunk_id, agent_name, embedding)
+      VALUES (?, ?, ?)
+    `);
+    this.runInTransaction(() => {
+      for (const { chunkId, vector } of embeddings) {
+        stmt.run(chunkId, agentName, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength));
+      }
+    });
+  }
+
+  /**
+   * All embedded chunks of an agent (for vector similarity).
+   */
+  getMemoryChunkEmbeddings(agentName: string): Array<MemoryChunk & { vector: Float32Array }> {
+    const stmt = this.db.prepare(`
+      SELECT c.rowid AS id, c.path, c.line, c.content, e.embedding
+      FROM memory_chunk_embeddings e
+      JOIN memory_chunks c ON c.rowid = e.chunk_id
+      WHERE e.agent_name = ?
+    `);
+    const rows = stmt.all(agentName) as Array<MemoryChunk & { embedding: Buffer }>;
+    return rows.map(({ embedding, ...chunk }) => ({
+      ...chunk,
+      // Copy: the blob buffer is not guaranteed to be 4-byte aligned.
+      vector: new Float32Array(new Uint8Array(embedding).buffer),
+    }));
+  }
+
+  // ==================== Memory History Operations ====================
+
+  /**
+   * Record a memory snapshot with its changed files (file contents are stored once per hash).
+   *
+   * The agent's head manifest (`memory_heads`) moves along, so the next snapshot diffs against it.
+   */
+  insertMemorySnapshot(input: {
+    agentName: string;
+    runId?: string;
+    runStatus?: AgentRunStatus;
+    reason: MemorySnapshotReason;
+    restoredFrom?: string;
+    changes: Array<{ path: string; contentHash: string | null; content: string | null }>;
+  }): MemorySnapshot {
+    const snapshot: MemorySnapshot = {
+      id: generateUUID(),
+      agentName: input.agentName,
+      ...(input.runId ? { runId: input.runId } : {}),
+      ...(input.runStatus ? { runStatus: input.runStatus } : {}),
+      reason: input.reason,
+      ...(input.restoredFrom ? { restoredFrom: input.restoredFrom } : {}),
+      createdAt: Date.now(),
+    };
+    const insertBlob = this.db.prepare("INSERT OR IGNORE INTO memory_blobs (hash, content) VALUES (?, ?)");
+    const insertChange = this.db.prepare(
+      "INSERT INTO memory_snapshot_changes (snapshot_id, path, content_hash) VALUES (?, ?, ?)"
+    );
+    const upsertHead = this.db.prepare(`
+      INSERT INTO memory_heads (agent_name, path, content_hash) VALUES (?, ?, ?)
+      ON CONFLICT(agent_name, path) DO UPDATE SET content_hash = excluded.content_hash
+    `);
+    const deleteHead = this.db.prepare("DELETE FROM memory_heads WHERE agent_name = ? AND path = ?");
+    this.runInTransaction(() => {
+      this.db.prepare(`
+        INSERT INTO memory_snapshots (id, agent_name, run_id, run_status, reason, restored_from, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        snapshot.id,
+        snapshot.agentName,
+        snapshot.runId ?? null,
+        snapshot.runStatus ?? null,
+        snapshot.reason,
+        snapshot.restoredFrom ?? null,
+        snapshot.createdAt
+      );
+      for (const change of input.changes) {
+        if (change.contentHash !== null && change.content !== null) {
+          insertBlob.run(change.contentHash, change.content);
+        }
+        insertChange.run(snapshot.id, change.path, change.contentHash);
+        if (change.contentHash === null) {
+          deleteHead.run(snapshot.agentName, change.path);
+        } else {
+          upsertHead.run(snapshot.agentName, change.path, change.contentHash);
+        }
+      }
+    });
+    return snapshot;
+  }
+
+  /**
+   * An agent's memory files as of its newest snapshot (path -> content hash).
+   */
+  getMemoryHeads(agentName: string): Map<string, string> {
+    const rows = this.db
+      .prepare("SELECT path, content_hash FROM memory_heads WHERE agent_name = ?")
+      .all(agentName) as Array<{ path: string; content_hash: string }>;
+    return new Map(rows.map((row) => [row.path, row.content_hash]));
+  }
+
+  countMemorySnapshots(agentName: string): number {
+    const row = this.db
+      .prepare("SELECT COUNT(*) AS count FROM memory_snapshots WHERE agent_name = ?")
+      .get(agentName) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * An agent's memory snapshots, newest first (`oldestFirst`: from the oldest one).
+   */
+  listMemorySnapshots(
+    agentName: string,
+    options: { limit: number; runId?: string; oldestFirst?: boolean }
+  ): MemorySnapshot[] {
+    const order = options.oldestFirst ? "ASC" : "DESC";
+    const stmt = this.db.prepare(`
+      SELECT * FROM memory_snapshots
+      WHERE agent_name = ?${options.runId ? " AND run_id = ?" : ""}
+      ORDER BY created_at ${order}, rowid ${order}
+      LIMIT ?
+    `);
+    const params: Array<string | number> = [agentName];
+    if (options.runId) params.push(options.runId);
+    params.push(options.limit);
+    const rows = stmt.all(...params) as MemorySnapshotRow[];
+    return rows.map((row) => this.rowToMemorySnapshot(row));
+  }
+
+  /**
+   * An agent's snapshots whose id or run id starts with a compact UUID prefix (newest first).
+   */
+  findMemorySnapshotsByIdPrefix(agentName: string, idPrefix: string): MemorySnapshot[] {
+    const prefix = `${idPrefix.trim().toLowerCase()}%`;
+    const stmt = this.db.prepare(`
+      SELECT * FROM memory_snapshots
+      WHERE agent_name = ?
+        AND (replace(lower(id), '-', '') LIKE ? OR replace(lower(run_id), '-', '') LIKE ?)
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT 50
+    `);
+    const rows = stmt.all(agentName, prefix, prefix) as MemorySnapshotRow[];
+    return rows.map((row) => this.rowToMemorySnapshot(row));
+  }
+
+  /**
+   * The newest snapshot taken at or before `atMs`.
+   */
+  getMemorySnapshotAt(agentName: string, atMs: number): MemorySnapshot | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM memory_snapshots
+      WHERE agent_name = ? AND created_at <= ?
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(agentName, atMs) as MemorySnapshotRow | undefined;
+    return row ? this.rowToMemorySnapshot(row) : null;
+  }
+
+  /**
+   * File changes of an agent's snapshots, oldest snapshot first (replay to rebuild a state).
+   *
+   * `oldestSnapshots` limits the result to that many of the oldest snapshots.
+   */
+  getMemorySnapshotChanges(agentName: string, options: { oldestSnapshots?: number } = {}): MemorySnapshotChange[] {
+    const limited = options.oldestSnapshots !== undefined;
+    const stmt = this.db.prepare(`
+      SELECT c.snapshot_id, c.path, c.content_hash
+      FROM memory_snapshot_changes c
+      JOIN memory_snapshots s ON s.id = c.snapshot_id
+      WHERE s.agent_name = ?${
+        limited
+          ? ` AND s.id IN (
+          SELECT id FROM memory_snapshots WHERE agent_name = ? ORDER BY created_at ASC, rowid ASC LIMIT ?
+        )`
+          : ""
+      }
+      ORDER BY s.created_at ASC, s.rowid ASC, c.path ASC
+    `);
+    const params: Array<string | number> = [agentName];
+    if (limited) params.push(agentName, options.oldestSnapshots!);
+    const rows = stmt.all(...params) as Array<{ snapshot_id: string; path: string; content_hash: string | null }>;
+    return rows.map((row) => ({ snapshotId: row.snapshot_id, path: row.path, contentHash: row.content_hash }));
+  }
+
+  getMemoryBlob(hash: string): string | null {
+    const row = this.db.prepare("SELECT content FROM memory_blobs WHERE hash = ?").get(hash) as
+      | { content: string }
+      | undefined;
+    return row ? row.content : null;
+  }
+
+  /**
+   * Fold an agent's oldest snapshots into one baseline.
+   *
+   * `baselineId` keeps its place in the history but now holds the full `state` as of itself;
+   * `dropIds` (the snapshots before it) and file contents no snapshot uses any more are deleted.
+   */
+  squashMemorySnapshots(input: {
+    agentName: string;
+    baselineId: string;
+    dropIds: string[];
+    state: Map<string, string>;
+  }): void {
+    const deleteSnapshot = this.db.prepare("DELETE FROM memory_snapshots WHERE id = ? AND agent_name = ?");
+    const deleteChanges = this.db.prepare("DELETE FROM memory_snapshot_changes WHERE snapshot_id = ?");
+    const insertChange = this.db.prepare(
+      "INSERT INTO memory_snapshot_changes (snapshot_id, path, content_hash) VALUES (?, ?, ?)"
+    );
+    this.runInTransaction(() => {
+      for (const id of input.dropIds) {
+        deleteChanges.run(id);
+        deleteSnapshot.run(id, input.agentName);
+      }
+      deleteChanges.run(input.baselineId);
+      for (const [filePath, contentHash] of input.state) {
+        insertChange.run(input.baselineId, filePath, contentHash);
+      }
+      this.db
+        .prepare("UPDATE memory_snapshots SET reason = 'baseline' WHERE id = ? AND agent_name = ?")
+        .run(input.baselineId, input.agentName);
+      this.deleteUnusedMemoryBlobs();
+    });
+  }
+
+  /**
+   * Drop an agent's memory history (and file contents no other snapshot uses).
+   */
+  deleteMemoryHistory(agentName: string): void {
+    this.runInTransaction(() => {
+      this.db.prepare(`
+        DELETE FROM memory_snapshot_changes
+        WHERE snapshot_id IN (SELECT id FROM memory_snapshots WHERE agent_name = ?)
+      `).run(agentName);
+      this.db.prepare("DELETE FROM memory_snapshots WHERE agent_name = ?").run(agentName);
+      this.db.prepare("DELETE FROM memory_heads WHERE agent_name = ?").run(agentName);
+      this.deleteUnusedMemoryBlobs();
+    });
+  }
+
+  private deleteUnusedMemoryBlobs(): void {
+    this.db.prepare(`
+      DELETE FROM memory_blobs
+      WHERE hash NOT IN (SELECT content_hash FROM memory_snapshot_changes WHERE content_hash IS NOT NULL)
+    `).run();
+  }
+
+  private rowToMemorySnapshot(row: MemorySnapshotRow): MemorySnapshot {
+    return {
+      id: row.id,
+      agentName: row.agent_name,
+      ...(row.run_id ? { runId: row.run_id } : {}),
+      ...(row.run_status ? { runStatus: row.run_status as AgentRunStatus } : {}),
+      reason: row.reason as MemorySnapshotReason,
+      ...(row.restored_from ? { restoredFrom: row.restored_from } : {}),
+      createdAt: row.created_at,
+    };
+  }
+
   /**
    * Get pending envelopes for an agent (oldest first, limited).
    */
@@ -1425,11 +2222,197 @@ export class HiBossDatabase {
 
     const placeholders = envelopeIds.map(() => "?").join(", ");
     const stmt = this.db.prepare(`
-      UPDATE envelopes SET status = 'done' WHERE id IN (${placeholders})
+      UPDATE envelopes SET status = 'done', lease_expires_at = NULL WHERE id IN (${placeholders})
     `);
     stmt.run(...envelopeIds);
   }
 
+  /**
+   * Claim pending envelopes for an at-least-once agent run.
+   *
+   * Moves them to `in-flight`, counts the attempt, and sets the lease expiry.
+   */
+  claimEnvelopesInFlight(envelopeIds: string[], leaseExpiresAt: number): void {
+    if (envelopeIds.length === 0) return;
+
+    const placeholders = envelopeIds.map(() => "?").join(", ");
+    const stmt = this.db.prepare(`
+      UPDATE envelopes
+      SET status = 'in-flight',
+          attempts = COALESCE(attempts, 0) + 1,
+          lease_expires_at = ?
+      WHERE id IN (${placeholders}) AND status = 'pending'
+    `);
+    stmt.run(leaseExpiresAt, ...envelopeIds);
+  }
+
+  /**
+   * Extend the lease of in-flight envelopes (heartbeat while their run is active).
+   */
+  extendEnvelopeLeases(envelopeIds: string[], leaseExpiresAt: number): void {
+    if (envelopeIds.length === 0) return;
+
+    const placeholders = envelopeIds.map(() => "?").join(", ");
+    const stmt = this.db.prepare(`
+      UPDATE envelopes SET lease_expires_at = ?
+      WHERE id IN (${placeholders}) AND status = 'in-flight'
+    `);
+    stmt.run(leaseExpiresAt, ...envelopeIds);
+  }
+
+  /**
+   * List in-flight envelopes, optionally only those whose lease expired at or before `expiredBefore`.
+   */
+  listInFlightEnvelopes(options: { expiredBefore?: number; limit?: number } = {}): Envelope[] {
+    let sql = "SELECT * FROM envelopes WHERE status = 'in-flight'";
+    const params: number[] = [];
+
+    if (typeof options.expiredBefore === "number") {
+      sql += " AND (lease_expires_at IS NULL OR lease_expires_at <= ?)";
+      params.push(options.expiredBefore);
+    }
+
+    sql += " ORDER BY lease_expires_at ASC, created_at ASC";
+
+    if (options.limit) {
+      sql += " LIMIT ?";
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as EnvelopeRow[];
+    return rows.map((row) => this.rowToEnvelope(row));
+  }
+
+  /**
+   * Get the earliest lease expiry among in-flight envelopes (if any).
+   */
+  getNextInFlightLeaseExpiry(): number | null {
+    const stmt = this.db.prepare(`
+      SELECT MIN(lease_expires_at) AS next FROM envelopes
+      WHERE status = 'in-flight' AND lease_expires_at IS NOT NULL
+    `);
+    const row = stmt.get() as { next: number | null } | undefined;
+    return typeof row?.next === "number" ? row.next : null;
+  }
+
+  /**
+   * Release in-flight envelopes after a failed attempt.
+   *
+   * Envelopes below `maxAttempts` return to `pending` with a backoff `deliver_at`;
+   * the rest become `failed`. Both record `metadata.lastDeliveryError`.
+   */
+  releaseInFlightEnvelopes(
+    envelopeIds: string[],
+    params: { kind: string; message: string; maxAttempts?: number; nowMs?: number }
+  ): { retried: string[]; failed: string[] } {
+    const retried: string[] = [];
+    const failed: string[] = [];
+    if (envelopeIds.length === 0) return { retried, failed };
+
+    const nowMs = params.nowMs ?? Date.now();
+    const maxAttempts = params.maxAttempts ?? DEFAULT_ENVELOPE_MAX_ATTEMPTS;
+    const retryStmt = this.db.prepare(`
+      UPDATE envelopes
+      SET status = 'pending', deliver_at = ?, lease_expires_at = NULL, metadata = ?
+      WHERE id = ? AND status = 'in-flight'
+    `);
+    const failStmt = this.db.prepare(`
+      UPDATE envelopes
+      SET status = 'failed', lease_expires_at = NULL, metadata = ?
+      WHERE id = ? AND status = 'in-flight'
+    `);
+
+    this.runInTransaction(() => {
+      for (const id of envelopeIds) {
+        const env = this.getEnvelopeById(id);
+        if (!env || env.status !== "in-flight") continue;
+
+        const attempts = env.attempts ?? 1;
+        const metadata = {
+          ...(env.metadata ?? {}),
+          lastDeliveryError: {
+            atMs: nowMs,
+            kind: params.kind,
+            message: params.message,
+            attempts,
+          },
+        };
+
+        if (attempts >= maxAttempts) {
+          failStmt.run(JSON.stringify(metadata), id);
+          failed.push(id);
+        } else {
+          retryStmt.run(nowMs + computeEnvelopeRetryDelayMs(attempts), JSON.stringify(metadata), id);
+          retried.push(id);
+        }
+      }
+    });
+
+    return { retried, failed };
+  }
+
+  /**
+   * List failed (dead-letter) envelopes, newest first.
+   *
+   * When `address` is set, only envelopes sent from or to that address are returned.
+   */
+  listFailedEnvelopes(options: { address?: string; limit?: number } = {}): Envelope[] {
+    let sql = "SELECT * FROM envelopes WHERE status = 'failed'";
+    const params: (string | number)[] = [];
+
+    if (options.address) {
+      sql += ' AND ("from" = ? OR "to" = ?)';
+      params.push(options.address, options.address);
+    }
+
+    sql += " ORDER BY created_at DESC";
+
+    if (options.limit) {
+      sql += " LIMIT ?";
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as EnvelopeRow[];
+    return rows.map((row) => this.rowToEnvelope(row));
+  }
+
+  /**
+   * Count failed (dead-letter) envelopes sent from or to an agent.
+   */
+  countFailedEnvelopesForAgent(agentName: string): number {
+    const address = `agent:${agentName}`;
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) AS n
+      FROM envelopes
+      WHERE status = 'failed' AND ("from" = ? OR "to" = ?)
+    `);
+    const row = stmt.get(address, address) as { n: number } | undefined;
+    return row?.n ?? 0;
+  }
+
+  /**
+   * Move failed envelopes back to `pending` and reset their attempt counter.
+   *
+   * Returns the ids that were actually re-queued (non-failed ids are skipped).
+   */
+  requeueFailedEnvelopes(envelopeIds: string[]): string[] {
+    if (envelopeIds.length === 0) return [];
+
+    const stmt = this.db.prepare(`
+      UPDATE envelopes
+      SET status = 'pending', attempts = 0, lease_expires_at = NULL
+      WHERE id = ? AND status = 'failed'
+    `);
+
+    const requeued: string[] = [];
+    this.runInTransaction(() => {
+      for (const id of envelopeIds) {
+        if (stmt.run(id).changes > 0) requeued.push(id);
+      }
+    });
+    return requeued;
+  }
+
   /**
    * Mark due pending non-cron envelopes for an agent as done.
    *
@@ -1459,11 +2442,33 @@ export class HiBossDatabase {
       envelopeIds: row.envelope_ids ? JSON.parse(row.envelope_ids) : [],
       finalResponse: row.final_response ?? undefined,
       contextLength: typeof row.context_length === "number" ? row.context_length : undefined,
-      status: row.status as "running" | "completed" | "failed" | "cancelled",
+      inputTokens: typeof row.input_tokens === "number" ? row.input_tokens : undefined,
+      outputTokens: typeof row.output_tokens === "number" ? row.output_tokens : undefined,
+      cacheReadTokens: typeof row.cache_read_tokens === "number" ? row.cache_read_tokens : undefined,
+      cacheWriteTokens: typeof row.cache_write_tokens === "number" ? row.cache_write_tokens : undefined,
+      totalTokens: typeof row.total_tokens === "number" ? row.total_tokens : undefined,
+      provider: row.provider ?? undefined,
+      model: row.model ?? undefined,
+      costUsd: typeof row.cost_usd === "number" ? row.cost_usd : undefined,
+      status: row.status as AgentRunStatus,
       error: row.error ?? undefined,
     };
   }
 
+  private rowToAgentRunEvent(row: AgentRunEventRow): AgentRunEvent {
+    return {
+      runId: row.run_id,
+      seq: row.seq,
+      createdAt: row.created_at,
+      kind: row.kind as AgentRunEventKind,
+      tool: row.tool,
+      ...(row.summary ? { summary: row.summary } : {}),
+      ...(row.input ? { input: row.input } : {}),
+      ...(row.call_id ? { callId: row.call_id } : {}),
+      ...(row.status ? { status: row.status as AgentRunEventStatus } : {}),
+    };
+  }
+
   // ==================== Config Operations ====================
 
   /**
@@ -1555,4 +2560,61 @@ export class HiBossDatabase {
   setAdapterBossId(adapterType: string, bossId: string): void {
     this.setConfig(`adapter_boss_id_${adapterType}`, bossId);
   }
+
+  /**
+   * Get the npm packages loaded as adapter plugins (`config.adapter_plugins`, JSON array).
+   */
+  getAdapterPluginPackages(): string[] {
+    const raw = this.getConfig("adapter_plugins");
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      return Array.isArray(parsed)
+        ? parsed.filter((value): value is string => typeof value === "string" && value.trim().length > 0)
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Set the npm packages loaded as adapter plugins.
+   */
+  setAdapterPluginPackages(packages: string[]): void {
+    this.setConfig("adapter_plugins", JSON.stringify(packages));
+  }
+
+  /**
+   * Get the per-model price table (`config.model_prices`, JSON in setup-config form).
+   */
+  getModelPrices(): ModelPriceTable {
+    const raw = this.getConfig("model_prices");
+    if (!raw) return {};
+    try {
+      return parseModelPriceTable(JSON.parse(raw));
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Set the per-model price table.
+   */
+  setModelPrices(table: ModelPriceTable): void {
+    this.setConfig("model_prices", JSON.stringify(formatModelPriceTable(table)));
+  }
+
+  /**
+   * Most recent channel message from the boss to any agent (where boss notices are sent).
+   */
+  getLatestBossChannelEnvelope(): Envelope | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM envelopes
+      WHERE from_boss = 1 AND "from" LIKE 'channel:%' AND "to" LIKE 'agent:%'
+      ORDER BY created_at DESC
+      LIMIT 1
+    `);
+    const row = stmt.get() as EnvelopeRow | undefined;
+    return row ? this.rowToEnvelope(row) : null;
+  }
 }
@@ -7,6 +7,7 @@ import {
   DEFAULT_AGENT_PROVIDER,
   DEFAULT_AGENT_RUN_STATUS,
   DEFAULT_ENVELOPE_STATUS,
+  DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE,
 } from "../../shared/defaults.js";
 
 export const SCHEMA_SQL = `
@@ -40,6 +41,8 @@ CREATE TABLE IF NOT EXISTS envelopes (
   content_attachments TEXT,
   deliver_at INTEGER,         -- unix epoch ms (UTC) (not-before delivery)
   status TEXT DEFAULT '${DEFAULT_ENVELOPE_STATUS}',
+  attempts INTEGER DEFAULT 0,  -- delivery attempts (at-least-once agent runs)
+  lease_expires_at INTEGER,    -- unix epoch ms (UTC) while status = in-flight
   created_at INTEGER DEFAULT (CAST(strftime('%s','now') AS INTEGER) * 1000),
   metadata TEXT
 );
@@ -87,10 +90,107 @@ CREATE TABLE IF NOT EXISTS agent_runs (
   envelope_ids TEXT,           -- JSON array of processed envelope IDs
   final_response TEXT,         -- stored for auditing
   context_length INTEGER,      -- context length (tokens) when available
+  input_tokens INTEGER,        -- token usage for the turn (null when the provider did not report it)
+  output_tokens INTEGER,
+  cache_read_tokens INTEGER,
+  cache_write_tokens INTEGER,
+  total_tokens INTEGER,
+  provider TEXT,               -- provider and model that served the turn (model null means provider default)
+  model TEXT,
+  cost_usd REAL,               -- priced from config.model_prices at completion (null when unpriced)
   status TEXT DEFAULT '${DEFAULT_AGENT_RUN_STATUS}', -- running, completed, failed, cancelled
   error TEXT
 );
 
+CREATE TABLE IF NOT EXISTS agent_run_events (
+  run_id TEXT NOT NULL,        -- references agent_runs(id)
+  seq INTEGER NOT NULL,        -- 1-based order within the run
+  created_at INTEGER NOT NULL,
+  kind TEXT NOT NULL,          -- tool-call, command, file-edit
+  tool TEXT NOT NULL,          -- provider tool name (e.g. Bash, Edit, shell, apply_patch)
+  summary TEXT,                -- command line, file path(s), or query
+  input TEXT,                  -- tool input JSON (truncated)
+  call_id TEXT,                -- provider call/item id (matches results to calls)
+  status TEXT,                 -- ok, error (null until the result is seen)
+  PRIMARY KEY (run_id, seq),
+  FOREIGN KEY (run_id) REFERENCES agent_runs(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,   -- URL path segment: POST /hooks/<name>
+  agent_name TEXT NOT NULL,    -- destination agent
+  secret TEXT NOT NULL,        -- HMAC-SHA256 key (stored as plaintext; needed to verify signatures)
+  template TEXT,               -- nunjucks source (null means pretty-printed JSON)
+  url TEXT,                    -- outbound URL for channel:webhook:<name> envelopes (null means ingress only)
+  rate_limit_per_minute INTEGER DEFAULT ${DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE},
+  created_at INTEGER DEFAULT (CAST(strftime('%s','now') AS INTEGER) * 1000),
+  FOREIGN KEY (agent_name) REFERENCES agents(name) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS agent_chat_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  agent_name TEXT NOT NULL,
+  session_id TEXT NOT NULL,    -- in-process provider session (one conversation)
+  message TEXT NOT NULL,       -- chat message JSON (role, content, tool_calls, ...)
+  created_at INTEGER NOT NULL
+);
+
+-- Search index over internal_space memory files (rebuildable cache; files are the source of truth).
+CREATE TABLE IF NOT EXISTS memory_files (
+  agent_name TEXT NOT NULL,
+  path TEXT NOT NULL,          -- relative to internal_space (MEMORY.md, memories/YYYY-MM-DD.md)
+  mtime_ms INTEGER NOT NULL,
+  size INTEGER NOT NULL,
+  indexed_at INTEGER NOT NULL,
+  PRIMARY KEY (agent_name, path)
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS memory_chunks USING fts5(
+  content,
+  agent_name UNINDEXED,
+  path UNINDEXED,
+  line UNINDEXED,              -- 1-based first line of the chunk
+  tokenize = 'porter unicode61'
+);
+
+CREATE TABLE IF NOT EXISTS memory_chunk_embeddings (
+  chunk_id INTEGER PRIMARY KEY, -- memory_chunks rowid
+  agent_name TEXT NOT NULL,
+  embedding BLOB NOT NULL       -- float32 vector from HIBOSS_MEMORY_EMBED_COMMAND
+);
+
+-- Memory version history: each snapshot records the memory files that changed since the previous one.
+CREATE TABLE IF NOT EXISTS memory_snapshots (
+  id TEXT PRIMARY KEY,
+  agent_name TEXT NOT NULL,
+  run_id TEXT,                 -- agent run that made the changes (null outside runs)
+  run_status TEXT,             -- final status of that run (completed, failed, cancelled)
+  reason TEXT NOT NULL,        -- baseline, run, outside-run, restore
+  restored_from TEXT,          -- snapshot id a restore rolled back to
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS memory_snapshot_changes (
+  snapshot_id TEXT NOT NULL,
+  path TEXT NOT NULL,          -- relative to internal_space
+  content_hash TEXT,           -- memory_blobs.hash (null when the file was removed)
+  PRIMARY KEY (snapshot_id, path),
+  FOREIGN KEY (snapshot_id) REFERENCES memory_snapshots(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS memory_heads (
+  agent_name TEXT NOT NULL,
+  path TEXT NOT NULL,          -- relative to internal_space
+  content_hash TEXT NOT NULL,  -- memory_blobs.hash as of the newest snapshot
+  PRIMARY KEY (agent_name, path)
+);
+
+CREATE TABLE IF NOT EXISTS memory_blobs (
+  hash TEXT PRIMARY KEY,       -- sha256 of content (shared across agents and snapshots)
+  content TEXT NOT NULL
+);
+
 CREATE INDEX IF NOT EXISTS idx_envelopes_to ON envelopes("to", status);
 CREATE INDEX IF NOT EXISTS idx_envelopes_from ON envelopes("from", created_at);
 CREATE INDEX IF NOT EXISTS idx_envelopes_status_deliver_at ON envelopes(status, deliver_at);
@@ -101,4 +201,33 @@ CREATE INDEX IF NOT EXISTS idx_agent_bindings_agent ON agent_bindings(agent_name
 CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_bindings_agent_adapter_unique ON agent_bindings(agent_name, adapter_type);
 CREATE INDEX IF NOT EXISTS idx_agent_bindings_adapter ON agent_bindings(adapter_type, adapter_token);
 CREATE INDEX IF NOT EXISTS idx_agent_runs_agent ON agent_runs(agent_name, started_at);
+CREATE INDEX IF NOT EXISTS idx_agent_run_events_call ON agent_run_events(run_id, call_id);
+CREATE INDEX IF NOT EXISTS idx_webhooks_agent ON webhooks(agent_name);
+CREATE INDEX IF NOT EXISTS idx_agent_chat_messages_session ON agent_chat_messages(session_id, id);
+CREATE INDEX IF NOT EXISTS idx_memory_chunk_embeddings_agent ON memory_chunk_embeddings(agent_name);
+CREATE INDEX IF NOT EXISTS idx_memory_snapshots_agent ON memory_snapshots(agent_name, created_at);
+CREATE INDEX IF NOT EXISTS idx_memory_snapshots_run ON memory_snapshots(run_id);
+`;
+
+/**
+ * Columns added to existing tables after their initial release.
+ *
+ * Applied with `ALTER TABLE ... ADD COLUMN` when missing so upgraded installs keep their state.
+ */
+export const ADDITIVE_COLUMNS: Array<{ table: string; column: string; definition: string }> = [
+  { table: "envelopes", column: "attempts", definition: "INTEGER DEFAULT 0" },
+  { table: "envelopes", column: "lease_expires_at", definition: "INTEGER" },
+  { table: "webhooks", column: "url", definition: "TEXT" },
+  { table: "agent_runs", column: "input_tokens", definition: "INTEGER" },
+  { table: "agent_runs", column: "output_tokens", definition: "INTEGER" },
+  { table: "agent_runs", column: "cache_read_tokens", definition: "INTEGER" },
+  { table: "agent_runs", column: "cache_write_tokens", definition: "INTEGER" },
+  { table: "agent_runs", column: "total_tokens", definition: "INTEGER" },
+  { table: "agent_runs", column: "provider", definition: "TEXT" },
+  { table: "agent_runs", column: "model", definition: "TEXT" },
+  { table: "agent_runs", column: "cost_usd", definition: "REAL" },
+];
+
+export const ADDITIVE_SCHEMA_SQL = `
+CREATE INDEX IF NOT EXISTS idx_envelopes_status_lease ON envelopes(status, lease_expires_at);
 `;
@@ -52,6 +52,19 @@ export class IpcServer {
     Object.assign(this.methods, methods);
   }
 
+  /**
+   * Call a registered method in-process (no socket); errors are thrown as-is.
+   */
+  async invoke(method: string, params: Record<string, unknown>): Promise<unknown> {
+    const handler = this.methods[method];
+    if (!handler) {
+      const err = new Error(`Method not found: ${method}`) as Error & { code: number };
+      err.code = RPC_ERRORS.METHOD_NOT_FOUND;
+      throw err;
+    }
+    return await handler(params);
+  }
+
   /**
    * Start the IPC server.
    */
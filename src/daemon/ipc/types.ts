@@ -36,6 +36,7 @@ export const RPC_ERRORS = {
   UNAUTHORIZED: -32001,
   NOT_FOUND: -32002,
   ALREADY_EXISTS: -32003,
+  CONFLICT: -32004,
   DELIVERY_FAILED: -32010,
 } as const;
 
@@ -70,12 +71,35 @@ export interface EnvelopeListParams {
   token: string;
   to?: string;
   from?: string;
-  status: "pending" | "done";
+  status: "pending" | "done" | "failed";
   limit?: number;
   createdAfter?: string;
   createdBefore?: string;
 }
 
+export interface EnvelopeDeadLettersParams {
+  token: string;
+  agentName?: string;
+  limit?: number;
+}
+
+export interface EnvelopeDeadLettersResult {
+  envelopes: Envelope[];
+}
+
+export interface EnvelopeRetryParams {
+  token: string;
+  envelopeIds?: string[];
+  all?: boolean;
+  agentName?: string;
+}
+
+export interface EnvelopeRetryResult {
+  retriedCount: number;
+  failedAgainCount: number;
+  envelopeIds: string[];
+}
+
 export interface EnvelopeThreadParams {
   token: string;
   envelopeId: string;
@@ -119,6 +143,46 @@ export interface CronDeleteParams {
   id: string;
 }
 
+export interface HookCreateParams {
+  token: string;
+  name: string;
+  agentName: string;
+  template?: string;
+  rateLimitPerMinute?: number;
+  outboundUrl?: string;
+}
+
+export interface HookCreateResult {
+  hook: HookView;
+  secret: string;
+  url: string | null;
+}
+
+export interface HookListParams {
+  token: string;
+}
+
+export interface HookListResult {
+  hooks: Array<HookView & { url: string | null }>;
+}
+
+export interface HookDeleteParams {
+  token: string;
+  name: string;
+}
+
+/**
+ * Webhook as returned over RPC (the secret is only returned by `hook.create`).
+ */
+export interface HookView {
+  name: string;
+  agentName: string;
+  template?: string;
+  rateLimitPerMinute: number;
+  outboundUrl?: string;
+  createdAt: number;
+}
+
 // Backwards-compatible aliases (deprecated)
 // (Removed) message.send / message.list aliases were dropped; use envelope.send / envelope.list.
 
@@ -128,7 +192,7 @@ export interface AgentRegisterParams {
   role: "speaker" | "leader";
   description?: string;
   workspace?: string;
-  provider: "claude" | "codex";
+  provider: string;
   model?: string;
   reasoningEffort?: "none" | "low" | "medium" | "high" | "xhigh" | null;
   permissionLevel?: "restricted" | "standard" | "privileged" | "boss";
@@ -136,6 +200,8 @@ export interface AgentRegisterParams {
   sessionDailyResetAt?: string;
   sessionIdleTimeout?: string;
   sessionMaxContextLength?: number;
+  sessionDailyBudgetUsd?: number;
+  sessionMonthlyBudgetUsd?: number;
   bindAdapterType?: string;
   bindAdapterToken?: string;
   dryRun?: boolean;
@@ -182,7 +248,7 @@ export interface AgentSelfParams {
 export interface AgentSelfResult {
   agent: {
     name: string;
-    provider: 'claude' | 'codex';
+    provider: string;
     workspace: string;
     model?: string;
     reasoningEffort?: 'none' | 'low' | 'medium' | 'high' | 'xhigh';
@@ -212,7 +278,7 @@ export interface AgentStatusResult {
     role?: "speaker" | "leader";
     description?: string;
     workspace?: string;
-    provider?: "claude" | "codex";
+    provider?: string;
     model?: string;
     reasoningEffort?: "none" | "low" | "medium" | "high" | "xhigh";
     permissionLevel?: "restricted" | "standard" | "privileged" | "boss";
@@ -220,18 +286,22 @@ export interface AgentStatusResult {
       dailyResetAt?: string;
       idleTimeout?: string;
       maxContextLength?: number;
+      dailyBudgetUsd?: number;
+      monthlyBudgetUsd?: number;
     };
   };
   bindings: string[];
   effective: {
     workspace: string;
-    provider: "claude" | "codex";
+    provider: string;
     permissionLevel: "restricted" | "standard" | "privileged" | "boss";
   };
   status: {
-    agentState: "running" | "idle";
+    /** `paused`: over its daily/monthly budget; pending envelopes wait for the next period. */
+    agentState: "running" | "idle" | "paused";
     agentHealth: "ok" | "error" | "unknown";
     pendingCount: number;
+    failedCount: number;
     currentRun?: {
       id: string;
       startedAt: number;
@@ -245,6 +315,234 @@ export interface AgentStatusResult {
       contextLength?: number;
     };
   };
+  /** Priced run cost for the current day and month (boss timezone). */
+  usage: {
+    todayCostUsd: number;
+    monthCostUsd: number;
+    dailyBudgetUsd?: number;
+    monthlyBudgetUsd?: number;
+    budgetExceeded?: {
+      period: "daily" | "monthly";
+      resumesAt: number;
+    };
+  };
+}
+
+export interface AgentRunShowParams {
+  token: string;
+  id: string;
+}
+
+export interface AgentRunView {
+  id: string;
+  agentName: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  startedAt: number;
+  completedAt?: number;
+  durationMs?: number;
+  envelopeIds: string[];
+  contextLength?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  totalTokens?: number;
+  provider?: string;
+  model?: string;
+  costUsd?: number;
+  error?: string;
+  finalResponse?: string;
+}
+
+export interface AgentRunsParams {
+  token: string;
+  agentName: string;
+  status?: "running" | "completed" | "failed" | "cancelled";
+  since?: string;
+  limit?: number;
+}
+
+export interface AgentRunsResult {
+  agentName: string;
+  runs: AgentRunView[];
+}
+
+export interface AgentRunEventView {
+  seq: number;
+  createdAt: number;
+  kind: "tool-call" | "command" | "file-edit";
+  tool: string;
+  summary?: string;
+  input?: string;
+  status?: "ok" | "error";
+}
+
+export interface AgentRunShowResult {
+  run: AgentRunView;
+  events: AgentRunEventView[];
+}
+
+export type UsageReportGroupBy = "agent" | "day" | "model";
+
+export interface UsageReportParams {
+  token: string;
+  by: UsageReportGroupBy;
+  agentName?: string;
+  since?: string;
+}
+
+export interface UsageReportRow {
+  /** Agent name, `YYYY-MM-DD` (boss timezone), or model name (`<provider>:default` when unset). */
+  key: string;
+  runCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Runs in this group with token usage but no price in `config.model_prices`. */
+  unpricedRunCount: number;
+}
+
+export interface UsageReportResult {
+  by: UsageReportGroupBy;
+  rows: UsageReportRow[];
+  total: Omit<UsageReportRow, "key">;
+}
+
+export interface MemorySearchParams {
+  token: string;
+  query: string;
+  /** Defaults to the calling agent (required for the boss). */
+  agentName?: string;
+  limit?: number;
+}
+
+export interface MemorySearchHit {
+  /** Path relative to the agent's internal_space (e.g. `memories/2026-01-02.md`). */
+  path: string;
+  /** 1-based first line of the matching chunk. */
+  line: number;
+  text: string;
+  /** Higher is better; comparable within one result only. */
+  score: number;
+}
+
+export interface MemorySearchResult {
+  agentName: string;
+  /** `hybrid` when HIBOSS_MEMORY_EMBED_COMMAND ranked results alongside full-text search. */
+  mode: "fts" | "hybrid";
+  hits: MemorySearchHit[];
+}
+
+/**
+ * Common target of the `memory.*` file RPCs: `MEMORY.md`, or the daily file of `day`.
+ */
+export interface MemoryTargetParams {
+  token: string;
+  /** Defaults to the calling agent (required for the boss). */
+  agentName?: string;
+  /** `YYYY-MM-DD` or `today` (boss timezone); omitted = `MEMORY.md`. */
+  day?: string;
+}
+
+export type MemoryShowParams = MemoryTargetParams;
+
+export interface MemoryShowResult {
+  agentName: string;
+  /** Relative to internal_space (`memories/archive/<day>.md` for consolidated days). */
+  path: string;
+  content: string;
+  /** sha256 of `content`; pass as `baseHash` to `memory.edit`. */
+  contentHash: string;
+  chars: number;
+  /** Injection cap (MEMORY.md only). */
+  maxChars?: number;
+}
+
+export interface MemoryAppendParams extends MemoryTargetParams {
+  text: string;
+}
+
+export interface MemoryEditParams extends MemoryTargetParams {
+  content: string;
+  /** Reject the edit when the file no longer has this content hash. */
+  baseHash?: string;
+}
+
+export interface MemoryWriteResult {
+  agentName: string;
+  path: string;
+  contentHash: string;
+  chars: number;
+  maxChars?: number;
+  changed: boolean;
+}
+
+export interface MemoryDiffParams extends MemoryTargetParams {
+  content: string;
+}
+
+export interface MemoryDiffResult {
+  agentName: string;
+  path: string;
+  /** Unified diff from the current file to `content` ("" when unchanged). */
+  diff: string;
+  changed: boolean;
+}
+
+export interface MemoryListDaysParams {
+  token: string;
+  agentName?: string;
+  includeArchived?: boolean;
+}
+
+export interface MemoryListDaysResult {
+  agentName: string;
+  days: Array<{ day: string; path: string; chars: number; archived: boolean }>;
+}
+
+export interface MemoryHistoryParams {
+  token: string;
+  agentName?: string;
+  limit?: number;
+  /** Only the snapshot of this agent run (full id or short prefix). */
+  runId?: string;
+  includeDiff?: boolean;
+}
+
+export interface MemorySnapshotView {
+  id: string;
+  createdAt: number;
+  reason: string;
+  runId?: string;
+  /** Final status of the linked run (completed, failed, cancelled). */
+  runStatus?: string;
+  restoredFrom?: string;
+  /** Memory files the snapshot changed (relative to internal_space). */
+  paths: string[];
+  diff?: string;
+}
+
+export interface MemoryHistoryResult {
+  agentName: string;
+  snapshots: MemorySnapshotView[];
+}
+
+export interface MemoryRestoreParams {
+  token: string;
+  agentName?: string;
+  /** Snapshot id, run id (full or short prefix), or a datetime (boss timezone unless it has an offset). */
+  at: string;
+}
+
+export interface MemoryRestoreResult {
+  agentName: string;
+  restoredFrom: MemorySnapshotView;
+  /** Snapshot recording the restore (absent when the memory already matched). */
+  snapshotId?: string;
+  changedPaths: string[];
 }
 
 export interface AgentSessionPolicySetParams {
@@ -253,6 +551,8 @@ export interface AgentSessionPolicySetParams {
   sessionDailyResetAt?: string;
   sessionIdleTimeout?: string;
   sessionMaxContextLength?: number;
+  sessionDailyBudgetUsd?: number;
+  sessionMonthlyBudgetUsd?: number;
   clear?: boolean;
 }
 
@@ -262,7 +562,7 @@ export interface AgentSetParams {
   role?: "speaker" | "leader";
   description?: string | null;
   workspace?: string | null;
-  provider?: "claude" | "codex" | null;
+  provider?: string | null;
   model?: string | null;
   reasoningEffort?: "none" | "low" | "medium" | "high" | "xhigh" | null;
   permissionLevel?: "restricted" | "standard" | "privileged" | "boss";
@@ -270,6 +570,8 @@ export interface AgentSetParams {
     dailyResetAt?: string;
     idleTimeout?: string;
     maxContextLength?: number;
+    dailyBudgetUsd?: number;
+    monthlyBudgetUsd?: number;
   } | null;
   metadata?: Record<string, unknown> | null;
   bindAdapterType?: string;
@@ -284,7 +586,7 @@ export interface AgentSetResult {
     role?: "speaker" | "leader";
     description?: string;
     workspace?: string;
-    provider: "claude" | "codex";
+    provider: string;
     model?: string;
     reasoningEffort?: "none" | "low" | "medium" | "high" | "xhigh";
     permissionLevel: "restricted" | "standard" | "privileged" | "boss";
@@ -337,7 +639,7 @@ export interface SetupCheckResult {
     name: string;
     role?: AgentRole;
     workspace?: string;
-    provider?: "claude" | "codex";
+    provider?: string;
   }>;
   userInfo: {
     bossName?: string;
@@ -358,7 +660,7 @@ export interface SetupExecuteParams {
   bossTimezone: string;
   speakerAgent: {
     name: string;
-    provider: "claude" | "codex";
+    provider: string;
     role?: "speaker";
     description?: string;
     workspace?: string;
@@ -374,7 +676,7 @@ export interface SetupExecuteParams {
   };
   leaderAgent: {
     name: string;
-    provider: "claude" | "codex";
+    provider: string;
     role?: "leader";
     description?: string;
     workspace?: string;
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { consolidateAgentMemory, fitMemoryToCharCap, listConsolidationCandidates } from "./consolidation.js";
+
+function withInternalSpace(run: (dir: string, write: (rel: string, text: string) => void) => Promise<void>): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-consolidation-test-"));
+  fs.mkdirSync(path.join(dir, "memories"), { recursive: true });
+  const write = (rel: string, text: string) => fs.writeFileSync(path.join(dir, rel), text);
+  return run(dir, write).finally(() => fs.rmSync(dir, { recursive: true, force: true }));
+}
+
+test("the char cap drops whole trailing sections", () => {
+  const text = "Intro.\n\n## Boss\n- likes tea\n\n## Projects\n- billing migration\n";
+  assert.deepEqual(fitMemoryToCharCap(text, 1_000), {
+    text: "Intro.\n\n## Boss\n- likes tea\n\n## Projects\n- billing migration",
+    dropped: [],
+  });
+
+  const capped = fitMemoryToCharCap(text, 30);
+  assert.equal(capped.text, "Intro.\n\n## Boss\n- likes tea");
+  assert.deepEqual(capped.dropped.map((s) => s.heading), ["Projects"]);
+
+  assert.throws(() => fitMemoryToCharCap("x".repeat(31), 30), /before the first section/);
+});
+
+test("only daily files older than the kept window are candidates", async () => {
+  await withInternalSpace(async (dir, write) => {
+    for (const name of ["2025-01-01.md", "2025-01-03.md", "2025-01-04.md", "notes.md"]) {
+      write(`memories/${name}`, "x\n");
+    }
+    assert.deepEqual(listConsolidationCandidates(dir, "2025-01-05", 2), ["memories/2025-01-01.md", "memories/2025-01-03.md"]);
+    assert.deepEqual(listConsolidationCandidates(dir, "2025-01-05", 5), []);
+  });
+});
+
+test("consolidation rewrites MEMORY.md and archives what it folded in", async () => {
+  await withInternalSpace(async (dir, write) => {
+    write("MEMORY.md", "## Boss\n- prefers bullets\n");
+    write("memories/2025-01-01.md", "Boss switched to oolong tea.\n");
+    write("memories/2025-01-09.md", "Still recent.\n");
+
+    let prompt = "";
+    const result = await consolidateAgentMemory({
+      agentName: "nex",
+      internalSpaceDir: dir,
+      today: "2025-01-10",
+      runPrompt: async (p) => {
+        prompt = p;
+        return "```markdown\n## Boss\n- prefers bullets\n- drinks oolong tea\n\n## Trivia\n" + "y".repeat(100) + "\n```";
+      },
+      maxChars: 60,
+    });
+
+    assert.match(prompt, /daily-file: memories\/2025-01-01\.md\nBoss switched to oolong tea\./);
+    assert.doesNotMatch(prompt, /Still recent/);
+    assert.equal(result?.status, "applied");
+    assert.deepEqual(result?.archivedFiles, ["memories/2025-01-01.md"]);
+    assert.deepEqual(result?.droppedSections, ["Trivia"]);
+    assert.equal(fs.readFileSync(path.join(dir, "MEMORY.md"), "utf8"), "## Boss\n- prefers bullets\n- drinks oolong tea\n");
+    assert.deepEqual(fs.readdirSync(path.join(dir, "memories")).sort(), ["2025-01-09.md", "archive"]);
+    assert.deepEqual(fs.readdirSync(path.join(dir, "memories", "archive")).sort(), [
+      "2025-01-01.md",
+      "MEMORY-2025-01-10-dropped.md",
+      "MEMORY-2025-01-10.md",
+    ]);
+
+    // Nothing left to fold in: no prompt.
+    const again = await consolidateAgentMemory({
+      agentName: "nex",
+      internalSpaceDir: dir,
+      today: "2025-01-10",
+      runPrompt: async () => assert.fail("should not prompt"),
+    });
+    assert.equal(again, null);
+  });
+});
+
+test("edits made while the prompt runs win over the consolidation", async () => {
+  await withInternalSpace(async (dir, write) => {
+    write("MEMORY.md", "## Boss\n- prefers bullets\n");
+    write("memories/2025-01-01.md", "Old note.\n");
+
+    const result = await consolidateAgentMemory({
+      agentName: "nex",
+      internalSpaceDir: dir,
+      today: "2025-01-10",
+      runPrompt: async () => {
+        write("MEMORY.md", "## Boss\n- prefers bullets\n- edited by the agent\n");
+        return "## Boss\n- rewritten";
+      },
+    });
+
+    assert.equal(result?.status, "skipped");
+    assert.match(fs.readFileSync(path.join(dir, "MEMORY.md"), "utf8"), /edited by the agent/);
+    assert.ok(fs.existsSync(path.join(dir, "memories", "2025-01-01.md")));
+    assert.equal(fs.existsSync(path.join(dir, "memories", "archive")), false);
+  });
+});
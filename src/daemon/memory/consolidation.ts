@@ -0,0 +1,301 @@
+/**
+ * Daily memory consolidation: folds old `memories/YYYY-MM-DD.md` files into `MEMORY.md`.
+ *
+ * The model only writes text; the daemon applies it: the reply becomes the new MEMORY.md
+ * (whole trailing sections dropped to fit the long-term cap), the previous MEMORY.md and the
+ * consolidated daily files are moved to `memories/archive/` (still searchable), and nothing is
+ * changed when the inputs were edited while the prompt ran.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  DEFAULT_MEMORY_CONSOLIDATION_KEEP_DAYS,
+  DEFAULT_MEMORY_CONSOLIDATION_MAX_INPUT_CHARS,
+  DEFAULT_MEMORY_LONGTERM_MAX_CHARS,
+} from "../../shared/defaults.js";
+import { writeFileAtomic } from "./memory-files.js";
+
+const MEMORY_FILENAME = "MEMORY.md";
+const DAILY_MEMORIES_DIRNAME = "memories";
+const ARCHIVE_DIRNAME = "archive";
+const DAILY_MEMORY_FILENAME_REGEX = /^(\d{4}-\d{2}-\d{2})\.md$/;
+
+export interface MemorySection {
+  /** Heading text without the leading `## `. */
+  heading: string;
+  text: string;
+}
+
+export interface MemoryConsolidationResult {
+  status: "applied" | "skipped";
+  /** Why nothing was changed (`status: "skipped"`). */
+  reason?: string;
+  /** Consolidated daily files, relative to internal_space (before archiving). */
+  archivedFiles: string[];
+  previousChars: number;
+  memoryChars: number;
+  /** Sections of the model's reply that did not fit under the cap. */
+  droppedSections: string[];
+  /** Archived copies, relative to internal_space. */
+  previousMemoryPath?: string;
+  droppedSectionsPath?: string;
+}
+
+/**
+ * Whether the agent takes part in daily memory consolidation (on unless `metadata.memoryConsolidation` is false).
+ */
+export function isMemoryConsolidationEnabled(metadata: unknown): boolean {
+  if (typeof metadata !== "object" || metadata === null) return true;
+  return (metadata as Record<string, unknown>).memoryConsolidation !== false;
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year!, month! - 1, day! + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Daily files older than the last `keepDays` days (including `today`), oldest first.
+ */
+export function listConsolidationCandidates(
+  internalSpaceDir: string,
+  today: string,
+  keepDays: number = DEFAULT_MEMORY_CONSOLIDATION_KEEP_DAYS
+): string[] {
+  const firstKept = shiftDate(today, -(keepDays - 1));
+  let names: string[] = [];
+  try {
+    names = fs.readdirSync(path.join(internalSpaceDir, DAILY_MEMORIES_DIRNAME));
+  } catch {
+    return [];
+  }
+  return names
+    .filter((name) => {
+      const match = DAILY_MEMORY_FILENAME_REGEX.exec(name);
+      return match !== null && match[1]! < firstKept;
+    })
+    .sort()
+    .map((name) => `${DAILY_MEMORIES_DIRNAME}/${name}`);
+}
+
+/**
+ * Split MEMORY.md into the text before the first `## ` heading and one section per heading.
+ */
+export function splitMemorySections(text: string): { preamble: string; sections: MemorySection[] } {
+  const preamble: string[] = [];
+  const sections: Array<{ heading: string; lines: string[] }> = [];
+  for (const line of text.split(/\r?\n/)) {
+    const heading = /^##\s+(.*)$/.exec(line);
+    if (heading) {
+      sections.push({ heading: heading[1]!.trim(), lines: [line] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1]!.lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+  return {
+    preamble: preamble.join("\n").trim(),
+    sections: sections.map((s) => ({ heading: s.heading, text: s.lines.join("\n").trim() })),
+  };
+}
+
+/**
+ * Keep the preamble and the longest run of leading sections that fits in `maxChars`;
+ * later sections are dropped whole. Throws when the preamble alone is over the cap.
+ */
+export function fitMemoryToCharCap(
+  text: string,
+  maxChars: number = DEFAULT_MEMORY_LONGTERM_MAX_CHARS
+): { text: string; dropped: MemorySection[] } {
+  const { preamble, sections } = splitMemorySections(text);
+  if (preamble.length > maxChars) {
+    throw new Error(`Text before the first section is over the ${maxChars}-char cap`);
+  }
+
+  const kept = preamble ? [preamble] : [];
+  let length = preamble.length;
+  let keptSections = 0;
+  for (const section of sections) {
+    const added = (kept.length > 0 ? 2 : 0) + section.text.length;
+    if (length + added > maxChars) break;
+    kept.push(section.text);
+    length += added;
+    keptSections++;
+  }
+  return { text: kept.join("\n\n"), dropped: sections.slice(keptSections) };
+}
+
+function readIfExists(filePath: string): string {
+  try {
+    return fs.readFileSync(filePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return "";
+    throw err;
+  }
+}
+
+function stripCodeFence(reply: string): string {
+  const fenced = /^```[\w-]*\n([\s\S]*?)\n```$/.exec(reply.trim());
+  return (fenced ? fenced[1]! : reply).trim();
+}
+
+/**
+ * `archive/<name>.md`, or `archive/<name>-2.md`, … when taken.
+ */
+function uniqueArchivePath(archiveDir: string, baseName: string): string {
+  for (let n = 1; ; n++) {
+    const candidate = path.join(archiveDir, n === 1 ? `${baseName}.md` : `${baseName}-${n}.md`);
+    if (!fs.existsSync(candidate)) return candidate;
+  }
+}
+
+export function buildConsolidationPrompt(params: {
+  agentName: string;
+  memory: string;
+  dailyFiles: Array<{ path: string; text: string }>;
+  maxChars: number;
+}): string {
+  const lines = [
+    `Consolidate the long-term memory of agent "${params.agentName}".`,
+    "",
+    "Rewrite MEMORY.md so it absorbs the durable facts from the daily memory files below. These daily files are archived afterwards and no longer shown to the agent.",
+    "",
+    "Rules:",
+    "- Reply with the complete new MEMORY.md only: no commentary, no code fence.",
+    '- Organize it in sections that start with "## " headings, most important first.',
+    "- Keep what is still valid in the current MEMORY.md; merge duplicates and drop what the daily files supersede.",
+    "- From the daily files keep durable facts only (preferences, decisions, constraints, workflows, project context), not one-off events.",
+    `- Stay under ${params.maxChars} characters. Sections at the end are dropped whole when the reply is longer.`,
+    "- Never include secrets (tokens, API keys, passwords).",
+    "- Do not edit any files yourself.",
+    "",
+    "current-memory-md:",
+    params.memory.trim() || "(empty)",
+  ];
+  for (const file of params.dailyFiles) {
+    lines.push("", `daily-file: ${file.path}`, file.text.trim() || "(empty)");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Consolidate one agent's old daily memory files into MEMORY.md.
+ *
+ * `today` is the boss-timezone date (`YYYY-MM-DD`). `runPrompt` returns the model's reply.
+ * Returns null (without prompting) when no daily file is old enough.
+ */
+export async function consolidateAgentMemory(params: {
+  agentName: string;
+  internalSpaceDir: string;
+  today: string;
+  runPrompt: (prompt: string) => Promise<string>;
+  keepDays?: number;
+  maxChars?: number;
+  maxInputChars?: number;
+}): Promise<MemoryConsolidationResult | null> {
+  const maxChars = params.maxChars ?? DEFAULT_MEMORY_LONGTERM_MAX_CHARS;
+  const maxInputChars = params.maxInputChars ?? DEFAULT_MEMORY_CONSOLIDATION_MAX_INPUT_CHARS;
+  const memoryPath = path.join(params.internalSpaceDir, MEMORY_FILENAME);
+  const memory = readIfExists(memoryPath);
+  const skipped = (reason: string): MemoryConsolidationResult => ({
+    status: "skipped",
+    reason,
+    archivedFiles: [],
+    previousChars: memory.trim().length,
+    memoryChars: memory.trim().length,
+    droppedSections: [],
+  });
+
+  // Oldest first; the rest waits for the next run when the input budget is used up.
+  const dailyFiles: Array<{ path: string; text: string }> = [];
+  let inputChars = 0;
+  for (const relativePath of listConsolidationCandidates(params.internalSpaceDir, params.today, params.keepDays)) {
+    const text = readIfExists(path.join(params.internalSpaceDir, relativePath));
+    if (dailyFiles.length > 0 && inputChars + text.length > maxInputChars) break;
+    dailyFiles.push({ path: relativePath, text });
+    inputChars += text.length;
+  }
+  if (dailyFiles.length === 0) {
+    return null;
+  }
+
+  const reply = stripCodeFence(
+    await params.runPrompt(
+      buildConsolidationPrompt({ agentName: params.agentName, memory, dailyFiles, maxChars })
+    )
+  );
+  if (!reply) {
+    throw new Error("Consolidation returned an empty MEMORY.md");
+  }
+  const fitted = fitMemoryToCharCap(reply, maxChars);
+
+  // The agent may have written memory while the prompt ran; its edits win.
+  const changed =
+    readIfExists(memoryPath) !== memory ||
+    dailyFiles.some((file) => readIfExists(path.join(params.internalSpaceDir, file.path)) !== file.text);
+  if (changed) {
+    return skipped("memory files changed during consolidation");
+  }
+
+  const archiveDir = path.join(params.internalSpaceDir, DAILY_MEMORIES_DIRNAME, ARCHIVE_DIRNAME);
+  fs.mkdirSync(archiveDir, { recursive: true });
+  const relative = (absolutePath: string) =>
+    path.relative(params.internalSpaceDir, absolutePath).split(path.sep).join("/");
+
+  let previousMemoryPath: string | undefined;
+  if (memory.trim()) {
+    const backupPath = uniqueArchivePath(archiveDir, `MEMORY-${params.today}`);
+    fs.writeFileSync(backupPath, memory, "utf8");
+    previousMemoryPath = relative(backupPath);
+  }
+
+  let droppedSectionsPath: string | undefined;
+  if (fitted.dropped.length > 0) {
+    const droppedPath = uniqueArchivePath(archiveDir, `MEMORY-${params.today}-dropped`);
+    fs.writeFileSync(droppedPath, `${fitted.dropped.map((s) => s.text).join("\n\n")}\n`, "utf8");
+    droppedSectionsPath = relative(droppedPath);
+  }
+
+  writeFileAtomic(memoryPath, `${fitted.text}\n`);
+
+  for (const file of dailyFiles) {
+    const name = path.basename(file.path, ".md");
+    fs.renameSync(path.join(params.internalSpaceDir, file.path), uniqueArchivePath(archiveDir, name));
+  }
+
+  return {
+    status: "applied",
+    archivedFiles: dailyFiles.map((file) => file.path),
+    previousChars: memory.trim().length,
+    memoryChars: fitted.text.length,
+    droppedSections: fitted.dropped.map((s) => s.heading),
+    ...(previousMemoryPath ? { previousMemoryPath } : {}),
+    ...(droppedSectionsPath ? { droppedSectionsPath } : {}),
+  };
+}
+
+/**
+ * Envelope text sent to the agent after a run (parseable `key: value` lines).
+ */
+export function formatConsolidationReport(result: MemoryConsolidationResult, maxChars: number = DEFAULT_MEMORY_LONGTERM_MAX_CHARS): string {
+  const lines = [
+    `memory-consolidation: ${result.status}`,
+    `archived-files: ${result.archivedFiles.join(", ") || "(none)"}`,
+    `memory-chars: ${result.memoryChars} (was ${result.previousChars}; max ${maxChars})`,
+  ];
+  if (result.reason) lines.push(`reason: ${result.reason}`);
+  if (result.previousMemoryPath) lines.push(`previous-memory: ${result.previousMemoryPath}`);
+  if (result.droppedSections.length > 0) {
+    lines.push(`dropped-sections: ${result.droppedSections.join(", ")}`);
+    lines.push(`dropped-sections-file: ${result.droppedSectionsPath}`);
+  }
+  if (result.status === "applied") {
+    lines.push(
+      "",
+      "Old daily memory files were summarized into internal_space/MEMORY.md and moved to internal_space/memories/archive/ (still found by `hiboss memory search`). Review MEMORY.md and fix anything the consolidation got wrong."
+    );
+  }
+  return lines.join("\n");
+}
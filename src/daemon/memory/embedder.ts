@@ -0,0 +1,110 @@
+/**
+ * Local text embeddings for memory search (optional).
+ */
+
+import { spawn } from "node:child_process";
+import { DEFAULT_MEMORY_EMBED_TIMEOUT_MS } from "../../shared/defaults.js";
+import { HIBOSS_MEMORY_EMBED_COMMAND_ENV } from "../../shared/env.js";
+import { errorMessage } from "../../shared/daemon-log.js";
+
+export interface Embedder {
+  /**
+   * Return one vector per input text, in order.
+   */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+function parseVectors(stdout: string, expected: number): Float32Array[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stdout);
+  } catch {
+    throw new Error("Embed command output is not JSON");
+  }
+  if (!Array.isArray(parsed) || parsed.length !== expected) {
+    throw new Error(`Embed command must print a JSON array of ${expected} vector(s)`);
+  }
+  return parsed.map((vector) => {
+    if (!Array.isArray(vector) || vector.length === 0 || !vector.every((n) => typeof n === "number" && Number.isFinite(n))) {
+      throw new Error("Embed command printed an invalid vector");
+    }
+    return Float32Array.from(vector as number[]);
+  });
+}
+
+/**
+ * Runs a shell command per batch: a JSON array of strings on stdin, a JSON array of
+ * number arrays on stdout (e.g. a script wrapping llama.cpp `llama-embedding` or a local server).
+ */
+export class CommandEmbedder implements Embedder {
+  constructor(
+    private readonly command: string,
+    private readonly timeoutMs: number = DEFAULT_MEMORY_EMBED_TIMEOUT_MS
+  ) {}
+
+  embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return Promise.resolve([]);
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, {
+        shell: true,
+        stdio: ["pipe", "pipe", "pipe"],
+        detached: true,
+      });
+      const stdoutChunks: Buffer[] = [];
+      const stderrChunks: Buffer[] = [];
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          if (child.pid) {
+            process.kill(-child.pid, "SIGKILL");
+          } else {
+            child.kill("SIGKILL");
+          }
+        } catch {
+          child.kill("SIGKILL");
+        }
+      }, this.timeoutMs);
+
+      child.stdout?.on("data", (chunk: Buffer) => stdoutChunks.push(chunk));
+      child.stderr?.on("data", (chunk: Buffer) => stderrChunks.push(chunk));
+      // The command may exit without reading stdin; the close handler reports the outcome.
+      child.stdin?.on("error", () => undefined);
+
+      child.on("error", (err) => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to spawn embed command: ${errorMessage(err)}`));
+      });
+
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (timedOut) {
+          reject(new Error(`Embed command timed out after ${this.timeoutMs}ms`));
+          return;
+        }
+        if (code !== 0) {
+          const stderr = Buffer.concat(stderrChunks).toString("utf8").trim().slice(-500);
+          reject(new Error(`Embed command exited with code ${code}${stderr ? `: ${stderr}` : ""}`));
+          return;
+        }
+        try {
+          resolve(parseVectors(Buffer.concat(stdoutChunks).toString("utf8"), texts.length));
+        } catch (err) {
+          reject(err);
+        }
+      });
+
+      child.stdin?.end(JSON.stringify(texts));
+    });
+  }
+}
+
+/**
+ * Build the embedder configured by `HIBOSS_MEMORY_EMBED_COMMAND` (null when unset).
+ */
+export function createEmbedderFromEnv(env: NodeJS.ProcessEnv = process.env): Embedder | null {
+  const command = (env[HIBOSS_MEMORY_EMBED_COMMAND_ENV] ?? "").trim();
+  return command ? new CommandEmbedder(command) : null;
+}
@@ -0,0 +1,110 @@
+/**
+ * Line-based unified diff for memory files (small Markdown; LCS is fine).
+ */
+
+// Above this many LCS cells (old × new changed lines), the changed block is shown as one replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+interface DiffOp {
+  kind: " " | "-" | "+";
+  line: string;
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  return text.replace(/\r?\n$/, "").split(/\r?\n/);
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line) => ({ kind: " ", line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line): DiffOp => ({ kind: "-", line })));
+    ops.push(...midB.map((line): DiffOp => ({ kind: "+", line })));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..].
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i]![j] = midA[i] === midB[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push({ kind: " ", line: midA[i]! });
+        i++;
+        j++;
+      } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+        ops.push({ kind: "-", line: midA[i++]! });
+      } else {
+        ops.push({ kind: "+", line: midB[j++]! });
+      }
+    }
+    while (i < n) ops.push({ kind: "-", line: midA[i++]! });
+    while (j < m) ops.push({ kind: "+", line: midB[j++]! });
+  }
+
+  ops.push(...a.slice(endA).map((line): DiffOp => ({ kind: " ", line })));
+  return ops;
+}
+
+/**
+ * Unified diff (`---`/`+++` headers, `@@` hunks) of two texts, or "" when their lines are equal.
+ */
+export function formatUnifiedDiff(
+  oldText: string,
+  newText: string,
+  labels: { old: string; new: string },
+  context = 3
+): string {
+  let oldNo = 1;
+  let newNo = 1;
+  const ops = diffLines(splitLines(oldText), splitLines(newText)).map((op) => {
+    const entry = { ...op, oldNo, newNo };
+    if (op.kind !== "+") oldNo++;
+    if (op.kind !== "-") newNo++;
+    return entry;
+  });
+
+  const changes = ops.flatMap((op, index) => (op.kind === " " ? [] : [index]));
+  if (changes.length === 0) return "";
+
+  // Group changes whose context windows touch into one hunk.
+  const hunks: Array<{ from: number; to: number }> = [];
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - context <= last.to + 1) {
+      last.to = Math.min(ops.length - 1, index + context);
+    } else {
+      hunks.push({ from: Math.max(0, index - context), to: Math.min(ops.length - 1, index + context) });
+    }
+  }
+
+  const out = [`--- ${labels.old}`, `+++ ${labels.new}`];
+  for (const hunk of hunks) {
+    const lines = ops.slice(hunk.from, hunk.to + 1);
+    const oldCount = lines.filter((op) => op.kind !== "+").length;
+    const newCount = lines.filter((op) => op.kind !== "-").length;
+    const first = lines[0]!;
+    const oldStart = oldCount === 0 ? first.oldNo - 1 : first.oldNo;
+    const newStart = newCount === 0 ? first.newNo - 1 : first.newNo;
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of lines) out.push(`${op.kind}${op.line}`);
+  }
+  return out.join("\n");
+}
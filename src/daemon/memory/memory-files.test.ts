@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { formatUnifiedDiff } from "./line-diff.js";
+import { appendMemoryFile, isValidMemoryDay, listMemoryDays, readMemoryFile, writeMemoryFile } from "./memory-files.js";
+
+test("unified diff shows changed lines with context hunks", () => {
+  const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n") + "\n";
+  const after = ["a", "B", "c", "d", "e", "f", "g", "h", "i", "j", "k"].join("\n") + "\n";
+  assert.equal(
+    formatUnifiedDiff(before, after, { old: "a/MEMORY.md", new: "b/MEMORY.md" }, 1),
+    [
+      "--- a/MEMORY.md",
+      "+++ b/MEMORY.md",
+      "@@ -1,3 +1,3 @@",
+      " a",
+      "-b",
+      "+B",
+      " c",
+      "@@ -10,1 +10,2 @@",
+      " j",
+      "+k",
+    ].join("\n")
+  );
+  assert.equal(formatUnifiedDiff("same\n", "same", { old: "a", new: "b" }), "");
+  assert.equal(formatUnifiedDiff("", "new\n", { old: "a", new: "b" }), "--- a\n+++ b\n@@ -0,0 +1,1 @@\n+new");
+});
+
+test("memory targets read, append, and list by day", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-memory-files-test-"));
+  try {
+    assert.deepEqual(readMemoryFile(dir), { path: "MEMORY.md", content: "", archived: false });
+    assert.equal(readMemoryFile(dir, "2025-01-02"), null);
+
+    assert.equal(appendMemoryFile(dir, "first", "2025-01-02"), "first\n");
+    assert.equal(appendMemoryFile(dir, "second\n\n", "2025-01-02"), "first\nsecond\n");
+    writeMemoryFile(dir, "## Boss\n- tea\n");
+    assert.equal(readMemoryFile(dir)?.content, "## Boss\n- tea\n");
+
+    fs.mkdirSync(path.join(dir, "memories", "archive"));
+    fs.writeFileSync(path.join(dir, "memories", "archive", "2024-12-30.md"), "old\n");
+    assert.deepEqual(readMemoryFile(dir, "2024-12-30"), {
+      path: "memories/archive/2024-12-30.md",
+      content: "old\n",
+      archived: true,
+    });
+    assert.deepEqual(listMemoryDays(dir).map((d) => d.day), ["2025-01-02"]);
+    assert.deepEqual(
+      listMemoryDays(dir, { includeArchived: true }).map((d) => [d.day, d.chars, d.archived]),
+      [["2025-01-02", 13, false], ["2024-12-30", 4, true]]
+    );
+
+    assert.equal(isValidMemoryDay("2025-02-30"), false);
+    assert.equal(isValidMemoryDay("../MEMORY"), false);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,126 @@
+/**
+ * Reads and writes of agent memory files for the `memory.*` RPCs.
+ *
+ * Targets are addressed without the on-disk layout: no day = `MEMORY.md`, a `YYYY-MM-DD`
+ * day = `memories/<day>.md` (reads fall back to `memories/archive/<day>.md`).
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+const MEMORY_FILENAME = "MEMORY.md";
+const DAILY_MEMORIES_DIRNAME = "memories";
+const ARCHIVE_DIRNAME = "archive";
+const DAY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DAILY_MEMORY_FILENAME_REGEX = /^(\d{4}-\d{2}-\d{2})\.md$/;
+
+export interface MemoryDayFile {
+  day: string;
+  /** Relative to internal_space, `/`-separated. */
+  path: string;
+  chars: number;
+  archived: boolean;
+}
+
+export function isValidMemoryDay(day: string): boolean {
+  if (!DAY_REGEX.test(day)) return false;
+  const parsed = new Date(`${day}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === day;
+}
+
+/**
+ * Relative path of a memory target (`MEMORY.md` or `memories/<day>.md`).
+ */
+export function getMemoryFilePath(day?: string): string {
+  return day ? `${DAILY_MEMORIES_DIRNAME}/${day}.md` : MEMORY_FILENAME;
+}
+
+export function hashMemoryContent(content: string): string {
+  return crypto.createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+/**
+ * Write via a temp file + rename so readers (and crashes) never see a partial file.
+ */
+export function writeFileAtomic(filePath: string, text: string): void {
+  const tmpPath = `${filePath}.tmp-${process.pid}`;
+  fs.writeFileSync(tmpPath, text, "utf8");
+  fs.renameSync(tmpPath, filePath);
+}
+
+function readFileOrNull(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/**
+ * Read a memory target. Missing MEMORY.md reads as empty; a missing day returns null.
+ */
+export function readMemoryFile(
+  internalSpaceDir: string,
+  day?: string
+): { path: string; content: string; archived: boolean } | null {
+  const relativePath = getMemoryFilePath(day);
+  const content = readFileOrNull(path.join(internalSpaceDir, relativePath));
+  if (content !== null) return { path: relativePath, content, archived: false };
+  if (!day) return { path: relativePath, content: "", archived: false };
+
+  const archivedPath = `${DAILY_MEMORIES_DIRNAME}/${ARCHIVE_DIRNAME}/${day}.md`;
+  const archived = readFileOrNull(path.join(internalSpaceDir, archivedPath));
+  return archived === null ? null : { path: archivedPath, content: archived, archived: true };
+}
+
+/**
+ * Replace a memory target's content (creates the daily file if missing).
+ */
+export function writeMemoryFile(internalSpaceDir: string, content: string, day?: string): void {
+  const filePath = path.join(internalSpaceDir, getMemoryFilePath(day));
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileAtomic(filePath, content);
+}
+
+/**
+ * Append text as new line(s) to a memory target; returns the full new content.
+ */
+export function appendMemoryFile(internalSpaceDir: string, text: string, day?: string): string {
+  const relativePath = getMemoryFilePath(day);
+  const current = readFileOrNull(path.join(internalSpaceDir, relativePath)) ?? "";
+  const separator = current && !current.endsWith("\n") ? "\n" : "";
+  const next = `${current}${separator}${text.replace(/\n*$/, "")}\n`;
+  writeMemoryFile(internalSpaceDir, next, day);
+  return next;
+}
+
+function listDayFiles(internalSpaceDir: string, relativeDir: string, archived: boolean): MemoryDayFile[] {
+  let names: string[] = [];
+  try {
+    names = fs.readdirSync(path.join(internalSpaceDir, relativeDir));
+  } catch {
+    return [];
+  }
+  const days: MemoryDayFile[] = [];
+  for (const name of names) {
+    const match = DAILY_MEMORY_FILENAME_REGEX.exec(name);
+    if (!match) continue;
+    const content = readFileOrNull(path.join(internalSpaceDir, relativeDir, name));
+    if (content === null) continue;
+    days.push({ day: match[1]!, path: `${relativeDir}/${name}`, chars: content.length, archived });
+  }
+  return days;
+}
+
+/**
+ * Daily memory files, newest first (archived ones only when asked).
+ */
+export function listMemoryDays(internalSpaceDir: string, options: { includeArchived?: boolean } = {}): MemoryDayFile[] {
+  const days = listDayFiles(internalSpaceDir, DAILY_MEMORIES_DIRNAME, false);
+  if (options.includeArchived) {
+    days.push(...listDayFiles(internalSpaceDir, `${DAILY_MEMORIES_DIRNAME}/${ARCHIVE_DIRNAME}`, true));
+  }
+  return days.sort((a, b) => b.day.localeCompare(a.day) || Number(a.archived) - Number(b.archived));
+}
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { HiBossDatabase } from "../db/database.js";
+import { hashMemoryContent } from "./memory-files.js";
+import { formatMemorySnapshotDiff, restoreAgentMemory, snapshotAgentMemory } from "./memory-history.js";
+
+test("snapshots record changed files per run and restore rolls them back", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-memory-history-test-"));
+  const internalSpaceDir = path.join(dir, "internal_space");
+  fs.mkdirSync(path.join(internalSpaceDir, "memories"), { recursive: true });
+  const db = new HiBossDatabase(path.join(dir, "hiboss.db"));
+  const write = (rel: string, text: string) => fs.writeFileSync(path.join(internalSpaceDir, rel), text);
+  const read = (rel: string) => fs.readFileSync(path.join(internalSpaceDir, rel), "utf8");
+  const snapshot = (runId?: string) =>
+    snapshotAgentMemory({ db, agentName: "nex", internalSpaceDir, reason: runId ? "run" : "outside-run", runId });
+
+  try {
+    write("MEMORY.md", "- boss likes tea\n");
+    const baseline = snapshot();
+    assert.equal(baseline?.reason, "baseline");
+    assert.equal(snapshot(), null);
+
+    write("MEMORY.md", "");
+    write("memories/2025-01-02.md", "wiped memory\n");
+    const bad = snapshotAgentMemory({
+      db,
+      agentName: "nex",
+      internalSpaceDir,
+      reason: "run",
+      runId: "run-1",
+      runStatus: "failed",
+    });
+    assert.equal(bad?.runId, "run-1");
+    assert.equal(db.listMemorySnapshots("nex", { limit: 1 })[0]?.runStatus, "failed");
+    assert.equal(
+      formatMemorySnapshotDiff(db, "nex", bad!.id),
+      [
+        "--- a/MEMORY.md",
+        "+++ b/MEMORY.md",
+        "@@ -1,1 +0,0 @@",
+        "-- boss likes tea",
+        "--- /dev/null",
+        "+++ b/memories/2025-01-02.md",
+        "@@ -0,0 +1,1 @@",
+        "+wiped memory",
+      ].join("\n")
+    );
+
+    write("MEMORY.md", "unsnapshotted edit\n");
+    const restored = restoreAgentMemory({ db, agentName: "nex", internalSpaceDir, target: baseline! });
+    assert.deepEqual(restored.changedPaths, ["MEMORY.md", "memories/2025-01-02.md"]);
+    assert.equal(restored.snapshot?.restoredFrom, baseline!.id);
+    assert.equal(read("MEMORY.md"), "- boss likes tea\n");
+    assert.equal(fs.existsSync(path.join(internalSpaceDir, "memories", "2025-01-02.md")), false);
+
+    // The pre-restore edit was kept, so the restore can be undone.
+    assert.deepEqual(
+      db.listMemorySnapshots("nex", { limit: 10 }).map((s) => s.reason),
+      ["restore", "outside-run", "run", "baseline"]
+    );
+    const undo = db.listMemorySnapshots("nex", { limit: 10 })[1]!;
+    restoreAgentMemory({ db, agentName: "nex", internalSpaceDir, target: undo });
+    assert.equal(read("MEMORY.md"), "unsnapshotted edit\n");
+
+    db.deleteMemoryHistory("nex");
+    assert.deepEqual(db.listMemorySnapshots("nex", { limit: 10 }), []);
+    assert.equal(db.getMemoryHeads("nex").size, 0);
+  } finally {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("old snapshots fold into a baseline that still restores, and unused contents are dropped", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-memory-history-prune-test-"));
+  const internalSpaceDir = path.join(dir, "internal_space");
+  fs.mkdirSync(path.join(internalSpaceDir, "memories"), { recursive: true });
+  const db = new HiBossDatabase(path.join(dir, "hiboss.db"));
+  const write = (rel: string, text: string) => fs.writeFileSync(path.join(internalSpaceDir, rel), text);
+  const snapshot = (runId: string) =>
+    snapshotAgentMemory({ db, agentName: "nex", internalSpaceDir, reason: "run", runId, maxSnapshots: 3 });
+
+  try {
+    write("memories/2025-01-01.md", "kept\n");
+    write("MEMORY.md", "v1\n");
+    snapshot("run-1");
+    write("MEMORY.md", "v2\n");
+    snapshot("run-2");
+    write("MEMORY.md", "v3\n");
+    const third = snapshot("run-3")!;
+    write("MEMORY.md", "v4\n");
+    snapshot("run-4");
+
+    const history = db.listMemorySnapshots("nex", { limit: 10 });
+    assert.deepEqual(
+      history.map((s) => [s.runId, s.reason]),
+      [
+        ["run-4", "run"],
+        ["run-3", "run"],
+        ["run-2", "baseline"],
+      ]
+    );
+    assert.equal(db.getMemoryBlob(hashMemoryContent("v1\n")), null);
+    assert.equal(formatMemorySnapshotDiff(db, "nex", third.id), [
+      "--- a/MEMORY.md",
+      "+++ b/MEMORY.md",
+      "@@ -1,1 +1,1 @@",
+      "-v2",
+      "+v3",
+    ].join("\n"));
+
+    restoreAgentMemory({ db, agentName: "nex", internalSpaceDir, target: history[2]! });
+    assert.equal(fs.readFileSync(path.join(internalSpaceDir, "MEMORY.md"), "utf8"), "v2\n");
+    assert.equal(fs.readFileSync(path.join(internalSpaceDir, "memories", "2025-01-01.md"), "utf8"), "kept\n");
+    assert.equal(db.listMemorySnapshots("nex", { limit: 1 })[0]?.restoredFrom, history[2]!.id);
+  } finally {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,215 @@
+/**
+ * Memory version history.
+ *
+ * The daemon snapshots an agent's memory files (the files the search index covers) around
+ * every run. A snapshot stores only the files that changed since the previous one (diffed
+ * against the head manifest in `memory_heads`); file contents live once per sha256 in
+ * `memory_blobs`. Replaying the changes in order rebuilds the memory as of any snapshot, which
+ * is what `hiboss memory restore` writes back. Only the newest snapshots are kept: older ones
+ * are folded into the oldest kept snapshot, which becomes the baseline.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  AgentRunStatus,
+  HiBossDatabase,
+  MemorySnapshot,
+  MemorySnapshotChange,
+  MemorySnapshotReason,
+} from "../db/database.js";
+import { DEFAULT_MEMORY_HISTORY_MAX_SNAPSHOTS } from "../../shared/defaults.js";
+import { listMemoryFiles } from "./memory-index.js";
+import { hashMemoryContent, writeFileAtomic } from "./memory-files.js";
+import { formatUnifiedDiff } from "./line-diff.js";
+
+/**
+ * Memory files on disk now (path relative to internal_space -> content).
+ */
+function readMemoryFiles(internalSpaceDir: string): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const file of listMemoryFiles(internalSpaceDir)) {
+    try {
+      files.set(file.path, fs.readFileSync(path.join(internalSpaceDir, file.path), "utf8"));
+    } catch {
+      // Removed between listing and reading; treated as absent.
+    }
+  }
+  return files;
+}
+
+/**
+ * Replay snapshot changes into a state (path -> content hash).
+ */
+export function replayMemoryState(changes: MemorySnapshotChange[]): Map<string, string> {
+  const state = new Map<string, string>();
+  for (const change of changes) {
+    if (change.contentHash === null) {
+      state.delete(change.path);
+    } else {
+      state.set(change.path, change.contentHash);
+    }
+  }
+  return state;
+}
+
+/**
+ * Record the memory files that changed since the last snapshot; null when nothing changed.
+ *
+ * The first snapshot of an agent taken outside a run is its `baseline`. Snapshots beyond
+ * `maxSnapshots` are pruned afterwards.
+ */
+export function snapshotAgentMemory(params: {
+  db: HiBossDatabase;
+  agentName: string;
+  internalSpaceDir: string;
+  reason: MemorySnapshotReason;
+  runId?: string;
+  runStatus?: AgentRunStatus;
+  restoredFrom?: string;
+  maxSnapshots?: number;
+}): MemorySnapshot | null {
+  const recorded = params.db.getMemoryHeads(params.agentName);
+  const current = readMemoryFiles(params.internalSpaceDir);
+
+  const changes: Array<{ path: string; contentHash: string | null; content: string | null }> = [];
+  for (const [filePath, content] of current) {
+    const contentHash = hashMemoryContent(content);
+    if (recorded.get(filePath) !== contentHash) {
+      changes.push({ path: filePath, contentHash, content });
+    }
+  }
+  for (const filePath of recorded.keys()) {
+    if (!current.has(filePath)) {
+      changes.push({ path: filePath, contentHash: null, content: null });
+    }
+  }
+  if (changes.length === 0) return null;
+
+  const isFirst = params.db.countMemorySnapshots(params.agentName) === 0;
+  const reason = isFirst && params.reason === "outside-run" ? "baseline" : params.reason;
+  const snapshot = params.db.insertMemorySnapshot({
+    agentName: params.agentName,
+    runId: params.runId,
+    runStatus: params.runStatus,
+    reason,
+    restoredFrom: params.restoredFrom,
+    changes,
+  });
+  pruneMemoryHistory(params.db, params.agentName, params.maxSnapshots ?? DEFAULT_MEMORY_HISTORY_MAX_SNAPSHOTS);
+  return snapshot;
+}
+
+/**
+ * Keep at most `maxSnapshots` snapshots of an agent; returns how many were removed.
+ *
+ * The oldest kept snapshot becomes the baseline: it takes over the full memory state as of
+ * itself, so restoring it (or anything newer) still works.
+ */
+export function pruneMemoryHistory(db: HiBossDatabase, agentName: string, maxSnapshots: number): number {
+  const excess = db.countMemorySnapshots(agentName) - Math.max(1, maxSnapshots);
+  if (excess <= 0) return 0;
+
+  const folded = db.listMemorySnapshots(agentName, { limit: excess + 1, oldestFirst: true });
+  const baseline = folded[folded.length - 1]!;
+  db.squashMemorySnapshots({
+    agentName,
+    baselineId: baseline.id,
+    dropIds: folded.slice(0, -1).map((s) => s.id),
+    state: replayMemoryState(db.getMemorySnapshotChanges(agentName, { oldestSnapshots: excess + 1 })),
+  });
+  return excess;
+}
+
+/**
+ * Paths changed by each snapshot (snapshot id -> sorted paths).
+ */
+export function getMemorySnapshotPaths(db: HiBossDatabase, agentName: string): Map<string, string[]> {
+  const paths = new Map<string, string[]>();
+  for (const change of db.getMemorySnapshotChanges(agentName)) {
+    const list = paths.get(change.snapshotId) ?? [];
+    list.push(change.path);
+    paths.set(change.snapshotId, list);
+  }
+  return paths;
+}
+
+/**
+ * Unified diff of what one snapshot changed, file by file.
+ */
+export function formatMemorySnapshotDiff(db: HiBossDatabase, agentName: string, snapshotId: string): string {
+  const changes = db.getMemorySnapshotChanges(agentName);
+  const firstIndex = changes.findIndex((c) => c.snapshotId === snapshotId);
+  if (firstIndex < 0) return "";
+  const before = replayMemoryState(changes.slice(0, firstIndex));
+
+  const readBlob = (hash: string | null | undefined): string => (hash ? db.getMemoryBlob(hash) ?? "" : "");
+  const diffs: string[] = [];
+  for (const change of changes.slice(firstIndex)) {
+    if (change.snapshotId !== snapshotId) break;
+    const previousHash = before.get(change.path);
+    const diff = formatUnifiedDiff(readBlob(previousHash), readBlob(change.contentHash), {
+      old: previousHash ? `a/${change.path}` : "/dev/null",
+      new: change.contentHash ? `b/${change.path}` : "/dev/null",
+    });
+    if (diff) diffs.push(diff);
+  }
+  return diffs.join("\n");
+}
+
+/**
+ * Roll an agent's memory files back to their state as of `target`.
+ *
+ * Unsnapshotted edits are snapshotted first, so a restore can itself be undone by restoring
+ * that snapshot. Memory files that did not exist at `target` are removed.
+ */
+export function restoreAgentMemory(params: {
+  db: HiBossDatabase;
+  agentName: string;
+  internalSpaceDir: string;
+  target: MemorySnapshot;
+}): { snapshot: MemorySnapshot | null; changedPaths: string[] } {
+  // Not pruned here: that could fold `target` into the baseline before it is read.
+  snapshotAgentMemory({ ...params, reason: "outside-run", maxSnapshots: Number.POSITIVE_INFINITY });
+
+  const history = params.db.listMemorySnapshots(params.agentName, {
+    limit: params.db.countMemorySnapshots(params.agentName),
+    oldestFirst: true,
+  });
+  const position = history.findIndex((s) => s.id === params.target.id) + 1;
+  if (position === 0) {
+    throw new Error(`Memory snapshot ${params.target.id} is no longer in the history`);
+  }
+  const wanted = replayMemoryState(params.db.getMemorySnapshotChanges(params.agentName, { oldestSnapshots: position }));
+  const current = readMemoryFiles(params.internalSpaceDir);
+  const root = path.resolve(params.internalSpaceDir);
+  const resolveInside = (relativePath: string): string => {
+    const resolved = path.resolve(root, relativePath);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to restore outside internal_space: ${relativePath}`);
+    }
+    return resolved;
+  };
+
+  const changedPaths: string[] = [];
+  for (const [relativePath, contentHash] of wanted) {
+    const content = current.get(relativePath);
+    if (content !== undefined && hashMemoryContent(content) === contentHash) continue;
+    const restored = params.db.getMemoryBlob(contentHash);
+    if (restored === null) {
+      throw new Error(`Missing stored content for ${relativePath} (${contentHash})`);
+    }
+    const filePath = resolveInside(relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileAtomic(filePath, restored);
+    changedPaths.push(relativePath);
+  }
+  for (const relativePath of current.keys()) {
+    if (wanted.has(relativePath)) continue;
+    fs.rmSync(resolveInside(relativePath), { force: true });
+    changedPaths.push(relativePath);
+  }
+
+  const snapshot = snapshotAgentMemory({ ...params, reason: "restore", restoredFrom: params.target.id });
+  return { snapshot, changedPaths: changedPaths.sort() };
+}
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { HiBossDatabase } from "../db/database.js";
+import type { Embedder } from "./embedder.js";
+import { buildMemoryFtsQuery, chunkMemoryText, searchAgentMemory } from "./memory-index.js";
+
+async function withInternalSpace(
+  run: (ctx: { db: HiBossDatabase; internalSpaceDir: string; write: (rel: string, text: string) => void }) => Promise<void>
+): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-memory-index-test-"));
+  const internalSpaceDir = path.join(dir, "internal_space");
+  fs.mkdirSync(path.join(internalSpaceDir, "memories"), { recursive: true });
+  const db = new HiBossDatabase(path.join(dir, "hiboss.db"));
+  const write = (rel: string, text: string) => fs.writeFileSync(path.join(internalSpaceDir, rel), text);
+  try {
+    await run({ db, internalSpaceDir, write });
+  } finally {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("chunks follow paragraphs and split long ones at line boundaries", () => {
+  assert.deepEqual(chunkMemoryText("a\nb\n\n\nc\n"), [
+    { line: 1, content: "a\nb" },
+    { line: 5, content: "c" },
+  ]);
+  assert.deepEqual(chunkMemoryText("aaaa\nbbbb\ncccc", 10), [
+    { line: 1, content: "aaaa\nbbbb" },
+    { line: 3, content: "cccc" },
+  ]);
+});
+
+test("free-text queries are quoted and OR-ed", () => {
+  assert.equal(buildMemoryFtsQuery('Boss "tea" OR NEAR(x)'), '"boss" OR "tea" OR "or" OR "near" OR "x"');
+  assert.equal(buildMemoryFtsQuery("?!"), null);
+});
+
+test("search finds old daily memories and follows file edits and deletions", async () => {
+  await withInternalSpace(async ({ db, internalSpaceDir, write }) => {
+    write("MEMORY.md", "Boss prefers concise bullet summaries.\n");
+    write("memories/2025-01-03.md", "Deployed the billing service to staging.\nBoss drinks oolong tea in the afternoon.\n");
+    write("memories/2025-01-04.md", "Reviewed the quarterly roadmap.\n");
+
+    const search = (query: string) =>
+      searchAgentMemory({ db, agentName: "nex", internalSpaceDir, query, limit: 5 });
+
+    const first = await search("what tea does the boss drink");
+    assert.equal(first.mode, "fts");
+    assert.equal(first.hits[0]?.path, "memories/2025-01-03.md");
+    assert.equal(first.hits[0]?.line, 1);
+    assert.match(first.hits[0]!.text, /oolong/);
+
+    // Stemming: "deploying" matches "Deployed".
+    assert.equal((await search("deploying billing")).hits[0]?.path, "memories/2025-01-03.md");
+
+    write("memories/2025-01-04.md", "Reviewed the quarterly roadmap with finance.\n");
+    fs.utimesSync(path.join(internalSpaceDir, "memories/2025-01-04.md"), new Date(), new Date(Date.now() + 5_000));
+    assert.equal((await search("finance")).hits[0]?.path, "memories/2025-01-04.md");
+
+    fs.rmSync(path.join(internalSpaceDir, "memories/2025-01-03.md"));
+    assert.deepEqual((await search("oolong")).hits, []);
+    assert.deepEqual(db.getMemoryFiles("nex").map((f) => f.path).sort(), ["MEMORY.md", "memories/2025-01-04.md"]);
+  });
+});
+
+test("an embedder adds semantic matches that share no words with the query", async () => {
+  // Toy embedding: "beverage" and "tea" point the same way.
+  const embedder: Embedder = {
+    embed: async (texts) =>
+      texts.map((t) => Float32Array.from([/tea|beverage/i.test(t) ? 1 : 0, /roadmap/i.test(t) ? 1 : 0, 0.1])),
+  };
+
+  await withInternalSpace(async ({ db, internalSpaceDir, write }) => {
+    write("memories/2025-01-03.md", "Boss drinks oolong tea.\n\nReviewed the roadmap.\n");
+
+    const result = await searchAgentMemory({
+      db,
+      agentName: "nex",
+      internalSpaceDir,
+      query: "favourite beverage",
+      limit: 1,
+      embedder,
+    });
+    assert.equal(result.mode, "hybrid");
+    assert.match(result.hits[0]!.text, /oolong/);
+
+    const failing: Embedder = { embed: async () => { throw new Error("model not loaded"); } };
+    const fallback = await searchAgentMemory({ db, agentName: "nex", internalSpaceDir, query: "roadmap", limit: 1, embedder: failing });
+    assert.equal(fallback.mode, "fts");
+    assert.match(fallback.hits[0]!.text, /roadmap/);
+  });
+});
+
+test("a slow embedder does not hold up the search: unembedded chunks are found by full-text", async () => {
+  let release: () => void = () => undefined;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const embedder: Embedder = {
+    embed: async (texts) => {
+      // Index batches wait for the test; the query embeds at once.
+      if (texts.length > 1) await released;
+      return texts.map((t) => Float32Array.from([/tea|beverage/i.test(t) ? 1 : 0, /roadmap/i.test(t) ? 1 : 0, 0.1]));
+    },
+  };
+
+  await withInternalSpace(async ({ db, internalSpaceDir, write }) => {
+    write("memories/2025-01-03.md", "Boss drinks oolong tea.\n\nReviewed the roadmap.\n");
+    const search = (query: string) =>
+      searchAgentMemory({ db, agentName: "nex", internalSpaceDir, query, limit: 1, embedder, embedWaitMs: 50 });
+
+    const pending = await search("roadmap");
+    assert.equal(pending.mode, "fts");
+    assert.match(pending.hits[0]!.text, /roadmap/);
+
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const ready = await search("favourite beverage");
+    assert.equal(ready.mode, "hybrid");
+    assert.match(ready.hits[0]!.text, /oolong/);
+  });
+});
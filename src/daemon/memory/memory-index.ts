@@ -0,0 +1,315 @@
+/**
+ * Search index over agent memory files (`internal_space/MEMORY.md`, `internal_space/memories/*.md`,
+ * `internal_space/memories/archive/*.md`).
+ *
+ * The files stay the source of truth; the SQLite FTS5 index is a cache that is brought up to
+ * date (by mtime/size) before each search. With an embedder, chunk vectors are computed lazily
+ * by a background job per agent and vector similarity is fused with full-text ranking.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { HiBossDatabase, MemoryChunk, MemoryFileRecord } from "../db/database.js";
+import type { MemorySearchHit, MemorySearchResult } from "../ipc/types.js";
+import type { Embedder } from "./embedder.js";
+import {
+  DEFAULT_MEMORY_EMBED_BATCH_SIZE,
+  DEFAULT_MEMORY_EMBED_SEARCH_WAIT_MS,
+  DEFAULT_MEMORY_SEARCH_CHUNK_MAX_CHARS,
+} from "../../shared/defaults.js";
+import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+
+const MEMORY_FILENAME = "MEMORY.md";
+const DAILY_MEMORIES_DIRNAME = "memories";
+const ARCHIVE_DIRNAME = "archive";
+// Reciprocal rank fusion constant (standard value; dampens the weight of top ranks).
+const RRF_K = 60;
+
+// In-flight embedding jobs (database -> agent name -> job), so concurrent searches share one.
+const embeddingJobs = new WeakMap<HiBossDatabase, Map<string, Promise<void>>>();
+
+/**
+ * Split a memory file into chunks of whole lines: paragraphs, with long paragraphs
+ * split at line boundaries so each chunk stays under `maxChars` (single long lines are kept whole).
+ */
+export function chunkMemoryText(
+  text: string,
+  maxChars: number = DEFAULT_MEMORY_SEARCH_CHUNK_MAX_CHARS
+): Array<{ line: number; content: string }> {
+  const chunks: Array<{ line: number; content: string }> = [];
+  let current: string[] = [];
+  let currentLine = 0;
+  let currentChars = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push({ line: currentLine, content: current.join("\n") });
+    }
+    current = [];
+    currentChars = 0;
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trimEnd();
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    if (current.length > 0 && currentChars + line.length + 1 > maxChars) {
+      flush();
+    }
+    if (current.length === 0) {
+      currentLine = i + 1;
+    }
+    current.push(line);
+    currentChars += line.length + 1;
+  }
+  flush();
+  return chunks;
+}
+
+function statFile(internalSpaceDir: string, relativePath: string): MemoryFileRecord | null {
+  try {
+    const stat = fs.statSync(path.join(internalSpaceDir, relativePath));
+    if (!stat.isFile()) return null;
+    return { path: relativePath, mtimeMs: Math.trunc(stat.mtimeMs), size: stat.size };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Memory files currently on disk (paths relative to internal_space, `/`-separated).
+ */
+export function listMemoryFiles(internalSpaceDir: string): MemoryFileRecord[] {
+  const files: MemoryFileRecord[] = [];
+  const memory = statFile(internalSpaceDir, MEMORY_FILENAME);
+  if (memory) files.push(memory);
+
+  let names: string[] = [];
+  try {
+    names = fs.readdirSync(path.join(internalSpaceDir, DAILY_MEMORIES_DIRNAME));
+  } catch {
+    // No daily memories yet.
+  }
+  for (const name of names.filter((n) => n.endsWith(".md")).sort()) {
+    const file = statFile(internalSpaceDir, `${DAILY_MEMORIES_DIRNAME}/${name}`);
+    if (file) files.push(file);
+  }
+
+  // Daily files folded into MEMORY.md by consolidation stay searchable.
+  let archived: string[] = [];
+  try {
+    archived = fs.readdirSync(path.join(internalSpaceDir, DAILY_MEMORIES_DIRNAME, ARCHIVE_DIRNAME));
+  } catch {
+    // Nothing archived yet.
+  }
+  for (const name of archived.filter((n) => n.endsWith(".md")).sort()) {
+    const file = statFile(internalSpaceDir, `${DAILY_MEMORIES_DIRNAME}/${ARCHIVE_DIRNAME}/${name}`);
+    if (file) files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Bring an agent's index in line with its memory files (re-chunks changed files, drops removed ones).
+ */
+export function syncAgentMemoryIndex(
+  db: HiBossDatabase,
+  agentName: string,
+  internalSpaceDir: string
+): { indexed: number; removed: number } {
+  const indexed = new Map(db.getMemoryFiles(agentName).map((file) => [file.path, file]));
+  let indexedCount = 0;
+
+  for (const file of listMemoryFiles(internalSpaceDir)) {
+    const previous = indexed.get(file.path);
+    indexed.delete(file.path);
+    if (previous && previous.mtimeMs === file.mtimeMs && previous.size === file.size) continue;
+
+    let text: string;
+    try {
+      text = fs.readFileSync(path.join(internalSpaceDir, file.path), "utf8");
+    } catch {
+      continue;
+    }
+    db.replaceMemoryFileChunks(agentName, file, chunkMemoryText(text));
+    indexedCount++;
+  }
+
+  for (const stale of indexed.keys()) {
+    db.deleteMemoryFile(agentName, stale);
+  }
+  return { indexed: indexedCount, removed: indexed.size };
+}
+
+/**
+ * Turn free text into an FTS5 query: each word is quoted (no operator syntax) and
+ * words are OR-ed, so bm25 ranks chunks matching more of them first.
+ */
+export function buildMemoryFtsQuery(query: string): string | null {
+  const words = query.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  const unique = [...new Set(words.map((w) => w.toLowerCase()))];
+  if (unique.length === 0) return null;
+  return unique.map((w) => `"${w}"`).join(" OR ");
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+async function embedMissingChunks(db: HiBossDatabase, agentName: string, embedder: Embedder): Promise<void> {
+  while (true) {
+    const batch = db.getMemoryChunksWithoutEmbedding(agentName, DEFAULT_MEMORY_EMBED_BATCH_SIZE);
+    if (batch.length === 0) return;
+    const vectors = await embedder.embed(batch.map((chunk) => chunk.content));
+    db.setMemoryChunkEmbeddings(
+      agentName,
+      batch.map((chunk, i) => ({ chunkId: chunk.id, vector: vectors[i]! }))
+    );
+  }
+}
+
+/**
+ * Start (or join) the background job embedding an agent's chunks that have no vector yet.
+ */
+function startEmbeddingJob(db: HiBossDatabase, agentName: string, embedder: Embedder): Promise<void> {
+  let jobs = embeddingJobs.get(db);
+  if (!jobs) {
+    jobs = new Map();
+    embeddingJobs.set(db, jobs);
+  }
+  let job = jobs.get(agentName);
+  if (!job) {
+    job = embedMissingChunks(db, agentName, embedder)
+      .catch((err) => {
+        logEvent("warn", "memory-embed-failed", { "agent-name": agentName, error: errorMessage(err) });
+      })
+      .finally(() => jobs.delete(agentName));
+    jobs.set(agentName, job);
+  }
+  return job;
+}
+
+/**
+ * Settle `promise` or give up after `ms` (the promise keeps running).
+ */
+async function settleWithin<T>(promise: Promise<T>, ms: number): Promise<{ done: true; value: T } | { done: false }> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<{ done: false }>((resolve) => {
+    timer = setTimeout(() => resolve({ done: false }), Math.max(0, ms));
+  });
+  try {
+    return await Promise.race([promise.then((value) => ({ done: true as const, value })), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Nearest embedded chunks to the query; empty while nothing is embedded yet.
+ *
+ * Waits for the agent's embedding job only up to the search budget.
+ */
+async function searchByVector(params: {
+  db: HiBossDatabase;
+  agentName: string;
+  query: string;
+  embedder: Embedder;
+  limit: number;
+  waitMs: number;
+}): Promise<MemoryChunk[]> {
+  const deadline = Date.now() + params.waitMs;
+  await settleWithin(startEmbeddingJob(params.db, params.agentName, params.embedder), deadline - Date.now());
+  const embedded = await settleWithin(params.embedder.embed([params.query]), deadline - Date.now());
+  if (!embedded.done) {
+    throw new Error(`Query embedding took over ${params.waitMs}ms`);
+  }
+  const [queryVector] = embedded.value;
+  return params.db
+    .getMemoryChunkEmbeddings(params.agentName)
+    // Vectors from a different embedding model (other dimension) cannot be compared.
+    .filter((chunk) => chunk.vector.length === queryVector!.length)
+    .map((chunk) => ({ chunk, similarity: cosineSimilarity(chunk.vector, queryVector!) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, params.limit)
+    .map(({ chunk }) => chunk);
+}
+
+function toHit(chunk: MemoryChunk, score: number): MemorySearchHit {
+  return { path: chunk.path, line: chunk.line, text: chunk.content, score: Math.round(score * 10_000) / 10_000 };
+}
+
+/**
+ * Search an agent's memory files. Throws when the query has no searchable words.
+ *
+ * Embedding failures are logged and the search falls back to full-text only; chunks still
+ * waiting for a vector are found by full-text until the background job reaches them.
+ */
+export async function searchAgentMemory(params: {
+  db: HiBossDatabase;
+  agentName: string;
+  internalSpaceDir: string;
+  query: string;
+  limit: number;
+  embedder?: Embedder | null;
+  /** Budget for waiting on embeddings within this search. */
+  embedWaitMs?: number;
+}): Promise<MemorySearchResult> {
+  const { db, agentName, limit } = params;
+  const matchQuery = buildMemoryFtsQuery(params.query);
+  if (!matchQuery) {
+    throw new Error("Query has no searchable words");
+  }
+
+  syncAgentMemoryIndex(db, agentName, params.internalSpaceDir);
+  const candidateLimit = params.embedder ? limit * 3 : limit;
+  const ftsMatches = db.searchMemoryChunks(agentName, matchQuery, candidateLimit);
+
+  if (!params.embedder) {
+    return { agentName, mode: "fts", hits: ftsMatches.map((chunk) => toHit(chunk, -chunk.score)) };
+  }
+
+  let vectorMatches: MemoryChunk[];
+  try {
+    vectorMatches = await searchByVector({
+      db,
+      agentName,
+      query: params.query,
+      embedder: params.embedder,
+      limit: candidateLimit,
+      waitMs: params.embedWaitMs ?? DEFAULT_MEMORY_EMBED_SEARCH_WAIT_MS,
+    });
+  } catch (err) {
+    logEvent("warn", "memory-embed-failed", { "agent-name": agentName, error: errorMessage(err) });
+    vectorMatches = [];
+  }
+  if (vectorMatches.length === 0) {
+    return { agentName, mode: "fts", hits: ftsMatches.slice(0, limit).map((chunk) => toHit(chunk, -chunk.score)) };
+  }
+
+  // Reciprocal rank fusion: chunks ranked well by either list (or both) come first.
+  const fused = new Map<number, { chunk: MemoryChunk; score: number }>();
+  for (const ranked of [ftsMatches, vectorMatches]) {
+    ranked.forEach((chunk, rank) => {
+      const entry = fused.get(chunk.id) ?? { chunk, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      fused.set(chunk.id, entry);
+    });
+  }
+  const hits = [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk, score }) => toHit(chunk, score));
+  return { agentName, mode: "hybrid", hits };
+}
@@ -4,6 +4,8 @@ import type { ChatAdapter, ChannelMessageHandler, MessageContent, SendMessageOpt
 import type { HiBossDatabase } from "../db/database.js";
 import { formatTelegramMessageIdCompact } from "../../shared/telegram-message-id.js";
 import type { Envelope, EnvelopeStatus } from "../../envelope/types.js";
+import type { Webhook } from "../../webhook/types.js";
+import { WebhookDeliveryError, WebhookSink } from "../webhooks/webhook-sink.js";
 import { MessageRouter } from "./message-router.js";
 
 function makeEnvelope(params: {
@@ -27,8 +29,12 @@ function makeEnvelope(params: {
 class FakeDb {
   private readonly envelopes = new Map<string, Envelope>();
 
+  public readonly webhooks = new Map<string, Webhook>();
+
   public readonly statusUpdates: Array<{ id: string; status: EnvelopeStatus }> = [];
 
+  public readonly metadataUpdates: Array<{ id: string; metadata: Record<string, unknown> }> = [];
+
   constructor(
     private readonly adapterType: string = "telegram",
     private readonly adapterToken: string = "test-token"
@@ -43,6 +49,10 @@ class FakeDb {
     return { adapterToken: this.adapterToken };
   }
 
+  getWebhookByName(name: string): Webhook | null {
+    return this.webhooks.get(name) ?? null;
+  }
+
   getEnvelopeById(id: string): Envelope | undefined {
     return this.envelopes.get(id);
   }
@@ -51,7 +61,9 @@ class FakeDb {
     this.statusUpdates.push({ id, status });
   }
 
-  updateEnvelopeMetadata(): void {}
+  updateEnvelopeMetadata(id: string, metadata: Record<string, unknown>): void {
+    this.metadataUpdates.push({ id, metadata });
+  }
 }
 
 class FakeTelegramAdapter implements ChatAdapter {
@@ -162,3 +174,84 @@ for (const scenario of [
     assert.deepEqual(db.statusUpdates, [{ id: outgoing.id, status: "done" }]);
   });
 }
+
+test("channel delivery failure dead-letters the envelope as failed", async () => {
+  const db = new FakeDb("telegram", "token-1");
+  const adapter = new FakeTelegramAdapter();
+  adapter.sendMessage = async () => {
+    throw new Error("network down");
+  };
+  const router = new MessageRouter(db as unknown as HiBossDatabase);
+  router.registerAdapter(adapter, "token-1");
+
+  const outgoing = makeEnvelope({
+    id: "child-failed",
+    from: "agent:nex",
+    to: "channel:telegram:chat-1",
+  });
+
+  await assert.rejects(router.deliverEnvelope(outgoing), /network down/);
+  assert.deepEqual(db.statusUpdates, [{ id: "child-failed", status: "failed" }]);
+});
+
+test("agent handler failure records the error and dead-letters the envelope", async () => {
+  const db = new FakeDb();
+  const router = new MessageRouter(db as unknown as HiBossDatabase);
+  router.registerAgentHandler("nex", async () => {
+    throw new Error("executor unavailable");
+  });
+
+  const incoming = makeEnvelope({ id: "to-agent", from: "agent:kai", to: "agent:nex" });
+
+  await assert.rejects(router.deliverEnvelope(incoming), /Delivery to agent:nex failed: executor unavailable/);
+  assert.deepEqual(db.statusUpdates, [{ id: "to-agent", status: "failed" }]);
+  const lastError = db.metadataUpdates[0]?.metadata.lastDeliveryError as Record<string, unknown> | undefined;
+  assert.equal(lastError?.kind, "agent-handler-failed");
+  assert.equal(lastError?.agentName, "nex");
+});
+
+test("webhook channel delivery posts through the sink and records send failures", async () => {
+  const db = new FakeDb("telegram", "token-1");
+  db.webhooks.set("ci", {
+    id: "hook-1",
+    name: "ci",
+    agentName: "nex",
+    secret: "s3cret",
+    url: "http://127.0.0.1:1/outbound",
+    rateLimitPerMinute: 60,
+    createdAt: Date.now(),
+  });
+  const delivered: string[] = [];
+  let failWith: Error | null = null;
+  const sink = new WebhookSink();
+  sink.deliver = async (hook, delivery) => {
+    if (failWith) throw failWith;
+    delivered.push(`${hook.name}:${delivery.envelope.id}`);
+  };
+  const router = new MessageRouter(db as unknown as HiBossDatabase, { webhookSink: sink });
+
+  await router.deliverEnvelope(makeEnvelope({ id: "hook-ok", from: "agent:nex", to: "channel:webhook:ci" }));
+  assert.deepEqual(delivered, ["ci:hook-ok"]);
+
+  failWith = new WebhookDeliveryError("HTTP 503", 503, 3);
+  await assert.rejects(
+    router.deliverEnvelope(makeEnvelope({ id: "hook-failed", from: "agent:nex", to: "channel:webhook:ci" })),
+    /webhook status=503 attempts=3/
+  );
+  await assert.rejects(
+    router.deliverEnvelope(makeEnvelope({ id: "hook-foreign", from: "agent:kai", to: "channel:webhook:ci" })),
+    /not bound to adapter 'webhook'/
+  );
+
+  assert.deepEqual(db.statusUpdates, [
+    { id: "hook-ok", status: "done" },
+    { id: "hook-failed", status: "failed" },
+    { id: "hook-foreign", status: "failed" },
+  ]);
+  const errors = db.metadataUpdates.map(
+    (u) => u.metadata.lastDeliveryError as { kind: string; details?: { webhook?: unknown } }
+  );
+  assert.equal(errors[0]?.kind, "send-failed");
+  assert.deepEqual(errors[0]?.details?.webhook, { status: 503, attempts: 3 });
+  assert.equal(errors[1]?.kind, "no-binding");
+});
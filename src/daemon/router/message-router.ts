@@ -8,11 +8,17 @@ import { errorMessage, logEvent } from "../../shared/daemon-log.js";
 import { RPC_ERRORS } from "../ipc/types.js";
 import type { OutgoingParseMode } from "../../adapters/types.js";
 import { formatTelegramMessageIdCompact } from "../../shared/telegram-message-id.js";
+import { DiscordApiError } from "../../adapters/discord/shared.js";
+import { SlackApiError } from "../../adapters/slack/shared.js";
+import { getAdapterPlugin } from "../../adapters/registry.js";
+import { getWebhookDestinationError, WEBHOOK_PLATFORM } from "../../webhook/destination.js";
+import { WebhookDeliveryError, WebhookSink } from "../webhooks/webhook-sink.js";
 
 export type EnvelopeHandler = (envelope: Envelope) => void | Promise<void>;
 
 export interface MessageRouterOptions {
   onEnvelopeDone?: EnvelopeHandler;
+  webhookSink?: WebhookSink;
 }
 
 /**
@@ -22,9 +28,11 @@ export class MessageRouter {
   private adaptersByToken: Map<string, ChatAdapter> = new Map();
   private agentHandlers: Map<string, EnvelopeHandler> = new Map();
   private onEnvelopeDone?: EnvelopeHandler;
+  private webhookSink: WebhookSink;
 
   constructor(private db: HiBossDatabase, options: MessageRouterOptions = {}) {
     this.onEnvelopeDone = options.onEnvelopeDone;
+    this.webhookSink = options.webhookSink ?? new WebhookSink();
   }
 
   /**
@@ -50,6 +58,14 @@ export class MessageRouter {
     this.agentHandlers.delete(agentName);
   }
 
+  /**
+   * Adapter loaded for an agent's binding of `adapterType` (null when unbound or not loaded).
+   */
+  getBoundAdapter(agentName: string, adapterType: string): ChatAdapter | null {
+    const binding = this.db.getAgentBindingByType(agentName, adapterType);
+    return binding ? this.adaptersByToken.get(binding.adapterToken) ?? null : null;
+  }
+
   /**
    * Route a new envelope to its destination.
    */
@@ -96,7 +112,7 @@ export class MessageRouter {
         kind: "invalid-address",
         message: msg,
       });
-      this.markEnvelopeDoneBestEffort(envelope);
+      this.markEnvelopeFailedBestEffort(envelope);
       this.throwDeliveryFailed(msg, {
         envelopeId: envelope.id,
         to: envelope.to,
@@ -117,11 +133,23 @@ export class MessageRouter {
       try {
         await handler(envelope);
       } catch (err) {
+        const msg = `Delivery to agent:${agentName} failed: ${errorMessage(err)}`;
         logEvent("error", "router-deliver-to-agent-failed", {
           "envelope-id": envelope.id,
           "agent-name": agentName,
           error: errorMessage(err),
         });
+        this.recordDeliveryError(envelope, {
+          kind: "agent-handler-failed",
+          message: msg,
+          agentName,
+        });
+        this.markEnvelopeFailedBestEffort(envelope);
+        this.throwDeliveryFailed(msg, {
+          envelopeId: envelope.id,
+          agentName,
+          reason: "agent-handler-failed",
+        });
       }
     } else {
       logEvent("warn", "router-no-agent-handler", {
@@ -155,7 +183,7 @@ export class MessageRouter {
         adapterType,
         chatId,
       });
-      this.markEnvelopeDoneBestEffort(envelope);
+      this.markEnvelopeFailedBestEffort(envelope);
       this.throwDeliveryFailed(msg, {
         envelopeId: envelope.id,
         adapterType,
@@ -179,7 +207,7 @@ export class MessageRouter {
         adapterType,
         chatId,
       });
-      this.markEnvelopeDoneBestEffort(envelope);
+      this.markEnvelopeFailedBestEffort(envelope);
       this.throwDeliveryFailed(msg, {
         envelopeId: envelope.id,
         adapterType,
@@ -189,6 +217,11 @@ export class MessageRouter {
       });
     }
 
+    if (adapterType === WEBHOOK_PLATFORM) {
+      await this.deliverToWebhook(envelope, sender.agentName, chatId);
+      return;
+    }
+
     // Get the sender's binding for this adapter type
     const binding = this.db.getAgentBindingByType(sender.agentName, adapterType);
     if (!binding) {
@@ -200,7 +233,7 @@ export class MessageRouter {
         chatId,
         senderAgentName: sender.agentName,
       });
-      this.markEnvelopeDoneBestEffort(envelope);
+      this.markEnvelopeFailedBestEffort(envelope);
       this.throwDeliveryFailed(msg, {
         envelopeId: envelope.id,
         adapterType,
@@ -221,7 +254,7 @@ export class MessageRouter {
         chatId,
         senderAgentName: sender.agentName,
       });
-      this.markEnvelopeDoneBestEffort(envelope);
+      this.markEnvelopeFailedBestEffort(envelope);
       this.throwDeliveryFailed(msg, {
         envelopeId: envelope.id,
         adapterType,
@@ -231,7 +264,7 @@ export class MessageRouter {
       });
     }
 
-    const parseMode = this.getOutgoingParseMode(envelope);
+    const parseMode = this.getOutgoingParseMode(envelope, adapterType);
     const replyToMessageId = this.getOutgoingReplyToMessageId(envelope, adapterType, chatId);
 
     try {
@@ -246,18 +279,7 @@ export class MessageRouter {
         parseMode,
         replyToMessageId,
       });
-      this.db.updateEnvelopeStatus(envelope.id, "done");
-
-      if (this.onEnvelopeDone) {
-        try {
-          await this.onEnvelopeDone(envelope);
-        } catch (err) {
-          logEvent("error", "router-on-envelope-done-failed", {
-            "envelope-id": envelope.id,
-            error: errorMessage(err),
-          });
-        }
-      }
+      await this.markChannelEnvelopeDone(envelope);
     } catch (err) {
       const details = this.extractAdapterErrorDetails(adapterType, err);
       const msg = `Delivery to ${adapterType}:${chatId} failed: ${details.summary}`;
@@ -276,7 +298,7 @@ export class MessageRouter {
         senderAgentName: sender.agentName,
         details,
       });
-      this.markEnvelopeDoneBestEffort(envelope);
+      this.markEnvelopeFailedBestEffort(envelope);
       this.throwDeliveryFailed(msg, {
         envelopeId: envelope.id,
         adapterType,
@@ -290,9 +312,84 @@ export class MessageRouter {
     }
   }
 
-  private markEnvelopeDoneBestEffort(envelope: Envelope): void {
+  /**
+   * Deliver to `channel:webhook:<name>`: POST to the hook's outbound URL instead of an adapter.
+   */
+  private async deliverToWebhook(envelope: Envelope, senderAgentName: string, name: string): Promise<void> {
+    const adapterType = WEBHOOK_PLATFORM;
+    const accessError = getWebhookDestinationError(this.db, senderAgentName, name);
+    if (accessError) {
+      this.recordDeliveryError(envelope, {
+        kind: accessError.kind,
+        message: accessError.message,
+        adapterType,
+        chatId: name,
+        senderAgentName,
+      });
+      this.markEnvelopeFailedBestEffort(envelope);
+      this.throwDeliveryFailed(accessError.message, {
+        envelopeId: envelope.id,
+        adapterType,
+        chatId: name,
+        senderAgentName,
+        reason: accessError.kind,
+      });
+    }
+
     try {
-      this.db.updateEnvelopeStatus(envelope.id, "done");
+      await this.webhookSink.deliver(this.db.getWebhookByName(name)!, {
+        envelope,
+        parseMode: this.getOutgoingParseMode(envelope, adapterType),
+        replyToMessageId: this.getOutgoingReplyToMessageId(envelope, adapterType, name),
+      });
+      await this.markChannelEnvelopeDone(envelope);
+    } catch (err) {
+      const details = this.extractAdapterErrorDetails(adapterType, err);
+      const msg = `Delivery to ${adapterType}:${name} failed: ${details.summary}`;
+      logEvent("error", "channel-delivery-failed", {
+        "envelope-id": envelope.id,
+        "adapter-type": adapterType,
+        "chat-id": name,
+        error: details.summary,
+      });
+      this.recordDeliveryError(envelope, {
+        kind: "send-failed",
+        message: msg,
+        adapterType,
+        chatId: name,
+        senderAgentName,
+        details,
+      });
+      this.markEnvelopeFailedBestEffort(envelope);
+      this.throwDeliveryFailed(msg, {
+        envelopeId: envelope.id,
+        adapterType,
+        chatId: name,
+        senderAgentName,
+        adapterError: details,
+        reason: "send-failed",
+      });
+    }
+  }
+
+  private async markChannelEnvelopeDone(envelope: Envelope): Promise<void> {
+    this.db.updateEnvelopeStatus(envelope.id, "done");
+
+    if (this.onEnvelopeDone) {
+      try {
+        await this.onEnvelopeDone(envelope);
+      } catch (err) {
+        logEvent("error", "router-on-envelope-done-failed", {
+          "envelope-id": envelope.id,
+          error: errorMessage(err),
+        });
+      }
+    }
+  }
+
+  private markEnvelopeFailedBestEffort(envelope: Envelope): void {
+    try {
+      this.db.updateEnvelopeStatus(envelope.id, "failed");
     } catch (err) {
       logEvent("error", "envelope-status-update-failed", {
         "envelope-id": envelope.id,
@@ -301,12 +398,15 @@ export class MessageRouter {
     }
   }
 
-  private getOutgoingParseMode(envelope: Envelope): OutgoingParseMode | undefined {
+  private getOutgoingParseMode(envelope: Envelope, adapterType: string): OutgoingParseMode | undefined {
     const md = envelope.metadata;
     if (!md || typeof md !== "object") return undefined;
     const v = (md as Record<string, unknown>).parseMode;
-    if (v === "plain" || v === "markdownv2" || v === "html") return v;
-    return undefined;
+    if (v !== "plain" && v !== "markdownv2" && v !== "html") return undefined;
+    // Adapters only receive parse modes they declare; others fall back to the adapter default.
+    const supported = getAdapterPlugin(adapterType)?.capabilities.parseModes;
+    if (supported && !supported.includes(v)) return undefined;
+    return v;
   }
 
   private getOutgoingReplyToMessageId(envelope: Envelope, adapterType: string, chatId: string): string | undefined {
@@ -366,7 +466,7 @@ export class MessageRouter {
     throw err;
   }
 
-  private extractAdapterErrorDetails(adapterType: string, err: unknown): { summary: string; hint?: string; rawMessage?: string; telegram?: { errorCode?: number; description?: string } } {
+  private extractAdapterErrorDetails(adapterType: string, err: unknown): { summary: string; hint?: string; rawMessage?: string; telegram?: { errorCode?: number; description?: string }; discord?: { status: number; code?: number }; slack?: { method: string; error: string }; webhook?: { status?: number; attempts: number } } {
     const rawMessage = err instanceof Error ? err.message : typeof err === "string" ? err : undefined;
 
     if (adapterType === "telegram" && err && typeof err === "object") {
@@ -390,6 +490,43 @@ export class MessageRouter {
       };
     }
 
+    if (adapterType === "discord" && err instanceof DiscordApiError) {
+      // 50001 Missing Access / 50013 Missing Permissions.
+      const hint =
+        err.code === 50001 || err.code === 50013
+          ? "Discord permission error: check the bot can view the channel, send messages, and attach files."
+          : undefined;
+      const codePart = err.code !== undefined ? ` code=${err.code}` : "";
+      return {
+        summary: `discord status=${err.status}${codePart} - ${err.message}`,
+        hint,
+        rawMessage,
+        discord: { status: err.status, code: err.code },
+      };
+    }
+
+    if (adapterType === "slack" && err instanceof SlackApiError) {
+      const hint =
+        err.error === "not_in_channel" || err.error === "channel_not_found"
+          ? "Slack channel error: invite the bot to the channel (/invite @bot) and check the channel id."
+          : undefined;
+      return {
+        summary: `slack ${err.method} error=${err.error}`,
+        hint,
+        rawMessage,
+        slack: { method: err.method, error: err.error },
+      };
+    }
+
+    if (adapterType === WEBHOOK_PLATFORM && err instanceof WebhookDeliveryError) {
+      const status = err.status !== undefined ? ` status=${err.status}` : "";
+      return {
+        summary: `webhook${status} attempts=${err.attempts} - ${err.message}`,
+        rawMessage,
+        webhook: { status: err.status, attempts: err.attempts },
+      };
+    }
+
     return { summary: rawMessage ?? "unknown error", rawMessage };
   }
 }
@@ -62,6 +62,18 @@ export function createAgentDeleteHandler(ctx: DaemonContext): RpcMethodRegistry
             ctx.db.deleteBinding(agent.name, binding.adapterType);
           }
 
+          // Delete webhooks targeting the agent.
+          ctx.db.deleteWebhooksByAgent(agent.name);
+
+          // Delete in-process provider conversation history.
+          ctx.db.deleteAgentChatMessages(agent.name);
+
+          // Delete the memory search index (rebuildable from internal_space).
+          ctx.db.deleteMemoryIndex(agent.name);
+
+          // Delete the memory history (the internal_space it versions is removed below).
+          ctx.db.deleteMemoryHistory(agent.name);
+
           // Finally, delete the agent row.
           return deleteAgentRow(ctx, agent.name);
         });
@@ -21,7 +21,8 @@ import { RPC_ERRORS } from "../ipc/types.js";
 import type { DaemonContext } from "./context.js";
 import { requireToken, rpcError } from "./context.js";
 import { isValidAgentName, AGENT_NAME_ERROR_MESSAGE } from "../../shared/validation.js";
-import { parseDailyResetAt, parseDurationToMs } from "../../shared/session-policy.js";
+import { parseBudgetUsd, parseDailyResetAt, parseDurationToMs } from "../../shared/session-policy.js";
+import { getAgentUsageBudgetState } from "../../agent/usage-budget.js";
 import {
   DEFAULT_AGENT_PERMISSION_LEVEL,
   DEFAULT_AGENT_PROVIDER,
@@ -33,6 +34,7 @@ import {
   predictRoleAfterBindingMutation,
   buildMutationInvariantViolationMessage,
 } from "../../shared/agent-role-mutation.js";
+import { getAdapterBindingError } from "../../adapters/registry.js";
 
 /**
  * Create agent RPC handlers (excluding agent.set which is in its own file).
@@ -113,11 +115,13 @@ export function createAgentHandlers(ctx: DaemonContext): RpcMethodRegistry {
 
       const isBusy = ctx.executor.isAgentBusy(agent.name);
       const pendingCount = ctx.db.countDuePendingEnvelopesForAgent(agent.name);
+      const failedCount = ctx.db.countFailedEnvelopesForAgent(agent.name);
       const bindings = ctx.db.getBindingsByAgentName(agent.name).map((b) => b.adapterType);
       const resolvedRole = requireRole(agent.name, agent.metadata);
 
       const currentRun = isBusy ? ctx.db.getCurrentRunningAgentRun(agent.name) : null;
       const lastRun = ctx.db.getLastFinishedAgentRun(agent.name);
+      const budget = getAgentUsageBudgetState(ctx.db, agent);
 
       const result: AgentStatusResult = {
         agent: {
@@ -138,9 +142,10 @@ export function createAgentHandlers(ctx: DaemonContext): RpcMethodRegistry {
           permissionLevel: effectivePermissionLevel,
         },
         status: {
-          agentState: isBusy ? "running" : "idle",
+          agentState: isBusy ? "running" : budget.exceeded ? "paused" : "idle",
           agentHealth: !lastRun ? "unknown" : lastRun.status === "failed" ? "error" : "ok",
           pendingCount,
+          failedCount,
           ...(currentRun
             ? {
               currentRun: {
@@ -169,6 +174,15 @@ export function createAgentHandlers(ctx: DaemonContext): RpcMethodRegistry {
             }
             : {}),
         },
+        usage: {
+          todayCostUsd: budget.dailyCostUsd,
+          monthCostUsd: budget.monthlyCostUsd,
+          ...(budget.dailyBudgetUsd !== undefined ? { dailyBudgetUsd: budget.dailyBudgetUsd } : {}),
+          ...(budget.monthlyBudgetUsd !== undefined ? { monthlyBudgetUsd: budget.monthlyBudgetUsd } : {}),
+          ...(budget.exceeded
+            ? { budgetExceeded: { period: budget.exceeded.period, resumesAt: budget.exceeded.periodEndMs } }
+            : {}),
+        },
       };
 
       return result;
@@ -220,6 +234,14 @@ export function createAgentHandlers(ctx: DaemonContext): RpcMethodRegistry {
 
       const agentName = agent.name;
 
+      const bindingError =
+        typeof p.adapterType === "string" && typeof p.adapterToken === "string"
+          ? getAdapterBindingError(p.adapterType, p.adapterToken)
+          : "Invalid adapter-type or adapter-token";
+      if (bindingError) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, bindingError);
+      }
+
       // Check if this adapter token is already bound to another agent
       const existingBinding = ctx.db.getBindingByAdapter(p.adapterType, p.adapterToken);
       if (existingBinding && existingBinding.agentName !== agentName) {
@@ -372,7 +394,9 @@ export function createAgentHandlers(ctx: DaemonContext): RpcMethodRegistry {
       const hasAnyUpdate =
         p.sessionDailyResetAt !== undefined ||
         p.sessionIdleTimeout !== undefined ||
-        p.sessionMaxContextLength !== undefined;
+        p.sessionMaxContextLength !== undefined ||
+        p.sessionDailyBudgetUsd !== undefined ||
+        p.sessionMonthlyBudgetUsd !== undefined;
 
       if (!clear && !hasAnyUpdate) {
         rpcError(RPC_ERRORS.INVALID_PARAMS, "No session policy values provided");
@@ -406,11 +430,22 @@ export function createAgentHandlers(ctx: DaemonContext): RpcMethodRegistry {
         maxContextLength = Math.trunc(p.sessionMaxContextLength);
       }
 
+      const dailyBudgetUsd =
+        p.sessionDailyBudgetUsd !== undefined
+          ? parseBudgetUsd(p.sessionDailyBudgetUsd, "session-daily-budget-usd")
+          : undefined;
+      const monthlyBudgetUsd =
+        p.sessionMonthlyBudgetUsd !== undefined
+          ? parseBudgetUsd(p.sessionMonthlyBudgetUsd, "session-monthly-budget-usd")
+          : undefined;
+
       const updated = ctx.db.updateAgentSessionPolicy(agent.name, {
         clear,
         dailyResetAt,
         idleTimeout,
         maxContextLength,
+        dailyBudgetUsd,
+        monthlyBudgetUsd,
       });
 
       return { success: true, agentName: agent.name, sessionPolicy: updated.sessionPolicy };
@@ -4,11 +4,13 @@ import type { DaemonContext } from "./context.js";
 import { requireToken, rpcError } from "./context.js";
 import type { Agent } from "../../agent/types.js";
 import { isValidAgentName, AGENT_NAME_ERROR_MESSAGE } from "../../shared/validation.js";
-import { parseDailyResetAt, parseDurationToMs } from "../../shared/session-policy.js";
+import { parseBudgetUsd, parseDailyResetAt, parseDurationToMs } from "../../shared/session-policy.js";
 import { setupAgentHome } from "../../agent/home-setup.js";
+import { formatAgentProviderNames, isAgentProviderName } from "../../agent/providers/index.js";
 import { BACKGROUND_AGENT_NAME, getDefaultAgentDescription } from "../../shared/defaults.js";
 import { isPermissionLevel } from "../../shared/permissions.js";
 import { isAgentRole } from "../../shared/agent-role.js";
+import { getAdapterBindingError } from "../../adapters/registry.js";
 import { errorMessage, logEvent } from "../../shared/daemon-log.js";
 
 function deleteAgentRow(ctx: DaemonContext, agentName: string): boolean {
@@ -46,10 +48,10 @@ export function createAgentRegisterHandler(ctx: DaemonContext): RpcMethodHandler
         rpcError(RPC_ERRORS.ALREADY_EXISTS, "Agent already exists");
       }
 
-      if (p.provider !== "claude" && p.provider !== "codex") {
-        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid provider (expected claude or codex)");
+      if (!isAgentProviderName(p.provider)) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid provider (expected ${formatAgentProviderNames()})`);
       }
-      const provider: "claude" | "codex" = p.provider;
+      const provider: string = p.provider;
 
       if (!isAgentRole(p.role)) {
         rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid role (expected speaker or leader)");
@@ -88,8 +90,11 @@ export function createAgentRegisterHandler(ctx: DaemonContext): RpcMethodHandler
             }
           : undefined;
 
-      if (normalizedBind && normalizedBind.adapterType !== "telegram") {
-        rpcError(RPC_ERRORS.INVALID_PARAMS, `Unknown adapter type: ${normalizedBind.adapterType}`);
+      const bindingError = normalizedBind
+        ? getAdapterBindingError(normalizedBind.adapterType, normalizedBind.adapterToken)
+        : null;
+      if (bindingError) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, bindingError);
       }
 
       if (normalizedBind) {
@@ -175,6 +180,12 @@ export function createAgentRegisterHandler(ctx: DaemonContext): RpcMethodHandler
         }
         sessionPolicy.maxContextLength = Math.trunc(p.sessionMaxContextLength);
       }
+      if (p.sessionDailyBudgetUsd !== undefined) {
+        sessionPolicy.dailyBudgetUsd = parseBudgetUsd(p.sessionDailyBudgetUsd, "session-daily-budget-usd");
+      }
+      if (p.sessionMonthlyBudgetUsd !== undefined) {
+        sessionPolicy.monthlyBudgetUsd = parseBudgetUsd(p.sessionMonthlyBudgetUsd, "session-monthly-budget-usd");
+      }
 
       if (isDryRun) {
         const normalizedName = p.name.trim();
@@ -0,0 +1,231 @@
+/**
+ * Agent run audit RPC handlers.
+ *
+ * Handles: agent.runs, agent.run.show
+ */
+
+import type {
+  RpcMethodRegistry,
+  AgentRunEventView,
+  AgentRunShowParams,
+  AgentRunShowResult,
+  AgentRunsParams,
+  AgentRunsResult,
+  AgentRunView,
+} from "../ipc/types.js";
+import { RPC_ERRORS } from "../ipc/types.js";
+import type { DaemonContext, Principal } from "./context.js";
+import { requireToken, rpcError } from "./context.js";
+import type { AgentRun, AgentRunStatus } from "../db/database.js";
+import type { AgentRunEvent } from "../../agent/run-events.js";
+import { isValidAgentName, AGENT_NAME_ERROR_MESSAGE } from "../../shared/validation.js";
+import { parseDateTimeInputToUnixMsInTimeZone } from "../../shared/time.js";
+import {
+  DEFAULT_ID_PREFIX_LEN,
+  compactUuid,
+  computeUniqueCompactPrefixLength,
+  isHexLower,
+  normalizeIdPrefixInput,
+} from "../../shared/id-format.js";
+
+const MAX_AMBIGUOUS_ID_CANDIDATES = 20;
+const DEFAULT_AGENT_RUNS_LIMIT = 10;
+const MAX_AGENT_RUNS_LIMIT = 100;
+const AGENT_RUN_STATUSES = new Set<string>(["running", "completed", "failed", "cancelled"]);
+
+function assertValidIdPrefix(prefix: string): void {
+  if (prefix.length < DEFAULT_ID_PREFIX_LEN) {
+    rpcError(
+      RPC_ERRORS.INVALID_PARAMS,
+      `Invalid id (expected at least ${DEFAULT_ID_PREFIX_LEN} hex chars)`
+    );
+  }
+  if (!isHexLower(prefix)) {
+    rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid id (expected hex UUID prefix)");
+  }
+}
+
+function buildAmbiguousRunIdPrefixData(params: { idPrefix: string; runs: AgentRun[] }): Record<string, unknown> {
+  const compactIds = params.runs.map((r) => compactUuid(r.id));
+  const prefixLen = computeUniqueCompactPrefixLength(
+    compactIds,
+    Math.max(DEFAULT_ID_PREFIX_LEN, params.idPrefix.length)
+  );
+
+  const truncated = params.runs.length > MAX_AMBIGUOUS_ID_CANDIDATES;
+  const shown = params.runs.slice(0, MAX_AMBIGUOUS_ID_CANDIDATES).map((r) => ({
+    candidateId: compactUuid(r.id).slice(0, prefixLen),
+    candidateKind: "agent-run",
+    agentName: r.agentName,
+    status: r.status,
+    startedAt: r.startedAt,
+  }));
+
+  return {
+    kind: "ambiguous-id-prefix",
+    idPrefix: params.idPrefix,
+    matchCount: params.runs.length,
+    candidatesTruncated: truncated,
+    candidatesShown: shown.length,
+    candidates: shown,
+  };
+}
+
+function parseSince(raw: unknown, bossTimezone: string): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "string" || !raw.trim()) {
+    rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid since");
+  }
+  try {
+    return parseDateTimeInputToUnixMsInTimeZone(raw, bossTimezone);
+  } catch (err) {
+    const rawMessage = err instanceof Error ? err.message : String(err);
+    rpcError(RPC_ERRORS.INVALID_PARAMS, rawMessage.replace(/^Invalid deliver-at:/, "Invalid since:"));
+  }
+}
+
+function toAgentRunView(run: AgentRun, options: { includeFinalResponse: boolean }): AgentRunView {
+  return {
+    id: run.id,
+    agentName: run.agentName,
+    status: run.status,
+    startedAt: run.startedAt,
+    ...(typeof run.completedAt === "number"
+      ? { completedAt: run.completedAt, durationMs: Math.max(0, run.completedAt - run.startedAt) }
+      : {}),
+    envelopeIds: run.envelopeIds,
+    ...(typeof run.contextLength === "number" ? { contextLength: run.contextLength } : {}),
+    ...(typeof run.inputTokens === "number" ? { inputTokens: run.inputTokens } : {}),
+    ...(typeof run.outputTokens === "number" ? { outputTokens: run.outputTokens } : {}),
+    ...(typeof run.cacheReadTokens === "number" ? { cacheReadTokens: run.cacheReadTokens } : {}),
+    ...(typeof run.cacheWriteTokens === "number" ? { cacheWriteTokens: run.cacheWriteTokens } : {}),
+    ...(typeof run.totalTokens === "number" ? { totalTokens: run.totalTokens } : {}),
+    ...(run.provider ? { provider: run.provider } : {}),
+    ...(run.model ? { model: run.model } : {}),
+    ...(typeof run.costUsd === "number" ? { costUsd: run.costUsd } : {}),
+    ...(run.error ? { error: run.error } : {}),
+    ...(options.includeFinalResponse && run.finalResponse ? { finalResponse: run.finalResponse } : {}),
+  };
+}
+
+function toAgentRunEventView(event: AgentRunEvent): AgentRunEventView {
+  return {
+    seq: event.seq,
+    createdAt: event.createdAt,
+    kind: event.kind,
+    tool: event.tool,
+    ...(event.summary ? { summary: event.summary } : {}),
+    ...(event.input ? { input: event.input } : {}),
+    ...(event.status ? { status: event.status } : {}),
+  };
+}
+
+/**
+ * Create agent run RPC handlers.
+ */
+export function createAgentRunHandlers(ctx: DaemonContext): RpcMethodRegistry {
+  // Agents may only inspect their own runs; the boss can inspect any run.
+  const isVisibleTo = (run: AgentRun, principal: Principal): boolean =>
+    principal.kind !== "agent" || principal.agent.name === run.agentName;
+
+  const resolveRun = (rawId: string, principal: Principal): AgentRun => {
+    const trimmed = rawId.trim();
+    if (!trimmed) {
+      rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid id");
+    }
+
+    const direct = ctx.db.getAgentRunById(trimmed);
+    if (direct) {
+      if (!isVisibleTo(direct, principal)) {
+        rpcError(RPC_ERRORS.UNAUTHORIZED, "Access denied");
+      }
+      return direct;
+    }
+
+    const idPrefix = normalizeIdPrefixInput(trimmed);
+    assertValidIdPrefix(idPrefix);
+    const matches = ctx.db.findAgentRunsByIdPrefix(idPrefix).filter((run) => isVisibleTo(run, principal));
+    if (matches.length === 0) {
+      rpcError(RPC_ERRORS.NOT_FOUND, "Agent run not found");
+    }
+    if (matches.length > 1) {
+      rpcError(
+        RPC_ERRORS.INVALID_PARAMS,
+        "Ambiguous id prefix",
+        buildAmbiguousRunIdPrefixData({ idPrefix, runs: matches })
+      );
+    }
+    return matches[0]!;
+  };
+
+  return {
+    "agent.runs": async (params) => {
+      const p = params as unknown as AgentRunsParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("agent.runs", principal);
+
+      if (typeof p.agentName !== "string" || !isValidAgentName(p.agentName)) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, AGENT_NAME_ERROR_MESSAGE);
+      }
+
+      const agent = ctx.db.getAgentByNameCaseInsensitive(p.agentName);
+      if (!agent) {
+        rpcError(RPC_ERRORS.NOT_FOUND, "Agent not found");
+      }
+
+      if (principal.kind === "agent" && principal.agent.name !== agent.name) {
+        rpcError(RPC_ERRORS.UNAUTHORIZED, "Access denied");
+      }
+
+      let status: AgentRunStatus | undefined;
+      if (p.status !== undefined && p.status !== null) {
+        if (typeof p.status !== "string" || !AGENT_RUN_STATUSES.has(p.status)) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid status (expected running, completed, failed, or cancelled)");
+        }
+        status = p.status;
+      }
+
+      const limit = (() => {
+        const v = p.limit;
+        if (v === undefined || v === null) return DEFAULT_AGENT_RUNS_LIMIT;
+        if (typeof v !== "number" || !Number.isFinite(v)) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid limit");
+        }
+        const n = Math.trunc(v);
+        if (n <= 0) rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid limit (must be >= 1)");
+        if (n > MAX_AGENT_RUNS_LIMIT) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid limit (max ${MAX_AGENT_RUNS_LIMIT})`);
+        }
+        return n;
+      })();
+
+      const startedAfter = parseSince(p.since, ctx.db.getBossTimezone());
+      const runs = ctx.db.getAgentRuns(agent.name, { limit, status, startedAfter });
+
+      const result: AgentRunsResult = {
+        agentName: agent.name,
+        runs: runs.map((run) => toAgentRunView(run, { includeFinalResponse: false })),
+      };
+      return result;
+    },
+
+    "agent.run.show": async (params) => {
+      const p = params as unknown as AgentRunShowParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("agent.run.show", principal);
+
+      if (typeof p.id !== "string") {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid id");
+      }
+
+      const run = resolveRun(p.id, principal);
+      const result: AgentRunShowResult = {
+        run: toAgentRunView(run, { includeFinalResponse: true }),
+        events: ctx.db.getAgentRunEvents(run.id).map(toAgentRunEventView),
+      };
+      return result;
+    },
+  };
+}
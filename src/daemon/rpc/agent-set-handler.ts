@@ -10,7 +10,8 @@ import type { DaemonContext } from "./context.js";
 import { requireToken, rpcError } from "./context.js";
 import type { Agent } from "../../agent/types.js";
 import { setupAgentHome } from "../../agent/home-setup.js";
-import { parseDailyResetAt, parseDurationToMs } from "../../shared/session-policy.js";
+import { formatAgentProviderNames, isAgentProviderName } from "../../agent/providers/index.js";
+import { parseBudgetUsd, parseDailyResetAt, parseDurationToMs } from "../../shared/session-policy.js";
 import {
   DEFAULT_AGENT_PERMISSION_LEVEL,
   DEFAULT_AGENT_PROVIDER,
@@ -23,6 +24,7 @@ import {
   buildMutationInvariantViolationMessage,
 } from "../../shared/agent-role-mutation.js";
 import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+import { getAdapterBindingError } from "../../adapters/registry.js";
 
 /**
  * Create agent.set RPC handler.
@@ -99,6 +101,12 @@ export function createAgentSetHandler(ctx: DaemonContext): RpcMethodRegistry {
       const bindAdapterToken = wantsBind ? (p.bindAdapterToken as string).trim() : undefined;
       const unbindAdapterType = wantsUnbind ? (p.unbindAdapterType as string).trim() : undefined;
 
+      const bindingError =
+        bindAdapterType && bindAdapterToken ? getAdapterBindingError(bindAdapterType, bindAdapterToken) : null;
+      if (bindingError) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, bindingError);
+      }
+
       const allAgents = ctx.db.listAgents();
       const allBindings = ctx.db.listBindings();
       const bindingsForAgent = allBindings.filter((binding) => binding.agentName === agentName);
@@ -214,10 +222,10 @@ export function createAgentSetHandler(ctx: DaemonContext): RpcMethodRegistry {
         }
       }
 
-      let provider: "claude" | "codex" | null | undefined;
+      let provider: string | null | undefined;
       if (p.provider !== undefined) {
-        if (p.provider !== null && p.provider !== "claude" && p.provider !== "codex") {
-          rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid provider (expected claude or codex)");
+        if (p.provider !== null && !isAgentProviderName(p.provider)) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid provider (expected ${formatAgentProviderNames()})`);
         }
         provider = p.provider;
       }
@@ -256,14 +264,26 @@ export function createAgentSetHandler(ctx: DaemonContext): RpcMethodRegistry {
 
       let sessionPolicyUpdate:
         | { clear: true }
-        | { dailyResetAt?: string; idleTimeout?: string; maxContextLength?: number }
+        | {
+          dailyResetAt?: string;
+          idleTimeout?: string;
+          maxContextLength?: number;
+          dailyBudgetUsd?: number;
+          monthlyBudgetUsd?: number;
+        }
         | undefined;
       if (p.sessionPolicy !== undefined) {
         if (p.sessionPolicy === null) {
           sessionPolicyUpdate = { clear: true };
         } else if (typeof p.sessionPolicy === "object" && p.sessionPolicy !== null && !Array.isArray(p.sessionPolicy)) {
           const raw = p.sessionPolicy as Record<string, unknown>;
-          const next: { dailyResetAt?: string; idleTimeout?: string; maxContextLength?: number } = {};
+          const next: {
+            dailyResetAt?: string;
+            idleTimeout?: string;
+            maxContextLength?: number;
+            dailyBudgetUsd?: number;
+            monthlyBudgetUsd?: number;
+          } = {};
 
           if (raw.dailyResetAt !== undefined) {
             if (typeof raw.dailyResetAt !== "string") {
@@ -297,6 +317,14 @@ export function createAgentSetHandler(ctx: DaemonContext): RpcMethodRegistry {
             next.maxContextLength = Math.trunc(raw.maxContextLength);
           }
 
+          if (raw.dailyBudgetUsd !== undefined) {
+            next.dailyBudgetUsd = parseBudgetUsd(raw.dailyBudgetUsd, "session-policy.daily-budget-usd");
+          }
+
+          if (raw.monthlyBudgetUsd !== undefined) {
+            next.monthlyBudgetUsd = parseBudgetUsd(raw.monthlyBudgetUsd, "session-policy.monthly-budget-usd");
+          }
+
           if (Object.keys(next).length === 0) {
             rpcError(RPC_ERRORS.INVALID_PARAMS, "No session policy values provided");
           }
@@ -323,7 +351,7 @@ export function createAgentSetHandler(ctx: DaemonContext): RpcMethodRegistry {
 
       const before = ctx.db.getAgentByName(agentName)!;
 
-      if (provider === "claude" || provider === "codex") {
+      if (provider) {
         await setupAgentHome(agentName, ctx.config.dataDir);
       }
 
@@ -407,7 +435,7 @@ export function createAgentSetHandler(ctx: DaemonContext): RpcMethodRegistry {
         role?: "speaker" | "leader";
         description?: string | null;
         workspace?: string | null;
-        provider?: "claude" | "codex" | null;
+        provider?: string | null;
         model?: string | null;
         reasoningEffort?: Agent["reasoningEffort"] | null;
       } = {};
@@ -439,7 +467,7 @@ export function createAgentSetHandler(ctx: DaemonContext): RpcMethodRegistry {
       // Experiment: when switching providers, clear model/reasoning-effort unless explicitly set.
       // This avoids carrying incompatible model overrides across providers.
       const providerChanged =
-        (provider === "claude" || provider === "codex") &&
+        Boolean(provider) &&
         before.provider !== provider;
       if (providerChanged) {
         if (p.model === undefined) {
@@ -488,7 +516,9 @@ export function createAgentSetHandler(ctx: DaemonContext): RpcMethodRegistry {
       const bindings = ctx.db.getBindingsByAgentName(agentName).map((b) => b.adapterType);
 
       const needsRefresh =
-        (p.workspace !== undefined && before.workspace !== updated.workspace);
+        (p.workspace !== undefined && before.workspace !== updated.workspace) ||
+        // Shared memory write access (prompt + `--add-dir`) follows the permission level.
+        (p.permissionLevel !== undefined && before.permissionLevel !== updated.permissionLevel);
 
       if (needsRefresh) {
         ctx.executor.requestSessionRefresh(agentName, "rpc:agent.set");
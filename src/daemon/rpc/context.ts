@@ -10,6 +10,7 @@ import type { MessageRouter } from "../router/message-router.js";
 import type { AgentExecutor } from "../../agent/executor.js";
 import type { EnvelopeScheduler } from "../scheduler/envelope-scheduler.js";
 import type { CronScheduler } from "../scheduler/cron-scheduler.js";
+import type { WebhookIngress } from "../webhooks/webhook-ingress.js";
 import type { ChatAdapter } from "../../adapters/types.js";
 import type { Agent } from "../../agent/types.js";
 import type { RpcMethodHandler, RpcMethodRegistry } from "../ipc/types.js";
@@ -34,6 +35,7 @@ export interface DaemonContext {
   readonly executor: AgentExecutor;
   readonly scheduler: EnvelopeScheduler;
   readonly cronScheduler: CronScheduler | null;
+  readonly webhookIngress: WebhookIngress | null;
   readonly adapters: Map<string, ChatAdapter>;
 
   // Configuration
@@ -52,6 +54,9 @@ export interface DaemonContext {
 
   // Agent handlers
   registerAgentHandler(agentName: string): void;
+
+  // Webhook ingress: started with the first hook, stopped with the last
+  syncWebhookIngress(): Promise<void>;
 }
 
 /**
@@ -15,6 +15,7 @@ import type { DaemonContext } from "./context.js";
 import { requireToken, rpcError } from "./context.js";
 import { formatAgentAddress, parseAddress } from "../../adapters/types.js";
 import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+import { getWebhookDestinationError, WEBHOOK_PLATFORM } from "../../webhook/destination.js";
 import { isValidIanaTimeZone } from "../../shared/timezone.js";
 import {
   DEFAULT_ID_PREFIX_LEN,
@@ -129,7 +130,15 @@ export function createCronHandlers(ctx: DaemonContext): RpcMethodRegistry {
     // Check binding for channel destinations.
     const agent = principal.agent;
     ctx.db.updateAgentLastSeen(agent.name);
-    if (destination.type === "channel") {
+    if (destination.type === "channel" && destination.adapter === WEBHOOK_PLATFORM) {
+      const webhookError = getWebhookDestinationError(ctx.db, agent.name, destination.chatId);
+      if (webhookError) {
+        rpcError(
+          webhookError.kind === "no-binding" ? RPC_ERRORS.UNAUTHORIZED : RPC_ERRORS.INVALID_PARAMS,
+          webhookError.message
+        );
+      }
+    } else if (destination.type === "channel") {
       const binding = ctx.db.getAgentBindingByType(agent.name, destination.adapter);
       if (!binding) {
         rpcError(
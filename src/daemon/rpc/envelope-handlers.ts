@@ -8,15 +8,23 @@ import type {
   EnvelopeListParams,
   EnvelopeThreadParams,
   EnvelopeThreadResult,
+  EnvelopeDeadLettersParams,
+  EnvelopeDeadLettersResult,
+  EnvelopeRetryParams,
+  EnvelopeRetryResult,
 } from "../ipc/types.js";
 import { RPC_ERRORS } from "../ipc/types.js";
-import type { DaemonContext } from "./context.js";
+import type { DaemonContext, Principal } from "./context.js";
 import { requireToken, rpcError } from "./context.js";
 import { formatAgentAddress, parseAddress } from "../../adapters/types.js";
-import { parseDateTimeInputToUnixMsInTimeZone } from "../../shared/time.js";
+import { isDueUnixMs, parseDateTimeInputToUnixMsInTimeZone } from "../../shared/time.js";
 import { BACKGROUND_AGENT_NAME } from "../../shared/defaults.js";
 import { resolveEnvelopeIdInput } from "./resolve-envelope-id.js";
 import type { Envelope } from "../../envelope/types.js";
+import { getWebhookDestinationError, WEBHOOK_PLATFORM } from "../../webhook/destination.js";
+
+const MAX_DEAD_LETTERS_LIMIT = 100;
+const MAX_RETRY_ALL_BATCH = 500;
 
 function parseEnvelopeListTimeBoundary(params: {
   raw: unknown;
@@ -94,7 +102,15 @@ export function createEnvelopeHandlers(ctx: DaemonContext): RpcMethodRegistry {
     })();
 
     // Check binding for channel destinations (agent sender only)
-    if (destination.type === "channel") {
+    if (destination.type === "channel" && destination.adapter === WEBHOOK_PLATFORM) {
+      const webhookError = getWebhookDestinationError(ctx.db, agent.name, destination.chatId);
+      if (webhookError) {
+        rpcError(
+          webhookError.kind === "no-binding" ? RPC_ERRORS.UNAUTHORIZED : RPC_ERRORS.INVALID_PARAMS,
+          webhookError.message
+        );
+      }
+    } else if (destination.type === "channel") {
       const binding = ctx.db.getAgentBindingByType(agent.name, destination.adapter);
       if (!binding) {
         rpcError(
@@ -210,8 +226,8 @@ export function createEnvelopeHandlers(ctx: DaemonContext): RpcMethodRegistry {
       rpcError(RPC_ERRORS.INVALID_PARAMS, "Provide exactly one of: to, from");
     }
 
-    if (p.status !== "pending" && p.status !== "done") {
-      rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid status (expected pending or done)");
+    if (p.status !== "pending" && p.status !== "done" && p.status !== "failed") {
+      rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid status (expected pending, done, or failed)");
     }
 
     let otherAddress: string;
@@ -341,10 +357,128 @@ export function createEnvelopeHandlers(ctx: DaemonContext): RpcMethodRegistry {
     return result;
   };
 
+  /**
+   * Resolve the address dead-letter operations are scoped to.
+   *
+   * Agents are always scoped to themselves; the boss may pick an agent or see everything.
+   */
+  const resolveDeadLetterScope = (principal: Principal, agentNameInput: unknown): string | undefined => {
+    if (agentNameInput !== undefined && (typeof agentNameInput !== "string" || !agentNameInput.trim())) {
+      rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid agent-name");
+    }
+    const requested = typeof agentNameInput === "string" ? agentNameInput.trim() : "";
+
+    if (principal.kind === "agent") {
+      if (requested && requested.toLowerCase() !== principal.agent.name.toLowerCase()) {
+        rpcError(RPC_ERRORS.UNAUTHORIZED, "Access denied");
+      }
+      ctx.db.updateAgentLastSeen(principal.agent.name);
+      return formatAgentAddress(principal.agent.name);
+    }
+
+    if (!requested) return undefined;
+    const agent = ctx.db.getAgentByNameCaseInsensitive(requested);
+    if (!agent) {
+      rpcError(RPC_ERRORS.NOT_FOUND, "Agent not found");
+    }
+    return formatAgentAddress(agent.name);
+  };
+
+  const createEnvelopeDeadLetters = (operation: string) => async (params: Record<string, unknown>) => {
+    const p = params as unknown as EnvelopeDeadLettersParams;
+    const token = requireToken(p.token);
+    const principal = ctx.resolvePrincipal(token);
+    ctx.assertOperationAllowed(operation, principal);
+
+    const address = resolveDeadLetterScope(principal, p.agentName);
+
+    const limit = (() => {
+      const v = p.limit;
+      if (v === undefined || v === null) return 20;
+      if (typeof v !== "number" || !Number.isFinite(v)) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid limit");
+      }
+      const n = Math.trunc(v);
+      if (n <= 0) rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid limit (must be >= 1)");
+      if (n > MAX_DEAD_LETTERS_LIMIT) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid limit (max ${MAX_DEAD_LETTERS_LIMIT})`);
+      }
+      return n;
+    })();
+
+    const result: EnvelopeDeadLettersResult = {
+      envelopes: ctx.db.listFailedEnvelopes({ address, limit }),
+    };
+    return result;
+  };
+
+  const createEnvelopeRetry = (operation: string) => async (params: Record<string, unknown>) => {
+    const p = params as unknown as EnvelopeRetryParams;
+    const token = requireToken(p.token);
+    const principal = ctx.resolvePrincipal(token);
+    ctx.assertOperationAllowed(operation, principal);
+
+    const address = resolveDeadLetterScope(principal, p.agentName);
+    const hasIds = Array.isArray(p.envelopeIds) && p.envelopeIds.length > 0;
+    if (hasIds === Boolean(p.all)) {
+      rpcError(RPC_ERRORS.INVALID_PARAMS, "Provide exactly one of: envelope-ids, all");
+    }
+
+    let candidates: Envelope[];
+    if (hasIds) {
+      candidates = [];
+      for (const raw of p.envelopeIds!) {
+        if (typeof raw !== "string" || !raw.trim()) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid envelope-id");
+        }
+        const env = ctx.db.getEnvelopeById(resolveEnvelopeIdInput(ctx.db, raw.trim()));
+        if (!env) {
+          rpcError(RPC_ERRORS.NOT_FOUND, "Envelope not found");
+        }
+        if (address && env.from !== address && env.to !== address) {
+          rpcError(RPC_ERRORS.UNAUTHORIZED, "Access denied");
+        }
+        if (env.status !== "failed") {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, `Envelope is not failed (status: ${env.status})`);
+        }
+        candidates.push(env);
+      }
+    } else {
+      candidates = ctx.db.listFailedEnvelopes({ address, limit: MAX_RETRY_ALL_BATCH });
+    }
+
+    const requeuedIds = ctx.db.requeueFailedEnvelopes(candidates.map((env) => env.id));
+
+    // Redeliver immediately, the same way freshly-routed envelopes are delivered.
+    let failedAgainCount = 0;
+    for (const id of requeuedIds) {
+      const env = ctx.db.getEnvelopeById(id);
+      if (!env) continue;
+      if (!isDueUnixMs(env.deliverAt)) {
+        ctx.scheduler.onEnvelopeCreated(env);
+        continue;
+      }
+      try {
+        await ctx.router.deliverEnvelope(env);
+      } catch {
+        failedAgainCount++;
+      }
+    }
+
+    const result: EnvelopeRetryResult = {
+      retriedCount: requeuedIds.length,
+      failedAgainCount,
+      envelopeIds: requeuedIds,
+    };
+    return result;
+  };
+
   return {
     // Envelope methods (canonical)
     "envelope.send": createEnvelopeSend("envelope.send"),
     "envelope.list": createEnvelopeList("envelope.list"),
     "envelope.thread": createEnvelopeThread("envelope.thread"),
+    "envelope.dead-letters": createEnvelopeDeadLetters("envelope.dead-letters"),
+    "envelope.retry": createEnvelopeRetry("envelope.retry"),
   };
 }
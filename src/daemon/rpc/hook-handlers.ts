@@ -0,0 +1,162 @@
+/**
+ * Webhook ingress RPC handlers.
+ */
+
+import type {
+  RpcMethodRegistry,
+  HookCreateParams,
+  HookCreateResult,
+  HookDeleteParams,
+  HookListParams,
+  HookListResult,
+  HookView,
+} from "../ipc/types.js";
+import { RPC_ERRORS } from "../ipc/types.js";
+import type { DaemonContext } from "./context.js";
+import { requireToken, rpcError } from "./context.js";
+import type { Webhook } from "../../webhook/types.js";
+import { compileInlineTemplate } from "../../shared/prompt-renderer.js";
+import { BACKGROUND_AGENT_NAME } from "../../shared/defaults.js";
+import { isValidWebhookName, WEBHOOK_NAME_ERROR_MESSAGE } from "../../shared/validation.js";
+import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+
+const MAX_RATE_LIMIT_PER_MINUTE = 1000;
+
+function parseOutboundUrl(raw: unknown): string | undefined {
+  if (raw === undefined) return undefined;
+  if (typeof raw !== "string") {
+    rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid url");
+  }
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid url");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid url (expected http or https)");
+  }
+  return trimmed;
+}
+
+function toHookView(hook: Webhook): HookView {
+  return {
+    name: hook.name,
+    agentName: hook.agentName,
+    template: hook.template,
+    rateLimitPerMinute: hook.rateLimitPerMinute,
+    outboundUrl: hook.url,
+    createdAt: hook.createdAt,
+  };
+}
+
+/**
+ * Create webhook RPC handlers.
+ */
+export function createHookHandlers(ctx: DaemonContext): RpcMethodRegistry {
+  const getUrl = (name: string): string | null => ctx.webhookIngress?.getUrl(name) ?? null;
+
+  return {
+    "hook.create": async (params): Promise<HookCreateResult> => {
+      const p = params as unknown as HookCreateParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("hook.create", principal);
+
+      if (typeof p.name !== "string" || !isValidWebhookName(p.name.trim())) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, WEBHOOK_NAME_ERROR_MESSAGE);
+      }
+      const name = p.name.trim();
+
+      if (typeof p.agentName !== "string" || !p.agentName.trim()) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid agent-name");
+      }
+      const agent = ctx.db.getAgentByNameCaseInsensitive(p.agentName.trim());
+      if (!agent) {
+        rpcError(RPC_ERRORS.NOT_FOUND, "Agent not found");
+      }
+      if (agent.name === BACKGROUND_AGENT_NAME) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, `Reserved agent name: ${BACKGROUND_AGENT_NAME}`);
+      }
+
+      let template: string | undefined;
+      if (p.template !== undefined) {
+        if (typeof p.template !== "string") {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid template");
+        }
+        if (p.template.trim()) {
+          try {
+            compileInlineTemplate(p.template);
+          } catch (err) {
+            rpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid template: ${errorMessage(err).replace(/\s+/g, " ").trim()}`);
+          }
+          template = p.template;
+        }
+      }
+
+      if (
+        p.rateLimitPerMinute !== undefined &&
+        (typeof p.rateLimitPerMinute !== "number" ||
+          !Number.isInteger(p.rateLimitPerMinute) ||
+          p.rateLimitPerMinute < 1 ||
+          p.rateLimitPerMinute > MAX_RATE_LIMIT_PER_MINUTE)
+      ) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid rate-limit (expected 1-${MAX_RATE_LIMIT_PER_MINUTE} per minute)`);
+      }
+
+      const outboundUrl = parseOutboundUrl(p.outboundUrl);
+
+      if (ctx.db.getWebhookByName(name)) {
+        rpcError(RPC_ERRORS.ALREADY_EXISTS, "Webhook already exists");
+      }
+
+      const hook = ctx.db.createWebhook({
+        name,
+        agentName: agent.name,
+        template,
+        rateLimitPerMinute: p.rateLimitPerMinute,
+        url: outboundUrl,
+      });
+      logEvent("info", "hook-create", {
+        "webhook-name": hook.name,
+        "agent-name": hook.agentName,
+        state: "success",
+      });
+      await ctx.syncWebhookIngress();
+      return { hook: toHookView(hook), secret: hook.secret, url: getUrl(hook.name) };
+    },
+
+    "hook.list": async (params): Promise<HookListResult> => {
+      const p = params as unknown as HookListParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("hook.list", principal);
+
+      return {
+        hooks: ctx.db.listWebhooks().map((hook) => ({ ...toHookView(hook), url: getUrl(hook.name) })),
+      };
+    },
+
+    "hook.delete": async (params) => {
+      const p = params as unknown as HookDeleteParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("hook.delete", principal);
+
+      if (typeof p.name !== "string" || !p.name.trim()) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid name");
+      }
+      const name = p.name.trim();
+
+      if (!ctx.db.deleteWebhook(name)) {
+        rpcError(RPC_ERRORS.NOT_FOUND, "Webhook not found");
+      }
+      ctx.webhookIngress?.forget(name);
+      await ctx.syncWebhookIngress();
+      logEvent("info", "hook-delete", { "webhook-name": name, state: "success" });
+      return { success: true, name };
+    },
+  };
+}
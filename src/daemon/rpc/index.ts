@@ -8,8 +8,12 @@ export type { Principal, DaemonContext, RpcHandlerFactory } from "./context.js";
 export { createDaemonHandlers } from "./daemon-handlers.js";
 export { createReactionHandlers } from "./reaction-handlers.js";
 export { createCronHandlers } from "./cron-handlers.js";
+export { createHookHandlers } from "./hook-handlers.js";
 export { createEnvelopeHandlers } from "./envelope-handlers.js";
 export { createSetupHandlers } from "./setup-handlers.js";
 export { createAgentHandlers } from "./agent-handlers.js";
 export { createAgentSetHandler } from "./agent-set-handler.js";
 export { createAgentDeleteHandler } from "./agent-delete-handler.js";
+export { createAgentRunHandlers } from "./agent-run-handlers.js";
+export { createUsageHandlers } from "./usage-handlers.js";
+export { createMemoryHandlers } from "./memory-handlers.js";
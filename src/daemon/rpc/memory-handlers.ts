@@ -0,0 +1,391 @@
+/**
+ * Agent memory RPC handlers.
+ *
+ * Handles: memory.search, memory.show, memory.append, memory.edit, memory.diff, memory.list-days,
+ * memory.history, memory.restore
+ */
+
+import type {
+  MemoryAppendParams,
+  MemoryDiffParams,
+  MemoryEditParams,
+  MemoryHistoryParams,
+  MemoryListDaysParams,
+  MemoryRestoreParams,
+  MemorySearchParams,
+  MemoryShowParams,
+  MemorySnapshotView,
+  MemoryTargetParams,
+  MemoryWriteResult,
+  RpcMethodRegistry,
+} from "../ipc/types.js";
+import { RPC_ERRORS } from "../ipc/types.js";
+import type { DaemonContext, Principal } from "./context.js";
+import { requireToken, rpcError } from "./context.js";
+import { getAgentInternalSpaceDir } from "../../agent/home-setup.js";
+import { createEmbedderFromEnv } from "../memory/embedder.js";
+import { buildMemoryFtsQuery, searchAgentMemory } from "../memory/memory-index.js";
+import {
+  appendMemoryFile,
+  getMemoryFilePath,
+  hashMemoryContent,
+  isValidMemoryDay,
+  listMemoryDays,
+  readMemoryFile,
+  writeMemoryFile,
+} from "../memory/memory-files.js";
+import { formatUnifiedDiff } from "../memory/line-diff.js";
+import {
+  formatMemorySnapshotDiff,
+  getMemorySnapshotPaths,
+  restoreAgentMemory,
+} from "../memory/memory-history.js";
+import type { MemorySnapshot } from "../db/database.js";
+import { isValidAgentName, AGENT_NAME_ERROR_MESSAGE } from "../../shared/validation.js";
+import {
+  DEFAULT_MEMORY_HISTORY_LIMIT,
+  DEFAULT_MEMORY_HISTORY_MAX_LIMIT,
+  DEFAULT_MEMORY_LONGTERM_MAX_CHARS,
+  DEFAULT_MEMORY_SEARCH_LIMIT,
+  DEFAULT_MEMORY_SEARCH_MAX_LIMIT,
+  DEFAULT_MEMORY_WRITE_WAIT_MS,
+} from "../../shared/defaults.js";
+import { formatUnixMsAsDateInTimeZone, parseDateTimeInputToUnixMsInTimeZone } from "../../shared/time.js";
+import { DEFAULT_ID_PREFIX_LEN, isHexLower, normalizeIdPrefixInput } from "../../shared/id-format.js";
+import { errorMessage } from "../../shared/daemon-log.js";
+
+/**
+ * Agents work on their own memory; the boss names the agent.
+ */
+function resolveMemoryAgentName(ctx: DaemonContext, principal: Principal, agentName: unknown): string {
+  if (agentName !== undefined && agentName !== null) {
+    if (typeof agentName !== "string" || !isValidAgentName(agentName)) {
+      rpcError(RPC_ERRORS.INVALID_PARAMS, AGENT_NAME_ERROR_MESSAGE);
+    }
+    const agent = ctx.db.getAgentByNameCaseInsensitive(agentName);
+    if (!agent) {
+      rpcError(RPC_ERRORS.NOT_FOUND, "Agent not found");
+    }
+    if (principal.kind === "agent" && principal.agent.name !== agent.name) {
+      rpcError(RPC_ERRORS.UNAUTHORIZED, "Access denied");
+    }
+    return agent.name;
+  }
+  if (principal.kind === "agent") {
+    return principal.agent.name;
+  }
+  rpcError(RPC_ERRORS.INVALID_PARAMS, "Agent name is required for the boss token");
+}
+
+/**
+ * `YYYY-MM-DD`, `today` (boss timezone), or undefined for MEMORY.md.
+ */
+function resolveMemoryDay(ctx: DaemonContext, day: unknown): string | undefined {
+  if (day === undefined || day === null) return undefined;
+  if (typeof day !== "string") {
+    rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid day (expected YYYY-MM-DD or today)");
+  }
+  const trimmed = day.trim();
+  if (trimmed.toLowerCase() === "today") {
+    return formatUnixMsAsDateInTimeZone(Date.now(), ctx.db.getBossTimezone());
+  }
+  if (!isValidMemoryDay(trimmed)) {
+    rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid day (expected YYYY-MM-DD or today)");
+  }
+  return trimmed;
+}
+
+/**
+ * Compact id prefix for snapshot/run lookups (at least 8 hex chars).
+ */
+function parseIdPrefix(raw: string): string {
+  const prefix = normalizeIdPrefixInput(raw);
+  if (prefix.length < DEFAULT_ID_PREFIX_LEN || !isHexLower(prefix)) {
+    rpcError(
+      RPC_ERRORS.INVALID_PARAMS,
+      `Invalid id (expected at least ${DEFAULT_ID_PREFIX_LEN} hex chars of a snapshot or run id, or a datetime)`
+    );
+  }
+  return prefix;
+}
+
+/**
+ * Create memory RPC handlers.
+ */
+export function createMemoryHandlers(ctx: DaemonContext): RpcMethodRegistry {
+  const embedder = createEmbedderFromEnv();
+
+  const resolveTarget = (operation: string, p: MemoryTargetParams) => {
+    const token = requireToken(p.token);
+    const principal = ctx.resolvePrincipal(token);
+    ctx.assertOperationAllowed(operation, principal);
+    const agentName = resolveMemoryAgentName(ctx, principal, p.agentName);
+    return {
+      principal,
+      agentName,
+      day: resolveMemoryDay(ctx, p.day),
+      internalSpaceDir: getAgentInternalSpaceDir(agentName, ctx.config.dataDir),
+    };
+  };
+
+  /**
+   * An agent's own writes happen inside (or between) its runs already; other writers
+   * wait for the agent's current run so they do not interleave with its file edits.
+   */
+  const runWrite = async <T>(principal: Principal, agentName: string, write: () => T): Promise<T> => {
+    if (principal.kind === "agent" && principal.agent.name === agentName) {
+      return write();
+    }
+    try {
+      return await ctx.executor.runBetweenRuns(agentName, write, DEFAULT_MEMORY_WRITE_WAIT_MS);
+    } catch (err) {
+      if ((err as { code?: unknown }).code !== undefined) throw err;
+      rpcError(RPC_ERRORS.CONFLICT, errorMessage(err));
+    }
+  };
+
+  const toWriteResult = (agentName: string, day: string | undefined, content: string, changed: boolean): MemoryWriteResult => ({
+    agentName,
+    path: getMemoryFilePath(day),
+    contentHash: hashMemoryContent(content),
+    chars: content.length,
+    ...(day ? {} : { maxChars: DEFAULT_MEMORY_LONGTERM_MAX_CHARS }),
+    changed,
+  });
+
+  const resolveAgentRunId = (agentName: string, rawId: string): string => {
+    const direct = ctx.db.getAgentRunById(rawId.trim());
+    if (direct && direct.agentName === agentName) return direct.id;
+    const matches = ctx.db
+      .findAgentRunsByIdPrefix(parseIdPrefix(rawId))
+      .filter((run) => run.agentName === agentName);
+    if (matches.length === 0) {
+      rpcError(RPC_ERRORS.NOT_FOUND, "Agent run not found");
+    }
+    if (matches.length > 1) {
+      rpcError(RPC_ERRORS.INVALID_PARAMS, "Ambiguous id prefix");
+    }
+    return matches[0]!.id;
+  };
+
+  /**
+   * `--at`: a datetime picks the newest snapshot at or before it; an id picks that snapshot,
+   * or the snapshot of that run (the state at its completion when the run changed nothing).
+   */
+  const resolveRestoreTarget = (agentName: string, at: string): MemorySnapshot => {
+    let atMs: number | null = null;
+    try {
+      atMs = parseDateTimeInputToUnixMsInTimeZone(at, ctx.db.getBossTimezone());
+    } catch {
+      // Not a datetime; treat as an id.
+    }
+    if (atMs === null) {
+      const matches = ctx.db.findMemorySnapshotsByIdPrefix(agentName, parseIdPrefix(at));
+      if (matches.length > 1) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Ambiguous id prefix");
+      }
+      if (matches.length === 1) return matches[0]!;
+
+      const run = ctx.db.getAgentRunById(resolveAgentRunId(agentName, at))!;
+      if (typeof run.completedAt !== "number") {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Agent run has not finished");
+      }
+      atMs = run.completedAt;
+    }
+    const snapshot = ctx.db.getMemorySnapshotAt(agentName, atMs);
+    if (!snapshot) {
+      rpcError(RPC_ERRORS.NOT_FOUND, `No memory snapshot at or before ${at}`);
+    }
+    return snapshot;
+  };
+
+  const toSnapshotView = (snapshot: MemorySnapshot, paths: Map<string, string[]>): MemorySnapshotView => ({
+    id: snapshot.id,
+    createdAt: snapshot.createdAt,
+    reason: snapshot.reason,
+    ...(snapshot.runId ? { runId: snapshot.runId } : {}),
+    ...(snapshot.runStatus ? { runStatus: snapshot.runStatus } : {}),
+    ...(snapshot.restoredFrom ? { restoredFrom: snapshot.restoredFrom } : {}),
+    paths: paths.get(snapshot.id) ?? [],
+  });
+
+  const requireText = (value: unknown, field: string, options: { allowEmpty: boolean }): string => {
+    if (typeof value !== "string" || (!options.allowEmpty && !value.trim())) {
+      rpcError(RPC_ERRORS.INVALID_PARAMS, `${field} is required`);
+    }
+    return value;
+  };
+
+  return {
+    "memory.search": async (params) => {
+      const p = params as unknown as MemorySearchParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("memory.search", principal);
+
+      if (typeof p.query !== "string" || !p.query.trim()) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Query is required");
+      }
+      if (!buildMemoryFtsQuery(p.query)) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Query has no searchable words");
+      }
+
+      const agentName = resolveMemoryAgentName(ctx, principal, p.agentName);
+
+      let limit: number = DEFAULT_MEMORY_SEARCH_LIMIT;
+      if (p.limit !== undefined && p.limit !== null) {
+        if (typeof p.limit !== "number" || !Number.isFinite(p.limit) || Math.trunc(p.limit) <= 0) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid limit (must be >= 1)");
+        }
+        limit = Math.trunc(p.limit);
+        if (limit > DEFAULT_MEMORY_SEARCH_MAX_LIMIT) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid limit (max ${DEFAULT_MEMORY_SEARCH_MAX_LIMIT})`);
+        }
+      }
+
+      return await searchAgentMemory({
+        db: ctx.db,
+        agentName,
+        internalSpaceDir: getAgentInternalSpaceDir(agentName, ctx.config.dataDir),
+        query: p.query,
+        limit,
+        embedder,
+      });
+    },
+
+    "memory.show": async (params) => {
+      const p = params as unknown as MemoryShowParams;
+      const { agentName, day, internalSpaceDir } = resolveTarget("memory.show", p);
+
+      const file = readMemoryFile(internalSpaceDir, day);
+      if (!file) {
+        rpcError(RPC_ERRORS.NOT_FOUND, `No daily memory for ${day}`);
+      }
+      return {
+        agentName,
+        path: file.path,
+        content: file.content,
+        contentHash: hashMemoryContent(file.content),
+        chars: file.content.length,
+        ...(day ? {} : { maxChars: DEFAULT_MEMORY_LONGTERM_MAX_CHARS }),
+      };
+    },
+
+    "memory.append": async (params) => {
+      const p = params as unknown as MemoryAppendParams;
+      const target = resolveTarget("memory.append", p);
+      const text = requireText(p.text, "Text", { allowEmpty: false });
+
+      const content = await runWrite(target.principal, target.agentName, () =>
+        appendMemoryFile(target.internalSpaceDir, text, target.day)
+      );
+      return toWriteResult(target.agentName, target.day, content, true);
+    },
+
+    "memory.edit": async (params) => {
+      const p = params as unknown as MemoryEditParams;
+      const target = resolveTarget("memory.edit", p);
+      const content = requireText(p.content, "Content", { allowEmpty: true });
+      if (p.baseHash !== undefined && p.baseHash !== null && typeof p.baseHash !== "string") {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid base-hash");
+      }
+
+      const changed = await runWrite(target.principal, target.agentName, () => {
+        // Archived days are read-only here; edits go to (and may recreate) the active file.
+        const current = readMemoryFile(target.internalSpaceDir, target.day);
+        const currentContent = current && !current.archived ? current.content : "";
+        if (p.baseHash && hashMemoryContent(currentContent) !== p.baseHash) {
+          rpcError(RPC_ERRORS.CONFLICT, "Memory changed since it was read (content hash mismatch)");
+        }
+        if (currentContent === content && current && !current.archived) return false;
+        writeMemoryFile(target.internalSpaceDir, content, target.day);
+        return true;
+      });
+      return toWriteResult(target.agentName, target.day, content, changed);
+    },
+
+    "memory.diff": async (params) => {
+      const p = params as unknown as MemoryDiffParams;
+      const { agentName, day, internalSpaceDir } = resolveTarget("memory.diff", p);
+      const content = requireText(p.content, "Content", { allowEmpty: true });
+
+      const current = readMemoryFile(internalSpaceDir, day);
+      const currentContent = current && !current.archived ? current.content : "";
+      const relativePath = getMemoryFilePath(day);
+      const diff = formatUnifiedDiff(currentContent, content, { old: `a/${relativePath}`, new: `b/${relativePath}` });
+      return { agentName, path: relativePath, diff, changed: diff !== "" };
+    },
+
+    "memory.list-days": async (params) => {
+      const p = params as unknown as MemoryListDaysParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("memory.list-days", principal);
+      const agentName = resolveMemoryAgentName(ctx, principal, p.agentName);
+
+      return {
+        agentName,
+        days: listMemoryDays(getAgentInternalSpaceDir(agentName, ctx.config.dataDir), {
+          includeArchived: p.includeArchived === true,
+        }),
+      };
+    },
+
+    "memory.history": async (params) => {
+      const p = params as unknown as MemoryHistoryParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("memory.history", principal);
+      const agentName = resolveMemoryAgentName(ctx, principal, p.agentName);
+
+      let limit: number = DEFAULT_MEMORY_HISTORY_LIMIT;
+      if (p.limit !== undefined && p.limit !== null) {
+        if (typeof p.limit !== "number" || !Number.isFinite(p.limit) || Math.trunc(p.limit) <= 0) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid limit (must be >= 1)");
+        }
+        limit = Math.trunc(p.limit);
+        if (limit > DEFAULT_MEMORY_HISTORY_MAX_LIMIT) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid limit (max ${DEFAULT_MEMORY_HISTORY_MAX_LIMIT})`);
+        }
+      }
+      if (p.runId !== undefined && p.runId !== null && (typeof p.runId !== "string" || !p.runId.trim())) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid run id");
+      }
+      const runId = p.runId ? resolveAgentRunId(agentName, p.runId) : undefined;
+
+      const paths = getMemorySnapshotPaths(ctx.db, agentName);
+      const snapshots = ctx.db.listMemorySnapshots(agentName, { limit, runId }).map((snapshot) => ({
+        ...toSnapshotView(snapshot, paths),
+        ...(p.includeDiff === true ? { diff: formatMemorySnapshotDiff(ctx.db, agentName, snapshot.id) } : {}),
+      }));
+      return { agentName, snapshots };
+    },
+
+    "memory.restore": async (params) => {
+      const p = params as unknown as MemoryRestoreParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("memory.restore", principal);
+      const agentName = resolveMemoryAgentName(ctx, principal, p.agentName);
+      if (typeof p.at !== "string" || !p.at.trim()) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "At is required (snapshot id, run id, or datetime)");
+      }
+
+      const target = resolveRestoreTarget(agentName, p.at.trim());
+      const restored = await runWrite(principal, agentName, () =>
+        restoreAgentMemory({
+          db: ctx.db,
+          agentName,
+          internalSpaceDir: getAgentInternalSpaceDir(agentName, ctx.config.dataDir),
+          target,
+        })
+      );
+      return {
+        agentName,
+        restoredFrom: toSnapshotView(target, getMemorySnapshotPaths(ctx.db, agentName)),
+        ...(restored.snapshot ? { snapshotId: restored.snapshot.id } : {}),
+        changedPaths: restored.changedPaths,
+      };
+    },
+  };
+}
@@ -7,6 +7,7 @@ import { RPC_ERRORS } from "../ipc/types.js";
 import type { DaemonContext } from "./context.js";
 import { requireToken, rpcError } from "./context.js";
 import { parseAddress } from "../../adapters/types.js";
+import { getAdapterPlugin } from "../../adapters/registry.js";
 import { resolveEnvelopeIdInput } from "./resolve-envelope-id.js";
 import { formatTelegramMessageIdCompact } from "../../shared/telegram-message-id.js";
 
@@ -75,7 +76,7 @@ export function createReactionHandlers(ctx: DaemonContext): RpcMethodRegistry {
     if (!adapter) {
       rpcError(RPC_ERRORS.INTERNAL_ERROR, `Adapter not loaded: ${fromAddress.adapter}`);
     }
-    if (!adapter.setReaction) {
+    if (!adapter.setReaction || getAdapterPlugin(fromAddress.adapter)?.capabilities.reactions === false) {
       rpcError(RPC_ERRORS.INVALID_PARAMS, `Adapter '${fromAddress.adapter}' does not support reactions`);
     }
 
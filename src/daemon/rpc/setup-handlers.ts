@@ -12,6 +12,7 @@ import { rpcError } from "./context.js";
 import { isValidAgentName, AGENT_NAME_ERROR_MESSAGE } from "../../shared/validation.js";
 import { parseDailyResetAt, parseDurationToMs } from "../../shared/session-policy.js";
 import { setupAgentHome } from "../../agent/home-setup.js";
+import { formatAgentProviderNames, isAgentProviderName } from "../../agent/providers/index.js";
 import { isValidIanaTimeZone, getDaemonIanaTimeZone } from "../../shared/timezone.js";
 import { BACKGROUND_AGENT_NAME } from "../../shared/defaults.js";
 import {
@@ -216,11 +217,17 @@ export function createSetupHandlers(ctx: DaemonContext): RpcMethodRegistry {
       validateSetupAgentConfig(p.speakerAgent, "speaker-agent");
       validateSetupAgentConfig(p.leaderAgent, "leader-agent");
 
-      if (p.speakerAgent.provider !== "claude" && p.speakerAgent.provider !== "codex") {
-        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid speaker-agent.provider (expected claude or codex)");
+      if (!isAgentProviderName(p.speakerAgent.provider)) {
+        rpcError(
+          RPC_ERRORS.INVALID_PARAMS,
+          `Invalid speaker-agent.provider (expected ${formatAgentProviderNames()})`
+        );
       }
-      if (p.leaderAgent.provider !== "claude" && p.leaderAgent.provider !== "codex") {
-        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid leader-agent.provider (expected claude or codex)");
+      if (!isAgentProviderName(p.leaderAgent.provider)) {
+        rpcError(
+          RPC_ERRORS.INVALID_PARAMS,
+          `Invalid leader-agent.provider (expected ${formatAgentProviderNames()})`
+        );
       }
 
       if (p.adapter.adapterType !== "telegram") {
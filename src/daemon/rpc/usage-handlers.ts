@@ -0,0 +1,130 @@
+/**
+ * Token usage and cost reporting RPC handlers.
+ *
+ * Handles: usage.report
+ */
+
+import type {
+  RpcMethodRegistry,
+  UsageReportGroupBy,
+  UsageReportParams,
+  UsageReportResult,
+  UsageReportRow,
+} from "../ipc/types.js";
+import { RPC_ERRORS } from "../ipc/types.js";
+import type { DaemonContext } from "./context.js";
+import { requireToken, rpcError } from "./context.js";
+import type { AgentRun } from "../db/database.js";
+import { isValidAgentName, AGENT_NAME_ERROR_MESSAGE } from "../../shared/validation.js";
+import { formatUnixMsAsDateInTimeZone, parseDateTimeInputToUnixMsInTimeZone } from "../../shared/time.js";
+import { getUsageModelKey } from "../../shared/model-prices.js";
+
+const USAGE_REPORT_GROUPS = new Set<string>(["agent", "day", "model"]);
+
+function parseSince(raw: unknown, bossTimezone: string): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "string" || !raw.trim()) {
+    rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid since");
+  }
+  try {
+    return parseDateTimeInputToUnixMsInTimeZone(raw, bossTimezone);
+  } catch (err) {
+    const rawMessage = err instanceof Error ? err.message : String(err);
+    rpcError(RPC_ERRORS.INVALID_PARAMS, rawMessage.replace(/^Invalid deliver-at:/, "Invalid since:"));
+  }
+}
+
+function emptyTotals(): Omit<UsageReportRow, "key"> {
+  return {
+    runCount: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    unpricedRunCount: 0,
+  };
+}
+
+function addRun(totals: Omit<UsageReportRow, "key">, run: AgentRun): void {
+  totals.runCount++;
+  totals.inputTokens += run.inputTokens ?? 0;
+  totals.outputTokens += run.outputTokens ?? 0;
+  totals.cacheReadTokens += run.cacheReadTokens ?? 0;
+  totals.cacheWriteTokens += run.cacheWriteTokens ?? 0;
+  totals.totalTokens += run.totalTokens ?? 0;
+  if (typeof run.costUsd === "number") {
+    totals.costUsd += run.costUsd;
+  } else {
+    totals.unpricedRunCount++;
+  }
+}
+
+/**
+ * Sum run usage per agent, boss-timezone day, or model. Days and models sort ascending;
+ * agents sort by cost (highest first).
+ */
+export function aggregateUsage(runs: AgentRun[], by: UsageReportGroupBy, bossTimezone: string): UsageReportResult {
+  const groups = new Map<string, Omit<UsageReportRow, "key">>();
+  const total = emptyTotals();
+
+  for (const run of runs) {
+    const key =
+      by === "agent"
+        ? run.agentName
+        : by === "day"
+          ? formatUnixMsAsDateInTimeZone(run.startedAt, bossTimezone)
+          : getUsageModelKey({ provider: run.provider, model: run.model });
+    let group = groups.get(key);
+    if (!group) {
+      group = emptyTotals();
+      groups.set(key, group);
+    }
+    addRun(group, run);
+    addRun(total, run);
+  }
+
+  const rows = [...groups.entries()].map(([key, totals]) => ({ key, ...totals }));
+  if (by === "agent") {
+    rows.sort((a, b) => b.costUsd - a.costUsd || a.key.localeCompare(b.key));
+  } else {
+    rows.sort((a, b) => a.key.localeCompare(b.key));
+  }
+  return { by, rows, total };
+}
+
+/**
+ * Create usage RPC handlers.
+ */
+export function createUsageHandlers(ctx: DaemonContext): RpcMethodRegistry {
+  return {
+    "usage.report": async (params) => {
+      const p = params as unknown as UsageReportParams;
+      const token = requireToken(p.token);
+      const principal = ctx.resolvePrincipal(token);
+      ctx.assertOperationAllowed("usage.report", principal);
+
+      if (typeof p.by !== "string" || !USAGE_REPORT_GROUPS.has(p.by)) {
+        rpcError(RPC_ERRORS.INVALID_PARAMS, "Invalid by (expected agent, day, or model)");
+      }
+
+      let agentName: string | undefined;
+      if (p.agentName !== undefined && p.agentName !== null) {
+        if (typeof p.agentName !== "string" || !isValidAgentName(p.agentName)) {
+          rpcError(RPC_ERRORS.INVALID_PARAMS, AGENT_NAME_ERROR_MESSAGE);
+        }
+        const agent = ctx.db.getAgentByNameCaseInsensitive(p.agentName);
+        if (!agent) {
+          rpcError(RPC_ERRORS.NOT_FOUND, "Agent not found");
+        }
+        agentName = agent.name;
+      }
+
+      const bossTimezone = ctx.db.getBossTimezone();
+      const startedAfter = parseSince(p.since, bossTimezone);
+      const runs = ctx.db.getAgentRunsWithUsage({ agentName, startedAfter });
+      return aggregateUsage(runs, p.by, bossTimezone);
+    },
+  };
+}
@@ -5,6 +5,7 @@ import { computeNextCronUnixMs, normalizeTimeZoneInput } from "../../shared/cron
 import { formatAgentAddress, parseAddress } from "../../adapters/types.js";
 import { errorMessage, logEvent } from "../../shared/daemon-log.js";
 import { formatUnixMsAsTimeZoneOffset } from "../../shared/time.js";
+import { getWebhookDestinationError, WEBHOOK_PLATFORM } from "../../webhook/destination.js";
 import type { EnvelopeScheduler } from "./envelope-scheduler.js";
 
 function getCronScheduleIdFromEnvelopeMetadata(metadata: unknown): string | null {
@@ -38,6 +39,12 @@ export class CronScheduler {
     const destination = parseAddress(schedule.to);
     if (destination.type !== "channel") return;
 
+    if (destination.adapter === WEBHOOK_PLATFORM) {
+      const webhookError = getWebhookDestinationError(this.db, schedule.agentName, destination.chatId);
+      if (webhookError) throw new Error(webhookError.message);
+      return;
+    }
+
     const binding = this.db.getAgentBindingByType(schedule.agentName, destination.adapter);
     if (!binding) {
       throw new Error(
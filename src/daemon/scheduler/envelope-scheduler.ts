@@ -11,6 +11,7 @@ const MAX_CHANNEL_ENVELOPES_PER_TICK = 100;
 const MAX_BACKGROUND_ENVELOPES_PER_TICK = 100;
 const ORPHAN_AGENT_ENVELOPES_BATCH_SIZE = 100;
 const MAX_ORPHAN_AGENT_ENVELOPES_PER_TICK = 2000;
+const MAX_EXPIRED_LEASES_PER_TICK = 100;
 
 export class EnvelopeScheduler {
   private nextWakeTimer: NodeJS.Timeout | null = null;
@@ -21,7 +22,10 @@ export class EnvelopeScheduler {
   constructor(
     private readonly db: HiBossDatabase,
     private readonly router: MessageRouter,
-    private readonly executor: AgentExecutor
+    private readonly executor: AgentExecutor,
+    private readonly options: {
+      onEnvelopesDone?: (envelopeIds: string[]) => void;
+    } = {}
   ) {}
 
   start(): void {
@@ -64,6 +68,9 @@ export class EnvelopeScheduler {
     this.tickQueued = false;
 
     try {
+      // 0) Release in-flight envelopes whose lease expired (at-least-once runs that stopped renewing).
+      this.releaseExpiredLeases();
+
       // 1) Deliver due channel envelopes (scheduled delivery).
       const dueChannel = this.db.listDueChannelEnvelopes(MAX_CHANNEL_ENVELOPES_PER_TICK);
       for (const env of dueChannel) {
@@ -132,6 +139,36 @@ export class EnvelopeScheduler {
     }
   }
 
+  private releaseExpiredLeases(): void {
+    const expired = this.db.listInFlightEnvelopes({
+      expiredBefore: Date.now(),
+      limit: MAX_EXPIRED_LEASES_PER_TICK,
+    });
+    if (expired.length === 0) return;
+
+    const released = this.db.releaseInFlightEnvelopes(
+      expired.map((env) => env.id),
+      { kind: "lease-expired", message: "Envelope lease expired before the agent run completed" }
+    );
+
+    if (released.failed.length > 0) {
+      try {
+        this.options.onEnvelopesDone?.(released.failed);
+      } catch (err) {
+        logEvent("error", "scheduler-on-envelopes-done-failed", { error: errorMessage(err) });
+      }
+    }
+
+    if (expired.length >= MAX_EXPIRED_LEASES_PER_TICK) {
+      this.tickQueued = true;
+    }
+
+    logEvent("warn", "scheduler-envelope-leases-expired", {
+      "retried-count": released.retried.length,
+      "failed-count": released.failed.length,
+    });
+  }
+
   private cleanupOrphanAgentEnvelopes(agentName: string): void {
     const raw = agentName;
     const toAddress = `agent:${raw}`;
@@ -165,7 +202,7 @@ export class EnvelopeScheduler {
             },
           };
           this.db.updateEnvelopeMetadata(env.id, next);
-          this.db.updateEnvelopeStatus(env.id, "done");
+          this.db.updateEnvelopeStatus(env.id, "failed");
         }
       });
 
@@ -205,12 +242,15 @@ export class EnvelopeScheduler {
     this.clearTimer();
 
     const next = this.db.getNextScheduledEnvelope();
-    const deliverAt = next?.deliverAt;
-    if (!deliverAt) {
+    const leaseExpiry = this.db.getNextInFlightLeaseExpiry();
+    const candidates = [next?.deliverAt, leaseExpiry].filter(
+      (ms): ms is number => typeof ms === "number"
+    );
+    if (candidates.length === 0) {
       return;
     }
 
-    const delay = delayUntilUnixMs(deliverAt);
+    const delay = delayUntilUnixMs(Math.min(...candidates));
     if (delay <= 0) {
       // "First tick after the instant" (best-effort): run on the next event loop tick.
       setImmediate(() => void this.tick("due-now"));
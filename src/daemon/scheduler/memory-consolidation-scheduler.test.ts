@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { HiBossDatabase } from "../db/database.js";
+import type { MessageRouter } from "../router/message-router.js";
+import { getAgentInternalSpaceDir } from "../../agent/home-setup.js";
+import { getMockScenarioPath } from "../../agent/providers/mock.js";
+import { MemoryConsolidationScheduler } from "./memory-consolidation-scheduler.js";
+
+test("consolidation records its usage as an agent run and reports only applied changes", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-consolidation-scheduler-test-"));
+  const workspace = path.join(dir, "workspace");
+  fs.mkdirSync(path.dirname(getMockScenarioPath(workspace)), { recursive: true });
+  fs.writeFileSync(
+    getMockScenarioPath(workspace),
+    JSON.stringify({ turns: [{ text: "## Boss\n- likes tea", usage: { inputTokens: 120, outputTokens: 30 } }] })
+  );
+
+  const db = new HiBossDatabase(path.join(dir, "hiboss.db"));
+  db.registerAgent({ name: "nex", provider: "mock", role: "leader", workspace, model: "mock-model" });
+  db.setModelPrices({ "mock-model": { input: 1, output: 10 } });
+  const internalSpaceDir = getAgentInternalSpaceDir("nex", dir);
+  fs.mkdirSync(path.join(internalSpaceDir, "memories"), { recursive: true });
+  fs.writeFileSync(path.join(internalSpaceDir, "memories", "2020-01-01.md"), "- boss likes tea\n");
+
+  const sent: string[] = [];
+  const router = {
+    routeEnvelope: async (input: { content: { text?: string } }) => {
+      sent.push(input.content.text ?? "");
+    },
+  } as unknown as MessageRouter;
+  const scheduler = new MemoryConsolidationScheduler({ db, router, hibossDir: dir });
+
+  try {
+    scheduler.start();
+    await scheduler.runAll();
+    assert.equal(sent.length, 1);
+    assert.match(sent[0]!, /^memory-consolidation: applied/);
+
+    const [run] = db.getAgentRuns("nex", { limit: 10 });
+    assert.equal(run.status, "completed");
+    assert.equal(run.inputTokens, 120);
+    assert.equal(run.outputTokens, 30);
+    assert.equal(run.costUsd, 0.00042);
+
+    // Nothing old enough is left: no prompt, no run, no envelope.
+    await scheduler.runAll();
+    assert.equal(sent.length, 1);
+    assert.equal(db.getAgentRuns("nex", { limit: 10 }).length, 1);
+  } finally {
+    scheduler.stop();
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
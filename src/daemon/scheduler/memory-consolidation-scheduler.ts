@@ -0,0 +1,201 @@
+import type { HiBossDatabase } from "../db/database.js";
+import type { MessageRouter } from "../router/message-router.js";
+import type { Agent } from "../../agent/types.js";
+import { executeBackgroundPrompt } from "../../agent/background-turn.js";
+import { getAgentInternalSpaceDir } from "../../agent/home-setup.js";
+import { getAgentUsageBudgetState } from "../../agent/usage-budget.js";
+import { readTokenUsage, type TurnTokenUsage } from "../../agent/executor-support.js";
+import { getAgentProvider } from "../../agent/providers/index.js";
+import { computeTurnCostUsd, getUsageModelKey } from "../../shared/model-prices.js";
+import { formatAgentAddress } from "../../adapters/types.js";
+import {
+  BACKGROUND_AGENT_NAME,
+  DEFAULT_AGENT_PROVIDER,
+  DEFAULT_MEMORY_CONSOLIDATION_CRON,
+  getDefaultRuntimeWorkspace,
+} from "../../shared/defaults.js";
+import { computeNextCronUnixMs } from "../../shared/cron.js";
+import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+import { delayUntilUnixMs, formatUnixMsAsDateInTimeZone, formatUnixMsAsTimeZoneOffset } from "../../shared/time.js";
+import {
+  consolidateAgentMemory,
+  formatConsolidationReport,
+  isMemoryConsolidationEnabled,
+  type MemoryConsolidationResult,
+} from "../memory/consolidation.js";
+
+const MAX_TIMER_DELAY_MS = 2_147_483_647; // setTimeout max (~24.8 days)
+
+/**
+ * Daemon-owned daily job: folds each agent's old daily memory files into MEMORY.md
+ * (see `../memory/consolidation.ts`). The prompt is recorded as a completed agent run (usage
+ * and cost count toward budgets), and the agent gets a report envelope when MEMORY.md changed.
+ *
+ * Runs on `DEFAULT_MEMORY_CONSOLIDATION_CRON` in the boss timezone. Missed runs are not
+ * made up; the next run picks up whatever is old enough by then.
+ */
+export class MemoryConsolidationScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private runInProgress = false;
+
+  constructor(
+    private readonly deps: {
+      db: HiBossDatabase;
+      router: MessageRouter;
+      hibossDir: string;
+    }
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext(): void {
+    if (!this.running) return;
+
+    const nextRunMs = computeNextCronUnixMs({
+      cron: DEFAULT_MEMORY_CONSOLIDATION_CRON,
+      bossTimezone: this.deps.db.getBossTimezone(),
+    });
+    const wake = () => {
+      this.timer = null;
+      if (Date.now() < nextRunMs) {
+        // Long delays are clamped to the setTimeout maximum; sleep again.
+        this.timer = setTimeout(wake, Math.min(delayUntilUnixMs(nextRunMs), MAX_TIMER_DELAY_MS));
+        return;
+      }
+      void this.runAll().finally(() => this.scheduleNext());
+    };
+    this.timer = setTimeout(wake, Math.min(delayUntilUnixMs(nextRunMs), MAX_TIMER_DELAY_MS));
+
+    logEvent("info", "memory-consolidation-scheduled", {
+      "next-run-at": formatUnixMsAsTimeZoneOffset(nextRunMs, this.deps.db.getBossTimezone()),
+    });
+  }
+
+  /**
+   * Consolidate every opted-in agent, one at a time.
+   */
+  async runAll(): Promise<void> {
+    if (this.runInProgress) return;
+    this.runInProgress = true;
+    try {
+      for (const agent of this.deps.db.listAgents()) {
+        if (!this.running) return;
+        if (!isMemoryConsolidationEnabled(agent.metadata)) continue;
+        if (getAgentUsageBudgetState(this.deps.db, agent).exceeded) {
+          logEvent("info", "memory-consolidation-skipped", { "agent-name": agent.name, reason: "budget-exceeded" });
+          continue;
+        }
+        await this.runForAgent(agent);
+      }
+    } finally {
+      this.runInProgress = false;
+    }
+  }
+
+  private async runForAgent(agent: Agent): Promise<void> {
+    const startedAtMs = Date.now();
+    const provider = agent.provider ?? DEFAULT_AGENT_PROVIDER;
+
+    // Set once the prompt returned: the tokens are spent even if the reply is then rejected.
+    let promptUsage: TurnTokenUsage | undefined;
+    let result: MemoryConsolidationResult | null = null;
+    let report: string;
+    try {
+      result = await consolidateAgentMemory({
+        agentName: agent.name,
+        internalSpaceDir: getAgentInternalSpaceDir(agent.name, this.deps.hibossDir),
+        today: formatUnixMsAsDateInTimeZone(startedAtMs, this.deps.db.getBossTimezone()),
+        runPrompt: async (prompt) => {
+          const { finalText, usage } = await executeBackgroundPrompt({
+            provider,
+            workspace: agent.workspace?.trim() || getDefaultRuntimeWorkspace(),
+            prompt,
+            model: agent.model,
+            reasoningEffort: agent.reasoningEffort ?? undefined,
+          });
+          promptUsage = usage ?? readTokenUsage({});
+          return finalText;
+        },
+      });
+      if (!result) return;
+
+      logEvent("info", "memory-consolidation-complete", {
+        "agent-name": agent.name,
+        state: result.status,
+        "archived-count": result.archivedFiles.length,
+        "dropped-section-count": result.droppedSections.length,
+        reason: result.reason,
+        "duration-ms": Date.now() - startedAtMs,
+      });
+      report = formatConsolidationReport(result);
+    } catch (err) {
+      logEvent("warn", "memory-consolidation-failed", {
+        "agent-name": agent.name,
+        provider,
+        error: errorMessage(err),
+      });
+      report = [
+        "memory-consolidation: failed",
+        `error: ${errorMessage(err)}`,
+        "",
+        "No memory files were changed; the next run retries.",
+      ].join("\n");
+    }
+
+    if (promptUsage) {
+      this.recordRun(agent, provider, startedAtMs, report, promptUsage);
+    }
+
+    // Skips and failures are only logged; the agent hears about changes to its memory.
+    if (result?.status !== "applied") return;
+    try {
+      await this.deps.router.routeEnvelope({
+        from: formatAgentAddress(BACKGROUND_AGENT_NAME),
+        to: formatAgentAddress(agent.name),
+        fromBoss: false,
+        content: { text: report },
+      });
+    } catch (err) {
+      logEvent("error", "memory-consolidation-report-failed", {
+        "agent-name": agent.name,
+        error: errorMessage(err),
+      });
+    }
+  }
+
+  private recordRun(agent: Agent, provider: string, startedAtMs: number, report: string, usage: TurnTokenUsage): void {
+    try {
+      const model = agent.model ?? null;
+      const costUsd = computeTurnCostUsd({
+        inputIncludesCacheReads: getAgentProvider(provider).inputIncludesCacheReads,
+        usage,
+        price: this.deps.db.getModelPrices()[getUsageModelKey({ provider, model })],
+      });
+      this.deps.db.insertCompletedAgentRun({
+        agentName: agent.name,
+        startedAt: startedAtMs,
+        finalResponse: report,
+        usage,
+        pricing: { provider, model, costUsd },
+      });
+    } catch (err) {
+      logEvent("warn", "memory-consolidation-usage-record-failed", {
+        "agent-name": agent.name,
+        error: errorMessage(err),
+      });
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { HiBossDatabase } from "../db/database.js";
+import { MessageRouter } from "../router/message-router.js";
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from "../../webhook/signature.js";
+import { WebhookIngress, WebhookRateLimiter } from "./webhook-ingress.js";
+
+async function withIngress(run: (params: { db: HiBossDatabase; ingress: WebhookIngress }) => Promise<void>): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-webhook-test-"));
+  const db = new HiBossDatabase(path.join(dir, "hiboss.db"));
+  const ingress = new WebhookIngress(db, new MessageRouter(db), { port: 0 });
+  await ingress.start();
+  try {
+    await run({ db, ingress });
+  } finally {
+    await ingress.stop();
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function post(url: string, body: string, headers: Record<string, string>): Promise<Response> {
+  return fetch(url, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body });
+}
+
+test("webhook ingress verifies signatures and renders payload templates into envelopes", async () => {
+  await withIngress(async ({ db, ingress }) => {
+    db.registerAgent({ name: "kai", provider: "claude", role: "leader" });
+    const hook = db.createWebhook({
+      name: "ci",
+      agentName: "kai",
+      template: "CI {{ payload.status }} on {{ payload.branch }}{{ payload.missing }} ({{ headers['x-event'] }})",
+    });
+    const url = ingress.getUrl("ci");
+    const body = JSON.stringify({ status: "failed", branch: "main" });
+
+    const unsigned = await post(url, body, {});
+    assert.equal(unsigned.status, 401);
+    const forged = await post(url, body, { [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload("wrong", body) });
+    assert.equal(forged.status, 401);
+
+    const accepted = await post(url, body, {
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(hook.secret, body),
+      "X-Event": "push",
+    });
+    assert.equal(accepted.status, 202);
+    const { id } = (await accepted.json()) as { id: string };
+    const envelope = db.getEnvelopeById(id);
+    assert.ok(envelope);
+    assert.equal(envelope.from, "channel:webhook:ci");
+    assert.equal(envelope.to, "agent:kai");
+    assert.equal(envelope.fromBoss, false);
+    assert.equal(envelope.content.text, "CI failed on main (push)");
+    assert.equal((envelope.metadata as Record<string, unknown>).platform, "webhook");
+
+    const bearer = await post(url, "not json", { Authorization: `Bearer ${hook.secret}` });
+    assert.equal(bearer.status, 400);
+
+    const unknown = await post(ingress.getUrl("nope"), body, {});
+    assert.equal(unknown.status, 404);
+  });
+});
+
+test("webhook ingress falls back to pretty-printed JSON and enforces the per-hook rate limit", async () => {
+  await withIngress(async ({ db, ingress }) => {
+    db.registerAgent({ name: "kai", provider: "claude", role: "leader" });
+    const hook = db.createWebhook({ name: "alerts", agentName: "kai", rateLimitPerMinute: 2 });
+    const headers = { Authorization: `Bearer ${hook.secret}` };
+    const url = ingress.getUrl("alerts");
+
+    const first = await post(url, '{"alert":"disk"}', headers);
+    assert.equal(first.status, 202);
+    const { id } = (await first.json()) as { id: string };
+    assert.equal(db.getEnvelopeById(id)?.content.text, '{\n  "alert": "disk"\n}');
+
+    assert.equal((await post(url, "{}", headers)).status, 202);
+    const limited = await post(url, "{}", headers);
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get("retry-after")) > 0);
+  });
+});
+
+test("WebhookRateLimiter frees slots after the one-minute window", () => {
+  const limiter = new WebhookRateLimiter();
+  assert.equal(limiter.take("a", 1, 1_000), 0);
+  assert.equal(limiter.take("a", 1, 31_000), 30_000);
+  assert.equal(limiter.take("b", 1, 31_000), 0);
+  assert.equal(limiter.take("a", 1, 61_001), 0);
+});
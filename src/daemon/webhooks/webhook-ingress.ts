@@ -0,0 +1,274 @@
+/**
+ * Webhook ingress: authenticated local HTTP endpoints that turn JSON payloads into envelopes.
+ */
+
+import * as http from "http";
+import type { AddressInfo } from "net";
+import type { HiBossDatabase } from "../db/database.js";
+import type { MessageRouter } from "../router/message-router.js";
+import type { Webhook } from "../../webhook/types.js";
+import { formatAgentAddress, formatChannelAddress } from "../../adapters/types.js";
+import { DEFAULT_WEBHOOK_HOST, DEFAULT_WEBHOOK_PORT } from "../../shared/defaults.js";
+import { HIBOSS_WEBHOOK_PORT_ENV } from "../../shared/env.js";
+import { renderInlineTemplate } from "../../shared/prompt-renderer.js";
+import { errorMessage, logEvent } from "../../shared/daemon-log.js";
+import { generateUUID } from "../../shared/uuid.js";
+import { WEBHOOK_PLATFORM } from "../../webhook/destination.js";
+import {
+  WEBHOOK_SIGNATURE_HEADER_ALIASES,
+  verifyWebhookBearer,
+  verifyWebhookSignature,
+} from "../../webhook/signature.js";
+
+export const WEBHOOK_MAX_BODY_BYTES = 1024 * 1024;
+export const WEBHOOK_MAX_TEXT_CHARS = 20_000;
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+const HOOK_PATH_PREFIX = "/hooks/";
+
+// Request headers never exposed to templates.
+const PRIVATE_HEADERS: ReadonlySet<string> = new Set(["authorization", "cookie", ...WEBHOOK_SIGNATURE_HEADER_ALIASES]);
+
+class PayloadTooLargeError extends Error {}
+
+/**
+ * Resolve the ingress port from `HIBOSS_WEBHOOK_PORT` (default: `DEFAULT_WEBHOOK_PORT`).
+ */
+export function resolveWebhookPort(env: NodeJS.ProcessEnv = process.env): number {
+  const raw = (env[HIBOSS_WEBHOOK_PORT_ENV] ?? "").trim();
+  if (!raw) return DEFAULT_WEBHOOK_PORT;
+  const port = Number(raw);
+  if (!/^\d+$/.test(raw) || port < 1 || port > 65535) {
+    throw new Error(`Invalid ${HIBOSS_WEBHOOK_PORT_ENV} (expected 1-65535): ${raw}`);
+  }
+  return port;
+}
+
+/**
+ * Sliding one-minute window per webhook name.
+ */
+export class WebhookRateLimiter {
+  private hits: Map<string, number[]> = new Map();
+
+  /**
+   * Record a hit. Returns 0 when allowed, otherwise the milliseconds until a slot frees up.
+   */
+  take(name: string, limitPerMinute: number, nowMs = Date.now()): number {
+    const recent = (this.hits.get(name) ?? []).filter((t) => t > nowMs - RATE_LIMIT_WINDOW_MS);
+    if (recent.length >= limitPerMinute) {
+      this.hits.set(name, recent);
+      return recent[0]! + RATE_LIMIT_WINDOW_MS - nowMs;
+    }
+    recent.push(nowMs);
+    this.hits.set(name, recent);
+    return 0;
+  }
+
+  forget(name: string): void {
+    this.hits.delete(name);
+  }
+}
+
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new PayloadTooLargeError(`Payload exceeds ${maxBytes} bytes`));
+        req.pause();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function isAuthorized(hook: Webhook, req: http.IncomingMessage, body: Buffer): boolean {
+  for (const name of WEBHOOK_SIGNATURE_HEADER_ALIASES) {
+    const signature = firstHeader(req.headers[name]);
+    if (signature) return verifyWebhookSignature(hook.secret, body, signature);
+  }
+  const authorization = firstHeader(req.headers.authorization);
+  return authorization ? verifyWebhookBearer(hook.secret, authorization) : false;
+}
+
+function templateHeaders(req: http.IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (PRIVATE_HEADERS.has(name) || value === undefined) continue;
+    headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return headers;
+}
+
+function truncateText(text: string): string {
+  return text.length > WEBHOOK_MAX_TEXT_CHARS ? `${text.slice(0, WEBHOOK_MAX_TEXT_CHARS)}\n…(truncated)` : text;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: Record<string, unknown>, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+/**
+ * HTTP server for `POST /hooks/<name>`.
+ *
+ * Each request must carry `X-Hiboss-Signature-256` (or `X-Hub-Signature-256`) or
+ * `Authorization: Bearer <secret>`. Accepted payloads become envelopes
+ * `channel:webhook:<name>` → `agent:<agent>`.
+ */
+export class WebhookIngress {
+  private server: http.Server | null = null;
+  private limiter = new WebhookRateLimiter();
+  private host: string;
+  private port: number;
+
+  constructor(
+    private db: HiBossDatabase,
+    private router: MessageRouter,
+    options: { host?: string; port?: number } = {}
+  ) {
+    this.host = options.host ?? DEFAULT_WEBHOOK_HOST;
+    this.port = options.port ?? DEFAULT_WEBHOOK_PORT;
+  }
+
+  /**
+   * Public URL of a webhook endpoint (uses the bound port once started).
+   */
+  getUrl(name: string): string {
+    return `http://${this.host}:${this.port}${HOOK_PATH_PREFIX}${name}`;
+  }
+
+  /**
+   * Drop rate-limit state for a deleted webhook.
+   */
+  forget(name: string): void {
+    this.limiter.forget(name);
+  }
+
+  private reject(res: http.ServerResponse, status: number, error: string, name?: string, headers?: http.OutgoingHttpHeaders): void {
+    logEvent("warn", "webhook-rejected", { "webhook-name": name, status, error });
+    sendJson(res, status, { error }, headers);
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!url.pathname.startsWith(HOOK_PATH_PREFIX)) {
+      sendJson(res, 404, { error: "not found" });
+      return;
+    }
+    const name = url.pathname.slice(HOOK_PATH_PREFIX.length);
+    if (req.method !== "POST") {
+      sendJson(res, 405, { error: "method not allowed" }, { Allow: "POST" });
+      return;
+    }
+
+    const hook = this.db.getWebhookByName(name);
+    if (!hook) {
+      this.reject(res, 404, "Webhook not found", name);
+      return;
+    }
+
+    let body: Buffer;
+    try {
+      body = await readBody(req, WEBHOOK_MAX_BODY_BYTES);
+    } catch (err) {
+      if (err instanceof PayloadTooLargeError) {
+        this.reject(res, 413, err.message, name, { Connection: "close" });
+        req.destroy();
+        return;
+      }
+      throw err;
+    }
+
+    if (!isAuthorized(hook, req, body)) {
+      this.reject(res, 401, "Invalid signature", name);
+      return;
+    }
+
+    // Counted after authentication so unsigned floods cannot exhaust a hook's budget.
+    const retryAfterMs = this.limiter.take(hook.name, hook.rateLimitPerMinute);
+    if (retryAfterMs > 0) {
+      this.reject(res, 429, "Rate limit exceeded", name, { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString("utf8"));
+    } catch {
+      this.reject(res, 400, "Invalid JSON payload", name);
+      return;
+    }
+
+    const agent = this.db.getAgentByName(hook.agentName);
+    if (!agent) {
+      this.reject(res, 404, `Agent '${hook.agentName}' not found`, name);
+      return;
+    }
+
+    let text: string;
+    try {
+      text = hook.template
+        ? renderInlineTemplate(hook.template, { payload, hook: { name: hook.name }, headers: templateHeaders(req) })
+        : JSON.stringify(payload, null, 2);
+    } catch (err) {
+      this.reject(res, 422, errorMessage(err), name);
+      return;
+    }
+
+    const envelope = await this.router.routeEnvelope({
+      from: formatChannelAddress(WEBHOOK_PLATFORM, hook.name),
+      to: formatAgentAddress(agent.name),
+      fromBoss: false,
+      content: { text: truncateText(text) },
+      metadata: {
+        platform: WEBHOOK_PLATFORM,
+        channelMessageId: generateUUID(),
+        author: { id: hook.name, displayName: `webhook ${hook.name}` },
+        chat: { id: hook.name },
+      },
+    });
+    logEvent("info", "webhook-received", {
+      "webhook-name": hook.name,
+      "agent-name": agent.name,
+      "envelope-id": envelope.id,
+    });
+    sendJson(res, 202, { id: envelope.id });
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        logEvent("error", "webhook-request-failed", { error: errorMessage(err) });
+        if (!res.headersSent) sendJson(res, 500, { error: "internal error" });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    this.port = (server.address() as AddressInfo).port;
+    logEvent("info", "webhook-ingress-started", { host: this.host, port: this.port });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import type { Envelope } from "../../envelope/types.js";
+import type { Webhook } from "../../webhook/types.js";
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from "../../webhook/signature.js";
+import { WebhookDeliveryError, WebhookSink } from "./webhook-sink.js";
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+async function withReceiver(
+  statuses: number[],
+  run: (params: { url: string; received: Received[] }) => Promise<void>
+): Promise<void> {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks) });
+      res.writeHead(statuses[received.length - 1] ?? 200).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    await run({ url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/in`, received });
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+function makeHook(url: string): Webhook {
+  return { id: "hook-1", name: "ci", agentName: "nex", secret: "s3cret", url, rateLimitPerMinute: 60, createdAt: 0 };
+}
+
+function makeEnvelope(attachments?: Envelope["content"]["attachments"]): Envelope {
+  return {
+    id: "env-1",
+    from: "agent:nex",
+    to: "channel:webhook:ci",
+    fromBoss: false,
+    content: { text: "build is green", attachments },
+    status: "pending",
+    createdAt: 1_700_000_000_000,
+  };
+}
+
+test("webhook sink signs JSON payloads and retries retryable statuses", async () => {
+  await withReceiver([503, 200], async ({ url, received }) => {
+    const sink = new WebhookSink({ retryDelaysMs: [1, 1] });
+    await sink.deliver(makeHook(url), { envelope: makeEnvelope() });
+
+    assert.equal(received.length, 2);
+    const { headers, body } = received[1]!;
+    assert.equal(headers["content-type"], "application/json");
+    assert.equal(headers["x-hiboss-delivery"], "env-1");
+    assert.ok(verifyWebhookSignature("s3cret", body, String(headers[WEBHOOK_SIGNATURE_HEADER])));
+    const payload = JSON.parse(body.toString("utf8")) as Record<string, unknown>;
+    assert.equal(payload.text, "build is green");
+    assert.equal(payload.to, "channel:webhook:ci");
+    assert.deepEqual(received[0]!.body, body);
+  });
+});
+
+test("webhook sink sends attachments as multipart and does not retry client errors", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hiboss-webhook-sink-test-"));
+  const file = path.join(dir, "report.txt");
+  fs.writeFileSync(file, "report body");
+  try {
+    await withReceiver([200, 400], async ({ url, received }) => {
+      const sink = new WebhookSink({ retryDelaysMs: [1, 1] });
+      await sink.deliver(makeHook(url), { envelope: makeEnvelope([{ source: file }]) });
+
+      const { headers, body } = received[0]!;
+      assert.match(String(headers["content-type"]), /^multipart\/form-data; boundary=/);
+      const text = body.toString("utf8");
+      assert.match(text, /name="payload"/);
+      assert.match(text, /name="attachment-1"; filename="report.txt"\r\n[^]*\r\n\r\nreport body\r\n/);
+      assert.ok(verifyWebhookSignature("s3cret", body, String(headers[WEBHOOK_SIGNATURE_HEADER])));
+
+      await assert.rejects(sink.deliver(makeHook(url), { envelope: makeEnvelope() }), (err: unknown) => {
+        assert.ok(err instanceof WebhookDeliveryError);
+        assert.equal(err.status, 400);
+        assert.equal(err.attempts, 1);
+        return true;
+      });
+      assert.equal(received.length, 2);
+    });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
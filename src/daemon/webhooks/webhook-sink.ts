@@ -0,0 +1,180 @@
+/**
+ * Webhook sink: delivers `channel:webhook:<name>` envelopes to the hook's outbound URL.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { Envelope, EnvelopeAttachment } from "../../envelope/types.js";
+import type { Webhook } from "../../webhook/types.js";
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from "../../webhook/signature.js";
+
+// Delays before the 2nd and 3rd attempt; network errors, 408, 429, and 5xx are retried.
+const DEFAULT_RETRY_DELAYS_MS: readonly number[] = [1_000, 5_000];
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | undefined,
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = "WebhookDeliveryError";
+  }
+}
+
+export interface WebhookSinkOptions {
+  retryDelaysMs?: readonly number[];
+  timeoutMs?: number;
+}
+
+export interface WebhookDelivery {
+  envelope: Envelope;
+  parseMode?: string;
+  replyToMessageId?: string;
+}
+
+interface LoadedAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+async function loadAttachment(attachment: EnvelopeAttachment): Promise<LoadedAttachment> {
+  const source = attachment.source;
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch webhook attachment source: ${response.status}`);
+    }
+    const filename = attachment.filename?.trim() || path.basename(new URL(source).pathname) || "file.bin";
+    return { filename: path.basename(filename), content: Buffer.from(await response.arrayBuffer()) };
+  }
+
+  const resolvedPath = path.resolve(source);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Webhook attachment source file not found: ${resolvedPath}`);
+  }
+  const filename = attachment.filename?.trim() || path.basename(resolvedPath);
+  return { filename: path.basename(filename), content: await fs.promises.readFile(resolvedPath) };
+}
+
+function quoteFormValue(value: string): string {
+  return value.replace(/[\r\n"]/g, (c) => encodeURIComponent(c));
+}
+
+/**
+ * Build the request body: JSON alone, or `multipart/form-data` with a `payload` JSON part
+ * followed by `attachment-<n>` file parts.
+ */
+export function buildWebhookRequestBody(
+  payload: Record<string, unknown>,
+  attachments: LoadedAttachment[]
+): { body: Buffer; contentType: string } {
+  const json = JSON.stringify(payload);
+  if (attachments.length === 0) {
+    return { body: Buffer.from(json, "utf8"), contentType: "application/json" };
+  }
+
+  const boundary = `hiboss-${crypto.randomBytes(12).toString("hex")}`;
+  const parts: Buffer[] = [
+    Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="payload"\r\nContent-Type: application/json\r\n\r\n${json}\r\n`,
+      "utf8"
+    ),
+  ];
+  attachments.forEach((attachment, index) => {
+    parts.push(
+      Buffer.from(
+        `--${boundary}\r\nContent-Disposition: form-data; name="attachment-${index + 1}"; filename="${quoteFormValue(attachment.filename)}"\r\n` +
+          "Content-Type: application/octet-stream\r\n\r\n",
+        "utf8"
+      ),
+      attachment.content,
+      Buffer.from("\r\n", "utf8")
+    );
+  });
+  parts.push(Buffer.from(`--${boundary}--\r\n`, "utf8"));
+  return { body: Buffer.concat(parts), contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class WebhookSink {
+  private retryDelaysMs: readonly number[];
+  private timeoutMs: number;
+
+  constructor(options: WebhookSinkOptions = {}) {
+    this.retryDelaysMs = options.retryDelaysMs ?? DEFAULT_RETRY_DELAYS_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * POST an envelope to `hook.url`, signed with the hook secret.
+   *
+   * Retries reuse the same body and `X-Hiboss-Delivery` id, so receivers can de-duplicate.
+   */
+  async deliver(hook: Webhook, delivery: WebhookDelivery): Promise<void> {
+    if (!hook.url) {
+      throw new WebhookDeliveryError(`Webhook '${hook.name}' has no outbound url`, undefined, 0);
+    }
+
+    const { envelope } = delivery;
+    const attachments = await Promise.all((envelope.content.attachments ?? []).map(loadAttachment));
+    const payload: Record<string, unknown> = {
+      event: "envelope",
+      webhook: hook.name,
+      envelopeId: envelope.id,
+      from: envelope.from,
+      to: envelope.to,
+      text: envelope.content.text ?? null,
+      attachments: attachments.map((a, index) => ({ filename: a.filename, part: `attachment-${index + 1}` })),
+      createdAt: envelope.createdAt,
+      ...(delivery.parseMode ? { parseMode: delivery.parseMode } : {}),
+      ...(delivery.replyToMessageId ? { inReplyTo: delivery.replyToMessageId } : {}),
+    };
+    const { body, contentType } = buildWebhookRequestBody(payload, attachments);
+    const headers = {
+      "Content-Type": contentType,
+      "User-Agent": "hiboss-webhook",
+      "X-Hiboss-Event": "envelope",
+      "X-Hiboss-Delivery": envelope.id,
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(hook.secret, body),
+    };
+
+    const maxAttempts = this.retryDelaysMs.length + 1;
+    let lastError = "unknown error";
+    let lastStatus: number | undefined;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        await sleep(this.retryDelaysMs[attempt - 2]!);
+      }
+      try {
+        const response = await fetch(hook.url, {
+          method: "POST",
+          headers,
+          body: new Uint8Array(body),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        await response.arrayBuffer().catch(() => undefined);
+        if (response.ok) return;
+        lastStatus = response.status;
+        lastError = `HTTP ${response.status}`;
+        if (!isRetryableStatus(response.status)) {
+          throw new WebhookDeliveryError(lastError, lastStatus, attempt);
+        }
+      } catch (err) {
+        if (err instanceof WebhookDeliveryError) throw err;
+        lastStatus = undefined;
+        lastError = err instanceof Error ? err.message : String(err);
+      }
+    }
+    throw new WebhookDeliveryError(lastError, lastStatus, maxAttempts);
+  }
+}
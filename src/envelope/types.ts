@@ -19,8 +19,10 @@ export interface EnvelopeContent {
 
 /**
  * Envelope status.
+ *
+ * `in-flight` and `failed` are only used by agents in at-least-once delivery mode.
  */
-export type EnvelopeStatus = "pending" | "done";
+export type EnvelopeStatus = "pending" | "in-flight" | "done" | "failed";
 
 /**
  * Internal message format for agent-to-agent and human-to-agent communication.
@@ -33,6 +35,8 @@ export interface Envelope {
   content: EnvelopeContent;
   deliverAt?: number;         // unix epoch ms (UTC) (not-before delivery)
   status: EnvelopeStatus;
+  attempts?: number;          // delivery attempts so far (at-least-once mode)
+  leaseExpiresAt?: number;    // unix epoch ms (UTC) while in-flight
   createdAt: number;          // unix epoch ms (UTC)
   metadata?: Record<string, unknown>;
 }
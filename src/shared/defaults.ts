@@ -11,6 +11,8 @@ export const DEFAULT_SOCKET_FILENAME = "daemon.sock";
 export const DEFAULT_PID_FILENAME = "daemon.pid";
 export const DEFAULT_MEDIA_DIRNAME = "media";
 export const DEFAULT_AGENTS_DIRNAME = "agents";
+export const DEFAULT_ADAPTERS_DIRNAME = "adapters";
+export const DEFAULT_SHARED_DIRNAME = "shared";
 
 export function getDefaultHiBossDir(): string {
   return path.join(os.homedir(), DEFAULT_HIBOSS_DIRNAME);
@@ -25,6 +27,32 @@ export function getDefaultMediaDir(): string {
 export const DEFAULT_MEMORY_LONGTERM_MAX_CHARS = 12_000 as const;
 export const DEFAULT_MEMORY_SHORTTERM_PER_DAY_MAX_CHARS = 4_000 as const;
 export const DEFAULT_MEMORY_SHORTTERM_DAYS = 2 as const;
+// Team memory (`{{HIBOSS_DIR}}/shared/MEMORY.md`), injected into every agent's system prompt.
+export const DEFAULT_MEMORY_SHARED_MAX_CHARS = 6_000 as const;
+
+// Memory search (`hiboss memory search`): index chunk size and result limits.
+export const DEFAULT_MEMORY_SEARCH_CHUNK_MAX_CHARS = 600;
+export const DEFAULT_MEMORY_SEARCH_LIMIT = 8 as const;
+export const DEFAULT_MEMORY_SEARCH_MAX_LIMIT = 50 as const;
+// Optional HIBOSS_MEMORY_EMBED_COMMAND: texts per invocation and per-invocation timeout.
+export const DEFAULT_MEMORY_EMBED_BATCH_SIZE = 64;
+export const DEFAULT_MEMORY_EMBED_TIMEOUT_MS = 60 * 1000;
+// How long one search waits on embeddings (index catch-up plus the query); stays under the IPC timeout.
+// Chunks not embedded by then keep embedding in the background and are found by full-text meanwhile.
+export const DEFAULT_MEMORY_EMBED_SEARCH_WAIT_MS = 10 * 1000;
+
+// Daily memory consolidation (daemon-owned job, boss timezone): schedule, how many recent days
+// stay as daily files, and how much daily text one run folds into MEMORY.md.
+export const DEFAULT_MEMORY_CONSOLIDATION_CRON = "0 4 * * *" as const;
+export const DEFAULT_MEMORY_CONSOLIDATION_KEEP_DAYS = 7 as const;
+export const DEFAULT_MEMORY_CONSOLIDATION_MAX_INPUT_CHARS = 60_000;
+// `hiboss memory append|edit` by the boss waits this long for the agent's current run (IPC clients time out at 30s).
+export const DEFAULT_MEMORY_WRITE_WAIT_MS = 20 * 1000;
+// `hiboss memory history`: snapshots listed by default and at most.
+export const DEFAULT_MEMORY_HISTORY_LIMIT = 20 as const;
+export const DEFAULT_MEMORY_HISTORY_MAX_LIMIT = 200 as const;
+// Memory snapshots kept per agent; older ones are folded into a single baseline.
+export const DEFAULT_MEMORY_HISTORY_MAX_SNAPSHOTS = 500 as const;
 
 // ==================== Agent Defaults ====================
 
@@ -32,6 +60,19 @@ export const DEFAULT_AGENT_PROVIDER = "claude" as const;
 export const DEFAULT_AGENT_REASONING_EFFORT = "medium" as const;
 export const DEFAULT_AGENT_PERMISSION_LEVEL = "standard" as const;
 
+// ==================== OpenAI-Compatible Provider Defaults ====================
+
+// llama.cpp `llama-server` listens here by default; override with HIBOSS_OPENAI_BASE_URL.
+export const DEFAULT_OPENAI_BASE_URL = "http://127.0.0.1:8080/v1" as const;
+// Model calls per turn; the last call is made without tools so the turn always ends with text.
+export const DEFAULT_OPENAI_MAX_TOOL_ROUNDS = 8 as const;
+// Tool results fed back to the model are truncated to this many characters.
+export const DEFAULT_OPENAI_TOOL_RESULT_MAX_CHARS = 20_000;
+// One chat completion request; local models can be slow, but a hung server must not hold the run forever.
+export const DEFAULT_OPENAI_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+// Stored history re-sent per call is cut to the newest whole turns within this many characters (JSON).
+export const DEFAULT_OPENAI_HISTORY_MAX_CHARS = 200_000;
+
 // ==================== Reserved Agents ====================
 
 export const BACKGROUND_AGENT_NAME = "background" as const;
@@ -42,6 +83,35 @@ export const DEFAULT_BACKGROUND_MAX_CONCURRENT = 4 as const;
 export const DEFAULT_ENVELOPE_STATUS = "pending" as const;
 export const DEFAULT_AGENT_RUN_STATUS = "running" as const;
 export const DEFAULT_ENVELOPE_LIST_BOX = "inbox" as const;
+// Tool inputs stored in agent_run_events are truncated to this many characters.
+export const DEFAULT_AGENT_RUN_EVENT_INPUT_MAX_CHARS = 4000;
+
+// ==================== Envelope Delivery Defaults ====================
+
+export const DEFAULT_ENVELOPE_DELIVERY_MODE = "at-most-once" as const;
+export const DEFAULT_ENVELOPE_LEASE_MS = 10 * 60 * 1000;
+export const DEFAULT_ENVELOPE_MAX_ATTEMPTS = 5 as const;
+export const DEFAULT_ENVELOPE_RETRY_BASE_DELAY_MS = 30 * 1000;
+export const DEFAULT_ENVELOPE_RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// ==================== Webhook Defaults ====================
+
+export const DEFAULT_WEBHOOK_HOST = "127.0.0.1" as const;
+export const DEFAULT_WEBHOOK_PORT = 7341 as const;
+export const DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE = 60 as const;
+
+// ==================== Progress Defaults ====================
+
+// Minimum gap between edits of a live progress message (chat platforms rate-limit edits).
+export const DEFAULT_PROGRESS_EDIT_INTERVAL_MS = 2000;
+
+// Typing indicators expire on their own (Telegram ~5s, Discord ~10s); refresh before that.
+export const DEFAULT_TYPING_REFRESH_INTERVAL_MS = 4000;
+
+// ==================== Transcription Defaults ====================
+
+export const DEFAULT_TRANSCRIBE_TIMEOUT_MS = 2 * 60 * 1000;
+export const DEFAULT_TRANSCRIBE_MAX_OUTPUT_CHARS = 20_000;
 
 // ==================== Setup Defaults ====================
 
@@ -80,6 +150,8 @@ export const DEFAULT_PERMISSION_POLICY: PermissionPolicyV1 = {
     "envelope.send": "restricted",
     "envelope.list": "restricted",
     "envelope.thread": "restricted",
+    "envelope.dead-letters": "standard",
+    "envelope.retry": "standard",
 
     // Reactions
     "reaction.set": "restricted",
@@ -91,6 +163,11 @@ export const DEFAULT_PERMISSION_POLICY: PermissionPolicyV1 = {
     "cron.disable": "restricted",
     "cron.delete": "restricted",
 
+    // Webhook ingress
+    "hook.create": "boss",
+    "hook.list": "boss",
+    "hook.delete": "boss",
+
     // Daemon read-only
     "daemon.status": "boss",
     "daemon.ping": "standard",
@@ -102,6 +179,8 @@ export const DEFAULT_PERMISSION_POLICY: PermissionPolicyV1 = {
     "agent.register": "boss",
     "agent.list": "restricted",
     "agent.status": "restricted",
+    "agent.runs": "restricted",
+    "agent.run.show": "restricted",
     "agent.bind": "privileged",
     "agent.unbind": "privileged",
     "agent.refresh": "boss",
@@ -109,5 +188,16 @@ export const DEFAULT_PERMISSION_POLICY: PermissionPolicyV1 = {
     "agent.delete": "boss",
     "agent.set": "privileged",
     "agent.session-policy.set": "privileged",
+    "usage.report": "boss",
+    "memory.search": "restricted",
+    "memory.show": "restricted",
+    "memory.list-days": "restricted",
+    "memory.diff": "restricted",
+    "memory.append": "restricted",
+    "memory.edit": "standard",
+    "memory.history": "restricted",
+    "memory.restore": "standard",
+    // Write access (provider `--add-dir`) to the shared team memory; every agent can read it.
+    "memory.shared.write": "standard",
   },
 };
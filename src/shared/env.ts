@@ -1,2 +1,7 @@
 export const HIBOSS_TOKEN_ENV = "HIBOSS_TOKEN";
 export const HIBOSS_DIR_ENV = "HIBOSS_DIR";
+export const HIBOSS_WEBHOOK_PORT_ENV = "HIBOSS_WEBHOOK_PORT";
+export const HIBOSS_TRANSCRIBE_COMMAND_ENV = "HIBOSS_TRANSCRIBE_COMMAND";
+export const HIBOSS_OPENAI_BASE_URL_ENV = "HIBOSS_OPENAI_BASE_URL";
+export const HIBOSS_OPENAI_API_KEY_ENV = "HIBOSS_OPENAI_API_KEY";
+export const HIBOSS_MEMORY_EMBED_COMMAND_ENV = "HIBOSS_MEMORY_EMBED_COMMAND";
@@ -0,0 +1,33 @@
+import {
+  DEFAULT_ENVELOPE_DELIVERY_MODE,
+  DEFAULT_ENVELOPE_RETRY_BASE_DELAY_MS,
+  DEFAULT_ENVELOPE_RETRY_MAX_DELAY_MS,
+} from "./defaults.js";
+
+export const ENVELOPE_DELIVERY_MODES = ["at-most-once", "at-least-once"] as const;
+
+export type EnvelopeDeliveryMode = (typeof ENVELOPE_DELIVERY_MODES)[number];
+
+export function isEnvelopeDeliveryMode(value: unknown): value is EnvelopeDeliveryMode {
+  return value === "at-most-once" || value === "at-least-once";
+}
+
+/**
+ * Resolve an agent's envelope delivery mode from `metadata.envelopeDelivery`.
+ *
+ * Missing or unknown values fall back to at-most-once (historical behavior).
+ */
+export function parseEnvelopeDeliveryModeFromMetadata(metadata: unknown): EnvelopeDeliveryMode {
+  if (typeof metadata !== "object" || metadata === null) return DEFAULT_ENVELOPE_DELIVERY_MODE;
+  const mode = (metadata as Record<string, unknown>).envelopeDelivery;
+  return isEnvelopeDeliveryMode(mode) ? mode : DEFAULT_ENVELOPE_DELIVERY_MODE;
+}
+
+/**
+ * Exponential backoff before the next attempt, given how many attempts were already made.
+ */
+export function computeEnvelopeRetryDelayMs(attempts: number): number {
+  const n = Number.isFinite(attempts) ? Math.max(1, Math.trunc(attempts)) : 1;
+  const delay = DEFAULT_ENVELOPE_RETRY_BASE_DELAY_MS * 2 ** (n - 1);
+  return Math.min(delay, DEFAULT_ENVELOPE_RETRY_MAX_DELAY_MS);
+}
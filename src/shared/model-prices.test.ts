@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { computeTurnCostUsd, getUsageModelKey, parseModelPriceTable } from "./model-prices.js";
+import { getCalendarPeriodBoundsInTimeZone } from "./time.js";
+
+const usage = {
+  contextLength: null,
+  inputTokens: 1_000_000,
+  outputTokens: 100_000,
+  cacheReadTokens: 400_000,
+  cacheWriteTokens: null,
+};
+
+test("parseModelPriceTable reads setup-config price entries", () => {
+  assert.deepEqual(parseModelPriceTable({ "gpt-5": { input: 1.25, output: 10, "cache-read": 0.125 } }), {
+    "gpt-5": { input: 1.25, output: 10, cacheRead: 0.125 },
+  });
+  assert.throws(() => parseModelPriceTable({ "gpt-5": { input: -1, output: 10 } }), /gpt-5\.input/);
+});
+
+test("computeTurnCostUsd prices Codex cache hits out of input tokens", () => {
+  const price = { input: 1, output: 10, cacheRead: 0.1 };
+  // Codex: 600k uncached + 400k cached input; Claude: 1M input plus 400k cached.
+  assert.equal(computeTurnCostUsd({ inputIncludesCacheReads: true, usage: { ...usage, totalTokens: 1_100_000 }, price }), 1.64);
+  assert.equal(computeTurnCostUsd({ inputIncludesCacheReads: false, usage: { ...usage, totalTokens: 1_500_000 }, price }), 2.04);
+  assert.equal(computeTurnCostUsd({ inputIncludesCacheReads: false, usage: { ...usage, totalTokens: null }, price: undefined }), null);
+  assert.equal(getUsageModelKey({ provider: "codex", model: null }), "codex:default");
+});
+
+test("getCalendarPeriodBoundsInTimeZone spans the local day and month", () => {
+  const ms = Date.parse("2026-03-31T20:00:00Z"); // 2026-04-01 04:00 in Asia/Shanghai
+  assert.deepEqual(getCalendarPeriodBoundsInTimeZone(ms, "Asia/Shanghai", "day"), {
+    startMs: Date.parse("2026-03-31T16:00:00Z"),
+    endMs: Date.parse("2026-04-01T16:00:00Z"),
+  });
+  assert.deepEqual(getCalendarPeriodBoundsInTimeZone(ms, "Asia/Shanghai", "month"), {
+    startMs: Date.parse("2026-03-31T16:00:00Z"),
+    endMs: Date.parse("2026-04-30T16:00:00Z"),
+  });
+});
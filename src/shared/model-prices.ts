@@ -0,0 +1,121 @@
+/**
+ * Per-model token prices (`config.model_prices`) and turn cost accounting.
+ */
+
+import type { TurnTokenUsage } from "../agent/executor-support.js";
+
+/**
+ * USD per 1M tokens. Cache buckets fall back to the input price when omitted.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+/**
+ * Keyed by model name, or `<provider>:default` for runs that use the provider's default model.
+ */
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+function parsePriceValue(raw: unknown, label: string): number {
+  if (typeof raw !== "number" || !Number.isFinite(raw) || raw < 0) {
+    throw new Error(`Invalid model price (${label} must be a number >= 0)`);
+  }
+  return raw;
+}
+
+/**
+ * Parse a price table from its setup-config form:
+ * `{ "<model>": { "input": n, "output": n, "cache-read"?: n, "cache-write"?: n } }`.
+ */
+export function parseModelPriceTable(raw: unknown): ModelPriceTable {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Invalid model prices (expected object keyed by model name)");
+  }
+
+  const table: ModelPriceTable = {};
+  for (const [modelRaw, priceRaw] of Object.entries(raw as Record<string, unknown>)) {
+    const model = modelRaw.trim();
+    if (!model) {
+      throw new Error("Invalid model prices (model name must be non-empty)");
+    }
+    if (!priceRaw || typeof priceRaw !== "object" || Array.isArray(priceRaw)) {
+      throw new Error(`Invalid model price for '${model}' (expected object)`);
+    }
+    const p = priceRaw as Record<string, unknown>;
+    table[model] = {
+      input: parsePriceValue(p.input, `${model}.input`),
+      output: parsePriceValue(p.output, `${model}.output`),
+      ...(p["cache-read"] !== undefined
+        ? { cacheRead: parsePriceValue(p["cache-read"], `${model}.cache-read`) }
+        : {}),
+      ...(p["cache-write"] !== undefined
+        ? { cacheWrite: parsePriceValue(p["cache-write"], `${model}.cache-write`) }
+        : {}),
+    };
+  }
+  return table;
+}
+
+/**
+ * Inverse of `parseModelPriceTable` (setup export).
+ */
+export function formatModelPriceTable(table: ModelPriceTable): Record<string, Record<string, number>> {
+  return Object.fromEntries(
+    Object.entries(table).map(([model, price]) => [
+      model,
+      {
+        input: price.input,
+        output: price.output,
+        ...(price.cacheRead !== undefined ? { "cache-read": price.cacheRead } : {}),
+        ...(price.cacheWrite !== undefined ? { "cache-write": price.cacheWrite } : {}),
+      },
+    ])
+  );
+}
+
+/**
+ * Name a run's model for pricing and usage reports.
+ */
+export function getUsageModelKey(params: { provider?: string | null; model?: string | null }): string {
+  if (params.model) return params.model;
+  return `${params.provider ?? "unknown"}:default`;
+}
+
+/**
+ * Cost of one turn in USD, or null when the model has no price or the provider reported no usage.
+ */
+export function computeTurnCostUsd(params: {
+  /** True when the provider counts cache hits inside input tokens (Codex); false when they are a separate bucket (Claude). */
+  inputIncludesCacheReads: boolean;
+  usage: TurnTokenUsage;
+  price: ModelPrice | undefined;
+}): number | null {
+  const { inputIncludesCacheReads, usage, price } = params;
+  if (!price) return null;
+  if (usage.inputTokens === null && usage.outputTokens === null) return null;
+
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const uncachedInput = inputIncludesCacheReads
+    ? Math.max(0, (usage.inputTokens ?? 0) - cacheRead)
+    : usage.inputTokens ?? 0;
+
+  const cost =
+    uncachedInput * price.input +
+    (usage.outputTokens ?? 0) * price.output +
+    cacheRead * (price.cacheRead ?? price.input) +
+    cacheWrite * (price.cacheWrite ?? price.input);
+  return cost / TOKENS_PER_PRICE_UNIT;
+}
+
+/**
+ * Format a USD amount for CLI/status output.
+ */
+export function formatUsd(value: number): string {
+  return value.toFixed(4);
+}
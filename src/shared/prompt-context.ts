@@ -11,12 +11,14 @@ import { getAgentDir, getHiBossDir } from "../agent/home-setup.js";
 import {
   DEFAULT_AGENT_PROVIDER,
   DEFAULT_MEMORY_LONGTERM_MAX_CHARS,
+  DEFAULT_MEMORY_SHARED_MAX_CHARS,
   DEFAULT_MEMORY_SHORTTERM_DAYS,
   DEFAULT_MEMORY_SHORTTERM_PER_DAY_MAX_CHARS,
   getDefaultRuntimeWorkspace,
 } from "./defaults.js";
 import { formatShortId } from "./id-format.js";
 import { parseAgentRoleFromMetadata } from "./agent-role.js";
+import { getSharedMemoryDir } from "./shared-memory.js";
 
 const MAX_CUSTOM_FILE_CHARS = 10_000;
 
@@ -151,6 +153,19 @@ function getCronScheduleId(metadata: unknown): string | null {
   return typeof v === "string" && v.trim() ? v.trim() : null;
 }
 
+/**
+ * Names of audio attachments whose transcript was folded into the text (see ChannelBridge).
+ */
+function getTranscribedFrom(metadata: unknown): string {
+  if (!metadata || typeof metadata !== "object") return "";
+  const raw = (metadata as Record<string, unknown>).transcripts;
+  if (!Array.isArray(raw)) return "";
+  return raw
+    .filter((t): t is { source: string; filename?: string } => !!t && typeof t === "object" && typeof t.source === "string")
+    .map((t) => displayAttachmentName(t) ?? t.source)
+    .join(", ");
+}
+
 interface SemanticFromResult {
   fromName: string;
   isGroup: boolean;
@@ -236,6 +251,8 @@ export function buildSystemPromptContext(params: {
     name?: string;
     adapterIds?: Record<string, string>;
   };
+  /** Whether the agent may write the shared team memory (see `memory.shared.write`). */
+  sharedMemoryWritable?: boolean;
 }): Record<string, unknown> {
   const hibossDir = params.hibossDir ?? getHiBossDir();
   const bossTimeZone = (params.time?.bossTimezone ?? "").trim() || getDaemonIanaTimeZone();
@@ -283,6 +300,14 @@ export function buildSystemPromptContext(params: {
       dailyPerFileMaxChars: DEFAULT_MEMORY_SHORTTERM_PER_DAY_MAX_CHARS,
       dailyMaxChars: DEFAULT_MEMORY_SHORTTERM_PER_DAY_MAX_CHARS * DEFAULT_MEMORY_SHORTTERM_DAYS,
     },
+    sharedMemory: {
+      dir: getSharedMemoryDir(hibossDir),
+      writable: params.sharedMemoryWritable ?? false,
+      note: "",
+      noteFence: "```",
+      error: "",
+      maxChars: DEFAULT_MEMORY_SHARED_MAX_CHARS,
+    },
     boss: {
       name: params.boss?.name ?? "",
       adapterIds: params.boss?.adapterIds ?? {},
@@ -384,6 +409,7 @@ export function buildTurnPromptContext(params: {
       },
       deliverAt,
       cronId,
+      transcribedFrom: getTranscribedFrom(env.metadata),
       content: {
         text: env.content.text ?? "(none)",
         attachments,
@@ -457,6 +483,8 @@ export function buildCliEnvelopePromptContext(params: {
     return cronScheduleId ? formatShortId(cronScheduleId) : "";
   })();
 
+  const transcribedFrom = getTranscribedFrom(env.metadata);
+
   const lastDeliveryError = (() => {
     if (!env.metadata || typeof env.metadata !== "object") return null;
     const raw = (env.metadata as Record<string, unknown>).lastDeliveryError;
@@ -492,6 +520,7 @@ export function buildCliEnvelopePromptContext(params: {
       },
       deliverAt,
       cronId,
+      transcribedFrom,
       content: {
         text: env.content.text ?? "(none)",
         attachments,
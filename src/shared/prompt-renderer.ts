@@ -92,3 +92,36 @@ export function renderPrompt(options: RenderOptions): string {
   }
 }
 
+let cachedInlineEnv: nunjucks.Environment | null = null;
+
+function getInlineEnvironment(): nunjucks.Environment {
+  if (cachedInlineEnv) return cachedInlineEnv;
+  // No loader: inline templates cannot include files from `prompts/`.
+  // Payload fields are often optional, so undefined values render as empty strings.
+  cachedInlineEnv = new nunjucks.Environment([], {
+    autoescape: false,
+    throwOnUndefined: false,
+    trimBlocks: true,
+    lstripBlocks: true,
+  });
+  return cachedInlineEnv;
+}
+
+/**
+ * Compile a user-supplied template source, throwing on syntax errors.
+ */
+export function compileInlineTemplate(source: string): void {
+  new nunjucks.Template(source, getInlineEnvironment(), undefined, true);
+}
+
+/**
+ * Render a user-supplied template source (e.g. a webhook payload template).
+ */
+export function renderInlineTemplate(source: string, context: Record<string, unknown>): string {
+  try {
+    return getInlineEnvironment().renderString(source, context);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`[PromptRenderer] Failed to render inline template: ${message}`, { cause: error });
+  }
+}
@@ -16,6 +16,15 @@ export interface SessionPolicyConfig {
    * If `usage.context_length` is missing, the max-context-length policy is skipped for that run.
    */
   maxContextLength?: number;
+  /**
+   * Pause the agent once its priced run cost for the current calendar day (boss timezone)
+   * reaches this many USD. Costs come from `config.model_prices`.
+   */
+  dailyBudgetUsd?: number;
+  /**
+   * Pause the agent once its priced run cost for the current calendar month reaches this many USD.
+   */
+  monthlyBudgetUsd?: number;
 }
 
 export interface ParsedDailyResetAt {
@@ -28,6 +37,8 @@ export interface ParsedSessionPolicy {
   dailyResetAt?: ParsedDailyResetAt;
   idleTimeoutMs?: number;
   maxContextLength?: number;
+  dailyBudgetUsd?: number;
+  monthlyBudgetUsd?: number;
 }
 
 export interface UsageLike {
@@ -119,6 +130,19 @@ export function parseDurationToMs(input: string): number {
   return totalMs;
 }
 
+/**
+ * Validate a budget amount in USD; `label` names the field in the error.
+ */
+export function parseBudgetUsd(input: unknown, label: string): number {
+  if (typeof input !== "number" || !Number.isFinite(input)) {
+    throw new Error(`Invalid ${label}`);
+  }
+  if (input <= 0) {
+    throw new Error(`Invalid ${label} (must be > 0)`);
+  }
+  return input;
+}
+
 export function parseSessionPolicyConfig(
   input: unknown,
   opts: { strict: boolean }
@@ -152,5 +176,21 @@ export function parseSessionPolicyConfig(
     }
   }
 
+  if (typeof raw.dailyBudgetUsd === "number" && Number.isFinite(raw.dailyBudgetUsd)) {
+    if (raw.dailyBudgetUsd > 0) {
+      parsed.dailyBudgetUsd = raw.dailyBudgetUsd;
+    } else if (opts.strict) {
+      throw new Error("Invalid daily budget: must be > 0");
+    }
+  }
+
+  if (typeof raw.monthlyBudgetUsd === "number" && Number.isFinite(raw.monthlyBudgetUsd)) {
+    if (raw.monthlyBudgetUsd > 0) {
+      parsed.monthlyBudgetUsd = raw.monthlyBudgetUsd;
+    } else if (opts.strict) {
+      throw new Error("Invalid monthly budget: must be > 0");
+    }
+  }
+
   return parsed;
 }
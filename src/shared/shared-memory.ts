@@ -0,0 +1,78 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import type { Agent } from "../agent/types.js";
+import {
+  DEFAULT_AGENT_PERMISSION_LEVEL,
+  DEFAULT_MEMORY_SHARED_MAX_CHARS,
+  DEFAULT_SHARED_DIRNAME,
+} from "./defaults.js";
+import type { PermissionPolicyV1 } from "./permissions.js";
+import { getRequiredPermissionLevel, isAtLeastPermissionLevel } from "./permissions.js";
+
+const MEMORY_FILENAME = "MEMORY.md";
+
+/**
+ * Policy operation that decides which agents get write access to the shared memory space.
+ */
+export const SHARED_MEMORY_WRITE_OPERATION = "memory.shared.write";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+export function getSharedMemoryDir(hibossDir: string): string {
+  return path.join(hibossDir, DEFAULT_SHARED_DIRNAME);
+}
+
+export function canAgentWriteSharedMemory(agent: Agent, policy: PermissionPolicyV1): boolean {
+  const level = agent.permissionLevel ?? DEFAULT_AGENT_PERMISSION_LEVEL;
+  return isAtLeastPermissionLevel(level, getRequiredPermissionLevel(policy, SHARED_MEMORY_WRITE_OPERATION));
+}
+
+export function ensureSharedMemoryLayout(params: {
+  hibossDir: string;
+}): { ok: true } | { ok: false; error: string } {
+  try {
+    const dir = getSharedMemoryDir(params.hibossDir);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const memoryPath = path.join(dir, MEMORY_FILENAME);
+    if (!fs.existsSync(memoryPath)) {
+      fs.writeFileSync(memoryPath, "", "utf8");
+    } else if (!fs.statSync(memoryPath).isFile()) {
+      return { ok: false, error: `Expected file at ${memoryPath}` };
+    }
+
+    return { ok: true };
+  } catch (err) {
+    return { ok: false, error: getErrorMessage(err) };
+  }
+}
+
+export function readSharedMemorySnapshot(params: {
+  hibossDir: string;
+}):
+  | { ok: true; note: string }
+  | { ok: false; error: string } {
+  try {
+    const memoryPath = path.join(getSharedMemoryDir(params.hibossDir), MEMORY_FILENAME);
+
+    let raw = "";
+    if (fs.existsSync(memoryPath) && fs.statSync(memoryPath).isFile()) {
+      raw = fs.readFileSync(memoryPath, "utf8");
+    }
+
+    let note = raw.trim();
+    if (note.length > DEFAULT_MEMORY_SHARED_MAX_CHARS) {
+      note =
+        `${note.slice(0, DEFAULT_MEMORY_SHARED_MAX_CHARS)}\n\n` +
+        `<<truncated due to shared-memory-max-chars=${DEFAULT_MEMORY_SHARED_MAX_CHARS}>>`;
+    }
+
+    return { ok: true, note };
+  } catch (err) {
+    return { ok: false, error: getErrorMessage(err) };
+  }
+}
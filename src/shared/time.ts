@@ -437,3 +437,39 @@ export function delayUntilUnixMs(deliverAt: number): number {
   if (!isFiniteUnixMs(deliverAt)) return 0;
   return Math.max(0, deliverAt - Date.now());
 }
+
+/**
+ * Bounds of the calendar day or month containing `ms` in the given IANA timezone.
+ *
+ * Returns unix epoch milliseconds: `startMs` inclusive, `endMs` exclusive.
+ */
+export function getCalendarPeriodBoundsInTimeZone(
+  ms: number,
+  timeZone: string,
+  period: "day" | "month"
+): { startMs: number; endMs: number } {
+  const parts = getDateTimePartsAtUtcMs(timeZone, ms);
+  const start = {
+    year: parts.year,
+    month: parts.month,
+    day: period === "day" ? parts.day : 1,
+    hour: 0,
+    minute: 0,
+    second: 0,
+    millisecond: 0,
+  };
+  // Date.UTC normalizes day 32 / month 13 overflow into the following period.
+  const end = period === "day" ? { ...start, day: start.day + 1 } : { ...start, month: start.month + 1 };
+  return {
+    startMs: zonedLocalPartsToUnixMs({ ...start, timeZone }),
+    endMs: zonedLocalPartsToUnixMs({ ...end, timeZone }),
+  };
+}
+
+/**
+ * Calendar date (`YYYY-MM-DD`) of `ms` in the given IANA timezone.
+ */
+export function formatUnixMsAsDateInTimeZone(ms: number, timeZone: string): string {
+  const parts = getDateTimePartsAtUtcMs(timeZone, ms);
+  return `${parts.year}-${pad2(parts.month)}-${pad2(parts.day)}`;
+}
@@ -12,3 +12,12 @@ export function assertValidAgentName(name: string): void {
     throw new Error(AGENT_NAME_ERROR_MESSAGE);
   }
 }
+
+export const WEBHOOK_NAME_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const WEBHOOK_NAME_ERROR_MESSAGE =
+  "Webhook name must be lowercase alphanumeric with hyphens";
+
+export function isValidWebhookName(name: string): boolean {
+  return WEBHOOK_NAME_REGEX.test(name);
+}
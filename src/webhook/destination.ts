@@ -0,0 +1,35 @@
+import type { Webhook } from "./types.js";
+
+/**
+ * Adapter type of webhook addresses: `channel:webhook:<name>`.
+ */
+export const WEBHOOK_PLATFORM = "webhook";
+
+export type WebhookDestinationErrorKind = "webhook-not-found" | "webhook-no-url" | "no-binding";
+
+/**
+ * Check that `agentName` may send to `channel:webhook:<name>`.
+ *
+ * Webhooks are not bindings: a hook's outbound URL is reachable only by the agent the hook
+ * targets (its owner), and only when the hook has a URL configured.
+ */
+export function getWebhookDestinationError(
+  db: { getWebhookByName(name: string): Webhook | null },
+  agentName: string,
+  name: string
+): { kind: WebhookDestinationErrorKind; message: string } | null {
+  const hook = db.getWebhookByName(name);
+  if (!hook) {
+    return { kind: "webhook-not-found", message: `Webhook '${name}' not found` };
+  }
+  if (hook.agentName !== agentName) {
+    return {
+      kind: "no-binding",
+      message: `Agent '${agentName}' is not bound to adapter '${WEBHOOK_PLATFORM}' (webhook '${name}' belongs to '${hook.agentName}')`,
+    };
+  }
+  if (!hook.url) {
+    return { kind: "webhook-no-url", message: `Webhook '${name}' has no outbound url` };
+  }
+  return null;
+}
@@ -0,0 +1,37 @@
+import * as crypto from "crypto";
+
+/**
+ * Signature header on webhook requests: `sha256=<hex HMAC-SHA256 of the raw body>`.
+ *
+ * `X-Hub-Signature-256` uses the same format, so GitHub webhooks work unchanged.
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "x-hiboss-signature-256";
+export const WEBHOOK_SIGNATURE_HEADER_ALIASES: readonly string[] = [WEBHOOK_SIGNATURE_HEADER, "x-hub-signature-256"];
+
+const SIGNATURE_PREFIX = "sha256=";
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(24).toString("hex");
+}
+
+export function signWebhookPayload(secret: string, body: Buffer | string): string {
+  return `${SIGNATURE_PREFIX}${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+function timingSafeEqualStrings(a: string, b: string): boolean {
+  const left = Buffer.from(a, "utf8");
+  const right = Buffer.from(b, "utf8");
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export function verifyWebhookSignature(secret: string, body: Buffer, signature: string): boolean {
+  const trimmed = signature.trim();
+  if (!trimmed.toLowerCase().startsWith(SIGNATURE_PREFIX)) return false;
+  const actual = `${SIGNATURE_PREFIX}${trimmed.slice(SIGNATURE_PREFIX.length).toLowerCase()}`;
+  return timingSafeEqualStrings(actual, signWebhookPayload(secret, body));
+}
+
+export function verifyWebhookBearer(secret: string, authorization: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+  return match ? timingSafeEqualStrings(match[1]!.trim(), secret) : false;
+}
@@ -0,0 +1,18 @@
+export interface Webhook {
+  id: string;
+  name: string;              // URL path segment: POST /hooks/<name>
+  agentName: string;         // destination agent for payload envelopes
+  secret: string;            // HMAC-SHA256 key (also accepted as a bearer token)
+  template?: string;         // nunjucks source; missing means pretty-printed JSON
+  url?: string;              // outbound URL for channel:webhook:<name>; missing means ingress only
+  rateLimitPerMinute: number;
+  createdAt: number;         // unix epoch ms (UTC)
+}
+
+export interface CreateWebhookInput {
+  name: string;
+  agentName: string;
+  template?: string;
+  url?: string;
+  rateLimitPerMinute?: number;
+}